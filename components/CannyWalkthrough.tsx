@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Step-by-step Canny edge detection for the convolution lesson.
+ *
+ * Runs the lab's uploaded image or camera feed through `useImageProcessor`
+ * with Canny enabled, and steps through the matrix produced by each stage:
+ * smoothing, gradients, non-maximum suppression, double threshold and
+ * hysteresis.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ScanLine } from 'lucide-react';
+import { StepNavigator } from '../src/components/shared';
+import { MatrixVisualizer } from './MatrixVisualizer';
+import { Slider } from './ui';
+import { useImageProcessor } from '../hooks/useImageProcessor';
+import { DEFAULT_CANNY_OPTIONS, cannyStageToMatrix, countNonZero } from '../utils/canny';
+import type { CannyOptions, CannyStage } from '../utils/canny';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CannyWalkthroughProps {
+  /** Uploaded image as a data URL, or null */
+  imageUrl: string | null;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Whether the camera is streaming into `videoRef` */
+  isLive: boolean;
+  /** Working width in pixels; the height follows the source's aspect ratio */
+  width: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STEPS = [
+  {
+    title: 'Grayscale Input',
+    desc: 'Canny looks at brightness only, so color is dropped first. Every stage after this is a matrix of the same size.',
+  },
+  {
+    title: 'Gaussian Smoothing',
+    desc: 'A 5×5 Gaussian kernel averages away pixel noise that would otherwise turn into thousands of tiny edges.',
+  },
+  {
+    title: 'Sobel Gradients',
+    desc: 'Two 3×3 Sobel kernels measure horizontal and vertical change. Together they give every pixel an edge strength and a direction.',
+  },
+  {
+    title: 'Non-Maximum Suppression',
+    desc: 'Blurred edges are several pixels wide. A pixel survives only if it is stronger than both neighbours along its gradient.',
+  },
+  {
+    title: 'Double Threshold',
+    desc: 'Pixels above the high threshold are strong edges (white). Those between the two thresholds are weak candidates (gray).',
+  },
+  {
+    title: 'Hysteresis',
+    desc: 'Weak pixels are kept only when they touch a strong edge, so real contours stay unbroken and isolated noise disappears.',
+  },
+];
+
+/** Stages shown at each step */
+const STEP_STAGES: CannyStage[][] = [
+  ['gray'],
+  ['smoothed'],
+  ['magnitude', 'direction'],
+  ['suppressed'],
+  ['classes'],
+  ['edges'],
+];
+
+const STAGE_LABELS: Record<CannyStage, string> = {
+  gray: 'luminance',
+  smoothed: 'smoothed',
+  magnitude: 'magnitude √(Gx² + Gy²)',
+  direction: 'direction atan2(Gy, Gx)',
+  suppressed: 'thinned magnitude',
+  classes: 'weak / strong',
+  edges: 'edges',
+};
+
+/** Stages whose non-zero pixels are worth counting */
+const COUNTED_STAGES: CannyStage[] = ['suppressed', 'classes', 'edges'];
+
+/** Target on-screen width of each stage matrix */
+const STAGE_WIDTH = 280;
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+const ThresholdControls: React.FC<{
+  options: CannyOptions;
+  onChange: (options: CannyOptions) => void;
+}> = ({ options, onChange }) => {
+  // Moving one threshold past the other drags it along
+  const setLow = (low: number) => onChange({ lowThreshold: low, highThreshold: Math.max(low, options.highThreshold) });
+  const setHigh = (high: number) => onChange({ lowThreshold: Math.min(high, options.lowThreshold), highThreshold: high });
+
+  return (
+    <div className="grid grid-cols-2 gap-4 w-full max-w-md">
+      {([['Low', options.lowThreshold, setLow], ['High', options.highThreshold, setHigh]] as const).map(([label, value, set]) => (
+        <Slider key={label} label={`${label} threshold`} value={value} min={1} max={150} step={1} onChange={set} />
+      ))}
+    </div>
+  );
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Canny pipeline with one navigator step per stage.
+ */
+export const CannyWalkthrough: React.FC<CannyWalkthroughProps> = ({ imageUrl, videoRef, isLive, width }) => {
+  const [step, setStep] = useState(0);
+  const [thresholds, setThresholds] = useState<CannyOptions>(DEFAULT_CANNY_OPTIONS);
+  const originalRef = useRef<HTMLCanvasElement>(null);
+  const processedRef = useRef<HTMLCanvasElement>(null);
+  const { cannyResult, processImage, startProcessing, stopProcessing } = useImageProcessor({ canny: thresholds });
+
+  /** Sizes both canvases to the working width, keeping the source's aspect ratio */
+  const prepareCanvases = useCallback((sourceWidth: number, sourceHeight: number) => {
+    const original = originalRef.current;
+    const processed = processedRef.current;
+    if (!original || !processed || !sourceWidth || !sourceHeight) return null;
+    const height = Math.max(1, Math.round(width * sourceHeight / sourceWidth));
+    for (const canvas of [original, processed]) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    return { original, processed };
+  }, [width]);
+
+  useEffect(() => {
+    if (isLive || !imageUrl) return;
+    const img = new Image();
+    img.onload = () => {
+      const canvases = prepareCanvases(img.width, img.height);
+      if (canvases) processImage(img, canvases.original, canvases.processed);
+    };
+    img.src = imageUrl;
+  }, [imageUrl, isLive, prepareCanvases, processImage]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isLive || !video) return;
+    const canvases = prepareCanvases(video.videoWidth || 4, video.videoHeight || 3);
+    if (!canvases) return;
+    startProcessing(video, canvases.original, canvases.processed);
+    return stopProcessing;
+  }, [isLive, videoRef, prepareCanvases, startProcessing, stopProcessing]);
+
+  const stages = STEP_STAGES[step];
+  const matrices = useMemo(
+    () => (cannyResult ? stages.map(stage => cannyStageToMatrix(cannyResult, stage)) : []),
+    [cannyResult, stages]
+  );
+  const cellSize = Math.max(1, Math.floor(STAGE_WIDTH / Math.max(width, 1)));
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex items-center gap-2">
+        <ScanLine size={14} className="text-violet-400" />
+        <span className="text-sm font-medium">Canny Edge Detection</span>
+        <span className="text-[10px] text-neutral-500">five stages built from convolutions and simple rules</span>
+      </div>
+
+      <StepNavigator
+        steps={STEPS}
+        currentStep={step}
+        onStepChange={setStep}
+        onComplete={() => setStep(0)}
+      >
+        {cannyResult ? (
+          <div className="flex flex-col items-center gap-5 w-full">
+            <div className="flex flex-wrap justify-center gap-6">
+              {stages.map((stage, i) => (
+                <div key={stage} className="space-y-2">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <span className="text-xs font-mono text-violet-300">{STAGE_LABELS[stage]}</span>
+                    {COUNTED_STAGES.includes(stage) && (
+                      <span className="text-[10px] text-neutral-500">{countNonZero(cannyResult[stage])} px</span>
+                    )}
+                  </div>
+                  <MatrixVisualizer matrix={matrices[i]} mode="gray" cellSize={cellSize} compact />
+                </div>
+              ))}
+            </div>
+            {(stages.includes('classes') || stages.includes('edges')) && (
+              <ThresholdControls options={thresholds} onChange={setThresholds} />
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-500">Upload an image or start the camera to run the pipeline.</p>
+        )}
+      </StepNavigator>
+
+      <canvas ref={originalRef} className="hidden" />
+      <canvas ref={processedRef} className="hidden" />
+    </div>
+  );
+};
+
+export default CannyWalkthrough;
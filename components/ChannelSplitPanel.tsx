@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Color-space decomposition panel for the CNN lab.
+ *
+ * Shows the source image split into the three channels of a chosen
+ * color space, side by side, and lets the learner pick one channel for
+ * the active kernel to run on instead of all of R, G and B.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Layers, Info } from 'lucide-react';
+import { MatrixVisualizer } from './MatrixVisualizer';
+import { COLOR_SPACE_CHANNELS } from '../utils/colorConversion';
+import type { ColorSpace } from '../utils/colorConversion';
+import { splitChannels } from '../utils/colorChannels';
+import type { ColorChannelTarget } from '../utils/colorChannels';
+import type { RgbaMatrix } from '../utils/rgbaMatrix';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ChannelSplitPanelProps {
+  /** Unfiltered input image */
+  source: RgbaMatrix;
+  /** Channel the kernel runs on, or null for all RGB channels */
+  target: ColorChannelTarget | null;
+  onTargetChange: (target: ColorChannelTarget | null) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SPACES: { id: ColorSpace; label: string }[] = [
+  { id: 'rgb', label: 'RGB' },
+  { id: 'hsv', label: 'HSV' },
+  { id: 'hsl', label: 'HSL' },
+  { id: 'ycbcr', label: 'YCbCr' },
+  { id: 'lab', label: 'Lab' },
+];
+
+/** What each channel holds and how it is stored as a byte */
+const CHANNEL_HINTS: Record<ColorSpace, [string, string, string]> = {
+  rgb: ['red', 'green', 'blue'],
+  hsv: ['hue, 0–360° → 0–255', 'saturation', 'value (max channel)'],
+  hsl: ['hue, 0–360° → 0–255', 'saturation', 'lightness'],
+  ycbcr: ['luma', 'blue difference, 128 = none', 'red difference, 128 = none'],
+  lab: ['lightness, 0–100 → 0–255', 'green ↔ red, +128', 'blue ↔ yellow, +128'],
+};
+
+const SPACE_NOTES: Record<ColorSpace, string> = {
+  rgb: 'All three channels carry brightness and color mixed together, which is why an edge shows up in each of them.',
+  hsv: 'Hue is an angle: red sits at both ends of the range, so blurring hue smears reds into every other color.',
+  hsl: 'Like HSV, but lightness is halfway between the strongest and weakest channel, so pure colors sit at 50%.',
+  ycbcr: 'Nearly all the detail is in Y. JPEG keeps Cb and Cr at lower resolution because we barely notice.',
+  lab: 'Built so equal steps look equally different, which makes distances between colors meaningful.',
+};
+
+/** Target on-screen width of each channel grid */
+const THUMB_WIDTH = 200;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Channel matrices of the source image and the channel filter picker.
+ */
+export const ChannelSplitPanel: React.FC<ChannelSplitPanelProps> = ({ source, target, onTargetChange }) => {
+  const [space, setSpace] = useState<ColorSpace>(target?.space ?? 'rgb');
+  const channels = useMemo(() => splitChannels(source, space), [source, space]);
+
+  const names = COLOR_SPACE_CHANNELS[space];
+  const cellSize = Math.max(1, Math.floor(THUMB_WIDTH / Math.max(source.width, 1)));
+
+  const changeSpace = (next: ColorSpace) => {
+    setSpace(next);
+    if (target) onTargetChange(null);
+  };
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Layers size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">Color Channels</span>
+          <span className="text-[10px] text-neutral-500">
+            {target ? `kernel runs on ${COLOR_SPACE_CHANNELS[target.space][target.channel]} only` : 'kernel runs on R, G and B'}
+          </span>
+        </div>
+        <div className="flex gap-1">
+          {SPACES.map(s => (
+            <button
+              key={s.id}
+              onClick={() => changeSpace(s.id)}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all ${space === s.id ? 'bg-violet-500/20 text-violet-300' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap gap-4">
+          {channels.map((channel, i) => {
+            const index = i as ColorChannelTarget['channel'];
+            const selected = target?.space === space && target.channel === index;
+            return (
+              <div key={`${space}-${i}`} className="space-y-2">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-xs font-mono text-violet-300">{names[i]}</span>
+                  <span className="text-[10px] text-neutral-500">{CHANNEL_HINTS[space][i]}</span>
+                </div>
+                <MatrixVisualizer matrix={channel} mode="gray" cellSize={cellSize} compact />
+                <button
+                  onClick={() => onTargetChange(selected ? null : { space, channel: index })}
+                  className={`w-full py-1.5 rounded-lg text-[11px] font-medium transition-all ${selected ? 'bg-violet-500/20 text-violet-300' : 'bg-white/5 text-neutral-400 hover:bg-white/10'}`}
+                >
+                  {selected ? 'Filtering this channel' : `Filter ${names[i]} only`}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-start gap-2 text-[11px] text-neutral-400">
+          <Info size={12} className="text-violet-400 mt-0.5 shrink-0" />
+          <span>{SPACE_NOTES[space]}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelSplitPanel;
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview CNN pipeline builder for the architecture lesson.
+ *
+ * Stacks conv, ReLU, pool and flatten layers on the lab's input matrix
+ * and shows every intermediate feature map, with the output shape and
+ * parameter count of each layer.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Network, AlertTriangle } from 'lucide-react';
+import type { PixelData, AlgorithmInfo } from '../types';
+import { MatrixVisualizer } from './MatrixVisualizer';
+import {
+  matrixToFeatureMaps,
+  featureMapToPixels,
+  runPipeline,
+  formatShape,
+} from '../utils/cnnPipeline';
+import type { PipelineLayer, PipelineLayerSpec, PipelineLayerType, PipelineStep } from '../utils/cnnPipeline';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface CnnPipelineBuilderProps {
+  /** Matrix from the lab's input, before any kernel is applied */
+  matrix: PixelData[][];
+  /** Kernels available as conv filters */
+  algorithms: Record<string, AlgorithmInfo>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const LAYER_LABELS: Record<PipelineLayerType, string> = {
+  conv: 'Conv',
+  relu: 'ReLU',
+  pool: 'Pool',
+  flatten: 'Flatten',
+};
+
+const LAYER_COLORS: Record<PipelineLayerType, string> = {
+  conv: 'text-violet-300 bg-violet-500/15',
+  relu: 'text-amber-300 bg-amber-500/15',
+  pool: 'text-teal-300 bg-teal-500/15',
+  flatten: 'text-rose-300 bg-rose-500/15',
+};
+
+const NEW_LAYERS: Record<PipelineLayerType, PipelineLayerSpec> = {
+  conv: { type: 'conv', filters: ['edge-detection'], stride: 1 },
+  relu: { type: 'relu' },
+  pool: { type: 'pool', mode: 'max', window: 2, stride: 2 },
+  flatten: { type: 'flatten' },
+};
+
+/** A small LeNet-style starting point */
+const DEFAULT_LAYERS: PipelineLayerSpec[] = [
+  { type: 'conv', filters: ['sobel', 'edge-detection', 'sharpen'], stride: 1 },
+  { type: 'relu' },
+  { type: 'pool', mode: 'max', window: 2, stride: 2 },
+  { type: 'conv', filters: ['gaussian-blur', 'edge-detection'], stride: 1 },
+  { type: 'relu' },
+  { type: 'pool', mode: 'max', window: 2, stride: 2 },
+  { type: 'flatten' },
+];
+
+/** On-screen width of each feature-map thumbnail */
+const THUMB_WIDTH = 96;
+
+/** Thumbnails shown per layer before the rest are summarized */
+const MAX_THUMBNAILS = 8;
+
+/** Width of the grid used to draw a flattened vector */
+const VECTOR_ROW = 32;
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/**
+ * One feature map, rescaled to its own range.
+ */
+const FeatureMapThumb: React.FC<{ map: number[][]; label: string }> = ({ map, label }) => {
+  const pixels = useMemo(() => featureMapToPixels(map), [map]);
+  const cellSize = Math.max(2, Math.floor(THUMB_WIDTH / Math.max(map[0]?.length ?? 1, 1)));
+  return (
+    <div className="shrink-0">
+      <MatrixVisualizer matrix={pixels} mode="gray" cellSize={cellSize} compact />
+      <span className="block mt-1 text-[10px] text-neutral-500 truncate" style={{ maxWidth: THUMB_WIDTH + 32 }}>
+        {label}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * A flattened vector drawn as rows of VECTOR_ROW values.
+ */
+const VectorStrip: React.FC<{ vector: number[] }> = ({ vector }) => {
+  const rows = useMemo(() => {
+    const out: number[][] = [];
+    // Looped, since a long vector overflows Math.min(...vector)
+    let min = Infinity;
+    for (const v of vector) min = Math.min(min, v);
+    for (let i = 0; i < vector.length; i += VECTOR_ROW) {
+      const row = vector.slice(i, i + VECTOR_ROW);
+      // Pad the last row with the minimum so it reads as empty
+      while (row.length < VECTOR_ROW && out.length) row.push(min);
+      out.push(row);
+    }
+    return out;
+  }, [vector]);
+
+  return <FeatureMapThumb map={rows} label={`${vector.length} values, ${VECTOR_ROW} per row`} />;
+};
+
+const LayerSettings: React.FC<{
+  layer: PipelineLayer;
+  algorithms: Record<string, AlgorithmInfo>;
+  onChange: (changes: Partial<PipelineLayerSpec>) => void;
+}> = ({ layer, algorithms, onChange }) => {
+  const select = 'bg-black/40 border border-white/10 rounded-md px-1.5 py-0.5 text-[11px] text-neutral-200';
+
+  if (layer.type === 'conv') {
+    const toggle = (key: string) => onChange({
+      filters: layer.filters.includes(key) ? layer.filters.filter(f => f !== key) : [...layer.filters, key],
+    });
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(algorithms).map(([key, algo]) => (
+            <button
+              key={key}
+              onClick={() => toggle(key)}
+              className={`px-2 py-0.5 rounded-md text-[10px] transition-colors ${layer.filters.includes(key) ? 'bg-violet-500/20 text-violet-300' : 'bg-white/5 text-neutral-500 hover:text-neutral-300'}`}
+            >
+              {algo.name}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-[10px] text-neutral-500">
+          Stride
+          <select value={layer.stride} onChange={(e) => onChange({ stride: Number(e.target.value) })} className={select}>
+            {[1, 2].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <span className="text-neutral-600">same padding (zeros)</span>
+        </label>
+      </div>
+    );
+  }
+
+  if (layer.type === 'pool') {
+    return (
+      <div className="flex flex-wrap items-center gap-3 text-[10px] text-neutral-500">
+        <select value={layer.mode} onChange={(e) => onChange({ mode: e.target.value as 'max' | 'average' })} className={select}>
+          <option value="max">Max</option>
+          <option value="average">Average</option>
+        </select>
+        <label className="flex items-center gap-1.5">
+          Window
+          <select value={layer.window} onChange={(e) => onChange({ window: Number(e.target.value) })} className={select}>
+            {[2, 3, 4].map(n => <option key={n} value={n}>{n}×{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Stride
+          <select value={layer.stride} onChange={(e) => onChange({ stride: Number(e.target.value) })} className={select}>
+            {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-[10px] text-neutral-500">
+      {layer.type === 'relu'
+        ? 'max(0, x) on every value: negative responses are cut to zero.'
+        : 'Unrolls every map into one vector, ready for a fully connected layer.'}
+    </p>
+  );
+};
+
+/**
+ * Thumbnails for one layer's output.
+ */
+const StepOutput: React.FC<{
+  step: PipelineStep;
+  algorithms: Record<string, AlgorithmInfo>;
+}> = ({ step, algorithms }) => {
+  if (step.vector) return <VectorStrip vector={step.vector} />;
+
+  const label = (i: number) =>
+    step.layer.type === 'conv' ? algorithms[step.layer.filters[i]]?.name ?? `map ${i + 1}` : `map ${i + 1}`;
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-1">
+      {step.maps.slice(0, MAX_THUMBNAILS).map((map, i) => (
+        <FeatureMapThumb key={i} map={map} label={label(i)} />
+      ))}
+      {step.maps.length > MAX_THUMBNAILS && (
+        <span className="self-center text-[10px] text-neutral-500">+{step.maps.length - MAX_THUMBNAILS} more</span>
+      )}
+    </div>
+  );
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Editable layer stack with per-layer feature maps, shapes and parameters.
+ */
+export const CnnPipelineBuilder: React.FC<CnnPipelineBuilderProps> = ({ matrix, algorithms }) => {
+  const nextId = useRef(DEFAULT_LAYERS.length);
+  const [channels, setChannels] = useState<'gray' | 'rgb'>('rgb');
+  const [layers, setLayers] = useState<PipelineLayer[]>(() =>
+    DEFAULT_LAYERS.map((layer, id) => ({ ...layer, id }) as PipelineLayer)
+  );
+
+  const input = useMemo(() => matrixToFeatureMaps(matrix, channels), [matrix, channels]);
+  const result = useMemo(() => runPipeline(input, layers, algorithms), [input, layers, algorithms]);
+
+  const addLayer = (type: PipelineLayerType) => {
+    setLayers(prev => [...prev, { ...NEW_LAYERS[type], id: nextId.current++ } as PipelineLayer]);
+  };
+
+  const updateLayer = (id: number, changes: Partial<PipelineLayerSpec>) => {
+    setLayers(prev => prev.map(l => (l.id === id ? ({ ...l, ...changes } as PipelineLayer) : l)));
+  };
+
+  const removeLayer = (id: number) => setLayers(prev => prev.filter(l => l.id !== id));
+
+  const moveLayer = (index: number, offset: number) => {
+    setLayers(prev => {
+      const next = [...prev];
+      const [layer] = next.splice(index, 1);
+      next.splice(index + offset, 0, layer);
+      return next;
+    });
+  };
+
+  const inputShape = [input.length, input[0]?.length ?? 0, input[0]?.[0]?.length ?? 0];
+  const lastShape = result.steps.at(-1)?.shape ?? inputShape;
+
+  if (!matrix.length) return null;
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Network size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">CNN Pipeline</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs font-mono text-neutral-500">
+          <span>{formatShape(inputShape)} → {formatShape(lastShape)}</span>
+          <span className="text-violet-300">{result.totalParams.toLocaleString()} params</span>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {/* Input */}
+        <div className="rounded-lg bg-black/20 border border-white/5 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <span className="px-2 py-0.5 rounded-md text-[10px] font-medium bg-white/10 text-neutral-300">Input</span>
+              <span className="text-[11px] font-mono text-neutral-400">{formatShape(inputShape)}</span>
+            </div>
+            <div className="flex gap-1">
+              {(['rgb', 'gray'] as const).map(c => (
+                <button
+                  key={c}
+                  onClick={() => setChannels(c)}
+                  className={`px-2 py-0.5 rounded-md text-[10px] uppercase transition-colors ${channels === c ? 'bg-white/10 text-white' : 'text-neutral-500 hover:bg-white/5'}`}
+                >
+                  {c}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {input.map((map, i) => (
+              <FeatureMapThumb key={i} map={map} label={channels === 'gray' ? 'gray' : ['red', 'green', 'blue'][i]} />
+            ))}
+          </div>
+        </div>
+
+        {/* Layers */}
+        {layers.map((layer, index) => {
+          const step = result.steps[index];
+          const failed = result.error?.layerId === layer.id;
+          return (
+            <div
+              key={layer.id}
+              className={`rounded-lg border p-3 ${failed ? 'border-red-500/40 bg-red-500/5' : 'border-white/5 bg-black/20'} ${!step && !failed ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-medium ${LAYER_COLORS[layer.type]}`}>
+                    {index + 1}. {LAYER_LABELS[layer.type]}
+                  </span>
+                  {step && (
+                    <span className="text-[11px] font-mono text-neutral-400">
+                      → {formatShape(step.shape)}
+                      {step.params > 0 && <span className="text-violet-300"> · {step.params.toLocaleString()} params</span>}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-0.5">
+                  <button onClick={() => moveLayer(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-white/10 disabled:opacity-30" aria-label="Move layer up">
+                    <ChevronUp size={12} className="text-neutral-400" />
+                  </button>
+                  <button onClick={() => moveLayer(index, 1)} disabled={index === layers.length - 1} className="p-1 rounded hover:bg-white/10 disabled:opacity-30" aria-label="Move layer down">
+                    <ChevronDown size={12} className="text-neutral-400" />
+                  </button>
+                  <button onClick={() => removeLayer(layer.id)} className="p-1 rounded hover:bg-white/10" aria-label="Remove layer">
+                    <Trash2 size={12} className="text-neutral-400" />
+                  </button>
+                </div>
+              </div>
+
+              <LayerSettings layer={layer} algorithms={algorithms} onChange={(changes) => updateLayer(layer.id, changes)} />
+
+              {failed && (
+                <p className="mt-2 text-[11px] text-red-400 flex items-center gap-1.5">
+                  <AlertTriangle size={12} /> {result.error?.message}
+                </p>
+              )}
+              {step && (
+                <div className="mt-3">
+                  <StepOutput step={step} algorithms={algorithms} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Add layer */}
+        <div className="flex flex-wrap gap-2 pt-1">
+          {(Object.keys(LAYER_LABELS) as PipelineLayerType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => addLayer(type)}
+              className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs flex items-center gap-1.5 hover:bg-white/10 transition-colors"
+            >
+              <Plus size={12} /> {LAYER_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CnnPipelineBuilder;
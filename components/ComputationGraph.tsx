@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Drawing of an autograd computation graph.
+ *
+ * Nodes are laid out left to right from the leaves to the output. Each
+ * box shows the operation, its forward value and the gradient left by the
+ * last backward pass; edges can carry the local derivative they multiply
+ * the gradient by on the way back.
+ */
+
+import React, { useMemo } from 'react';
+import { GRAD_OP_SYMBOLS, layoutGraph } from '../utils/autograd';
+import type { GradNode } from '../utils/autograd';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ComputationGraphProps {
+  /** Node whose ancestors are drawn */
+  output: GradNode;
+  /** Leave constant nodes and their edges out */
+  hideConstants?: boolean;
+  /** Label each edge with ∂node/∂input */
+  showLocalGrads?: boolean;
+  /** Nodes drawn in the accent colour, e.g. one chain-rule path */
+  highlight?: GradNode[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const NODE_WIDTH = 92;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 44;
+const ROW_GAP = 14;
+const PADDING = 8;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const formatNumber = (value: number) => {
+  if (!Number.isFinite(value)) return String(value);
+  if (value !== 0 && (Math.abs(value) >= 1e4 || Math.abs(value) < 1e-3)) return value.toExponential(1);
+  return parseFloat(value.toFixed(3)).toString();
+};
+
+/** Title line of a node: its label, or its operation for unnamed nodes */
+const getNodeTitle = (node: GradNode) => {
+  if (node.label) return node.label;
+  if (node.op === 'const') return formatNumber(node.value);
+  return GRAD_OP_SYMBOLS[node.op];
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const ComputationGraph: React.FC<ComputationGraphProps> = ({
+  output,
+  hideConstants = false,
+  showLocalGrads = false,
+  highlight = [],
+}) => {
+  const layout = useMemo(() => layoutGraph(output, { hideConstants }), [output, hideConstants]);
+
+  const positions = new Map<GradNode, { x: number; y: number }>();
+  let columns = 0;
+  let rows = 0;
+  for (const { node, depth, row } of layout) {
+    positions.set(node, {
+      x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+    });
+    columns = Math.max(columns, depth + 1);
+    rows = Math.max(rows, row + 1);
+  }
+  const width = 2 * PADDING + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = 2 * PADDING + rows * NODE_HEIGHT + (rows - 1) * ROW_GAP;
+  const highlighted = new Set(highlight);
+
+  const edges = layout.flatMap(({ node }) =>
+    node.inputs.flatMap((input, k) => {
+      const from = positions.get(input);
+      const to = positions.get(node);
+      if (!from || !to) return [];
+      return [{ key: `${input.id}-${node.id}-${k}`, input, node, local: node.localGrads[k], from, to }];
+    })
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className="max-w-none mx-auto">
+        {edges.map(({ key, input, node, local, from, to }) => {
+          const x1 = from.x + NODE_WIDTH;
+          const y1 = from.y + NODE_HEIGHT / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_HEIGHT / 2;
+          const onPath = highlighted.has(input) && highlighted.has(node);
+          return (
+            <g key={key}>
+              <path
+                d={`M ${x1} ${y1} C ${x1 + COLUMN_GAP / 2} ${y1}, ${x2 - COLUMN_GAP / 2} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke={onPath ? '#a78bfa' : 'rgba(255,255,255,0.2)'}
+                strokeWidth={onPath ? 2 : 1}
+              />
+              {showLocalGrads && (
+                <text
+                  x={(x1 + x2) / 2}
+                  y={(y1 + y2) / 2 - 4}
+                  textAnchor="middle"
+                  fontSize="9"
+                  fill={onPath ? '#c4b5fd' : 'rgba(255,255,255,0.45)'}
+                  className="font-mono"
+                >
+                  {formatNumber(local)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {layout.map(({ node }) => {
+          const { x, y } = positions.get(node)!;
+          const isHighlighted = highlighted.has(node);
+          return (
+            <g key={node.id}>
+              <rect
+                x={x}
+                y={y}
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx="8"
+                fill={isHighlighted ? 'rgba(139,92,246,0.15)' : 'rgba(255,255,255,0.03)'}
+                stroke={isHighlighted ? '#8b5cf6' : node === output ? 'rgba(255,255,255,0.4)' : 'rgba(255,255,255,0.15)'}
+              />
+              <text x={x + NODE_WIDTH / 2} y={y + 16} textAnchor="middle" fontSize="11" fill="white" className="font-mono">
+                {getNodeTitle(node)}
+              </text>
+              <text x={x + NODE_WIDTH / 2} y={y + 31} textAnchor="middle" fontSize="9" fill="#60a5fa" className="font-mono">
+                {formatNumber(node.value)}
+              </text>
+              <text x={x + NODE_WIDTH / 2} y={y + 44} textAnchor="middle" fontSize="9" fill="#f472b6" className="font-mono">
+                ∇ {formatNumber(node.grad)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-center gap-4 mt-2 text-[10px] text-white/40">
+        <span><span className="text-blue-400">■</span> forward value</span>
+        <span><span className="text-pink-400">■</span> gradient ∂out/∂node</span>
+        {showLocalGrads && <span>edge: local derivative</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ComputationGraph;
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Histogram and point-operation panel for the image-matrix
+ * lesson.
+ *
+ * Plots per-channel histograms and cumulative distributions of the input
+ * before and after the selected point operation, along with the
+ * operation's input → output curve.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Slider } from './ui';
+import {
+  computeHistograms,
+  cumulativeDistribution,
+  getHistogramStats,
+  buildPointLut,
+  applyPointOperation,
+  resolveThreshold,
+  HISTOGRAM_CHANNELS,
+  DEFAULT_POINT_OPERATIONS,
+} from '../utils/pointOps';
+import type { PointOperation, PointOperationType, HistogramChannel, HistogramStats } from '../utils/pointOps';
+import type { RgbaMatrix } from '../utils/rgbaMatrix';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface HistogramPanelProps {
+  /** Input image, before any point operation */
+  source: RgbaMatrix;
+  /** Active operation, or null for none */
+  operation: PointOperation | null;
+  onOperationChange: (operation: PointOperation | null) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const OPERATIONS: { id: PointOperationType | 'none'; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'linear', label: 'Bright/Contrast' },
+  { id: 'gamma', label: 'Gamma' },
+  { id: 'threshold', label: 'Threshold' },
+  { id: 'equalize', label: 'Equalize' },
+];
+
+const CHANNEL_COLORS: Record<HistogramChannel, string> = {
+  r: '#f87171',
+  g: '#4ade80',
+  b: '#60a5fa',
+  gray: '#a78bfa',
+};
+
+const CHART_HEIGHT = 120;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** SVG path through 256 values, scaled so `max` reaches the top */
+const toPath = (values: ArrayLike<number>, max: number, height: number): string => {
+  let d = '';
+  for (let v = 0; v < values.length; v++) {
+    d += `${v === 0 ? 'M' : 'L'}${v} ${(height - (values[v] / (max || 1)) * height).toFixed(2)}`;
+  }
+  return d;
+};
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+const StatsRow: React.FC<{ label: string; before: HistogramStats; after: HistogramStats }> = ({ label, before, after }) => {
+  const cell = (a: number, b: number) => (
+    <span>
+      {a.toFixed(1)}
+      {Math.abs(a - b) >= 0.05 && <span className="text-violet-300"> → {b.toFixed(1)}</span>}
+    </span>
+  );
+  return (
+    <div className="grid grid-cols-4 gap-2 font-mono text-[11px] text-neutral-400">
+      <span className="text-neutral-500">{label}</span>
+      <span>μ {cell(before.mean, after.mean)}</span>
+      <span>σ {cell(before.stdDev, after.stdDev)}</span>
+      <span>{before.min}–{before.max}{(before.min !== after.min || before.max !== after.max) && <span className="text-violet-300"> → {after.min}–{after.max}</span>}</span>
+    </div>
+  );
+};
+
+/**
+ * The operation's lookup table as an input → output curve.
+ */
+const CurvePlot: React.FC<{ lut: Uint8Array | null }> = ({ lut }) => (
+  <svg viewBox="0 0 256 256" className="w-full aspect-square rounded-lg bg-black/30">
+    <line x1="0" y1="256" x2="256" y2="0" stroke="white" strokeWidth="1" strokeDasharray="4 4" opacity="0.2" />
+    {lut && (
+      <path d={toPath(lut, 255, 256)} fill="none" stroke="#8b5cf6" strokeWidth="2.5" />
+    )}
+    <text x="6" y="14" fontSize="11" fill="#737373">out</text>
+    <text x="228" y="250" fontSize="11" fill="#737373">in</text>
+  </svg>
+);
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Histograms, statistics and point-operation controls.
+ */
+export const HistogramPanel: React.FC<HistogramPanelProps> = ({ source, operation, onOperationChange }) => {
+  const [channel, setChannel] = useState<HistogramChannel>('gray');
+
+  const before = useMemo(() => computeHistograms(source), [source]);
+  const adjusted = useMemo(() => (operation ? applyPointOperation(source, operation) : source), [source, operation]);
+  const after = useMemo(() => (operation ? computeHistograms(adjusted) : before), [operation, adjusted, before]);
+  const lut = useMemo(() => (operation ? buildPointLut(operation, before.gray) : null), [operation, before]);
+
+  const beforeStats = getHistogramStats(before[channel]);
+  const afterStats = getHistogramStats(after[channel]);
+  const peak = Math.max(...before[channel], ...after[channel]);
+  const color = CHANNEL_COLORS[channel];
+  const otsuLevel = operation?.type === 'threshold' ? resolveThreshold('otsu', before.gray) : null;
+  const thresholdLevel = operation?.type === 'threshold' ? resolveThreshold(operation.level, before.gray) : null;
+
+  const select = (id: PointOperationType | 'none') =>
+    onOperationChange(id === 'none' ? null : DEFAULT_POINT_OPERATIONS[id]);
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BarChart3 size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">Histogram &amp; Point Operations</span>
+          <span className="text-[10px] text-neutral-500">applied to every pixel before the kernel</span>
+        </div>
+        <div className="flex gap-1">
+          {HISTOGRAM_CHANNELS.map(c => (
+            <button
+              key={c}
+              onClick={() => setChannel(c)}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-medium uppercase transition-all ${channel === c ? 'bg-white/10 text-white' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 grid lg:grid-cols-[1fr_260px] gap-6">
+        {/* Histogram */}
+        <div className="space-y-3">
+          <svg viewBox={`0 0 256 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 rounded-lg bg-black/30">
+            <path d={`${toPath(before[channel], peak, CHART_HEIGHT)}L255 ${CHART_HEIGHT}L0 ${CHART_HEIGHT}Z`} fill={color} opacity={operation ? 0.15 : 0.35} />
+            {operation && (
+              <path d={`${toPath(after[channel], peak, CHART_HEIGHT)}L255 ${CHART_HEIGHT}L0 ${CHART_HEIGHT}Z`} fill={color} opacity="0.45" />
+            )}
+            <path d={toPath(cumulativeDistribution(before[channel]), 1, CHART_HEIGHT)} fill="none" stroke="white" strokeWidth="1" strokeDasharray={operation ? '3 3' : undefined} opacity="0.5" vectorEffect="non-scaling-stroke" />
+            {operation && (
+              <path d={toPath(cumulativeDistribution(after[channel]), 1, CHART_HEIGHT)} fill="none" stroke="white" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            )}
+            {thresholdLevel !== null && (
+              <line
+                x1={thresholdLevel} y1="0" x2={thresholdLevel} y2={CHART_HEIGHT}
+                stroke="#8b5cf6" strokeWidth="1.5" vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+          <div className="flex justify-between text-[10px] font-mono text-neutral-600">
+            <span>0</span>
+            <span>{operation ? 'shaded: before · solid: after · line: cumulative' : 'bars: count · line: cumulative'}</span>
+            <span>255</span>
+          </div>
+          <StatsRow label={channel.toUpperCase()} before={beforeStats} after={afterStats} />
+        </div>
+
+        {/* Operation */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-1">
+            {OPERATIONS.map(op => (
+              <button
+                key={op.id}
+                onClick={() => select(op.id)}
+                className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${(operation?.type ?? 'none') === op.id ? 'bg-violet-500/20 text-violet-300' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+              >
+                {op.label}
+              </button>
+            ))}
+          </div>
+
+          {operation?.type === 'linear' && (
+            <>
+              <Slider label="Brightness" value={operation.brightness} min={-128} max={128} step={1}
+                onChange={brightness => onOperationChange({ ...operation, brightness })} />
+              <Slider label="Contrast" value={operation.contrast} min={0} max={3} step={0.05} format={v => `×${v.toFixed(2)}`}
+                onChange={contrast => onOperationChange({ ...operation, contrast })} />
+            </>
+          )}
+
+          {operation?.type === 'gamma' && (
+            <Slider label="Gamma (out = in^γ)" value={operation.gamma} min={0.2} max={3} step={0.05} format={v => v.toFixed(2)}
+              onChange={gamma => onOperationChange({ ...operation, gamma })} />
+          )}
+
+          {operation?.type === 'threshold' && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={operation.level === 'otsu'}
+                  onChange={(e) => onOperationChange({ ...operation, level: e.target.checked ? 'otsu' : otsuLevel ?? 128 })}
+                  className="accent-violet-500"
+                />
+                Otsu&apos;s method <span className="font-mono text-violet-300">(level {otsuLevel})</span>
+              </label>
+              {operation.level !== 'otsu' && (
+                <Slider label="Level" value={operation.level} min={1} max={255} step={1}
+                  onChange={level => onOperationChange({ ...operation, level })} />
+              )}
+            </>
+          )}
+
+          {operation?.type === 'equalize' && (
+            <p className="text-[11px] text-neutral-400">
+              Each brightness is mapped to its position in the cumulative distribution, so the solid line becomes
+              nearly straight and the values spread over the full range.
+            </p>
+          )}
+
+          <CurvePlot lut={lut} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,451 @@
+/**
+ * @fileoverview Editable 2×2 / 3×3 matrix with its determinant,
+ * eigenvectors and singular directions drawn live.
+ *
+ * A 2×2 matrix is drawn on the plane: the unit square maps to a
+ * parallelogram whose area is |det A|, the unit circle maps to an ellipse
+ * whose axes are the singular directions, and eigenvectors are the lines
+ * that only get stretched. A 3×3 matrix gets the same picture in a fixed
+ * isometric view, with the unit cube mapping to a parallelepiped.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Grid3X3 } from 'lucide-react';
+import {
+  identity,
+  determinant,
+  rank,
+  inverse,
+  transpose,
+  multiply,
+  multiplyVector,
+  eigenDecompose,
+  powerIteration,
+  svd,
+  getColumn,
+} from '../utils/linearAlgebra';
+import type { Complex } from '../utils/linearAlgebra';
+import type { Matrix } from '../src/types';
+import { MatrixInput, parseMatrixCells, toMatrixCells } from './ui/MatrixInput';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type MatrixSize = 2 | 3;
+
+interface MatrixPreset {
+  name: string;
+  data: number[][];
+}
+
+type Layer = 'area' | 'eigen' | 'singular';
+
+/** A point on screen before scaling: [x, y] with y up */
+type Point2 = [number, number];
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const PRESETS: Record<MatrixSize, MatrixPreset[]> = {
+  2: [
+    { name: 'Symmetric', data: [[2, 1], [1, 2]] },
+    { name: 'Stretch', data: [[2, 0], [0, 0.5]] },
+    { name: 'Shear', data: [[1, 1], [0, 1]] },
+    { name: 'Rotation', data: [[0, -1], [1, 0]] },
+    { name: 'Reflection', data: [[0, 1], [1, 0]] },
+    { name: 'Singular', data: [[1, 2], [0.5, 1]] },
+    { name: 'General', data: [[1.5, 0.5], [-0.5, 1]] },
+  ],
+  3: [
+    { name: 'Symmetric', data: [[2, 1, 0], [1, 3, 1], [0, 1, 4]] },
+    { name: 'Scale', data: [[2, 0, 0], [0, 1, 0], [0, 0, 0.5]] },
+    { name: 'Shear', data: [[1, 1, 0], [0, 1, 0], [0, 0, 1]] },
+    { name: 'Rotation (z)', data: [[0, -1, 0], [1, 0, 0], [0, 0, 1]] },
+    { name: 'Projection', data: [[1, 0, 0], [0, 1, 0], [0, 0, 0]] },
+    { name: 'Singular', data: [[1, 2, 3], [2, 4, 6], [1, 0, 1]] },
+  ],
+};
+
+const LAYERS: { id: Layer; label: string; color: string }[] = [
+  { id: 'area', label: 'Determinant', color: '#8b5cf6' },
+  { id: 'eigen', label: 'Eigenvectors', color: '#22c55e' },
+  { id: 'singular', label: 'Singular directions', color: '#f59e0b' },
+];
+
+const PLOT_SIZE = 300;
+
+/** World units from the origin to the plot edge are fitted to the picture, within these bounds */
+const MIN_EXTENT = 2;
+const MAX_EXTENT = 8;
+
+const CIRCLE_SAMPLES = 72;
+
+/** Corners of the unit cube and the edges between them */
+const CUBE_CORNERS = [0, 1, 2, 3, 4, 5, 6, 7].map(i => [i & 1, (i >> 1) & 1, (i >> 2) & 1]);
+const CUBE_EDGES: [number, number][] = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+const COS_30 = Math.sqrt(3) / 2;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const formatNumber = (value: number, digits = 3) => {
+  const rounded = parseFloat(value.toFixed(digits));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+const formatComplex = ({ re, im }: Complex) =>
+  im === 0 ? formatNumber(re) : `${formatNumber(re)} ${im < 0 ? '−' : '+'} ${formatNumber(Math.abs(im))}i`;
+
+const formatVector = (v: number[]) => `(${v.map(x => formatNumber(x)).join(', ')})`;
+
+/** Isometric view with z up; 2D points pass through unchanged */
+const project = (p: number[]): Point2 =>
+  p.length === 2 ? [p[0], p[1]] : [(p[0] - p[1]) * COS_30, p[2] - (p[0] + p[1]) / 2];
+
+const identityCells = (size: MatrixSize) => toMatrixCells(identity(size).data);
+
+/** Eigenvalues and eigenvectors, or null if the QR iteration does not converge */
+const tryEigenDecompose = (a: Matrix) => {
+  try {
+    return eigenDecompose(a);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Everything shown about a matrix, computed once per edit. The eigen step
+ * can fail on its own, so it does not take the rest of the analysis with it.
+ */
+const analyzeMatrix = (a: Matrix) => {
+  let inv: Matrix | null = null;
+  try {
+    inv = inverse(a);
+  } catch {
+    inv = null;
+  }
+  return {
+    det: determinant(a),
+    rank: rank(a),
+    inverse: inv,
+    eigen: tryEigenDecompose(a),
+    power: powerIteration(a, { iterations: 200 }),
+    svd: svd(a),
+    gram: multiply(transpose(a), a),
+  };
+};
+
+type Analysis = ReturnType<typeof analyzeMatrix>;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const MatrixExplorer: React.FC = () => {
+  const [size, setSize] = useState<MatrixSize>(2);
+  const [cells, setCells] = useState(() => toMatrixCells(PRESETS[2][0].data));
+  const [layers, setLayers] = useState<Record<Layer, boolean>>({ area: true, eigen: true, singular: true });
+
+  const matrix = useMemo(() => parseMatrixCells(cells, 'A'), [cells]);
+  const analysis = useMemo(() => {
+    if (!matrix) return null;
+    try {
+      return analyzeMatrix(matrix);
+    } catch {
+      return null;
+    }
+  }, [matrix]);
+
+  const selectSize = (next: MatrixSize) => {
+    setSize(next);
+    setCells(identityCells(next));
+  };
+
+  const setCell = (i: number, j: number, value: string) => {
+    setCells(prev => prev.map((row, r) => row.map((cell, c) => (r === i && c === j ? value : cell))));
+  };
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Grid3X3 size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">Matrix Explorer</span>
+        </div>
+        <div className="flex gap-1">
+          {([2, 3] as const).map(n => (
+            <button
+              key={n}
+              onClick={() => selectSize(n)}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all ${size === n ? 'bg-violet-500/20 text-violet-300' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+            >
+              {n}×{n}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-center gap-6">
+          <MatrixInput cells={cells} onChange={setCell} />
+          <div className="flex flex-wrap gap-1.5 max-w-[240px]">
+            {PRESETS[size].map(preset => (
+              <button
+                key={preset.name}
+                onClick={() => setCells(toMatrixCells(preset.data))}
+                className="px-2 py-1 text-[10px] bg-white/5 hover:bg-white/10 rounded transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!matrix && <p className="text-[11px] text-red-400 text-center">Every entry must be a number.</p>}
+        {matrix && !analysis && <p className="text-[11px] text-red-400 text-center">Could not decompose this matrix.</p>}
+
+        {matrix && analysis && (
+          <>
+            <div className="flex flex-wrap justify-center gap-3">
+              {LAYERS.map(layer => (
+                <label key={layer.id} className="flex items-center gap-1.5 text-[11px] text-neutral-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={layers[layer.id]}
+                    onChange={() => setLayers(prev => ({ ...prev, [layer.id]: !prev[layer.id] }))}
+                    className="accent-violet-500"
+                  />
+                  <span style={{ color: layer.color }}>■</span> {layer.label}
+                </label>
+              ))}
+            </div>
+
+            <TransformPlot matrix={matrix} analysis={analysis} layers={layers} />
+            <AnalysisPanel matrix={matrix} analysis={analysis} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/** Small read-only matrix */
+const MatrixGrid: React.FC<{ matrix: Matrix }> = ({ matrix }) => (
+  <div className="inline-grid gap-x-3 font-mono text-[11px]" style={{ gridTemplateColumns: `repeat(${matrix.cols}, auto)` }}>
+    {matrix.data.flat().map((v, k) => (
+      <span key={k} className="text-right">{formatNumber(v)}</span>
+    ))}
+  </div>
+);
+
+// Plane or isometric view of what the matrix does
+const TransformPlot: React.FC<{
+  matrix: Matrix;
+  analysis: Analysis;
+  layers: Record<Layer, boolean>;
+}> = ({ matrix, analysis, layers }) => {
+  const n = matrix.rows;
+  const apply = (v: number[]) => multiplyVector(matrix, v);
+
+  const corners = CUBE_CORNERS.map(c => c.slice(0, n)).filter((c, i) => n === 3 || i < 4);
+  const edges = n === 3 ? CUBE_EDGES : ([[0, 1], [1, 3], [3, 2], [2, 0]] as [number, number][]);
+  const images = corners.map(apply);
+
+  const eigenArrows = (analysis.eigen?.pairs ?? []).map(p => ({ value: p.value, direction: p.vector, tip: p.vector.map(x => x * p.value) }));
+  const singularArrows = analysis.svd.s.map((sigma, i) => ({
+    sigma,
+    input: getColumn(analysis.svd.v, i),
+    output: getColumn(analysis.svd.u, i).map(x => x * sigma),
+  }));
+
+  // Unit circle (or the three great circles of the unit sphere) and its image
+  const circles = (n === 2 ? [[0, 1]] : [[0, 1], [1, 2], [0, 2]]).map(([a, b]) =>
+    Array.from({ length: CIRCLE_SAMPLES + 1 }, (_, k) => {
+      const t = (2 * Math.PI * k) / CIRCLE_SAMPLES;
+      const p = new Array<number>(n).fill(0);
+      p[a] = Math.cos(t);
+      p[b] = Math.sin(t);
+      return p;
+    })
+  );
+
+  const visible = [...corners, ...images, ...eigenArrows.map(e => e.tip), ...singularArrows.map(s => s.output)].map(project);
+  const extent = Math.min(MAX_EXTENT, Math.max(MIN_EXTENT, 1.15 * Math.max(...visible.flat().map(Math.abs))));
+  const toScreen = (p: number[]): Point2 => {
+    const [x, y] = project(p);
+    const clamp = (v: number) => Math.max(-10 * PLOT_SIZE, Math.min(10 * PLOT_SIZE, v));
+    return [clamp(PLOT_SIZE / 2 + (x / extent) * (PLOT_SIZE / 2)), clamp(PLOT_SIZE / 2 - (y / extent) * (PLOT_SIZE / 2))];
+  };
+  const line = (a: number[], b: number[]) => {
+    const [[x1, y1], [x2, y2]] = [toScreen(a), toScreen(b)];
+    return { x1, y1, x2, y2 };
+  };
+  const polyline = (points: number[][]) => points.map(p => toScreen(p).join(',')).join(' ');
+  const origin = new Array<number>(n).fill(0);
+  const axes = Array.from({ length: n }, (_, i) => origin.map((_, k) => (k === i ? extent : 0)));
+
+  return (
+    <div className="space-y-2 w-fit mx-auto">
+      <svg viewBox={`0 0 ${PLOT_SIZE} ${PLOT_SIZE}`} width={PLOT_SIZE} height={PLOT_SIZE} className="bg-black/50 rounded-lg overflow-hidden">
+        <defs>
+          {LAYERS.map(layer => (
+            <marker key={layer.id} id={`matrix-arrow-${layer.id}`} markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+              <polygon points="0 0, 8 3, 0 6" fill={layer.color} />
+            </marker>
+          ))}
+        </defs>
+
+        {axes.map((axis, i) => (
+          <line key={i} {...line(axis.map(x => -x), axis)} stroke="white" strokeOpacity="0.2" />
+        ))}
+
+        {/* Unit square / cube and its image */}
+        {edges.map(([a, b], k) => (
+          <line key={`unit-${k}`} {...line(corners[a], corners[b])} stroke="#3b82f6" strokeWidth="1" strokeDasharray="3 3" />
+        ))}
+        {layers.area && n === 2 && (
+          <polygon
+            points={polyline([images[0], images[1], images[3], images[2]])}
+            fill={analysis.det < 0 ? 'rgba(244, 63, 94, 0.2)' : 'rgba(139, 92, 246, 0.25)'}
+          />
+        )}
+        {edges.map(([a, b], k) => (
+          <line
+            key={`image-${k}`}
+            {...line(images[a], images[b])}
+            stroke={analysis.det < 0 ? '#f43f5e' : '#8b5cf6'}
+            strokeWidth={layers.area ? 2 : 1}
+            strokeOpacity={layers.area ? 1 : 0.4}
+          />
+        ))}
+
+        {layers.singular && (
+          <g>
+            {circles.map((circle, k) => (
+              <g key={k}>
+                <polyline points={polyline(circle)} fill="none" stroke="white" strokeOpacity="0.25" strokeDasharray="2 3" />
+                <polyline points={polyline(circle.map(apply))} fill="none" stroke="#f59e0b" strokeOpacity="0.6" />
+              </g>
+            ))}
+            {singularArrows.map(({ input, output }, i) => (
+              <g key={i}>
+                <line {...line(origin, input)} stroke="#f59e0b" strokeOpacity="0.5" strokeDasharray="3 2" />
+                {output.some(x => Math.abs(x) > 1e-6) && (
+                  <line {...line(origin, output)} stroke="#f59e0b" strokeWidth="2" markerEnd="url(#matrix-arrow-singular)" />
+                )}
+              </g>
+            ))}
+          </g>
+        )}
+
+        {layers.eigen && eigenArrows.map(({ direction, tip }, i) => (
+          <g key={i}>
+            <line {...line(direction.map(x => -x * extent * 2), direction.map(x => x * extent * 2))} stroke="#22c55e" strokeOpacity="0.3" />
+            {tip.some(x => Math.abs(x) > 1e-6) && (
+              <line {...line(origin, tip)} stroke="#22c55e" strokeWidth="2.5" markerEnd="url(#matrix-arrow-eigen)" />
+            )}
+          </g>
+        ))}
+      </svg>
+      <p className="text-[10px] text-neutral-500 text-center max-w-[300px]">
+        Dashed blue: the unit {n === 2 ? 'square' : 'cube'}. Solid: its image under A
+        {n === 3 && ', seen isometrically with z up'}.
+        {layers.singular && ' Orange: the unit circle, its image and the singular directions.'}
+        {layers.eigen && ' Green: eigenvector lines and λv.'}
+      </p>
+    </div>
+  );
+};
+
+// Numbers behind the picture
+const AnalysisPanel: React.FC<{ matrix: Matrix; analysis: Analysis }> = ({ matrix, analysis }) => {
+  const n = matrix.rows;
+  const { det, eigen, power, svd: decomposition } = analysis;
+  const measure = n === 2 ? 'area' : 'volume';
+  const detNote = Math.abs(det) < 1e-9
+    ? `A flattens space: the ${measure} collapses to 0 and A has no inverse.`
+    : det < 0
+      ? `A scales ${measure} by ${formatNumber(Math.abs(det))} and flips orientation.`
+      : `A scales ${measure} by ${formatNumber(det)}.`;
+  const complexCount = eigen ? eigen.values.filter(v => v.im !== 0).length : 0;
+
+  return (
+    <div className="grid sm:grid-cols-2 gap-3">
+      <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-3 space-y-2">
+        <div className="text-xs text-violet-400">Determinant &amp; inverse</div>
+        <div className="font-mono text-sm">det A = {formatNumber(det, 4)} · rank {analysis.rank}</div>
+        <p className="text-[10px] text-neutral-400">{detNote}</p>
+        {analysis.inverse ? (
+          <div className="flex items-center gap-2 text-[11px] text-neutral-400">
+            <span className="font-mono">A⁻¹ =</span>
+            <MatrixGrid matrix={analysis.inverse} />
+          </div>
+        ) : (
+          <p className="text-[10px] text-neutral-500 font-mono">A⁻¹ does not exist</p>
+        )}
+      </div>
+
+      <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3 space-y-2">
+        <div className="text-xs text-green-400">Eigenvalues &amp; eigenvectors</div>
+        {eigen ? (
+          <>
+            <div className="font-mono text-[11px]">λ = {eigen.values.map(formatComplex).join(', ')}</div>
+            {eigen.pairs.map((pair, i) => (
+              <div key={i} className="font-mono text-[11px] text-neutral-300">
+                λ = {formatNumber(pair.value)}: v = {formatVector(pair.vector)}
+              </div>
+            ))}
+            {complexCount > 0 && (
+              <p className="text-[10px] text-neutral-500">
+                {complexCount} complex eigenvalues: A rotates some plane, so no real direction there stays put.
+              </p>
+            )}
+            {complexCount === 0 && eigen.pairs.length < n && (
+              <p className="text-[10px] text-neutral-500">Too few eigenvectors to span the space: A is defective.</p>
+            )}
+          </>
+        ) : (
+          <p className="text-[11px] text-red-400">The eigenvalues did not converge for this matrix.</p>
+        )}
+        <p className="text-[10px] text-neutral-500 font-mono">
+          power iteration: {power.converged ? `λ ≈ ${formatNumber(power.value)} after ${power.estimates.length} steps` : `still moving after ${power.estimates.length} steps: no eigenvalue strictly dominates in magnitude`}
+        </p>
+      </div>
+
+      <div className="sm:col-span-2 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 space-y-2">
+        <div className="text-xs text-amber-400">Singular value decomposition A = UΣVᵀ</div>
+        <div className="font-mono text-[11px]">σ = {decomposition.s.map(s => formatNumber(s)).join(', ')}</div>
+        <div className="grid sm:grid-cols-3 gap-3 text-[11px] text-neutral-400">
+          {(['u', 'v'] as const).map(key => (
+            <div key={key} className="flex items-center gap-2">
+              <span className="font-mono">{key.toUpperCase()} =</span>
+              <MatrixGrid matrix={decomposition[key]} />
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="font-mono">AᵀA =</span>
+            <MatrixGrid matrix={analysis.gram} />
+          </div>
+        </div>
+        <p className="text-[10px] text-neutral-500">
+          The columns of V are the input directions that A sends to perpendicular outputs, σᵢ times the columns of U.
+          The σᵢ² are the eigenvalues of AᵀA, and their product is |det A| = {formatNumber(Math.abs(det))}.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MatrixExplorer;
@@ -1,98 +1,368 @@
-
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
 import { PixelData, MatrixMode } from '../types';
+import { toGray } from '../utils/colorConversion';
+import { toRgbaMatrix, getPixelAt } from '../utils/rgbaMatrix';
+import type { RgbaMatrix } from '../utils/rgbaMatrix';
+import {
+  clampViewport,
+  zoomViewport,
+  centerViewportOn,
+  getFitScale,
+  screenToCell,
+  getVisibleCells,
+  getCellColors,
+  getCellLabel,
+  getChannelValue,
+  HEATMAP_CHANNELS,
+  HEATMAP_GRADIENT,
+} from '../utils/matrixView';
+import type { MatrixViewport, HeatmapChannel } from '../utils/matrixView';
 
 interface MatrixVisualizerProps {
-  matrix: PixelData[][];
+  matrix: RgbaMatrix | PixelData[][];
   mode: MatrixMode;
+  /** Initial screen pixels per cell */
   cellSize: number;
+  /** Fixed-size thumbnail without toolbar, zoom, pan or mini-map */
+  compact?: boolean;
 }
 
-export const MatrixVisualizer: React.FC<MatrixVisualizerProps> = ({ matrix, mode, cellSize }) => {
-  const [hovered, setHovered] = useState<{x: number, y: number} | null>(null);
-
-  if (!matrix.length) return null;
-
-  // Render cell content based on mode and size
-  const renderCell = (pixel: PixelData) => {
-    switch (mode) {
-      case 'hex':
-        // For small cells, show short hex (no #), for larger show full
-        return cellSize >= 40 ? pixel.hex.toUpperCase() : pixel.hex.slice(1, 4).toUpperCase();
-      case 'gray':
-        return pixel.gray.toString();
-      case 'rgb':
-      default:
-        // For small cells show condensed, larger show full
-        if (cellSize < 32) return `${pixel.r},${pixel.g},${pixel.b}`.replace(/,/g, '\n');
-        return `${pixel.r},${pixel.g},${pixel.b}`;
+type Cell = { x: number; y: number };
+
+// Tallest the view grows before it scrolls by panning
+const MAX_VIEW_HEIGHT = 500;
+// Longest side of the mini-map
+const MINIMAP_SIZE = 120;
+const ZOOM_STEP = 1.25;
+// Cell borders are drawn from this scale up, like the old 1px grid gap
+const GRID_MIN_SCALE = 6;
+
+/**
+ * Draws the cells once at one pixel each; the views scale it up with
+ * smoothing off, so a frame costs one `putImageData`.
+ */
+const createCellImage = (matrix: RgbaMatrix, colors: Uint8ClampedArray): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = matrix.width;
+  canvas.height = matrix.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(colors, matrix.width, matrix.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Sizes a canvas for the device pixel ratio and returns a context that
+ * draws in CSS pixels.
+ */
+const prepareCanvas = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  return ctx;
+};
+
+export const MatrixVisualizer: React.FC<MatrixVisualizerProps> = ({ matrix, mode, cellSize, compact = false }) => {
+  const grid = useMemo(() => toRgbaMatrix(matrix), [matrix]);
+  const { width: cols, height: rows } = grid;
+
+  const [view, setView] = useState<MatrixViewport>({ scale: cellSize, offsetX: 0, offsetY: 0 });
+  const [viewWidth, setViewWidth] = useState(0);
+  const [hovered, setHovered] = useState<Cell | null>(null);
+  const [channel, setChannel] = useState<HeatmapChannel>('gray');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  const hasCells = cols > 0 && rows > 0;
+  const width = compact ? cols * cellSize : viewWidth;
+  const height = compact ? rows * cellSize : Math.min(MAX_VIEW_HEIGHT, rows * cellSize);
+
+  const colors = useMemo(() => getCellColors(grid, mode, channel), [grid, mode, channel]);
+  const cellImage = useMemo(() => (hasCells ? createCellImage(grid, colors) : null), [grid, colors, hasCells]);
+
+  const applyView = useCallback(
+    (next: MatrixViewport) => setView(clampViewport(next, cols, rows, width, height)),
+    [cols, rows, width, height]
+  );
+
+  // Start over at the requested cell size when the matrix is resized
+  useEffect(() => {
+    setView({ scale: cellSize, offsetX: 0, offsetY: 0 });
+    setHovered(null);
+  }, [cellSize, cols, rows]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (compact || !container) return;
+    setViewWidth(container.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setViewWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [compact, hasCells]);
+
+  // Zoom with the wheel; the listener is registered natively so it can
+  // stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (compact || !canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setView(v => clampViewport(zoomViewport(v, factor, e.clientX - rect.left, e.clientY - rect.top), cols, rows, width, height));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [compact, cols, rows, width, height]);
+
+  // Draw the visible cells, borders, labels and receptive field
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !cellImage || !width || !height) return;
+    const ctx = prepareCanvas(canvas, width, height);
+    if (!ctx) return;
+
+    const v = clampViewport(view, cols, rows, width, height);
+    const { x0, y0, x1, y1 } = getVisibleCells(v, cols, rows, width, height);
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(cellImage, v.offsetX, v.offsetY, cols * v.scale, rows * v.scale);
+
+    if (v.scale >= GRID_MIN_SCALE) {
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let x = x0; x <= x1; x++) {
+        const px = Math.round(v.offsetX + x * v.scale) + 0.5;
+        ctx.moveTo(px, v.offsetY + y0 * v.scale);
+        ctx.lineTo(px, v.offsetY + y1 * v.scale);
+      }
+      for (let y = y0; y <= y1; y++) {
+        const py = Math.round(v.offsetY + y * v.scale) + 0.5;
+        ctx.moveTo(v.offsetX + x0 * v.scale, py);
+        ctx.lineTo(v.offsetX + x1 * v.scale, py);
+      }
+      ctx.stroke();
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const lines = getCellLabel(grid, x, y, mode, channel, v.scale);
+        if (!lines.length) continue;
+
+        const i = (y * cols + x) * 4;
+        const fontSize = Math.min(12, Math.floor(v.scale / (lines.length > 1 ? 4 : 3.5)));
+        ctx.font = `500 ${fontSize}px ui-monospace, monospace`;
+        ctx.fillStyle = toGray(colors[i], colors[i + 1], colors[i + 2]) > 128 ? '#000' : '#fff';
+
+        const cx = v.offsetX + (x + 0.5) * v.scale;
+        const top = v.offsetY + (y + 0.5) * v.scale - ((lines.length - 1) * fontSize * 1.1) / 2;
+        lines.forEach((line, n) => ctx.fillText(line, cx, top + n * fontSize * 1.1));
+      }
+    }
+
+    if (hovered) {
+      const fx = v.offsetX + Math.max(0, hovered.x - 1) * v.scale;
+      const fy = v.offsetY + Math.max(0, hovered.y - 1) * v.scale;
+      const fw = (Math.min(cols - 1, hovered.x + 1) + 1) * v.scale + v.offsetX - fx;
+      const fh = (Math.min(rows - 1, hovered.y + 1) + 1) * v.scale + v.offsetY - fy;
+
+      // Dim everything outside the 3×3 receptive field
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.rect(fx, fy, fw, fh);
+      ctx.fill('evenodd');
+
+      ctx.strokeStyle = 'rgba(167, 139, 250, 0.7)';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(fx + 0.5, fy + 0.5, fw - 1, fh - 1);
+      ctx.strokeStyle = '#8b5cf6';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(v.offsetX + hovered.x * v.scale + 1, v.offsetY + hovered.y * v.scale + 1, v.scale - 2, v.scale - 2);
     }
+  }, [grid, colors, cellImage, view, width, height, cols, rows, mode, channel, hovered]);
+
+  if (!hasCells) return null;
+
+  const v = clampViewport(view, cols, rows, width, height);
+  const overflows = cols * v.scale > width || rows * v.scale > height;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   };
 
-  // Get font size based on cell size and mode
-  const getFontSize = () => {
-    if (mode === 'rgb' && cellSize < 32) return 'text-[4px] leading-[1.1]';
-    if (cellSize < 20) return 'text-[5px]';
-    if (cellSize < 28) return 'text-[6px]';
-    if (cellSize < 40) return 'text-[7px]';
-    return 'text-[8px]';
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (compact || !overflows) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offsetX: v.offsetX, offsetY: v.offsetY };
+    setHovered(null);
   };
 
-  const isNeighbor = (x: number, y: number) => {
-    if (!hovered) return false;
-    return Math.abs(x - hovered.x) <= 1 && Math.abs(y - hovered.y) <= 1;
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      applyView({ scale: v.scale, offsetX: drag.offsetX + e.clientX - drag.x, offsetY: drag.offsetY + e.clientY - drag.y });
+      return;
+    }
+    const point = toCanvasPoint(e);
+    const cell = screenToCell(v, point.x, point.y, cols, rows);
+    if (cell?.x !== hovered?.x || cell?.y !== hovered?.y) setHovered(cell);
   };
 
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const zoomBy = (factor: number) => applyView(zoomViewport(v, factor, width / 2, height / 2));
+  const fit = () => applyView({ scale: getFitScale(cols, rows, width, height), offsetX: 0, offsetY: 0 });
+
+  const pixel = hovered ? getPixelAt(grid, hovered.x, hovered.y) : null;
+  const heatValue = hovered && mode === 'heatmap' ? getChannelValue(grid, hovered.x, hovered.y, channel) : null;
+
+  const canvas = (
+    <canvas
+      ref={canvasRef}
+      style={{ width, height }}
+      className={`block ${!compact && overflows ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setHovered(null)}
+      title={compact && hovered && pixel ? `[${hovered.x}, ${hovered.y}] Gray:${pixel.gray}` : undefined}
+    />
+  );
+
+  if (compact) {
+    return <div className="inline-block border border-white/10 rounded-lg bg-black/30 p-1">{canvas}</div>;
+  }
+
   return (
-    <div className="overflow-auto border border-white/10 rounded-lg bg-black/30 p-4 max-h-[500px] shadow-inner relative group">
-      <div 
-        className="inline-grid gap-px" 
-        style={{ 
-          gridTemplateColumns: `repeat(${matrix[0].length}, minmax(0, 1fr))`,
-          width: 'max-content'
-        }}
-        onMouseLeave={() => setHovered(null)}
-      >
-        {matrix.map((row, y) => 
-          row.map((pixel, x) => {
-            const active = isNeighbor(x, y);
-            const isCenter = hovered?.x === x && hovered?.y === y;
-            
-            return (
-              <div
-                key={`${x}-${y}`}
-                onMouseEnter={() => setHovered({x, y})}
-                className={`flex items-center justify-center mono leading-tight select-none transition-all duration-75 
-                  ${active ? 'z-20 scale-110 ring-1 ring-violet-400/70' : 'z-0'} 
-                  ${isCenter ? 'ring-2 ring-violet-500 scale-125' : ''}
-                  ${getFontSize()}`}
-                style={{
-                  width: `${cellSize}px`,
-                  height: `${cellSize}px`,
-                  backgroundColor: pixel.hex,
-                  color: pixel.gray > 128 ? '#000' : '#fff',
-                  opacity: hovered && !active ? 0.3 : 1
-                }}
-                title={`R:${pixel.r} G:${pixel.g} B:${pixel.b} Gray:${pixel.gray} Hex:${pixel.hex}`}
-              >
-                {cellSize >= 16 && (
-                  <span className="font-mono font-medium whitespace-pre-line text-center">
-                    {renderCell(pixel)}
-                  </span>
-                )}
-              </div>
-            );
-          })
+    <div className="border border-white/10 rounded-lg bg-black/30 shadow-inner">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-white/10 text-[10px] font-mono text-neutral-500">
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out" className="p-1 rounded hover:bg-white/10 hover:text-neutral-300">
+          <ZoomOut className="w-3.5 h-3.5" />
+        </button>
+        <span className="w-10 text-center text-neutral-300">{Math.round(v.scale)}px</span>
+        <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in" className="p-1 rounded hover:bg-white/10 hover:text-neutral-300">
+          <ZoomIn className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={fit} title="Fit to view" className="p-1 rounded hover:bg-white/10 hover:text-neutral-300">
+          <Maximize2 className="w-3.5 h-3.5" />
+        </button>
+        {overflows && <span className="text-neutral-600">drag to pan · scroll to zoom</span>}
+
+        {mode === 'heatmap' && (
+          <div className="ml-auto flex items-center gap-2">
+            <div className="flex gap-0.5">
+              {HEATMAP_CHANNELS.map(c => (
+                <button key={c} onClick={() => setChannel(c)}
+                  className={`px-1.5 py-0.5 rounded uppercase ${channel === c ? 'bg-violet-500/20 text-violet-300' : 'hover:bg-white/10'}`}>
+                  {c}
+                </button>
+              ))}
+            </div>
+            <span>0</span>
+            <div className="w-16 h-2 rounded-sm" style={{ background: HEATMAP_GRADIENT }} />
+            <span>255</span>
+          </div>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative">
+        {canvas}
+
+        {overflows && cellImage && (
+          <MiniMap
+            image={cellImage}
+            cols={cols}
+            rows={rows}
+            view={v}
+            viewWidth={width}
+            viewHeight={height}
+            onNavigate={(x, y) => applyView(centerViewportOn(v, x, y, width, height))}
+          />
+        )}
+
+        {hovered && pixel && (
+          <div className="absolute top-2 right-2 bg-[#0a0a0a]/95 border border-violet-500/30 p-3 rounded-lg text-[10px] mono text-neutral-300 pointer-events-none z-30 shadow-xl">
+            <div className="text-violet-400 mb-1.5 font-bold uppercase tracking-wider">Receptive Field (3×3)</div>
+            <div className="text-neutral-400">Position: <span className="text-white">[{hovered.x}, {hovered.y}]</span></div>
+            <div className="text-neutral-400">
+              R:<span className="text-white">{pixel.r}</span> G:<span className="text-white">{pixel.g}</span> B:<span className="text-white">{pixel.b}</span>
+            </div>
+            <div className="text-neutral-400">Gray: <span className="text-white">{pixel.gray}</span> Hex: <span className="text-white">{pixel.hex}</span></div>
+            {heatValue !== null && (
+              <div className="text-neutral-400">Heat ({channel.toUpperCase()}): <span className="text-white">{heatValue}</span></div>
+            )}
+            <div className="text-neutral-500 mt-1">Kernel slides over this region</div>
+          </div>
         )}
       </div>
-      
-      {hovered && (
-        <div className="absolute top-2 right-2 bg-[#0a0a0a]/95 border border-violet-500/30 p-3 rounded-lg text-[10px] mono text-neutral-300 pointer-events-none z-30 shadow-xl">
-          <div className="text-violet-400 mb-1.5 font-bold uppercase tracking-wider">Receptive Field (3×3)</div>
-          <div className="text-neutral-400">Position: <span className="text-white">[{hovered.x}, {hovered.y}]</span></div>
-          <div className="text-neutral-500 mt-1">Kernel slides over this region</div>
-        </div>
-      )}
     </div>
   );
 };
+
+/**
+ * Whole-matrix overview with the visible region outlined. Clicking or
+ * dragging on it moves the main view.
+ */
+const MiniMap: React.FC<{
+  image: HTMLCanvasElement;
+  cols: number;
+  rows: number;
+  view: MatrixViewport;
+  viewWidth: number;
+  viewHeight: number;
+  onNavigate: (cellX: number, cellY: number) => void;
+}> = ({ image, cols, rows, view, viewWidth, viewHeight, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ratio = MINIMAP_SIZE / Math.max(cols, rows);
+  const width = Math.max(1, Math.round(cols * ratio));
+  const height = Math.max(1, Math.round(rows * ratio));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = prepareCanvas(canvas, width, height);
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const { x0, y0, x1, y1 } = getVisibleCells(view, cols, rows, viewWidth, viewHeight);
+    ctx.strokeStyle = '#a78bfa';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(x0 * ratio, y0 * ratio, (x1 - x0) * ratio, (y1 - y0) * ratio);
+  }, [image, cols, rows, view, viewWidth, viewHeight, width, height, ratio]);
+
+  const navigate = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / ratio, (e.clientY - rect.top) / ratio);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width, height }}
+      className="absolute bottom-2 right-2 border border-white/20 rounded bg-black/80 shadow-xl cursor-crosshair"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+      }}
+    />
+  );
+};
@@ -0,0 +1,420 @@
+/**
+ * @fileoverview Optimizer race on 2D loss surfaces.
+ *
+ * SGD, momentum, Nesterov, RMSProp and Adam start from the same point on a
+ * contour plot and advance one step at a time. Each optimizer's
+ * hyperparameters can be tuned while the race runs; runs that blow up are
+ * flagged with the step at which they diverged.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Mountain, Play, Pause, SkipForward, RotateCcw } from 'lucide-react';
+import { Slider } from './ui';
+import {
+  LOSS_SURFACES,
+  OPTIMIZER_TYPES,
+  OPTIMIZER_INFO,
+  createLossSurface,
+  getSurfaceConfigs,
+  runOptimizer,
+  sampleSurface,
+  getContourBand,
+} from '../utils/optimizers';
+import type { LossSurface, LossSurfaceId, OptimizerConfig, OptimizerRun, OptimizerType, Vec2 } from '../utils/optimizers';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Steps each optimizer is run for */
+const MAX_STEPS = 300;
+
+/** Steps added per animation tick */
+const STEPS_PER_TICK = 2;
+const TICK_MS = 40;
+
+/** On-screen plot width; the height follows the surface's aspect ratio */
+const PLOT_WIDTH = 360;
+
+/** Loss samples across the plot */
+const GRID_COLUMNS = 160;
+
+const CONTOUR_BANDS = 14;
+
+/** Rows shown in the step log */
+const LOG_ROWS = 60;
+
+const ALL_ENABLED: Record<OptimizerType, boolean> = { sgd: true, momentum: true, nesterov: true, rmsprop: true, adam: true };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Keeps runaway coordinates finite so the SVG stays valid */
+const clampToView = (v: number) => (Number.isNaN(v) ? 0 : Math.max(-10 * PLOT_WIDTH, Math.min(10 * PLOT_WIDTH, v)));
+
+const formatRate = (value: number) => (value < 0.01 ? value.toExponential(1) : String(parseFloat(value.toPrecision(2))));
+
+const formatNumber = (value: number) =>
+  !Number.isFinite(value) ? String(value) : Math.abs(value) >= 1e4 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(2)
+    : value.toFixed(4);
+
+/**
+ * Shades the plot by contour band, dark at the bottom of the surface, and
+ * lightens pixels on a band boundary to draw the contour lines.
+ */
+const drawContours = (canvas: HTMLCanvasElement, surface: LossSurface, cols: number, rows: number) => {
+  const values = sampleSurface(surface, cols, rows);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (!Number.isFinite(v)) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+
+  const bands = Array.from(values, v => getContourBand(v, min, max, CONTOUR_BANDS));
+  const image = new ImageData(cols, rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      const band = bands[i];
+      const edge = (c + 1 < cols && bands[i + 1] !== band) || (r + 1 < rows && bands[i + cols] !== band);
+      const t = band / (CONTOUR_BANDS - 1);
+      const lift = edge ? 45 : 0;
+      image.data.set([18 + t * 60 + lift, 12 + t * 30 + lift, 40 + t * 110 + lift, 255], i * 4);
+    }
+  }
+
+  canvas.width = cols;
+  canvas.height = rows;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+};
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/**
+ * Toggle, status and hyperparameters for one optimizer.
+ */
+const OptimizerRow: React.FC<{
+  config: OptimizerConfig;
+  run: OptimizerRun | undefined;
+  enabled: boolean;
+  focused: boolean;
+  playhead: number;
+  onToggle: () => void;
+  onFocus: () => void;
+  onChange: (config: OptimizerConfig) => void;
+}> = ({ config, run, enabled, focused, playhead, onToggle, onFocus, onChange }) => {
+  const info = OPTIMIZER_INFO[config.type];
+  const current = run?.points[Math.min(playhead, run.points.length - 1)];
+  const divergedAt = run?.divergedAt ?? null;
+  const convergedAt = run?.convergedAt ?? null;
+  const diverged = divergedAt !== null && playhead >= divergedAt;
+  const converged = convergedAt !== null && playhead >= convergedAt;
+
+  return (
+    <div
+      onClick={onFocus}
+      className={`p-3 rounded-lg border cursor-pointer transition-all ${focused ? 'border-violet-500/40 bg-violet-500/5' : 'border-white/5 hover:border-white/10'}`}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={onToggle}
+          onClick={(e) => e.stopPropagation()}
+          className="accent-violet-500"
+        />
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: info.color }} />
+        <span className="text-xs font-medium">{info.name}</span>
+        <span className="ml-auto text-[10px] font-mono">
+          {!enabled ? (
+            <span className="text-neutral-600">off</span>
+          ) : diverged ? (
+            <span className="text-red-400">diverged at step {divergedAt}</span>
+          ) : converged ? (
+            <span className="text-green-400">converged at step {convergedAt}</span>
+          ) : current ? (
+            <span className="text-neutral-400">f = {formatNumber(current.loss)}</span>
+          ) : null}
+        </span>
+      </div>
+
+      {enabled && (
+        <div className="grid grid-cols-3 gap-3 mt-2" onClick={(e) => e.stopPropagation()}>
+          <Slider
+            label="α (log)" value={Math.log10(config.learningRate)} min={-4} max={0} step={0.05}
+            format={v => formatRate(10 ** v)}
+            onChange={v => onChange({ ...config, learningRate: 10 ** v })}
+          />
+          {info.momentum && (
+            <Slider
+              label={info.momentum} value={config.momentum} min={0} max={0.99} step={0.01}
+              format={v => v.toFixed(2)}
+              onChange={momentum => onChange({ ...config, momentum })}
+            />
+          )}
+          {info.decay && (
+            <Slider
+              label={info.decay} value={config.decay} min={0.5} max={0.999} step={0.001}
+              format={v => v.toFixed(3)}
+              onChange={decay => onChange({ ...config, decay })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Per-step log of one run up to the playhead, newest first.
+ */
+const StepLog: React.FC<{ run: OptimizerRun; playhead: number }> = ({ run, playhead }) => {
+  const visible = run.points.slice(0, playhead + 1);
+  const rows = visible.slice(-LOG_ROWS).reverse();
+
+  return (
+    <div className="max-h-48 overflow-y-auto rounded-lg bg-black/30">
+      <table className="w-full text-[10px] font-mono">
+        <thead className="sticky top-0 bg-[#141414] text-neutral-500">
+          <tr>
+            <th className="px-2 py-1 text-left">step</th>
+            <th className="px-2 py-1 text-right">x</th>
+            <th className="px-2 py-1 text-right">y</th>
+            <th className="px-2 py-1 text-right">f(x, y)</th>
+            <th className="px-2 py-1 text-right">|∇f|</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(point => (
+            <tr key={point.step} className={point.step === run.divergedAt ? 'text-red-400' : 'text-neutral-300'}>
+              <td className="px-2 py-0.5">{point.step}</td>
+              <td className="px-2 py-0.5 text-right">{formatNumber(point.position[0])}</td>
+              <td className="px-2 py-0.5 text-right">{formatNumber(point.position[1])}</td>
+              <td className="px-2 py-0.5 text-right">{formatNumber(point.loss)}</td>
+              <td className="px-2 py-0.5 text-right">{formatNumber(point.gradientNorm)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Contour plot with racing optimizers, their hyperparameters and a step log.
+ */
+export const OptimizerZoo: React.FC = () => {
+  const [surfaceId, setSurfaceId] = useState<LossSurfaceId>('rosenbrock');
+  const surface = useMemo(
+    () => createLossSurface(LOSS_SURFACES.find(s => s.id === surfaceId) ?? LOSS_SURFACES[0]),
+    [surfaceId]
+  );
+  const [configs, setConfigs] = useState(() => getSurfaceConfigs(surface));
+  const [enabled, setEnabled] = useState(ALL_ENABLED);
+  const [start, setStart] = useState<Vec2>(surface.start);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [focused, setFocused] = useState<OptimizerType>('adam');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { xMin, xMax, yMin, yMax } = surface.bounds;
+  const plotHeight = Math.round((PLOT_WIDTH * (yMax - yMin)) / (xMax - xMin));
+  const toX = (x: number) => ((x - xMin) / (xMax - xMin)) * PLOT_WIDTH;
+  const toY = (y: number) => ((yMax - y) / (yMax - yMin)) * plotHeight;
+
+  const runs = useMemo(() => {
+    const result: Partial<Record<OptimizerType, OptimizerRun>> = {};
+    for (const type of OPTIMIZER_TYPES) {
+      if (enabled[type]) result[type] = runOptimizer(surface, configs[type], start, MAX_STEPS);
+    }
+    return result;
+  }, [surface, configs, enabled, start]);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawContours(canvasRef.current, surface, GRID_COLUMNS, Math.round((GRID_COLUMNS * plotHeight) / PLOT_WIDTH));
+    }
+  }, [surface, plotHeight]);
+
+  const running = isPlaying && playhead < MAX_STEPS;
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => {
+      setPlayhead(prev => Math.min(MAX_STEPS, prev + STEPS_PER_TICK));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const selectSurface = (id: LossSurfaceId) => {
+    const definition = LOSS_SURFACES.find(s => s.id === id) ?? LOSS_SURFACES[0];
+    setSurfaceId(id);
+    setConfigs(getSurfaceConfigs(definition));
+    setStart(definition.start);
+    setPlayhead(0);
+    setIsPlaying(false);
+  };
+
+  const togglePlay = () => {
+    if (running) {
+      setIsPlaying(false);
+    } else {
+      if (playhead >= MAX_STEPS) setPlayhead(0);
+      setIsPlaying(true);
+    }
+  };
+
+  const placeStart = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = xMin + ((e.clientX - rect.left) / rect.width) * (xMax - xMin);
+    const y = yMax - ((e.clientY - rect.top) / rect.height) * (yMax - yMin);
+    setStart([x, y]);
+    setPlayhead(0);
+    setIsPlaying(false);
+  };
+
+  const focusedRun = runs[focused];
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Mountain size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">Optimizer Zoo</span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {LOSS_SURFACES.map(s => (
+            <button
+              key={s.id}
+              onClick={() => selectSurface(s.id)}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-medium transition-all ${surfaceId === s.id ? 'bg-violet-500/20 text-violet-300' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="text-center space-y-1">
+          <div className="font-mono text-sm">f(x, y) = {surface.formula}</div>
+          <p className="text-[11px] text-neutral-500">{surface.description}</p>
+        </div>
+
+        <div className="space-y-5">
+          {/* Plot */}
+          <div className="space-y-2 w-fit mx-auto">
+            <div className="relative" style={{ width: PLOT_WIDTH, height: plotHeight }}>
+              <canvas ref={canvasRef} className="absolute inset-0 w-full h-full rounded-lg" />
+              <svg
+                viewBox={`0 0 ${PLOT_WIDTH} ${plotHeight}`}
+                className="absolute inset-0 w-full h-full cursor-crosshair overflow-hidden rounded-lg"
+                onClick={placeStart}
+              >
+                {surface.minima.map(([x, y]) => (
+                  <g key={`${x},${y}`} stroke="#facc15" strokeWidth="1.5">
+                    <line x1={toX(x) - 4} y1={toY(y)} x2={toX(x) + 4} y2={toY(y)} />
+                    <line x1={toX(x)} y1={toY(y) - 4} x2={toX(x)} y2={toY(y) + 4} />
+                  </g>
+                ))}
+                <circle cx={toX(start[0])} cy={toY(start[1])} r="5" fill="none" stroke="white" strokeWidth="1.5" />
+
+                {OPTIMIZER_TYPES.map(type => {
+                  const run = runs[type];
+                  if (!run) return null;
+                  const visible = run.points
+                    .slice(0, playhead + 1)
+                    .map(p => [clampToView(toX(p.position[0])), clampToView(toY(p.position[1]))]);
+                  const [lastX, lastY] = visible[visible.length - 1];
+                  const { color } = OPTIMIZER_INFO[type];
+                  const diverged = run.divergedAt !== null && playhead >= run.divergedAt;
+                  return (
+                    <g key={type} opacity={focused === type ? 1 : 0.75}>
+                      <polyline
+                        points={visible.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+                        fill="none" stroke={color} strokeWidth={focused === type ? 2 : 1.5}
+                      />
+                      {!diverged && <circle cx={lastX} cy={lastY} r="4" fill={color} />}
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+            <p className="text-[10px] text-neutral-500 text-center">
+              Click to move the start · <span className="text-yellow-400">+</span> global minima · darker is lower
+            </p>
+          </div>
+
+          {/* Controls */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={togglePlay}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-violet-500 hover:bg-violet-600 rounded-lg text-xs font-medium transition-colors"
+              >
+                {running ? <Pause size={12} /> : <Play size={12} />}
+                {running ? 'Pause' : 'Race'}
+              </button>
+              <button
+                onClick={() => setPlayhead(prev => Math.min(MAX_STEPS, prev + 1))}
+                disabled={playhead >= MAX_STEPS}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-lg text-xs transition-colors"
+              >
+                <SkipForward size={12} /> Step
+              </button>
+              <button
+                onClick={() => { setPlayhead(0); setIsPlaying(false); }}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+              >
+                <RotateCcw size={12} /> Reset
+              </button>
+              <span className="ml-auto text-[11px] font-mono text-neutral-400">step {playhead} / {MAX_STEPS}</span>
+            </div>
+
+            <div className="space-y-2">
+              {OPTIMIZER_TYPES.map(type => (
+                <OptimizerRow
+                  key={type}
+                  config={configs[type]}
+                  run={runs[type]}
+                  enabled={enabled[type]}
+                  focused={focused === type}
+                  playhead={playhead}
+                  onToggle={() => setEnabled(prev => ({ ...prev, [type]: !prev[type] }))}
+                  onFocus={() => setFocused(type)}
+                  onChange={config => setConfigs(prev => ({ ...prev, [type]: config }))}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Log */}
+        <div className="space-y-2">
+          <div className="flex items-baseline gap-2">
+            <span className="text-xs font-medium" style={{ color: OPTIMIZER_INFO[focused].color }}>
+              {OPTIMIZER_INFO[focused].name} log
+            </span>
+            <span className="text-[10px] font-mono text-neutral-500">{OPTIMIZER_INFO[focused].rule}</span>
+          </div>
+          {focusedRun ? (
+            <StepLog run={focusedRun} playhead={playhead} />
+          ) : (
+            <p className="text-[11px] text-neutral-500">Enable {OPTIMIZER_INFO[focused].name} to see its steps.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OptimizerZoo;
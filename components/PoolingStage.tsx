@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Pooling stage for the CNN lab.
+ *
+ * Takes the matrix coming out of the convolution stage and shows it
+ * before and after pooling, with the output-shape arithmetic and, for
+ * max pooling, which input cell won each window.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Minimize2, Info } from 'lucide-react';
+import type { PixelData } from '../types';
+import {
+  poolPixelMatrix,
+  getPoolingOutputSize,
+  getPoolingWindow,
+  validatePoolingOptions,
+} from '../utils/pooling';
+import type { PoolingMode, PoolingOptions } from '../utils/pooling';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PoolingStageProps {
+  /** Matrix from the convolution stage */
+  matrix: PixelData[][];
+}
+
+type TraceChannel = 'r' | 'g' | 'b';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MODES: { id: PoolingMode; label: string }[] = [
+  { id: 'max', label: 'Max' },
+  { id: 'average', label: 'Average' },
+  { id: 'global-average', label: 'Global Avg' },
+];
+
+const CHANNEL_LABELS: Record<TraceChannel, string> = { r: 'Red', g: 'Green', b: 'Blue' };
+
+/** Target on-screen width of each grid */
+const GRID_WIDTH = 320;
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+const Stepper: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}> = ({ label, value, min, max, onChange, disabled }) => (
+  <div className={disabled ? 'opacity-40' : ''}>
+    <span className="text-[10px] text-neutral-500 block mb-1">{label}</span>
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onChange(Math.max(min, value - 1))}
+        disabled={disabled || value <= min}
+        className="w-6 h-6 rounded-md bg-white/5 text-neutral-300 hover:bg-white/10 disabled:opacity-40"
+      >
+        −
+      </button>
+      <span className="w-6 text-center font-mono text-sm text-violet-300">{value}</span>
+      <button
+        onClick={() => onChange(Math.min(max, value + 1))}
+        disabled={disabled || value >= max}
+        className="w-6 h-6 rounded-md bg-white/5 text-neutral-300 hover:bg-white/10 disabled:opacity-40"
+      >
+        +
+      </button>
+    </div>
+  </div>
+);
+
+/**
+ * Arithmetic for one axis of the output shape.
+ */
+const ShapeFormula: React.FC<{
+  axis: string;
+  size: number;
+  options: PoolingOptions;
+}> = ({ axis, size, options }) => {
+  const { window: k, stride: s, padding: p } = options;
+  const result = getPoolingOutputSize(size, k, s, p);
+  return (
+    <div className="font-mono text-[11px] text-neutral-400">
+      <span className="text-neutral-500">{axis}:</span> ⌊({size} + 2×{p} − {k}) ÷ {s}⌋ + 1 ={' '}
+      <span className="text-violet-300">{result}</span>
+    </div>
+  );
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Pooling controls, before/after matrices and window tracing.
+ */
+export const PoolingStage: React.FC<PoolingStageProps> = ({ matrix }) => {
+  const [options, setOptions] = useState<PoolingOptions>({
+    mode: 'max',
+    window: 2,
+    stride: 2,
+    padding: 0,
+  });
+  const [channel, setChannel] = useState<TraceChannel>('g');
+  const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null);
+
+  const rows = matrix.length;
+  const cols = matrix[0]?.length ?? 0;
+  const problem = validatePoolingOptions(options);
+  const isGlobal = options.mode === 'global-average';
+
+  const result = useMemo(
+    () => (problem || !rows ? null : poolPixelMatrix(matrix, options)),
+    [matrix, options, problem, rows]
+  );
+
+  const update = (changes: Partial<PoolingOptions>) => {
+    setHovered(null);
+    setOptions(prev => {
+      const next = { ...prev, ...changes };
+      // Keep padding legal when the window shrinks
+      return { ...next, padding: Math.min(next.padding, Math.floor(next.window / 2)) };
+    });
+  };
+
+  // Input cells to highlight for the hovered output cell
+  const activeWindow = hovered && !isGlobal ? getPoolingWindow(hovered.row, hovered.col, options, rows, cols) : null;
+  const winners = useMemo(
+    () => (result && options.mode === 'max' ? result.winners[channel] : []),
+    [result, options.mode, channel]
+  );
+  const winnerSet = useMemo(
+    () => new Set(winners.flat().map(w => `${w.row}:${w.col}`)),
+    [winners]
+  );
+  const hoveredWinner = hovered ? winners[hovered.row]?.[hovered.col] : undefined;
+
+  const inCell = Math.max(4, Math.floor(GRID_WIDTH / Math.max(cols, 1)));
+  const outRows = result?.output.length ?? 0;
+  const outCols = result?.output[0]?.length ?? 0;
+  const outCell = Math.min(48, Math.max(6, Math.floor(GRID_WIDTH / Math.max(outCols, 1))));
+
+  if (!rows) return null;
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Minimize2 size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">Pooling Stage</span>
+          <span className="text-[10px] text-neutral-500">applied after the convolution above</span>
+        </div>
+        <span className="text-xs font-mono text-neutral-500">
+          {cols}×{rows} → {outCols}×{outRows}
+        </span>
+      </div>
+
+      <div className="p-4 grid lg:grid-cols-[260px_1fr] gap-6">
+        {/* Controls */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-1">
+            {MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => update({ mode: m.id })}
+                className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${options.mode === m.id ? 'bg-violet-500/20 text-violet-300' : 'text-neutral-500 hover:bg-white/5 hover:text-neutral-300'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-4">
+            <Stepper label="Window" value={options.window} min={1} max={5} onChange={v => update({ window: v })} disabled={isGlobal} />
+            <Stepper label="Stride" value={options.stride} min={1} max={5} onChange={v => update({ stride: v })} disabled={isGlobal} />
+            <Stepper
+              label="Padding"
+              value={options.padding}
+              min={0}
+              max={Math.floor(options.window / 2)}
+              onChange={v => update({ padding: v })}
+              disabled={isGlobal}
+            />
+          </div>
+
+          <div className="rounded-lg bg-black/30 p-3 space-y-1">
+            <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wider block mb-1">Output shape</span>
+            {isGlobal ? (
+              <div className="font-mono text-[11px] text-neutral-400">
+                mean of all {cols}×{rows} = {cols * rows} cells → <span className="text-violet-300">1×1</span>
+              </div>
+            ) : (
+              <>
+                <ShapeFormula axis="W" size={cols} options={options} />
+                <ShapeFormula axis="H" size={rows} options={options} />
+              </>
+            )}
+            {problem && <div className="text-[11px] text-red-400">{problem}</div>}
+          </div>
+
+          {options.mode === 'max' && (
+            <div>
+              <span className="text-[10px] text-neutral-500 block mb-1">Trace winners in channel</span>
+              <div className="flex gap-1">
+                {(Object.keys(CHANNEL_LABELS) as TraceChannel[]).map(c => (
+                  <button
+                    key={c}
+                    onClick={() => setChannel(c)}
+                    className={`flex-1 py-1 rounded-md text-[11px] transition-all ${channel === c ? 'bg-white/10 text-white' : 'text-neutral-500 hover:bg-white/5'}`}
+                  >
+                    {CHANNEL_LABELS[c]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-[11px] text-neutral-500 leading-relaxed flex gap-2">
+            <Info size={12} className="shrink-0 mt-0.5" />
+            {options.mode === 'max'
+              ? 'Each output keeps only the strongest response in its window. Dots mark the winning input cells; hover an output cell to see its window.'
+              : options.mode === 'average'
+                ? 'Each output is the mean of its window, smoothing as it shrinks. Padded cells are left out of the mean.'
+                : 'The whole feature map collapses to one number per channel - how CNNs turn any input size into a fixed-length vector.'}
+          </p>
+        </div>
+
+        {/* Before / after */}
+        <div className="flex flex-wrap items-start gap-6">
+          <div>
+            <span className="text-[10px] text-neutral-500 uppercase tracking-wider block mb-2">Before · {cols}×{rows}</span>
+            <div className="inline-grid gap-px bg-black/30 p-1 rounded-md" style={{ gridTemplateColumns: `repeat(${cols}, ${inCell}px)` }}>
+              {matrix.map((row, y) => row.map((pixel, x) => {
+                const inWindow = activeWindow && y >= activeWindow.top && y <= activeWindow.bottom && x >= activeWindow.left && x <= activeWindow.right;
+                const isHoveredWinner = hoveredWinner?.row === y && hoveredWinner?.col === x;
+                const isWinner = winnerSet.has(`${y}:${x}`);
+                return (
+                  <div
+                    key={`${x}-${y}`}
+                    className={`relative flex items-center justify-center ${isHoveredWinner ? 'ring-2 ring-amber-400 z-10' : ''}`}
+                    style={{
+                      width: inCell,
+                      height: inCell,
+                      backgroundColor: pixel.hex,
+                      opacity: activeWindow && !inWindow ? 0.25 : 1,
+                    }}
+                  >
+                    {isWinner && (
+                      <span className="w-1 h-1 rounded-full bg-amber-400 shadow" />
+                    )}
+                  </div>
+                );
+              }))}
+            </div>
+          </div>
+
+          {result && (
+            <div>
+              <span className="text-[10px] text-neutral-500 uppercase tracking-wider block mb-2">After · {outCols}×{outRows}</span>
+              <div
+                className="inline-grid gap-px bg-black/30 p-1 rounded-md"
+                style={{ gridTemplateColumns: `repeat(${outCols}, ${outCell}px)` }}
+                onMouseLeave={() => setHovered(null)}
+              >
+                {result.output.map((row, y) => row.map((pixel, x) => (
+                  <div
+                    key={`${x}-${y}`}
+                    onMouseEnter={() => setHovered({ row: y, col: x })}
+                    className={`flex items-center justify-center font-mono text-[8px] cursor-crosshair ${hovered?.row === y && hovered?.col === x ? 'ring-2 ring-violet-400 z-10' : ''}`}
+                    style={{
+                      width: outCell,
+                      height: outCell,
+                      backgroundColor: pixel.hex,
+                      color: pixel.gray > 128 ? '#000' : '#fff',
+                    }}
+                    title={`R:${pixel.r} G:${pixel.g} B:${pixel.b}`}
+                  >
+                    {outCell >= 24 ? pixel[channel] : null}
+                  </div>
+                )))}
+              </div>
+              {hoveredWinner && (
+                <p className="mt-2 text-[11px] font-mono text-neutral-400">
+                  {CHANNEL_LABELS[channel]} winner: input [{hoveredWinner.row}, {hoveredWinner.col}] ={' '}
+                  <span className="text-amber-300">{matrix[hoveredWinner.row][hoveredWinner.col][channel]}</span>
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PoolingStage;
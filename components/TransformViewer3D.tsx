@@ -0,0 +1,384 @@
+/**
+ * @fileoverview 3D view of a linear transformation.
+ *
+ * A user-editable 3×3 matrix acts on the unit cube, the standard basis
+ * and a sphere of points. Everything is projected in software onto a
+ * canvas; dragging orbits the camera and the wheel zooms. "Animate"
+ * blends from the identity to the matrix so each point slides from p to
+ * Ap, which is how a projection or Q/K/V weight matrix reshapes space.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Play, RotateCcw } from 'lucide-react';
+import { determinant, identity } from '../utils/linearAlgebra';
+import {
+  DEFAULT_CAMERA,
+  easeInOut,
+  fibonacciSphere,
+  interpolateFromIdentity,
+  orbitCamera,
+  projectPoint,
+  transformPoint,
+  zoomCamera,
+} from '../utils/projection3d';
+import type { OrbitCamera, Vec3 } from '../utils/projection3d';
+import type { Matrix } from '../src/types';
+import { MatrixInput, parseMatrixCells, toMatrixCells } from './ui/MatrixInput';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Layer = 'cube' | 'basis' | 'cloud';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const CANVAS_WIDTH = 360;
+const CANVAS_HEIGHT = 300;
+
+/** Duration of the identity-to-matrix animation */
+const ANIMATION_MS = 1500;
+const TICK_MS = 30;
+
+/** Camera turn per dragged pixel, in radians */
+const ORBIT_SPEED = 0.01;
+const ZOOM_STEP = 1.1;
+
+/** Half-width of the ground grid and axes, in world units */
+const GRID_EXTENT = 3;
+
+const CLOUD_SIZE = 200;
+const CLOUD = fibonacciSphere(CLOUD_SIZE);
+
+const CUBE_CORNERS: Vec3[] = [0, 1, 2, 3, 4, 5, 6, 7].map(i => [i & 1, (i >> 1) & 1, (i >> 2) & 1]);
+const CUBE_EDGES: [number, number][] = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+const BASIS: { vector: Vec3; color: string; label: string }[] = [
+  { vector: [1, 0, 0], color: '#f43f5e', label: 'e₁' },
+  { vector: [0, 1, 0], color: '#22c55e', label: 'e₂' },
+  { vector: [0, 0, 1], color: '#3b82f6', label: 'e₃' },
+];
+
+const LAYERS: { id: Layer; label: string }[] = [
+  { id: 'cube', label: 'Unit cube' },
+  { id: 'basis', label: 'Basis vectors' },
+  { id: 'cloud', label: 'Point cloud' },
+];
+
+const PRESETS: { name: string; data: number[][] }[] = [
+  { name: 'Identity', data: identity(3).data },
+  { name: 'Scale', data: [[1.5, 0, 0], [0, 1, 0], [0, 0, 0.5]] },
+  { name: 'Shear', data: [[1, 0.8, 0], [0, 1, 0], [0, 0, 1]] },
+  { name: 'Rotate 45° (z)', data: [[0.707, -0.707, 0], [0.707, 0.707, 0], [0, 0, 1]] },
+  { name: 'Reflect (z)', data: [[1, 0, 0], [0, 1, 0], [0, 0, -1]] },
+  { name: 'Project to xy', data: [[1, 0, 0], [0, 1, 0], [0, 0, 0]] },
+  { name: 'Dense', data: [[0.9, -0.4, 0.3], [0.2, 1.1, -0.5], [0.4, 0.3, 0.7]] },
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const formatNumber = (value: number) => {
+  const rounded = parseFloat(value.toFixed(2));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+/** Line between two world points, skipped if either end is behind the camera */
+const drawSegment = (ctx: CanvasRenderingContext2D, camera: OrbitCamera, a: Vec3, b: Vec3) => {
+  const p = projectPoint(a, camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const q = projectPoint(b, camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+  if (!p || !q) return;
+  ctx.beginPath();
+  ctx.moveTo(p.x, p.y);
+  ctx.lineTo(q.x, q.y);
+  ctx.stroke();
+};
+
+/** Arrow from the origin with a screen-space head and a label past the tip */
+const drawArrow = (ctx: CanvasRenderingContext2D, camera: OrbitCamera, tip: Vec3, color: string, label: string) => {
+  const p = projectPoint([0, 0, 0], camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+  const q = projectPoint(tip, camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+  if (!p || !q) return;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2.5;
+  ctx.beginPath();
+  ctx.moveTo(p.x, p.y);
+  ctx.lineTo(q.x, q.y);
+  ctx.stroke();
+
+  const length = Math.hypot(q.x - p.x, q.y - p.y);
+  if (length > 4) {
+    const [ux, uy] = [(q.x - p.x) / length, (q.y - p.y) / length];
+    const head = Math.min(9, length / 2);
+    ctx.beginPath();
+    ctx.moveTo(q.x, q.y);
+    ctx.lineTo(q.x - head * ux - (head / 2) * uy, q.y - head * uy + (head / 2) * ux);
+    ctx.lineTo(q.x - head * ux + (head / 2) * uy, q.y - head * uy - (head / 2) * ux);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.font = '11px monospace';
+  ctx.fillText(label, q.x + 5, q.y - 5);
+};
+
+/**
+ * Draws one frame: ground grid and axes, the original and transformed
+ * cube, the point cloud far-to-near, then the transformed basis on top.
+ */
+const drawScene = (ctx: CanvasRenderingContext2D, camera: OrbitCamera, m: Matrix, layers: Record<Layer, boolean>) => {
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.lineWidth = 1;
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+  for (let k = -GRID_EXTENT; k <= GRID_EXTENT; k++) {
+    drawSegment(ctx, camera, [k, -GRID_EXTENT, 0], [k, GRID_EXTENT, 0]);
+    drawSegment(ctx, camera, [-GRID_EXTENT, k, 0], [GRID_EXTENT, k, 0]);
+  }
+  BASIS.forEach(({ vector, color }, i) => {
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = 0.3;
+    drawSegment(ctx, camera, vector.map(v => -v * GRID_EXTENT) as Vec3, vector.map(v => v * GRID_EXTENT) as Vec3);
+    ctx.globalAlpha = 1;
+    const end = projectPoint(vector.map(v => v * (GRID_EXTENT + 0.3)) as Vec3, camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (end) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.font = '10px monospace';
+      ctx.fillText('xyz'[i], end.x, end.y);
+    }
+  });
+
+  if (layers.cube) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.setLineDash([3, 3]);
+    for (const [a, b] of CUBE_EDGES) drawSegment(ctx, camera, CUBE_CORNERS[a], CUBE_CORNERS[b]);
+    ctx.setLineDash([]);
+
+    const corners = CUBE_CORNERS.map(c => transformPoint(m, c));
+    ctx.strokeStyle = determinant(m) < 0 ? '#f43f5e' : '#8b5cf6';
+    ctx.lineWidth = 2;
+    for (const [a, b] of CUBE_EDGES) drawSegment(ctx, camera, corners[a], corners[b]);
+    ctx.lineWidth = 1;
+  }
+
+  if (layers.cloud) {
+    const points = CLOUD.flatMap(original => {
+      const projected = projectPoint(transformPoint(m, original), camera, CANVAS_WIDTH, CANVAS_HEIGHT);
+      return projected ? [{ original, projected }] : [];
+    }).sort((a, b) => b.projected.depth - a.projected.depth);
+    for (const { original, projected } of points) {
+      // Colour by where the point started, so the stretch stays readable
+      ctx.fillStyle = `hsla(${200 + 70 * (original[2] + 1)}, 80%, 65%, 0.8)`;
+      ctx.beginPath();
+      ctx.arc(projected.x, projected.y, Math.max(1, 0.035 * projected.scale), 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }
+
+  if (layers.basis) {
+    for (const { vector, color, label } of BASIS) drawArrow(ctx, camera, transformPoint(m, vector), color, `A${label}`);
+  }
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const TransformViewer3D: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [cells, setCells] = useState(() => toMatrixCells(PRESETS[2].data));
+  const [camera, setCamera] = useState<OrbitCamera>(DEFAULT_CAMERA);
+  // Blend weight shown on the slider; playback eases it, scrubbing sets it directly
+  const [t, setT] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const clockRef = useRef(1);
+  const [layers, setLayers] = useState<Record<Layer, boolean>>({ cube: true, basis: true, cloud: true });
+
+  const matrix = useMemo(() => parseMatrixCells(cells, 'A'), [cells]);
+  const current = useMemo(
+    () => interpolateFromIdentity(matrix ?? identity(3), t),
+    [matrix, t]
+  );
+
+  // Advance the identity-to-matrix blend
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      clockRef.current = Math.min(1, clockRef.current + TICK_MS / ANIMATION_MS);
+      setT(easeInOut(clockRef.current));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (t >= 1) setIsPlaying(false);
+  }, [t]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawScene(ctx, camera, current, layers);
+  }, [camera, current, layers]);
+
+  // React's wheel listener is passive, so zooming would also scroll the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setCamera(prev => zoomCamera(prev, e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const startDrag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const drag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = dragRef.current;
+    if (!last) return;
+    const [dx, dy] = [e.clientX - last.x, e.clientY - last.y];
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCamera(prev => orbitCamera(prev, -dx * ORBIT_SPEED, dy * ORBIT_SPEED));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const animate = () => {
+    clockRef.current = 0;
+    setT(0);
+    setIsPlaying(true);
+  };
+
+  const setCell = (i: number, j: number, value: string) => {
+    setCells(prev => prev.map((row, r) => row.map((cell, c) => (r === i && c === j ? value : cell))));
+  };
+
+  const det = determinant(current);
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10">
+      <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Box size={14} className="text-violet-400" />
+          <span className="text-sm font-medium">3D Transformation Viewer</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={animate}
+            disabled={!matrix}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-violet-500 hover:bg-violet-600 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors"
+          >
+            <Play size={12} /> Animate from I
+          </button>
+          <button
+            onClick={() => setCamera(DEFAULT_CAMERA)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+          >
+            <RotateCcw size={12} /> Reset view
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-center gap-6">
+          <MatrixInput cells={cells} onChange={setCell} />
+          <div className="flex flex-wrap gap-1.5 max-w-[240px]">
+            {PRESETS.map(preset => (
+              <button
+                key={preset.name}
+                onClick={() => {
+                  setCells(toMatrixCells(preset.data));
+                  animate();
+                }}
+                className="px-2 py-1 text-[10px] bg-white/5 hover:bg-white/10 rounded transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!matrix && <p className="text-[11px] text-red-400 text-center">Every entry must be a number.</p>}
+
+        <div className="space-y-2 w-fit mx-auto">
+          <canvas
+            ref={canvasRef}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            onPointerDown={startDrag}
+            onPointerMove={drag}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            className="bg-black/50 rounded-lg cursor-grab active:cursor-grabbing touch-none"
+          />
+          <div className="flex flex-wrap justify-center gap-3">
+            {LAYERS.map(layer => (
+              <label key={layer.id} className="flex items-center gap-1.5 text-[11px] text-neutral-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={layers[layer.id]}
+                  onChange={() => setLayers(prev => ({ ...prev, [layer.id]: !prev[layer.id] }))}
+                  className="accent-violet-500"
+                />
+                {layer.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] text-neutral-500 text-center">Drag to orbit, scroll to zoom</p>
+        </div>
+
+        <div className="max-w-sm mx-auto">
+          <div className="flex justify-between text-xs text-neutral-500 mb-1">
+            <span>Blend (1 − t)·I + t·A</span>
+            <span className="font-mono">t = {t.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min="0" max="1" step="0.01" value={t}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setT(parseFloat(e.target.value));
+            }}
+            className="w-full"
+          />
+        </div>
+
+        <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-3 flex flex-wrap items-center justify-center gap-6">
+          <div className="flex items-center gap-2 text-[11px] text-neutral-400">
+            <span className="font-mono">M(t) =</span>
+            <div className="inline-grid grid-cols-3 gap-x-3 font-mono">
+              {current.data.flat().map((v, k) => (
+                <span key={k} className="text-right">{formatNumber(v)}</span>
+              ))}
+            </div>
+          </div>
+          <div className="text-[11px] space-y-1">
+            <div className="font-mono">det M(t) = {formatNumber(det)}</div>
+            <p className="text-neutral-500 max-w-[220px]">
+              {Math.abs(det) < 1e-3
+                ? 'The cube is flattened: some direction is sent to zero.'
+                : det < 0
+                  ? 'Negative: the cube has been turned inside out.'
+                  : `The cube's volume is scaled by ${formatNumber(det)}.`}
+              {' '}The columns of M(t) are where e₁, e₂ and e₃ land.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransformViewer3D;
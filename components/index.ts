@@ -6,6 +6,15 @@
 
 // Main components
 export { MatrixVisualizer } from './MatrixVisualizer';
+export { PoolingStage } from './PoolingStage';
+export { CnnPipelineBuilder } from './CnnPipelineBuilder';
+export { ChannelSplitPanel } from './ChannelSplitPanel';
+export { HistogramPanel } from './HistogramPanel';
+export { CannyWalkthrough } from './CannyWalkthrough';
+export { OptimizerZoo } from './OptimizerZoo';
+export { ComputationGraph } from './ComputationGraph';
+export { MatrixExplorer } from './MatrixExplorer';
+export { TransformViewer3D } from './TransformViewer3D';
 
 // Demo components
 export * from './demos';
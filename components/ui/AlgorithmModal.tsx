@@ -7,7 +7,8 @@
 
 import React from 'react';
 import { X, Eye, Sparkles, Zap, Lightbulb, Grid3X3 } from 'lucide-react';
-import type { AlgorithmInfo } from '../../types';
+import type { AlgorithmInfo, Kernel } from '../../types';
+import { KernelGrid } from './KernelGrid';
 
 // =============================================================================
 // TYPES
@@ -27,14 +28,23 @@ interface AlgorithmModalProps {
 // =============================================================================
 
 /**
- * Returns CSS class for kernel cell based on its value.
+ * Shrinks cells for larger kernels so the grid keeps a similar footprint.
  */
-const getKernelCellClass = (val: number): string => {
-  if (val > 0) return 'bg-violet-500/30 text-violet-300';
-  if (val < 0) return 'bg-red-500/30 text-red-300';
-  return 'bg-white/10 text-neutral-500';
+const getCellSize = (kernel: Kernel): number => {
+  const size = Math.max(kernel.length, kernel[0]?.length ?? 0);
+  return size <= 3 ? 30 : size <= 5 ? 20 : 14;
 };
 
+/**
+ * Small captioned kernel used for each half of a gradient pair.
+ */
+const LabeledKernel: React.FC<{ label: string; kernel: Kernel }> = ({ label, kernel }) => (
+  <div>
+    <KernelGrid kernel={kernel} cellSize={22} textClassName="text-[10px]" />
+    <div className="mt-1 text-[10px] font-mono text-neutral-500 text-center">{label}</div>
+  </div>
+);
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -72,21 +82,24 @@ export const AlgorithmModal: React.FC<AlgorithmModalProps> = ({
         <div className="flex items-start gap-6">
           <div>
             <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wider block mb-2">
-              Kernel Matrix
+              {algorithm.gradient ? 'Kernel Pair' : algorithm.nonLinear ? 'Structuring Element' : 'Kernel Matrix'}
             </span>
-            <div className="grid grid-cols-3 gap-1 w-24">
-              {algorithm.kernel.flat().map((val, i) => (
-                <div 
-                  key={i} 
-                  className={`aspect-square flex items-center justify-center text-sm font-mono rounded ${getKernelCellClass(val)}`}
-                >
-                  {val}
-                </div>
-              ))}
-            </div>
+            {algorithm.gradient ? (
+              <div className="flex gap-3">
+                <LabeledKernel label="Gx" kernel={algorithm.gradient.x} />
+                <LabeledKernel label="Gy" kernel={algorithm.gradient.y} />
+              </div>
+            ) : (
+              <KernelGrid kernel={algorithm.kernel} cellSize={getCellSize(algorithm.kernel)} textClassName="text-sm" />
+            )}
             <div className="mt-2 text-[10px] font-mono text-neutral-500 text-center">
-              ÷ {algorithm.divisor}
+              {algorithm.nonLinear ? 'footprint, not weights' : `÷ ${algorithm.divisor}`}
             </div>
+            {algorithm.separable && (
+              <div className="mt-1 text-[10px] font-mono text-neutral-500 text-center">
+                = [{algorithm.separable.column.join(' ')}]ᵀ × [{algorithm.separable.row.join(' ')}]
+              </div>
+            )}
           </div>
           <div className="flex-1">
             <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wider block mb-2">
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Editable kernel grid for designing custom filters.
+ *
+ * Lets the learner type weights, pick the kernel size, choose an
+ * automatic or manual divisor, add a bias, start from a preset, and copy
+ * a link that reopens the lab with the same kernel.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Link as LinkIcon, Check, Pencil } from 'lucide-react';
+import type { AlgorithmInfo, CustomKernelSpec } from '../../types';
+import { getAutoDivisor, resizeKernel, MAX_KERNEL_SIZE } from '../../utils/customKernel';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface KernelEditorProps {
+  /** Kernel being edited */
+  spec: CustomKernelSpec;
+  /** Called with the updated spec after every edit */
+  onChange: (spec: CustomKernelSpec) => void;
+  /** Presets offered as starting points */
+  presets: Record<string, AlgorithmInfo>;
+  /** Link that reproduces the current kernel */
+  shareUrl: string;
+  /** Callback to leave the editor */
+  onClose: () => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Selectable kernel sides: odd sizes from 1 up to the maximum */
+const SIZE_OPTIONS = Array.from({ length: (MAX_KERNEL_SIZE + 1) / 2 }, (_, i) => i * 2 + 1);
+
+/**
+ * Parses a typed number, rejecting partial input like "-" or "1.".
+ */
+const parseWeight = (text: string): number | null => {
+  if (!/^-?\d*\.?\d+$/.test(text.trim())) return null;
+  return Number(text);
+};
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+/**
+ * Number field that keeps its own draft text so partial input such as
+ * "-" or "0." can be typed, committing only valid numbers.
+ */
+const NumberField: React.FC<{
+  value: number;
+  onCommit: (value: number) => void;
+  className?: string;
+  disabled?: boolean;
+  ariaLabel: string;
+}> = ({ value, onCommit, className = '', disabled, ariaLabel }) => {
+  const [draft, setDraft] = useState(String(value));
+  const [focused, setFocused] = useState(false);
+
+  // Follow external changes (presets, resizing) unless the user is typing
+  useEffect(() => {
+    if (!focused) setDraft(String(value));
+  }, [value, focused]);
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      aria-label={ariaLabel}
+      value={draft}
+      disabled={disabled}
+      onFocus={(e) => {
+        setFocused(true);
+        e.target.select();
+      }}
+      onBlur={() => {
+        setFocused(false);
+        setDraft(String(value));
+      }}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseWeight(e.target.value);
+        if (parsed !== null) onCommit(parsed);
+      }}
+      className={`bg-black/40 border border-white/10 rounded-md text-center font-mono text-neutral-200 focus:outline-none focus:border-violet-500/60 disabled:opacity-50 ${className}`}
+    />
+  );
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Panel for editing a custom convolution kernel.
+ */
+export const KernelEditor: React.FC<KernelEditorProps> = ({
+  spec,
+  onChange,
+  presets,
+  shareUrl,
+  onClose,
+}) => {
+  const [copied, setCopied] = useState(false);
+  const rows = spec.kernel.length;
+  const cols = spec.kernel[0]?.length ?? 0;
+  const autoDivisor = getAutoDivisor(spec.kernel);
+  const cellWidth = cols > 5 ? 'w-9' : 'w-11';
+
+  const setWeight = (y: number, x: number, value: number) => {
+    const kernel = spec.kernel.map((row, ry) =>
+      row.map((w, rx) => (ry === y && rx === x ? value : w))
+    );
+    onChange({ ...spec, kernel });
+  };
+
+  const loadPreset = (key: string) => {
+    const preset = presets[key];
+    if (!preset) return;
+    onChange({
+      kernel: preset.kernel.map(row => [...row]),
+      divisor: preset.divisor,
+      bias: preset.bias ?? 0,
+    });
+  };
+
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt('Copy this link to share your kernel:', shareUrl);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-violet-500/30">
+      <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+        <span className="text-xs font-medium text-violet-400 flex items-center gap-1.5">
+          <Pencil size={12} /> Custom Kernel
+        </span>
+        <button onClick={onClose} className="p-1 rounded-md hover:bg-white/10 transition-colors" aria-label="Close editor">
+          <X size={12} className="text-neutral-400" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Size & preset */}
+        <div className="grid grid-cols-3 gap-2 text-[10px] text-neutral-500">
+          <label className="space-y-1">
+            <span className="block">Rows</span>
+            <select
+              value={rows}
+              onChange={(e) => onChange({ ...spec, kernel: resizeKernel(spec.kernel, Number(e.target.value), cols) })}
+              className="w-full bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-xs text-neutral-200"
+            >
+              {SIZE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block">Columns</span>
+            <select
+              value={cols}
+              onChange={(e) => onChange({ ...spec, kernel: resizeKernel(spec.kernel, rows, Number(e.target.value)) })}
+              className="w-full bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-xs text-neutral-200"
+            >
+              {SIZE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block">Start from</span>
+            <select
+              value=""
+              onChange={(e) => loadPreset(e.target.value)}
+              className="w-full bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-xs text-neutral-200"
+            >
+              <option value="" disabled>Preset…</option>
+              {Object.entries(presets).map(([key, algo]) => (
+                <option key={key} value={key}>{algo.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Weights */}
+        <div className="overflow-x-auto">
+          <div
+            className="grid gap-1 mx-auto w-max"
+            style={{ gridTemplateColumns: `repeat(${cols}, auto)` }}
+          >
+            {spec.kernel.map((row, y) =>
+              row.map((w, x) => (
+                <NumberField
+                  key={`${y}-${x}`}
+                  value={w}
+                  onCommit={(v) => setWeight(y, x, v)}
+                  ariaLabel={`Weight row ${y + 1} column ${x + 1}`}
+                  className={`${cellWidth} h-8 text-xs ${w > 0 ? 'text-violet-300' : w < 0 ? 'text-red-300' : ''}`}
+                />
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Divisor & bias */}
+        <div className="grid grid-cols-2 gap-3 text-[10px] text-neutral-500">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span>Divisor</span>
+              <button
+                onClick={() => onChange({ ...spec, divisor: spec.divisor === 'auto' ? autoDivisor : 'auto' })}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-medium transition-colors ${spec.divisor === 'auto' ? 'bg-violet-500/20 text-violet-300' : 'bg-white/5 text-neutral-500 hover:text-neutral-300'}`}
+              >
+                Auto
+              </button>
+            </div>
+            <NumberField
+              value={spec.divisor === 'auto' ? autoDivisor : spec.divisor}
+              onCommit={(v) => { if (v !== 0) onChange({ ...spec, divisor: v }); }}
+              disabled={spec.divisor === 'auto'}
+              ariaLabel="Divisor"
+              className="w-full h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="block py-0.5">Bias</span>
+            <NumberField
+              value={spec.bias}
+              onCommit={(v) => onChange({ ...spec, bias: v })}
+              ariaLabel="Bias"
+              className="w-full h-8 text-xs"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={copyShareUrl}
+          className="w-full py-2 rounded-lg bg-white/5 border border-white/10 text-xs flex items-center justify-center gap-2 hover:bg-white/10 transition-colors"
+        >
+          {copied ? <Check size={12} className="text-green-400" /> : <LinkIcon size={12} />}
+          {copied ? 'Link copied' : 'Copy share link'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default KernelEditor;
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Grid display for convolution kernels of any odd size.
+ *
+ * Lays the weights out with one column per kernel column, so 3x3, 5x5
+ * and rectangular kernels such as 1x9 all render in their true shape.
+ */
+
+import React from 'react';
+import type { Kernel } from '../../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface KernelGridProps {
+  /** Kernel weights as [row][col] */
+  kernel: Kernel;
+  /** Pixel width of one cell (default: 16) */
+  cellSize?: number;
+  /** Hide the numbers, keeping only the colors (default: auto for wide kernels) */
+  showValues?: boolean;
+  /** Dim the positive/negative coloring, e.g. for inactive list items */
+  muted?: boolean;
+  /** Extra classes for the value text */
+  textClassName?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Returns CSS class for a kernel cell based on its sign.
+ */
+const getCellClass = (val: number, muted: boolean): string => {
+  if (muted) return 'bg-white/5 text-neutral-500';
+  if (val > 0) return 'bg-violet-500/30 text-violet-300';
+  if (val < 0) return 'bg-red-500/30 text-red-300';
+  return 'bg-white/10 text-neutral-500';
+};
+
+/**
+ * Formats a weight compactly, trimming long fractions.
+ */
+const formatWeight = (val: number): string => {
+  return Number.isInteger(val) ? String(val) : val.toFixed(2).replace(/0+$/, '');
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+/**
+ * Renders kernel weights as a colored grid: violet for positive,
+ * red for negative, gray for zero.
+ */
+export const KernelGrid: React.FC<KernelGridProps> = ({
+  kernel,
+  cellSize = 16,
+  showValues,
+  muted = false,
+  textClassName = 'text-[8px]',
+}) => {
+  const cols = kernel[0]?.length ?? 0;
+  // Numbers stop being legible once cells get much smaller than the text
+  const withValues = showValues ?? (cellSize >= 14 && cols <= 5);
+
+  return (
+    <div
+      className="grid gap-0.5"
+      style={{ gridTemplateColumns: `repeat(${cols}, ${cellSize}px)` }}
+    >
+      {kernel.flat().map((val, i) => (
+        <div
+          key={i}
+          className={`flex items-center justify-center font-mono rounded-sm ${textClassName} ${getCellClass(val, muted)}`}
+          style={{ height: cellSize }}
+          title={String(val)}
+        >
+          {withValues ? formatWeight(val) : null}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default KernelGrid;
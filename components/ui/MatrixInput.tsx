@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Bracketed grid of text boxes for typing a small matrix.
+ *
+ * Entries are kept as text so half-typed values such as "-" or "1." can
+ * sit in a cell; `parseMatrixCells` turns the grid into a matrix once
+ * every entry is a number.
+ */
+
+import React from 'react';
+import { createMatrix } from '../../utils/linearAlgebra';
+import type { Matrix } from '../../src/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MatrixInputProps {
+  /** Entry text as [row][col] */
+  cells: string[][];
+  onChange: (row: number, col: number, value: string) => void;
+  /** Name shown before the brackets (default: A) */
+  label?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const isValidEntry = (cell: string) => cell.trim() !== '' && Number.isFinite(Number(cell));
+
+/**
+ * Text cells for a matrix's entries.
+ */
+export const toMatrixCells = (data: number[][]): string[][] => data.map(row => row.map(String));
+
+/**
+ * Parses a grid of text cells, or returns null if any cell is not a number.
+ */
+export const parseMatrixCells = (cells: string[][], label?: string): Matrix | null =>
+  cells.every(row => row.every(isValidEntry)) ? createMatrix(cells.map(row => row.map(Number)), label) : null;
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const MatrixInput: React.FC<MatrixInputProps> = ({ cells, onChange, label = 'A' }) => (
+  <div className="flex items-center gap-2">
+    <span className="font-mono text-sm text-neutral-400">{label} =</span>
+    <div className="flex items-stretch">
+      <div className="w-1.5 border-l-2 border-y-2 border-white/30 rounded-l" />
+      <div className="grid gap-1 p-1" style={{ gridTemplateColumns: `repeat(${cells[0]?.length ?? 0}, minmax(0, 1fr))` }}>
+        {cells.map((row, i) =>
+          row.map((cell, j) => (
+            <input
+              key={`${i}-${j}`}
+              type="text"
+              inputMode="decimal"
+              value={cell}
+              onChange={e => onChange(i, j, e.target.value)}
+              aria-label={`${label}[${i + 1}][${j + 1}]`}
+              className={`w-14 px-1.5 py-1 rounded bg-white/5 border text-center font-mono text-sm focus:outline-none ${isValidEntry(cell) ? 'border-white/10 focus:border-violet-500/50' : 'border-red-500/50'}`}
+            />
+          ))
+        )}
+      </div>
+      <div className="w-1.5 border-r-2 border-y-2 border-white/30 rounded-r" />
+    </div>
+  </div>
+);
+
+export default MatrixInput;
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Labelled range input with its current value shown on the
+ * right, in the compact style of the lab side panels.
+ */
+
+import React from 'react';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  /** Text for the value readout (default: the number as is) */
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const SLIDER_CLASS = 'w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-violet-500';
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format = String, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between mb-1.5">
+      <span className="text-[10px] text-neutral-500">{label}</span>
+      <span className="text-xs font-mono text-violet-300">{format(value)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={SLIDER_CLASS}
+    />
+  </div>
+);
+
+export default Slider;
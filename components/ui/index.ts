@@ -4,3 +4,7 @@
 
 export { AlgorithmModal } from './AlgorithmModal';
 export { CameraSelector } from './CameraSelector';
+export { KernelGrid } from './KernelGrid';
+export { KernelEditor } from './KernelEditor';
+export { Slider } from './Slider';
+export { MatrixInput } from './MatrixInput';
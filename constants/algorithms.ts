@@ -2,10 +2,53 @@
  * @fileoverview Algorithm configurations for the Computer Vision Lab.
  * 
  * Contains preset algorithms with their kernels, divisors, and educational
- * deep-dive content for the interactive learning experience.
+ * deep-dive content for the interactive learning experience, plus the
+ * non-linear filters offered alongside them for contrast.
  */
 
-import type { AlgorithmInfo, Kernel } from '../types';
+import type { AlgorithmInfo, Kernel, NonLinearFilter } from '../types';
+import { getStructuringElement } from '../utils/imageOps';
+
+// =============================================================================
+// KERNEL BUILDING BLOCKS
+// =============================================================================
+
+/**
+ * Builds the full 2D kernel of a separable pair (column × row).
+ */
+const outerProduct = (column: number[], row: number[]): Kernel =>
+  column.map(c => row.map(r => c * r));
+
+/** Binomial approximation of a 5-tap Gaussian */
+const GAUSSIAN_5 = [1, 4, 6, 4, 1];
+
+const BOX_7 = [1, 1, 1, 1, 1, 1, 1];
+
+const MOTION_9 = [[1, 1, 1, 1, 1, 1, 1, 1, 1]];
+
+const SOBEL_X: Kernel = [
+  [-1, 0, 1],
+  [-2, 0, 2],
+  [-1, 0, 1],
+];
+
+const SOBEL_Y: Kernel = [
+  [-1, -2, -1],
+  [0, 0, 0],
+  [1, 2, 1],
+];
+
+const SCHARR_X: Kernel = [
+  [-3, 0, 3],
+  [-10, 0, 10],
+  [-3, 0, 3],
+];
+
+const SCHARR_Y: Kernel = [
+  [-3, -10, -3],
+  [0, 0, 0],
+  [3, 10, 3],
+];
 
 // =============================================================================
 // PRESET ALGORITHMS
@@ -79,6 +122,7 @@ export const PRESET_ALGORITHMS: Record<string, AlgorithmInfo> = {
       [1, 2, 1],
     ] as Kernel,
     divisor: 16,
+    separable: { row: [1, 2, 1], column: [1, 2, 1] },
     learn: 'Gaussian blur averages pixels together, with closer pixels mattering more - like looking through frosted glass!',
     formula: 'Output = weighted_average(neighbors) ÷ 16',
     deepDive: {
@@ -119,6 +163,268 @@ export const PRESET_ALGORITHMS: Record<string, AlgorithmInfo> = {
       funFact: 'Too much sharpening creates "halos" around edges - bright outlines that look unnatural. This is why overdone HDR photos look weird!',
     },
   },
+
+  'gaussian-blur-5x5': {
+    name: 'Gaussian Blur 5×5',
+    description: 'Wider bell-curve blur, applied as two 1D passes',
+    kernel: outerProduct(GAUSSIAN_5, GAUSSIAN_5),
+    divisor: 256,
+    separable: { row: GAUSSIAN_5, column: GAUSSIAN_5 },
+    learn: 'A bigger kernel blurs more - and because it is separable, it costs 10 multiplies per pixel instead of 25.',
+    formula: 'Output = ([1 4 6 4 1]ᵀ × [1 4 6 4 1]) ⊛ image ÷ 256',
+    deepDive: {
+      whatItDoes: 'Blurs more strongly than the 3×3 Gaussian by blending each pixel with everything up to two pixels away. Fine texture and noise disappear, large shapes stay.',
+      howItWorks: 'Every weight in the 5×5 grid is a row weight times a column weight. That means you can blur each row with [1, 4, 6, 4, 1] first, then blur each column of the result with the same five numbers - and get exactly the same image as the full 5×5 kernel.',
+      mathExplained: 'Full 2D kernel: 5 × 5 = 25 multiplies per pixel. Separable: 5 (row pass) + 5 (column pass) = 10 multiplies. The weights sum to 16 × 16 = 256, so dividing by 256 keeps brightness unchanged. Corner weight = 1×1 = 1, center weight = 6×6 = 36.',
+      realWorld: [
+        'Building image pyramids for multi-scale feature detection',
+        'Smoothing before Canny edge detection',
+        'Anti-aliasing when shrinking images',
+      ],
+      funFact: 'The numbers 1, 4, 6, 4, 1 are row 4 of Pascal\'s triangle. Keep convolving [1, 1] with itself and you walk down the triangle - and towards a perfect Gaussian.',
+    },
+  },
+
+  'box-blur-7x7': {
+    name: 'Box Blur 7×7',
+    description: 'Plain average over a large square window',
+    kernel: outerProduct(BOX_7, BOX_7),
+    divisor: 49,
+    separable: { row: BOX_7, column: BOX_7 },
+    learn: 'A box blur gives all 49 neighbors equal say - simple, fast, and a little blocky compared to a Gaussian.',
+    formula: 'Output = sum(7×7 window) ÷ 49',
+    deepDive: {
+      whatItDoes: 'Replaces each pixel with the plain average of the 7×7 square around it. The image gets very soft, and sharp points spread into visible squares.',
+      howItWorks: 'All 49 weights are 1, so the kernel is [1,1,1,1,1,1,1] across times [1,1,1,1,1,1,1] down. The lab runs it as a horizontal average followed by a vertical average.',
+      mathExplained: 'Full 2D kernel: 49 multiplies per pixel. Separable: 7 + 7 = 14 - three and a half times less work for an identical result. A single bright pixel of 255 on black becomes 255 ÷ 49 ≈ 5 everywhere within 3 pixels of it.',
+      realWorld: [
+        'Fast background blur in video calls',
+        'Approximating a Gaussian by running a box blur three times',
+        'Computing local averages for adaptive thresholding',
+      ],
+      funFact: 'Three box blurs in a row are within a few percent of a true Gaussian. Many real-time graphics engines fake Gaussian blur exactly this way.',
+    },
+  },
+
+  'motion-blur': {
+    name: 'Motion Blur',
+    description: 'Horizontal 1×9 streak, like a panning camera',
+    kernel: MOTION_9,
+    divisor: 9,
+    learn: 'Kernels do not have to be square - a single row of weights smears the image sideways.',
+    formula: 'Output = sum(9 pixels in the row) ÷ 9',
+    deepDive: {
+      whatItDoes: 'Smears the image horizontally, as if the camera moved left-to-right during the exposure. Vertical edges get streaky; horizontal edges stay crisp.',
+      howItWorks: 'The kernel is one row of nine 1s. Each output pixel averages four pixels to the left, itself, and four to the right. Nothing above or below is looked at, so vertical detail is untouched.',
+      mathExplained: 'A vertical white line (255) on black: the 9 pixels around it each see one 255 and eight 0s → 255 ÷ 9 ≈ 28. The 1-pixel line becomes a 9-pixel faint smear. A horizontal line stays exactly the same.',
+      realWorld: [
+        'Simulating camera shake to augment training data',
+        'Deblurring: estimating this kernel is the first step to undoing it',
+        'Speed-line effects in games and video',
+      ],
+      funFact: 'Blur from a shaky hand is a convolution with the path your hand traced. Phone cameras use gyroscope data to estimate that kernel and sharpen the photo afterwards.',
+    },
+  },
+
+  sobel: {
+    name: 'Sobel Edges',
+    description: 'Edge strength from horizontal and vertical gradients',
+    kernel: SOBEL_X,
+    divisor: 4,
+    gradient: { x: SOBEL_X, y: SOBEL_Y, output: 'magnitude' },
+    learn: 'Two kernels measure change left-right and up-down; combining them gives edge strength in every direction.',
+    formula: 'Output = √(Gx² + Gy²) ÷ 4',
+    deepDive: {
+      whatItDoes: 'Lights up edges of any orientation with a brightness proportional to how sharp they are. Unlike the single Laplacian edge kernel, it ignores fine noise better and tells you how strong each edge is.',
+      howItWorks: 'Gx compares the column on the right with the column on the left; Gy compares the row below with the row above. Each is a separate convolution. At every pixel the two answers are treated as a vector (Gx, Gy) and its length becomes the output.',
+      mathExplained: 'Vertical edge, dark=0 on the left, bright=100 on the right: Gx = (1 + 2 + 1) × 100 = 400, Gy = 0. Magnitude = √(400² + 0²) = 400, ÷ 4 = 100. A 45° edge gives Gx ≈ Gy, and the same formula still measures its full strength.',
+      realWorld: [
+        'The gradient step inside the Canny edge detector',
+        'Lane detection in driver assistance systems',
+        'Feature descriptors such as HOG and SIFT',
+      ],
+      funFact: 'Irwin Sobel presented this operator in a 1968 talk at Stanford with Gary Feldman. It was never formally published, yet it is in almost every image processing library.',
+    },
+  },
+
+  scharr: {
+    name: 'Scharr Edges',
+    description: 'Sobel with weights tuned for rotational accuracy',
+    kernel: SCHARR_X,
+    divisor: 16,
+    gradient: { x: SCHARR_X, y: SCHARR_Y, output: 'magnitude' },
+    learn: 'Scharr uses 3-10-3 instead of 1-2-1, so diagonal edges are measured as accurately as straight ones.',
+    formula: 'Output = √(Gx² + Gy²) ÷ 16',
+    deepDive: {
+      whatItDoes: 'Finds edges just like Sobel, but gives more consistent strength for edges at odd angles. Useful when you care about the exact direction of an edge, not just whether it exists.',
+      howItWorks: 'The kernels have the same shape as Sobel - difference across, smoothing along - but the smoothing weights 3, 10, 3 were optimised so the gradient estimate barely depends on edge orientation.',
+      mathExplained: 'Vertical edge, 0 → 100: Gx = (3 + 10 + 3) × 100 = 1600, Gy = 0. Magnitude = 1600, ÷ 16 = 100. The weights sum to 16 per side, which is why the divisor is 16 here versus 4 for Sobel.',
+      realWorld: [
+        'Optical flow estimation, where gradient direction errors add up',
+        'Sub-pixel edge localisation in industrial inspection',
+        'OpenCV uses it automatically for 3×3 derivatives when asked for best accuracy',
+      ],
+      funFact: 'Hanno Scharr derived these weights in his 2000 PhD thesis by numerically optimising for rotation invariance, rather than picking them by hand.',
+    },
+  },
+
+  'sobel-direction': {
+    name: 'Gradient Direction',
+    description: 'Which way each edge faces, as a shade of gray',
+    kernel: SOBEL_X,
+    divisor: 1,
+    gradient: { x: SOBEL_X, y: SOBEL_Y, output: 'direction' },
+    learn: 'The same two Sobel kernels can tell you edge orientation: atan2(Gy, Gx) is the angle the brightness increases towards.',
+    formula: 'Output = (atan2(Gy, Gx) + π) ÷ 2π × 255',
+    deepDive: {
+      whatItDoes: 'Colors every pixel by the direction its local gradient points. Edges facing the same way share a shade; flat regions, with no gradient, come out as a uniform mid gray.',
+      howItWorks: 'Gx and Gy are computed exactly as in Sobel. Instead of their length, we take their angle with atan2, which ranges from -180° to +180°, and stretch that onto 0-255.',
+      mathExplained: 'Brighter to the right: Gx > 0, Gy = 0 → angle 0° → (0 + π) ÷ 2π × 255 ≈ 128. Brighter below: Gy > 0 → 90° → ≈ 191. Brighter to the left: 180° → 255 (or 0 - the two ends of the scale are the same direction).',
+      realWorld: [
+        'Non-maximum suppression in Canny uses direction to thin edges',
+        'Histogram of Oriented Gradients (HOG) for pedestrian detection',
+        'Estimating the dominant orientation of text lines in scanned pages',
+      ],
+      funFact: 'Neurons in your visual cortex are tuned to edge orientation - Hubel and Wiesel won the 1981 Nobel Prize for discovering cells that fire only for edges at particular angles.',
+    },
+  },
+};
+
+// =============================================================================
+// NON-LINEAR FILTERS
+// =============================================================================
+
+/**
+ * Builds the fields every non-linear preset shares: its kernel is the
+ * structuring element's footprint, shown in place of weights.
+ */
+const nonLinearFields = (nonLinear: NonLinearFilter) => ({
+  kernel: getStructuringElement(nonLinear.element),
+  divisor: 1,
+  nonLinear,
+});
+
+/**
+ * Filters that no convolution kernel can reproduce. They run over the
+ * same neighbourhoods as the presets above but sort, pick or compare
+ * values instead of taking a fixed weighted sum.
+ *
+ * @constant
+ */
+export const NON_LINEAR_ALGORITHMS: Record<string, AlgorithmInfo> = {
+  median: {
+    name: 'Median Filter',
+    description: 'Replaces each pixel with the middle value of its neighbors',
+    ...nonLinearFields({ type: 'median', element: { shape: 'square', size: 3 } }),
+    learn: 'A median filter removes speckle noise without smearing edges, because it picks a real neighbor instead of averaging.',
+    formula: 'Output = middle of sort(neighbors)',
+    deepDive: {
+      whatItDoes: 'Wipes out isolated bright or dark specks ("salt and pepper" noise) while keeping edges almost as sharp as before.',
+      howItWorks: 'Collect every value under the structuring element, sort them, and take the one in the middle. A single wild pixel ends up at one end of the sorted list and never gets picked.',
+      mathExplained: 'Neighbors: 10, 12, 11, 255, 13, 12, 10, 11, 12. Sorted: 10, 10, 11, 11, 12, 12, 12, 13, 255 → median 12. A 3×3 box blur gives (10+12+11+255+13+12+10+11+12) ÷ 9 = 38 - the noisy pixel drags the whole average up.',
+      realWorld: [
+        'Cleaning up dead or hot pixels on camera sensors',
+        'Removing scanner dust from digitized photos',
+        'Smoothing depth maps from stereo and time-of-flight cameras',
+      ],
+      funFact: 'No kernel can ever do this. Filtering two images with a kernel and adding the results is the same as filtering their sum, but the median of a sum is not the sum of the medians - and breaking that rule is exactly what makes it robust.',
+    },
+  },
+
+  erosion: {
+    name: 'Erosion',
+    description: 'Takes the minimum under the structuring element',
+    ...nonLinearFields({ type: 'erode', element: { shape: 'square', size: 3 } }),
+    learn: 'Erosion shrinks bright shapes: a pixel stays bright only if everything under the structuring element is bright.',
+    formula: 'Output = min(pixels under element)',
+    deepDive: {
+      whatItDoes: 'Eats away at the edges of bright regions. Thin bright lines and small bright dots disappear entirely.',
+      howItWorks: 'Center the structuring element on each pixel and output the darkest value it covers. The element\'s shape decides which directions get eroded: a cross leaves diagonal corners alone, a disk erodes evenly in every direction.',
+      mathExplained: 'Under a 3×3 square: 200, 200, 200, 200, 200, 200, 40, 200, 200 → min = 40. One dark neighbor is enough to darken the center, so a bright shape loses one pixel all around its border.',
+      realWorld: [
+        'Separating touching coins or cells before counting them',
+        'Removing thin noise lines from thresholded documents',
+        'Shrinking masks so they sit safely inside an object',
+      ],
+      funFact: 'Mathematical morphology was invented in the 1960s by Georges Matheron and Jean Serra to measure the grains in iron ore from microscope images.',
+    },
+  },
+
+  dilation: {
+    name: 'Dilation',
+    description: 'Takes the maximum under the structuring element',
+    ...nonLinearFields({ type: 'dilate', element: { shape: 'square', size: 3 } }),
+    learn: 'Dilation grows bright shapes: a pixel turns bright if anything under the structuring element is bright.',
+    formula: 'Output = max(pixels under element)',
+    deepDive: {
+      whatItDoes: 'Thickens bright regions and closes small dark holes inside them. It is erosion\'s mirror image.',
+      howItWorks: 'Center the structuring element on each pixel and output the brightest value it covers. Every bright pixel stamps a copy of the element onto the output.',
+      mathExplained: 'Under a 3×3 square: 20, 20, 20, 20, 20, 20, 20, 230, 20 → max = 230. A single bright pixel becomes a bright patch the size and shape of the element.',
+      realWorld: [
+        'Joining broken character strokes before text recognition',
+        'Growing a detected region to include a safety margin',
+        'Making thin cracks visible in industrial inspection',
+      ],
+      funFact: 'Dilating the dark background is the same as eroding the bright foreground - the two operations are duals, just like min and max.',
+    },
+  },
+
+  opening: {
+    name: 'Opening',
+    description: 'Erosion then dilation - removes small bright specks',
+    ...nonLinearFields({ type: 'open', element: { shape: 'disk', size: 5 } }),
+    learn: 'Opening deletes bright details smaller than the structuring element and leaves larger shapes nearly untouched.',
+    formula: 'Open = dilate(erode(image))',
+    deepDive: {
+      whatItDoes: 'Removes bright noise and thin bright protrusions without shrinking the objects you care about.',
+      howItWorks: 'Erosion first wipes out every bright spot the element does not fit inside. Dilation then grows what survived back to roughly its original size - but the wiped-out spots have nothing left to grow from.',
+      mathExplained: 'A 2-pixel bright dot and a 20-pixel bright blob, opened with a 5×5 disk: erosion deletes the dot and trims 2 pixels off the blob; dilation adds 2 pixels back. Result: blob ≈ unchanged, dot gone.',
+      realWorld: [
+        'Cleaning salt noise from binary masks after thresholding',
+        'Counting particles while ignoring dust',
+        'Extracting background illumination ("top-hat" transform)',
+      ],
+      funFact: 'Opening is idempotent: opening an already opened image with the same element changes nothing. A convolution blur keeps blurring every time you apply it.',
+    },
+  },
+
+  closing: {
+    name: 'Closing',
+    description: 'Dilation then erosion - fills small dark gaps',
+    ...nonLinearFields({ type: 'close', element: { shape: 'disk', size: 5 } }),
+    learn: 'Closing fills dark holes and gaps smaller than the structuring element while keeping outlines in place.',
+    formula: 'Close = erode(dilate(image))',
+    deepDive: {
+      whatItDoes: 'Bridges small breaks and fills pinholes in bright shapes, so fragmented objects become solid.',
+      howItWorks: 'Dilation first floods every dark gap narrower than the element. Erosion then pulls the outer boundary back in - but the filled gaps are now solid and stay filled.',
+      mathExplained: 'A bright ring with a 2-pixel crack, closed with a 5×5 disk: dilation grows the ring 2 pixels and seals the crack; erosion shrinks it 2 pixels back. Result: same ring, no crack.',
+      realWorld: [
+        'Filling holes in segmentation masks of organs or cells',
+        'Reconnecting broken lane markings or road edges',
+        'Joining letters of faded handwriting before recognition',
+      ],
+      funFact: 'Closing the bright shapes is the same as opening the dark ones, so any cleanup job can be phrased either way by inverting the image.',
+    },
+  },
+
+  bilateral: {
+    name: 'Bilateral Filter',
+    description: 'Edge-preserving blur that only averages similar neighbors',
+    ...nonLinearFields({ type: 'bilateral', element: { shape: 'square', size: 5 }, sigmaSpace: 2, sigmaRange: 30 }),
+    learn: 'A bilateral filter is a Gaussian blur that refuses to average across edges: neighbors with very different values get almost no weight.',
+    formula: 'Output = Σ w·p ÷ Σ w, w = Gauss(distance) × Gauss(value difference)',
+    deepDive: {
+      whatItDoes: 'Smooths noise and texture inside flat regions while keeping the boundaries between regions crisp.',
+      howItWorks: 'Each neighbor gets two weights multiplied together: one that falls off with distance (like a Gaussian blur), and one that falls off with how different its value is from the center pixel. Across an edge the second weight is close to zero, so the other side never leaks in. Because the weights depend on the image itself, they have to be recomputed at every pixel.',
+      mathExplained: 'Center 100, sigma range 30. A neighbor at 110: value weight e^(-10²/1800) ≈ 0.95. A neighbor at 200: e^(-100²/1800) ≈ 0.004. The 200 barely counts, so the center stays near 100 instead of being pulled toward the edge.',
+      realWorld: [
+        'Skin smoothing and "beauty" filters in camera apps',
+        'Denoising before edge detection or segmentation',
+        'Cartoon and watercolor effects when applied repeatedly',
+      ],
+      funFact: 'Tomasi and Manduchi named it in 1998, and fast approximations of it run in nearly every phone camera pipeline today.',
+    },
+  },
 };
 
 // =============================================================================
@@ -137,9 +443,18 @@ export const ALGORITHM_KEYS = Object.keys(PRESET_ALGORITHMS) as AlgorithmKey[];
 
 /**
  * Get an algorithm by key with type safety.
- * @param key - The algorithm identifier
+ * @param key - The algorithm identifier, from either preset collection
  * @returns The algorithm configuration or undefined
  */
 export const getAlgorithm = (key: string): AlgorithmInfo | undefined => {
-  return PRESET_ALGORITHMS[key];
+  return PRESET_ALGORITHMS[key] ?? NON_LINEAR_ALGORITHMS[key];
 };
+
+/**
+ * A non-linear preset with new filter settings, keeping its kernel in
+ * step with the structuring element.
+ */
+export const withNonLinearFilter = (algorithm: AlgorithmInfo, nonLinear: NonLinearFilter): AlgorithmInfo => ({
+  ...algorithm,
+  ...nonLinearFields(nonLinear),
+});
@@ -4,3 +4,4 @@
 
 export { useCamera } from './useCamera';
 export { useImageProcessor } from './useImageProcessor';
+export { useFrameWorker } from './useFrameWorker';
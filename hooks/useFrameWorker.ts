@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Custom hook for filtering live video frames in a worker.
+ *
+ * Frames are handed to `workers/frameProcessor.worker.ts` as transferable
+ * bitmaps or buffers. Only one frame is in flight at a time: frames that
+ * arrive while the worker is busy are dropped rather than queued, so a
+ * slow kernel lowers the frame rate instead of building up lag.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { toAlgorithmFilter } from '../utils/imageOps';
+import type { AlgorithmFilter, ImageBuffer, PaddingMode } from '../utils/imageOps';
+import { applyFrameFilter } from '../utils/frameFilter';
+import type { ColorChannelTarget } from '../utils/colorChannels';
+import type { PointOperation } from '../utils/pointOps';
+import {
+  decideFrame,
+  advanceFrameClock,
+  recordFrame,
+  recordDrop,
+  EMPTY_FRAME_STATS,
+} from '../utils/frameTiming';
+import type { FrameStats } from '../utils/frameTiming';
+import type { FrameRequest, FrameResponse } from '../workers/frameProtocol';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Source and filtered pixels of one processed frame */
+export interface ProcessedFrame {
+  source: ImageBuffer;
+  filtered: ImageBuffer;
+}
+
+interface UseFrameWorkerOptions {
+  /** Filter applied to every frame */
+  algorithm: AlgorithmFilter;
+  /** Border handling (default: 'clamp') */
+  padding?: PaddingMode;
+  /** Color channel to filter; null for R, G and B (default: null) */
+  channel?: ColorChannelTarget | null;
+  /** Point operation applied before the filter (default: null) */
+  pointOp?: PointOperation | null;
+  /** Maximum frames per second; 0 for no limit (default: 30) */
+  targetFps?: number;
+  /** Called with each processed frame */
+  onFrame: (frame: ProcessedFrame) => void;
+}
+
+interface UseFrameWorkerReturn {
+  /**
+   * Offers a frame for processing, scaled to `width` × `height`.
+   * Call on every animation frame; pacing and dropping happen here.
+   */
+  submitFrame: (source: HTMLVideoElement, width: number, height: number) => void;
+  /** Smoothed timings, refreshed a few times per second */
+  stats: FrameStats;
+  /** Clears the statistics, e.g. when the camera restarts */
+  resetStats: () => void;
+  /** False when frames are processed on the main thread instead */
+  usingWorker: boolean;
+}
+
+/** A frame that has been posted and not yet answered */
+interface InFlightFrame {
+  id: number;
+  submittedAt: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** How often the stats readout re-renders */
+const STATS_INTERVAL_MS = 500;
+
+const supportsOffscreen = () =>
+  typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+
+// =============================================================================
+// HOOK IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Processes live frames in a Web Worker with frame dropping and timing.
+ *
+ * Falls back to the main thread if the worker cannot be started, so the
+ * lab keeps working where workers are unavailable.
+ *
+ * @param options - Filter settings, target frame rate and result callback
+ * @returns Frame submission function and statistics
+ *
+ * @example
+ * const { submitFrame, stats } = useFrameWorker({
+ *   algorithm: activeAlgo,
+ *   targetFps: 30,
+ *   onFrame: ({ filtered }) => setMatrix(bufferToPixelMatrix(filtered)),
+ * });
+ */
+export const useFrameWorker = (options: UseFrameWorkerOptions): UseFrameWorkerReturn => {
+  const { algorithm, padding = 'clamp', channel = null, pointOp = null, targetFps = 30, onFrame } = options;
+
+  const [stats, setStats] = useState<FrameStats>(EMPTY_FRAME_STATS);
+  const [usingWorker, setUsingWorker] = useState(true);
+
+  const workerRef = useRef<Worker | null>(null);
+  const inFlightRef = useRef<InFlightFrame | null>(null);
+  const nextIdRef = useRef(0);
+  const lastSubmitRef = useRef(-Infinity);
+  const lastResultRef = useRef<number | null>(null);
+  const statsRef = useRef<FrameStats>(EMPTY_FRAME_STATS);
+  const lastStatsUpdateRef = useRef(0);
+  // Reused for reading pixels on the main thread
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Latest settings, read from callbacks without re-creating them
+  const settingsRef = useRef({ algorithm, padding, channel, pointOp, targetFps, onFrame });
+  settingsRef.current = { algorithm, padding, channel, pointOp, targetFps, onFrame };
+
+  /**
+   * Updates the statistics and re-renders at most every STATS_INTERVAL_MS.
+   */
+  const updateStats = useCallback((update: (stats: FrameStats) => FrameStats) => {
+    statsRef.current = update(statsRef.current);
+    const now = performance.now();
+    if (now - lastStatsUpdateRef.current >= STATS_INTERVAL_MS) {
+      lastStatsUpdateRef.current = now;
+      setStats(statsRef.current);
+    }
+  }, []);
+
+  const completeFrame = useCallback((frame: ProcessedFrame, submittedAt: number, processMs: number) => {
+    const now = performance.now();
+    const intervalMs = lastResultRef.current === null ? undefined : now - lastResultRef.current;
+    lastResultRef.current = now;
+    settingsRef.current.onFrame(frame);
+    updateStats(s => recordFrame(s, { intervalMs, latencyMs: now - submittedAt, processMs }));
+  }, [updateStats]);
+
+  // Start the worker once; fall back to the main thread if it fails
+  useEffect(() => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/frameProcessor.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      setUsingWorker(false);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<FrameResponse>) => {
+      const response = event.data;
+      const inFlight = inFlightRef.current;
+      if (!inFlight || inFlight.id !== response.id) return;
+      inFlightRef.current = null;
+
+      if (response.type === 'error') {
+        console.warn('Frame processing failed:', response.message);
+        return;
+      }
+      const { width, height } = response;
+      completeFrame({
+        source: { data: new Uint8ClampedArray(response.source), width, height },
+        filtered: { data: new Uint8ClampedArray(response.filtered), width, height },
+      }, inFlight.submittedAt, response.processMs);
+    };
+
+    worker.onerror = () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+      setUsingWorker(false);
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      inFlightRef.current = null;
+    };
+  }, [completeFrame]);
+
+  /**
+   * Reads scaled pixels with a reused canvas.
+   */
+  const readPixels = useCallback((source: HTMLVideoElement, width: number, height: number): ImageBuffer | null => {
+    const canvas = canvasRef.current ?? (canvasRef.current = document.createElement('canvas'));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  }, []);
+
+  const submitFrame = useCallback((source: HTMLVideoElement, width: number, height: number) => {
+    const { algorithm, padding, channel, pointOp, targetFps } = settingsRef.current;
+    const now = performance.now();
+
+    const decision = decideFrame(now, lastSubmitRef.current, targetFps, inFlightRef.current !== null);
+    if (decision === 'throttled') return;
+    if (decision === 'busy') {
+      updateStats(recordDrop);
+      return;
+    }
+    lastSubmitRef.current = advanceFrameClock(lastSubmitRef.current, now, targetFps);
+
+    const worker = workerRef.current;
+    if (!worker) {
+      const pixels = readPixels(source, width, height);
+      if (!pixels) return;
+      const start = performance.now();
+      const filtered = applyFrameFilter(pixels, { algorithm, padding, channel, pointOp });
+      completeFrame({ source: pixels, filtered }, now, performance.now() - start);
+      return;
+    }
+
+    const id = nextIdRef.current++;
+    inFlightRef.current = { id, submittedAt: now };
+    const request: Omit<FrameRequest, 'bitmap' | 'pixels'> = {
+      id,
+      width,
+      height,
+      algorithm: toAlgorithmFilter(algorithm),
+      padding,
+      channel,
+      pointOp,
+    };
+
+    if (supportsOffscreen()) {
+      createImageBitmap(source)
+        .then(bitmap => worker.postMessage({ ...request, bitmap }, [bitmap]))
+        .catch(() => {
+          if (inFlightRef.current?.id === id) inFlightRef.current = null;
+        });
+    } else {
+      const pixels = readPixels(source, width, height);
+      if (!pixels) {
+        inFlightRef.current = null;
+        return;
+      }
+      const buffer = pixels.data.buffer as ArrayBuffer;
+      worker.postMessage({ ...request, pixels: buffer }, [buffer]);
+    }
+  }, [completeFrame, readPixels, updateStats]);
+
+  const resetStats = useCallback(() => {
+    statsRef.current = EMPTY_FRAME_STATS;
+    lastResultRef.current = null;
+    setStats(EMPTY_FRAME_STATS);
+  }, []);
+
+  return { submitFrame, stats, resetStats, usingWorker };
+};
+
+export default useFrameWorker;
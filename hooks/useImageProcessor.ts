@@ -2,17 +2,18 @@
  * @fileoverview Custom hook for image processing operations.
  * 
  * Provides a centralized interface for applying convolution filters,
- * extracting pixel data, and managing processed image state.
+ * extracting pixel data, and managing processed image state. Can also
+ * run Canny edge detection on every frame, keeping each stage.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { PixelData, Kernel } from '../types';
-import { 
-  applyConvolution, 
-  extractPixelData, 
-  extractPixelGrid 
-} from '../utils/imageProcessing';
-import { PRESET_ALGORITHMS } from '../constants/algorithms';
+import { applyFilter } from '../utils/imageProcessing';
+import { extractRgbaMatrix } from '../utils/rgbaMatrix';
+import type { RgbaMatrix } from '../utils/rgbaMatrix';
+import { PRESET_ALGORITHMS, getAlgorithm } from '../constants/algorithms';
+import { decideFrame, advanceFrameClock } from '../utils/frameTiming';
+import { runCanny } from '../utils/canny';
+import type { CannyOptions, CannyResult } from '../utils/canny';
 
 // =============================================================================
 // TYPES
@@ -21,8 +22,10 @@ import { PRESET_ALGORITHMS } from '../constants/algorithms';
 interface UseImageProcessorOptions {
   /** Grid size for pixel extraction (default: 12) */
   gridSize?: number;
-  /** Target FPS for live processing (default: 15) */
+  /** Target FPS for live processing; 0 for no limit (default: 15) */
   targetFps?: number;
+  /** Run Canny on each frame with these thresholds; off when omitted */
+  canny?: CannyOptions | null;
 }
 
 interface UseImageProcessorReturn {
@@ -35,7 +38,9 @@ interface UseImageProcessorReturn {
   /** Toggle processed view */
   setShowProcessed: (show: boolean) => void;
   /** Current pixel grid data for visualizer */
-  pixelGrid: PixelData[][] | null;
+  pixelGrid: RgbaMatrix | null;
+  /** Stages of the latest Canny run, when `canny` is set */
+  cannyResult: CannyResult | null;
   /** Process a video frame (call in animation loop) */
   processVideoFrame: (
     video: HTMLVideoElement,
@@ -54,8 +59,12 @@ interface UseImageProcessorReturn {
     x: number,
     y: number
   ) => void;
-  /** Start live processing loop */
-  startProcessing: () => void;
+  /** Start the live processing loop for a video and its two canvases */
+  startProcessing: (
+    video: HTMLVideoElement,
+    originalCanvas: HTMLCanvasElement,
+    processedCanvas: HTMLCanvasElement
+  ) => void;
   /** Stop live processing loop */
   stopProcessing: () => void;
   /** Whether processing loop is running */
@@ -89,18 +98,18 @@ interface UseImageProcessorReturn {
 export const useImageProcessor = (
   options: UseImageProcessorOptions = {}
 ): UseImageProcessorReturn => {
-  const { gridSize = 12, targetFps = 15 } = options;
-  const frameInterval = 1000 / targetFps;
+  const { gridSize = 12, targetFps = 15, canny = null } = options;
 
   // State
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<string>('identity');
   const [showProcessed, setShowProcessed] = useState(true);
-  const [pixelGrid, setPixelGrid] = useState<PixelData[][] | null>(null);
+  const [pixelGrid, setPixelGrid] = useState<RgbaMatrix | null>(null);
+  const [cannyResult, setCannyResult] = useState<CannyResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
   // Refs for animation loop
   const animationFrameRef = useRef<number | null>(null);
-  const lastFrameTimeRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number>(-Infinity);
   const processedCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const gridPositionRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
 
@@ -108,7 +117,7 @@ export const useImageProcessor = (
    * Gets the current algorithm configuration.
    */
   const getCurrentAlgorithm = useCallback(() => {
-    return PRESET_ALGORITHMS[selectedAlgorithm] || PRESET_ALGORITHMS.identity;
+    return getAlgorithm(selectedAlgorithm) ?? PRESET_ALGORITHMS.identity;
   }, [selectedAlgorithm]);
 
   /**
@@ -136,15 +145,9 @@ export const useImageProcessor = (
         originalCanvas.height
       );
 
-      // Apply convolution
-      const algorithm = getCurrentAlgorithm();
-      const processed = applyConvolution(
-        imageData,
-        originalCanvas.width,
-        originalCanvas.height,
-        algorithm.kernel,
-        algorithm.divisor
-      );
+      // Apply the selected filter
+      const processed = applyFilter(imageData, getCurrentAlgorithm());
+      if (canny) setCannyResult(runCanny(imageData, canny));
 
       // Draw processed result
       procCtx.putImageData(processed, 0, 0);
@@ -152,7 +155,7 @@ export const useImageProcessor = (
       // Store reference for pixel grid extraction
       processedCanvasRef.current = showProcessed ? processedCanvas : originalCanvas;
     },
-    [getCurrentAlgorithm, showProcessed]
+    [getCurrentAlgorithm, showProcessed, canny]
   );
 
   /**
@@ -200,21 +203,15 @@ export const useImageProcessor = (
         originalCanvas.height
       );
 
-      const algorithm = getCurrentAlgorithm();
-      const processed = applyConvolution(
-        imageData,
-        originalCanvas.width,
-        originalCanvas.height,
-        algorithm.kernel,
-        algorithm.divisor
-      );
+      const processed = applyFilter(imageData, getCurrentAlgorithm());
+      if (canny) setCannyResult(runCanny(imageData, canny));
 
       procCtx.putImageData(processed, 0, 0);
 
       // Store reference for pixel grid extraction
       processedCanvasRef.current = showProcessed ? processedCanvas : originalCanvas;
     },
-    [getCurrentAlgorithm, showProcessed]
+    [getCurrentAlgorithm, showProcessed, canny]
   );
 
   /**
@@ -232,44 +229,18 @@ export const useImageProcessor = (
       const startX = Math.max(0, Math.min(x, canvas.width - gridSize));
       const startY = Math.max(0, Math.min(y, canvas.height - gridSize));
 
-      const grid = extractPixelGrid(ctx, startX, startY, gridSize);
+      const grid = extractRgbaMatrix(ctx, startX, startY, gridSize);
       setPixelGrid(grid);
     },
     [gridSize]
   );
 
-  /**
-   * Animation loop for continuous processing.
-   */
-  const animate = useCallback(
-    (
-      video: HTMLVideoElement,
-      originalCanvas: HTMLCanvasElement,
-      processedCanvas: HTMLCanvasElement,
-      timestamp: number
-    ) => {
-      if (!isProcessing) return;
-
-      // Throttle to target FPS
-      const elapsed = timestamp - lastFrameTimeRef.current;
-      if (elapsed >= frameInterval) {
-        lastFrameTimeRef.current = timestamp;
-        processVideoFrame(video, originalCanvas, processedCanvas);
-      }
-
-      animationFrameRef.current = requestAnimationFrame((ts) =>
-        animate(video, originalCanvas, processedCanvas, ts)
-      );
-    },
-    [isProcessing, frameInterval, processVideoFrame]
-  );
-
-  /**
-   * Starts the processing loop.
-   */
-  const startProcessing = useCallback(() => {
-    setIsProcessing(true);
-  }, []);
+  // The loop reads the latest frame processor and rate through refs, so
+  // changing the algorithm or target FPS takes effect without a restart
+  const processVideoFrameRef = useRef(processVideoFrame);
+  processVideoFrameRef.current = processVideoFrame;
+  const targetFpsRef = useRef(targetFps);
+  targetFpsRef.current = targetFps;
 
   /**
    * Stops the processing loop.
@@ -282,6 +253,32 @@ export const useImageProcessor = (
     }
   }, []);
 
+  /**
+   * Starts the processing loop, throttled to the target FPS.
+   */
+  const startProcessing = useCallback(
+    (
+      video: HTMLVideoElement,
+      originalCanvas: HTMLCanvasElement,
+      processedCanvas: HTMLCanvasElement
+    ) => {
+      stopProcessing();
+      setIsProcessing(true);
+      lastFrameTimeRef.current = -Infinity;
+
+      const tick = (timestamp: number) => {
+        const fps = targetFpsRef.current;
+        if (decideFrame(timestamp, lastFrameTimeRef.current, fps, false) === 'submit') {
+          lastFrameTimeRef.current = advanceFrameClock(lastFrameTimeRef.current, timestamp, fps);
+          processVideoFrameRef.current(video, originalCanvas, processedCanvas);
+        }
+        animationFrameRef.current = requestAnimationFrame(tick);
+      };
+      animationFrameRef.current = requestAnimationFrame(tick);
+    },
+    [stopProcessing]
+  );
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -297,6 +294,7 @@ export const useImageProcessor = (
     showProcessed,
     setShowProcessed,
     pixelGrid,
+    cannyResult,
     processVideoFrame,
     processImage,
     updatePixelGrid,
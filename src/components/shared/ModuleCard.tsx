@@ -28,7 +28,7 @@ import {
   Move3D,
   Bot,
 } from 'lucide-react';
-import type { LearningModule } from '../../types';
+import type { LearningModule, ModuleStepProgress } from '../../types';
 
 // Icon mapping
 const ICONS: Record<string, React.FC<{ size?: number; className?: string }>> = {
@@ -56,6 +56,10 @@ interface ModuleCardProps {
   module: LearningModule;
   isUnlocked: boolean;
   isCompleted: boolean;
+  /** Step-level progress, shown while the module is in progress */
+  stepProgress?: ModuleStepProgress;
+  /** Prerequisites still to complete, listed while the module is locked */
+  missingPrerequisites?: LearningModule[];
   compact?: boolean;
 }
 
@@ -63,9 +67,13 @@ const ModuleCard: React.FC<ModuleCardProps> = ({
   module, 
   isUnlocked, 
   isCompleted,
+  stepProgress,
+  missingPrerequisites = [],
   compact = false 
 }) => {
   const Icon = ICONS[module.icon] || Circle;
+  const stepsDone = stepProgress?.completed.length ?? 0;
+  const showSteps = !isCompleted && stepProgress && stepProgress.totalSteps > 0 && stepProgress.visited.length > 0;
   
   const cardContent = (
     <div 
@@ -137,7 +145,19 @@ const ModuleCard: React.FC<ModuleCardProps> = ({
                 />
               ))}
             </span>
+            {showSteps && (
+              <span className="text-violet-400">
+                {stepsDone}/{stepProgress.totalSteps} steps
+              </span>
+            )}
           </div>
+
+          {!isUnlocked && missingPrerequisites.length > 0 && (
+            <p className="mt-2 text-[11px] text-neutral-500 flex items-center gap-1">
+              <Lock size={10} />
+              Requires {missingPrerequisites.map(m => m.title).join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Arrow */}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Route guard that enforces guided-mode prerequisites.
+ */
+
+import React from 'react';
+import { Outlet, useLocation } from 'react-router-dom';
+import { getModuleByPath } from '../../config/curriculum';
+import { useModuleAccess } from '../../context';
+import LockedModulePage from '../../pages/LockedModulePage';
+
+/**
+ * Layout route for module pages. Renders the matched module, or the
+ * locked page when guided mode is on and prerequisites are missing.
+ */
+const ModuleGuard: React.FC = () => {
+  const location = useLocation();
+  const { isUnlocked } = useModuleAccess();
+  const module = getModuleByPath(location.pathname);
+
+  if (module && !isUnlocked(module.id)) {
+    return <LockedModulePage module={module} />;
+  }
+
+  return <Outlet />;
+};
+
+export default ModuleGuard;
@@ -14,6 +14,10 @@ interface StepNavigatorProps {
   currentStep: number;
   onStepChange: (step: number) => void;
   onComplete: () => void;
+  /** Step indices already finished (shown as filled dots) */
+  completedSteps?: number[];
+  /** Called when the learner finishes a step via Next or Complete */
+  onStepFinish?: (step: number) => void;
   children: React.ReactNode;
 }
 
@@ -22,6 +26,8 @@ const StepNavigator: React.FC<StepNavigatorProps> = ({
   currentStep,
   onStepChange,
   onComplete,
+  completedSteps,
+  onStepFinish,
   children,
 }) => {
   const step = steps[currentStep];
@@ -40,9 +46,11 @@ const StepNavigator: React.FC<StepNavigatorProps> = ({
               className={`w-2 h-2 rounded-full transition-all ${
                 i === currentStep 
                   ? 'w-6 bg-violet-500' 
-                  : i < currentStep 
-                    ? 'bg-violet-500/50' 
-                    : 'bg-white/20'
+                  : completedSteps?.includes(i)
+                    ? 'bg-green-500/60'
+                    : i < currentStep 
+                      ? 'bg-violet-500/50' 
+                      : 'bg-white/20'
               }`}
             />
           ))}
@@ -73,7 +81,14 @@ const StepNavigator: React.FC<StepNavigatorProps> = ({
           ← Back
         </button>
         <button
-          onClick={() => isLastStep ? onComplete() : onStepChange(currentStep + 1)}
+          onClick={() => {
+            onStepFinish?.(currentStep);
+            if (isLastStep) {
+              onComplete();
+            } else {
+              onStepChange(currentStep + 1);
+            }
+          }}
           className="px-6 py-2 rounded-lg text-sm font-medium bg-violet-500 text-white hover:bg-violet-600 transition-colors"
         >
           {isLastStep ? 'Complete!' : 'Next →'}
@@ -9,3 +9,4 @@ export { default as DemoModal } from './DemoModal';
 export { default as InteractiveCanvas } from './InteractiveCanvas';
 export { default as StepNavigator } from './StepNavigator';
 export { default as Tooltip } from './Tooltip';
+export { default as ModuleGuard } from './ModuleGuard';
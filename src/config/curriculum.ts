@@ -26,7 +26,8 @@ export const MODULES: Record<string, LearningModule> = {
       'Understand derivatives as rates of change',
       'Visualize gradients in 2D and 3D',
       'Master the chain rule for backpropagation',
-      'Apply partial derivatives to loss functions'
+      'Apply partial derivatives to loss functions',
+      'Compare momentum, RMSProp and Adam on real loss surfaces'
     ],
     gradient: ['#f97316', '#ea580c'],
   },
@@ -43,7 +44,9 @@ export const MODULES: Record<string, LearningModule> = {
       'Visualize vectors and operations',
       'Understand matrix multiplication',
       'Explore linear transformations',
-      'Learn eigenvalues and eigenvectors'
+      'Learn eigenvalues and eigenvectors',
+      'Read determinants, eigenvectors and SVD off any 2×2 or 3×3 matrix',
+      'Watch 3×3 matrices transform a cube and point cloud in 3D'
     ],
     gradient: ['#8b5cf6', '#7c3aed'],
   },
@@ -597,6 +600,14 @@ export const getModule = (id: string): LearningModule | undefined => {
   return MODULES[id];
 };
 
+/**
+ * Get the module whose route matches a pathname.
+ */
+export const getModuleByPath = (path: string): LearningModule | undefined => {
+  const normalized = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return Object.values(MODULES).find(m => m.path === normalized);
+};
+
 /**
  * Get all modules in order of learning path.
  */
@@ -616,6 +627,21 @@ export const isModuleUnlocked = (
   return module.prerequisites.every(prereq => completedModules.includes(prereq));
 };
 
+/**
+ * Get the prerequisite modules that have not been completed yet.
+ */
+export const getMissingPrerequisites = (
+  moduleId: string,
+  completedModules: string[]
+): LearningModule[] => {
+  const module = MODULES[moduleId];
+  if (!module) return [];
+  return module.prerequisites
+    .filter(prereq => !completedModules.includes(prereq))
+    .map(prereq => MODULES[prereq])
+    .filter((m): m is LearningModule => Boolean(m));
+};
+
 /**
  * Get the next recommended module.
  */
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Prerequisite graph analysis for the curriculum.
+ *
+ * Turns the `prerequisites` declared on each module into a directed graph
+ * and derives layout depth, the critical path to a target module, and any
+ * references that point at modules which do not exist.
+ */
+
+import type { LearningModule, LearningCategory } from '../types';
+import { MODULES, CATEGORIES } from './curriculum';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A prerequisite edge: `from` must be completed before `to`.
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * A prerequisite ID that does not resolve to a module.
+ */
+export interface BrokenReference {
+  moduleId: string;
+  missingId: string;
+}
+
+/**
+ * Module placed on the graph.
+ */
+export interface GraphNode {
+  module: LearningModule;
+  /** Category ID used as swim lane ('uncategorized' if none) */
+  lane: string;
+  /** Longest prerequisite chain leading to this module */
+  depth: number;
+}
+
+/**
+ * Complete analysed curriculum graph.
+ */
+export interface CurriculumGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  brokenReferences: BrokenReference[];
+  /** Module IDs that take part in a prerequisite cycle */
+  cyclic: string[];
+}
+
+/** Lane ID for modules that are not listed in any category */
+export const UNCATEGORIZED_LANE = 'uncategorized';
+
+// =============================================================================
+// GRAPH CONSTRUCTION
+// =============================================================================
+
+/**
+ * Builds the prerequisite graph for a set of modules.
+ */
+export const buildCurriculumGraph = (
+  modules: Record<string, LearningModule> = MODULES,
+  categories: LearningCategory[] = CATEGORIES
+): CurriculumGraph => {
+  const edges: GraphEdge[] = [];
+  const brokenReferences: BrokenReference[] = [];
+
+  for (const module of Object.values(modules)) {
+    for (const prereq of module.prerequisites) {
+      if (modules[prereq]) {
+        edges.push({ from: prereq, to: module.id });
+      } else {
+        brokenReferences.push({ moduleId: module.id, missingId: prereq });
+      }
+    }
+  }
+
+  const laneOf = new Map<string, string>();
+  for (const category of categories) {
+    for (const m of category.modules) {
+      if (m && !laneOf.has(m.id)) laneOf.set(m.id, category.id);
+    }
+  }
+
+  // Longest-path depth via DFS; modules on a cycle are recorded and cut
+  const depth = new Map<string, number>();
+  const visiting = new Set<string>();
+  const cyclic = new Set<string>();
+
+  const resolveDepth = (id: string): number => {
+    const known = depth.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) {
+      cyclic.add(id);
+      return 0;
+    }
+
+    visiting.add(id);
+    const prereqs = modules[id]?.prerequisites.filter(p => modules[p]) ?? [];
+    const d = prereqs.length
+      ? Math.max(...prereqs.map(p => resolveDepth(p) + 1))
+      : 0;
+    visiting.delete(id);
+    depth.set(id, d);
+    return d;
+  };
+
+  const nodes = Object.values(modules).map(module => ({
+    module,
+    lane: laneOf.get(module.id) ?? UNCATEGORIZED_LANE,
+    depth: resolveDepth(module.id),
+  }));
+
+  return { nodes, edges, brokenReferences, cyclic: Array.from(cyclic) };
+};
+
+// =============================================================================
+// PATH ANALYSIS
+// =============================================================================
+
+/**
+ * Finds the critical path to a target module: the chain of prerequisites
+ * with the greatest total duration. Returned in learning order, ending
+ * with the target. Empty if the target does not exist.
+ */
+export const getCriticalPath = (
+  targetId: string,
+  modules: Record<string, LearningModule> = MODULES
+): string[] => {
+  if (!modules[targetId]) return [];
+
+  const best = new Map<string, { total: number; prev: string | null }>();
+  const visiting = new Set<string>();
+
+  const solve = (id: string): number => {
+    const cached = best.get(id);
+    if (cached) return cached.total;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    let prev: string | null = null;
+    let longest = 0;
+    for (const prereq of modules[id].prerequisites) {
+      if (!modules[prereq]) continue;
+      const total = solve(prereq);
+      if (total > longest) {
+        longest = total;
+        prev = prereq;
+      }
+    }
+    visiting.delete(id);
+
+    const total = longest + modules[id].duration;
+    best.set(id, { total, prev });
+    return total;
+  };
+
+  solve(targetId);
+
+  const path: string[] = [];
+  let current: string | null = targetId;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = best.get(current)?.prev ?? null;
+  }
+  return path;
+};
+
+/**
+ * Collects every module that must be completed before the given one.
+ */
+export const getAncestors = (
+  moduleId: string,
+  modules: Record<string, LearningModule> = MODULES
+): Set<string> => {
+  const seen = new Set<string>();
+  const stack = [...(modules[moduleId]?.prerequisites ?? [])];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (seen.has(id) || !modules[id]) continue;
+    seen.add(id);
+    stack.push(...modules[id].prerequisites);
+  }
+  return seen;
+};
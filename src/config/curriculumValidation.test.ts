@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Tests for curriculum validation and the integrity of curriculum.ts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LearningModule, LearningCategory } from '../types';
+import { MODULES, CATEGORIES } from './curriculum';
+import { validateCurriculum, findPrerequisiteCycles } from './curriculumValidation';
+import { MODULE_COMPONENTS } from '../modules/registry';
+
+/**
+ * Modules that ship with a page, listed by hand so the registry and the
+ * curriculum are each checked against something neither produced.
+ */
+const SHIPPED_MODULE_IDS = [
+  'calculus', 'linear-algebra', 'statistics',
+  'neurons', 'activations', 'backprop', 'mlp',
+  'image-matrix', 'convolution', 'pooling', 'cnn-architecture',
+  'attention', 'self-attention', 'transformer-arch',
+  'patch-embedding', 'vit-architecture', 'vision-encoder',
+  'vla-complete',
+  'diffusion', 'flow-matching', 'diffusion-policy',
+  'kinematics', 'dynamics', 'control-theory', 'motion-planning',
+];
+
+const makeModule = (id: string, overrides: Partial<LearningModule> = {}): LearningModule => ({
+  id,
+  title: id,
+  description: '',
+  icon: 'Circle',
+  path: `/learn/${id}`,
+  difficulty: 1,
+  duration: 10,
+  prerequisites: [],
+  objectives: [],
+  gradient: ['#000000', '#ffffff'],
+  ...overrides,
+});
+
+const fixture = (modules: LearningModule[]) => {
+  const record = Object.fromEntries(modules.map(m => [m.id, m]));
+  const categories: LearningCategory[] = [
+    { id: 'all', name: 'All', description: '', color: '#000000', modules },
+  ];
+  return { modules: record, categories, routes: modules.map(m => m.path) };
+};
+
+describe('curriculum integrity', () => {
+  it('has no validation issues', () => {
+    const issues = validateCurriculum({
+      modules: MODULES,
+      categories: CATEGORIES,
+      implementedIds: SHIPPED_MODULE_IDS,
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('registers a component for exactly the shipped modules', () => {
+    expect(Object.keys(MODULE_COMPONENTS).sort()).toEqual([...SHIPPED_MODULE_IDS].sort());
+  });
+
+  it('routes every module under /learn', () => {
+    for (const module of Object.values(MODULES)) {
+      expect(module.path).toMatch(/^\/learn\/[a-z-]+\/[a-z-]+$/);
+    }
+  });
+});
+
+describe('validateCurriculum', () => {
+  it('accepts a consistent curriculum', () => {
+    const a = makeModule('a');
+    const b = makeModule('b', { prerequisites: ['a'] });
+    expect(validateCurriculum(fixture([a, b]))).toEqual([]);
+  });
+
+  it('reports ids that do not match their key', () => {
+    const input = fixture([makeModule('a')]);
+    input.modules = { renamed: input.modules.a };
+    const codes = validateCurriculum(input).map(i => i.code);
+    expect(codes).toContain('id-mismatch');
+  });
+
+  it('reports paths without a registered route', () => {
+    const input = fixture([makeModule('a')]);
+    input.routes = ['/somewhere-else'];
+    expect(validateCurriculum(input)).toEqual([
+      expect.objectContaining({ code: 'unknown-route', moduleId: 'a' }),
+    ]);
+  });
+
+  it('skips route checks when no routes are given', () => {
+    const { modules, categories } = fixture([makeModule('a')]);
+    expect(validateCurriculum({ modules, categories })).toEqual([]);
+  });
+
+  it('reports registry entries for unknown modules', () => {
+    const input = { ...fixture([makeModule('a')]), implementedIds: ['a', 'ghost'] };
+    expect(validateCurriculum(input)).toEqual([
+      expect.objectContaining({ code: 'unknown-registry-entry', moduleId: 'ghost' }),
+    ]);
+  });
+
+  it('reports duplicate paths', () => {
+    const a = makeModule('a', { path: '/learn/shared' });
+    const b = makeModule('b', { path: '/learn/shared' });
+    const codes = validateCurriculum(fixture([a, b])).map(i => i.code);
+    expect(codes).toContain('duplicate-path');
+  });
+
+  it('reports missing and self prerequisites', () => {
+    const a = makeModule('a', { prerequisites: ['ghost', 'a'] });
+    const codes = validateCurriculum(fixture([a])).map(i => i.code);
+    expect(codes).toEqual(['missing-prerequisite', 'self-prerequisite']);
+  });
+
+  it('reports prerequisite cycles', () => {
+    const a = makeModule('a', { prerequisites: ['c'] });
+    const b = makeModule('b', { prerequisites: ['a'] });
+    const c = makeModule('c', { prerequisites: ['b'] });
+    const issues = validateCurriculum(fixture([a, b, c]));
+    expect(issues).toHaveLength(1);
+    expect(issues[0].code).toBe('cycle');
+    expect(issues[0].message).toContain('->');
+  });
+
+  it.each([0, 6, 2.5, NaN])('reports difficulty %s outside 1-5', (difficulty) => {
+    const codes = validateCurriculum(fixture([makeModule('a', { difficulty })])).map(i => i.code);
+    expect(codes).toEqual(['invalid-difficulty']);
+  });
+
+  it('reports non-positive durations', () => {
+    const codes = validateCurriculum(fixture([makeModule('a', { duration: 0 })])).map(i => i.code);
+    expect(codes).toEqual(['invalid-duration']);
+  });
+
+  it('reports category problems', () => {
+    const a = makeModule('a');
+    const b = makeModule('b');
+    const input = fixture([a, b]);
+    input.categories = [
+      { id: 'one', name: '', description: '', color: '', modules: [a, undefined as unknown as LearningModule] },
+      { id: 'two', name: '', description: '', color: '', modules: [a] },
+    ];
+    const codes = validateCurriculum(input).map(i => i.code).sort();
+    expect(codes).toEqual([
+      'duplicate-category-module',
+      'uncategorized-module',
+      'unknown-category-module',
+    ]);
+  });
+});
+
+describe('findPrerequisiteCycles', () => {
+  it('returns each cycle closed on its first module', () => {
+    const modules = fixture([
+      makeModule('a', { prerequisites: ['b'] }),
+      makeModule('b', { prerequisites: ['a'] }),
+    ]).modules;
+    expect(findPrerequisiteCycles(modules)).toEqual([['a', 'b', 'a']]);
+  });
+
+  it('returns nothing for the real curriculum', () => {
+    expect(findPrerequisiteCycles(MODULES)).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Integrity checks for the curriculum configuration.
+ *
+ * `MODULES` and `CATEGORIES` are edited by hand; these checks catch the
+ * mistakes that would otherwise silently break navigation or unlocking.
+ */
+
+import type { LearningModule, LearningCategory } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Kinds of problem the validator reports.
+ */
+export type CurriculumIssueCode =
+  | 'id-mismatch'
+  | 'unknown-route'
+  | 'duplicate-path'
+  | 'missing-prerequisite'
+  | 'self-prerequisite'
+  | 'cycle'
+  | 'invalid-difficulty'
+  | 'invalid-duration'
+  | 'unknown-category-module'
+  | 'uncategorized-module'
+  | 'duplicate-category-module'
+  | 'unknown-registry-entry';
+
+/**
+ * A single problem found in the curriculum.
+ */
+export interface CurriculumIssue {
+  code: CurriculumIssueCode;
+  /** Module the problem belongs to, if any */
+  moduleId?: string;
+  message: string;
+}
+
+/**
+ * Input to the validator. Defaults are not applied here so tests can
+ * pass deliberately broken fixtures.
+ */
+export interface CurriculumValidationInput {
+  modules: Record<string, LearningModule>;
+  categories: LearningCategory[];
+  /** Route paths registered with the router; skips route checks if omitted */
+  routes?: string[];
+  /** Module IDs with a registered component; skips registry checks if omitted */
+  implementedIds?: string[];
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Finds prerequisite cycles. Each cycle is returned as a list of module
+ * IDs starting and ending with the same module.
+ */
+export const findPrerequisiteCycles = (
+  modules: Record<string, LearningModule>
+): string[][] => {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const prereq of modules[id].prerequisites) {
+      if (!modules[prereq]) continue;
+      const s = state.get(prereq);
+      if (s === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(prereq)), prereq]);
+      } else if (!s) {
+        visit(prereq);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of Object.keys(modules)) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+};
+
+/**
+ * Validates the curriculum and returns every problem found.
+ * An empty array means the curriculum is consistent.
+ */
+export const validateCurriculum = ({
+  modules,
+  categories,
+  routes,
+  implementedIds,
+}: CurriculumValidationInput): CurriculumIssue[] => {
+  const issues: CurriculumIssue[] = [];
+  const routeSet = routes ? new Set(routes) : null;
+  const pathOwner = new Map<string, string>();
+
+  for (const [key, module] of Object.entries(modules)) {
+    if (module.id !== key) {
+      issues.push({
+        code: 'id-mismatch',
+        moduleId: key,
+        message: `Module stored under "${key}" has id "${module.id}"`,
+      });
+    }
+
+    if (routeSet && !routeSet.has(module.path)) {
+      issues.push({
+        code: 'unknown-route',
+        moduleId: key,
+        message: `Path "${module.path}" is not registered as a route`,
+      });
+    }
+
+    const owner = pathOwner.get(module.path);
+    if (owner) {
+      issues.push({
+        code: 'duplicate-path',
+        moduleId: key,
+        message: `Path "${module.path}" is also used by "${owner}"`,
+      });
+    } else {
+      pathOwner.set(module.path, key);
+    }
+
+    for (const prereq of module.prerequisites) {
+      if (prereq === key) {
+        issues.push({
+          code: 'self-prerequisite',
+          moduleId: key,
+          message: `Module "${key}" lists itself as a prerequisite`,
+        });
+      } else if (!modules[prereq]) {
+        issues.push({
+          code: 'missing-prerequisite',
+          moduleId: key,
+          message: `Prerequisite "${prereq}" does not exist`,
+        });
+      }
+    }
+
+    if (!Number.isInteger(module.difficulty) || module.difficulty < 1 || module.difficulty > 5) {
+      issues.push({
+        code: 'invalid-difficulty',
+        moduleId: key,
+        message: `Difficulty ${module.difficulty} is not an integer from 1 to 5`,
+      });
+    }
+
+    if (!(module.duration > 0)) {
+      issues.push({
+        code: 'invalid-duration',
+        moduleId: key,
+        message: `Duration ${module.duration} must be a positive number of minutes`,
+      });
+    }
+  }
+
+  for (const cycle of findPrerequisiteCycles(modules)) {
+    // Self-references are already reported above
+    if (cycle.length <= 2) continue;
+    issues.push({
+      code: 'cycle',
+      moduleId: cycle[0],
+      message: `Prerequisite cycle: ${cycle.join(' -> ')}`,
+    });
+  }
+
+  const categorized = new Map<string, string>();
+  for (const category of categories) {
+    category.modules.forEach((module, index) => {
+      if (!module || !modules[module.id]) {
+        issues.push({
+          code: 'unknown-category-module',
+          message: `Category "${category.id}" entry ${index} is not a known module`,
+        });
+        return;
+      }
+      const existing = categorized.get(module.id);
+      if (existing) {
+        issues.push({
+          code: 'duplicate-category-module',
+          moduleId: module.id,
+          message: `Module appears in both "${existing}" and "${category.id}"`,
+        });
+      } else {
+        categorized.set(module.id, category.id);
+      }
+    });
+  }
+
+  for (const key of Object.keys(modules)) {
+    if (!categorized.has(key)) {
+      issues.push({
+        code: 'uncategorized-module',
+        moduleId: key,
+        message: `Module "${key}" is not listed in any category`,
+      });
+    }
+  }
+
+  for (const id of implementedIds ?? []) {
+    if (!modules[id]) {
+      issues.push({
+        code: 'unknown-registry-entry',
+        moduleId: id,
+        message: `Component registered for unknown module "${id}"`,
+      });
+    }
+  }
+
+  return issues;
+};
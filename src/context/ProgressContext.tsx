@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Learning progress context.
+ *
+ * Provides the learner's `LearningProgress` to every page and module,
+ * along with actions for recording step and module completion. State is
+ * persisted to localStorage through the progress storage service.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import type { LearningProgress, ModuleStepProgress } from '../types';
+import { getModuleByPath } from '../config/curriculum';
+import {
+  PROGRESS_STORAGE_KEY,
+  loadProgress,
+  saveProgress,
+  clearProgress,
+  createEmptyProgress,
+} from '../services/progressStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ProgressContextValue {
+  /** Full progress record */
+  progress: LearningProgress;
+  /** Shortcut for `progress.completedModules` */
+  completedModules: string[];
+  /** Marks a module as complete regardless of its steps */
+  markModuleComplete: (moduleId: string) => void;
+  /** Records that a step was opened and makes it the resume point */
+  visitStep: (moduleId: string, stepIndex: number, totalSteps: number) => void;
+  /** Records that a step was finished; completes the module once all steps are */
+  finishStep: (moduleId: string, stepIndex: number, totalSteps: number) => void;
+  /** Step-level progress for a module, if any has been recorded */
+  getStepProgress: (moduleId: string) => ModuleStepProgress | undefined;
+  /** Records the module the learner is currently working on */
+  setCurrentModule: (moduleId: string | null) => void;
+  /** Adds time (in seconds) to the total time spent */
+  addTimeSpent: (seconds: number) => void;
+  /** Clears all progress */
+  resetProgress: () => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const addIndex = (list: number[], index: number): number[] =>
+  list.includes(index) ? list : [...list, index].sort((a, b) => a - b);
+
+const getEntry = (progress: LearningProgress, moduleId: string, totalSteps: number): ModuleStepProgress =>
+  progress.stepProgress[moduleId] ?? { visited: [], completed: [], lastStep: 0, totalSteps };
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+const ProgressContext = createContext<ProgressContextValue | null>(null);
+
+/**
+ * Provider that loads, exposes and persists learning progress.
+ */
+export const ProgressProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [progress, setProgress] = useState<LearningProgress>(loadProgress);
+
+  // Persist every change
+  useEffect(() => {
+    saveProgress(progress);
+  }, [progress]);
+
+  // Keep multiple tabs in sync
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === PROGRESS_STORAGE_KEY) {
+        setProgress(loadProgress());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  /**
+   * Applies an update and stamps the access time.
+   */
+  const update = useCallback((fn: (prev: LearningProgress) => LearningProgress) => {
+    setProgress(prev => ({ ...fn(prev), lastAccessed: new Date() }));
+  }, []);
+
+  const markModuleComplete = useCallback((moduleId: string) => {
+    update(prev => prev.completedModules.includes(moduleId)
+      ? prev
+      : { ...prev, completedModules: [...prev.completedModules, moduleId] }
+    );
+  }, [update]);
+
+  const visitStep = useCallback((moduleId: string, stepIndex: number, totalSteps: number) => {
+    update(prev => {
+      const entry = getEntry(prev, moduleId, totalSteps);
+      return {
+        ...prev,
+        stepProgress: {
+          ...prev.stepProgress,
+          [moduleId]: {
+            ...entry,
+            visited: addIndex(entry.visited, stepIndex),
+            lastStep: stepIndex,
+            totalSteps,
+          },
+        },
+      };
+    });
+  }, [update]);
+
+  const finishStep = useCallback((moduleId: string, stepIndex: number, totalSteps: number) => {
+    update(prev => {
+      const entry = getEntry(prev, moduleId, totalSteps);
+      const completed = addIndex(entry.completed, stepIndex);
+      const allDone = completed.filter(i => i < totalSteps).length >= totalSteps;
+      return {
+        ...prev,
+        completedModules: allDone && !prev.completedModules.includes(moduleId)
+          ? [...prev.completedModules, moduleId]
+          : prev.completedModules,
+        stepProgress: {
+          ...prev.stepProgress,
+          [moduleId]: {
+            ...entry,
+            visited: addIndex(entry.visited, stepIndex),
+            completed,
+            totalSteps,
+          },
+        },
+      };
+    });
+  }, [update]);
+
+  const getStepProgress = useCallback((moduleId: string) => {
+    return progress.stepProgress[moduleId];
+  }, [progress.stepProgress]);
+
+  const setCurrentModule = useCallback((moduleId: string | null) => {
+    update(prev => ({ ...prev, currentModule: moduleId }));
+  }, [update]);
+
+  const addTimeSpent = useCallback((seconds: number) => {
+    if (seconds <= 0) return;
+    update(prev => ({ ...prev, totalTimeSpent: prev.totalTimeSpent + seconds }));
+  }, [update]);
+
+  const resetProgress = useCallback(() => {
+    clearProgress();
+    setProgress(createEmptyProgress());
+  }, []);
+
+  const value = useMemo<ProgressContextValue>(() => ({
+    progress,
+    completedModules: progress.completedModules,
+    markModuleComplete,
+    visitStep,
+    finishStep,
+    getStepProgress,
+    setCurrentModule,
+    addTimeSpent,
+    resetProgress,
+  }), [progress, markModuleComplete, visitStep, finishStep, getStepProgress, setCurrentModule, addTimeSpent, resetProgress]);
+
+  return (
+    <ProgressContext.Provider value={value}>
+      {children}
+    </ProgressContext.Provider>
+  );
+};
+
+/**
+ * Accesses learning progress. Must be used inside a `ProgressProvider`.
+ */
+export const useProgress = (): ProgressContextValue => {
+  const context = useContext(ProgressContext);
+  if (!context) {
+    throw new Error('useProgress must be used within a ProgressProvider');
+  }
+  return context;
+};
+
+// =============================================================================
+// ROUTE TRACKING
+// =============================================================================
+
+/**
+ * Tracks the current module and time spent based on the active route.
+ * Render once inside both the router and the `ProgressProvider`.
+ */
+export const RouteProgressTracker: React.FC = () => {
+  const location = useLocation();
+  const { setCurrentModule, addTimeSpent } = useProgress();
+  const startRef = useRef<number | null>(null);
+
+  const moduleId = getModuleByPath(location.pathname)?.id ?? null;
+
+  useEffect(() => {
+    if (!moduleId) return;
+
+    setCurrentModule(moduleId);
+    startRef.current = Date.now();
+
+    const flush = () => {
+      if (startRef.current === null) return;
+      addTimeSpent(Math.round((Date.now() - startRef.current) / 1000));
+      startRef.current = null;
+    };
+
+    // Pause the clock while the tab is hidden
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        flush();
+      } else if (startRef.current === null) {
+        startRef.current = Date.now();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      flush();
+    };
+  }, [moduleId, setCurrentModule, addTimeSpent]);
+
+  return null;
+};
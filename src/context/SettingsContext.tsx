@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Learner settings context.
+ *
+ * Exposes guided mode and the instructor override to the whole app and
+ * persists them through the settings storage service.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { LearningSettings } from '../types';
+import { loadSettings, saveSettings } from '../services/settingsStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SettingsContextValue {
+  /** Current settings */
+  settings: LearningSettings;
+  /** Turns guided mode on or off */
+  setGuidedMode: (enabled: boolean) => void;
+  /** Turns the instructor override on or off */
+  setInstructorOverride: (enabled: boolean) => void;
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+/**
+ * Provider that loads, exposes and persists learner settings.
+ */
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<LearningSettings>(loadSettings);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const setGuidedMode = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ ...prev, guidedMode: enabled }));
+  }, []);
+
+  const setInstructorOverride = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ ...prev, instructorOverride: enabled }));
+  }, []);
+
+  const value = useMemo<SettingsContextValue>(() => ({
+    settings,
+    setGuidedMode,
+    setInstructorOverride,
+  }), [settings, setGuidedMode, setInstructorOverride]);
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+/**
+ * Accesses learner settings. Must be used inside a `SettingsProvider`.
+ */
+export const useSettings = (): SettingsContextValue => {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+};
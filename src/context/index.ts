@@ -0,0 +1,8 @@
+/**
+ * @fileoverview React context exports for VLA Learning Lab.
+ */
+
+export { ProgressProvider, useProgress, RouteProgressTracker } from './ProgressContext';
+export { SettingsProvider, useSettings } from './SettingsContext';
+export { useStepProgress } from './useStepProgress';
+export { useModuleAccess } from './useModuleAccess';
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Module access hook for guided mode.
+ *
+ * Combines learning progress with learner settings to decide whether a
+ * module is reachable, and which prerequisites are still missing.
+ */
+
+import { useCallback } from 'react';
+import type { LearningModule } from '../types';
+import { getMissingPrerequisites, isModuleUnlocked } from '../config/curriculum';
+import { useProgress } from './ProgressContext';
+import { useSettings } from './SettingsContext';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface UseModuleAccessReturn {
+  /** Whether guided-mode locks are currently enforced */
+  isGated: boolean;
+  /** Whether the learner can open a module */
+  isUnlocked: (moduleId: string) => boolean;
+  /** Prerequisite modules the learner has not completed yet */
+  getMissing: (moduleId: string) => LearningModule[];
+}
+
+// =============================================================================
+// HOOK IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Resolves module lock state for the current learner.
+ *
+ * Modules are always unlocked outside guided mode, and when the
+ * instructor override is on.
+ */
+export const useModuleAccess = (): UseModuleAccessReturn => {
+  const { completedModules } = useProgress();
+  const { settings } = useSettings();
+  const isGated = settings.guidedMode && !settings.instructorOverride;
+
+  const getMissing = useCallback(
+    (moduleId: string) => getMissingPrerequisites(moduleId, completedModules),
+    [completedModules]
+  );
+
+  const isUnlocked = useCallback(
+    (moduleId: string) => !isGated || isModuleUnlocked(moduleId, completedModules),
+    [isGated, completedModules]
+  );
+
+  return { isGated, isUnlocked, getMissing };
+};
+
+export default useModuleAccess;
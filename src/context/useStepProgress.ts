@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Step progress hook for multi-step learning modules.
+ *
+ * Connects a module's local `STEPS` array to the progress store: restores
+ * the last visited step on mount, records visits and finished steps, and
+ * only completes the module once every step has been finished.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useProgress } from './ProgressContext';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface UseStepProgressReturn {
+  /** Current step index */
+  step: number;
+  /** Moves to a step (records it as visited) */
+  setStep: (step: number) => void;
+  /** Step indices finished so far */
+  completedSteps: number[];
+  /** Records the given step as finished */
+  finishStep: (step: number) => void;
+  /**
+   * Finishes the current step and checks the whole module.
+   * Returns true if every step is done; otherwise jumps to the
+   * first unfinished step and returns false.
+   */
+  completeModule: () => boolean;
+}
+
+// =============================================================================
+// HOOK IMPLEMENTATION
+// =============================================================================
+
+/**
+ * Tracks step-level progress for a module.
+ *
+ * @param moduleId - Curriculum module ID (undefined disables tracking)
+ * @param totalSteps - Number of steps in the module
+ *
+ * @example
+ * const { step, setStep, completedSteps, finishStep, completeModule } =
+ *   useStepProgress('backprop', STEPS.length);
+ */
+export const useStepProgress = (
+  moduleId: string | undefined,
+  totalSteps: number
+): UseStepProgressReturn => {
+  const { getStepProgress, visitStep, finishStep: recordFinish } = useProgress();
+  const entry = moduleId ? getStepProgress(moduleId) : undefined;
+
+  const clamp = useCallback(
+    (i: number) => Math.min(Math.max(i, 0), Math.max(totalSteps - 1, 0)),
+    [totalSteps]
+  );
+
+  const [step, setStepState] = useState(() => clamp(entry?.lastStep ?? 0));
+  const [trackedModule, setTrackedModule] = useState(moduleId);
+
+  // Resume at the stored step when the same component is reused for another module
+  if (trackedModule !== moduleId) {
+    setTrackedModule(moduleId);
+    setStepState(clamp(entry?.lastStep ?? 0));
+  }
+
+  useEffect(() => {
+    if (moduleId) visitStep(moduleId, step, totalSteps);
+  }, [moduleId, step, totalSteps, visitStep]);
+
+  const completedSteps = entry?.completed ?? [];
+
+  const setStep = useCallback((i: number) => setStepState(clamp(i)), [clamp]);
+
+  const finishStep = useCallback((i: number) => {
+    if (moduleId) recordFinish(moduleId, i, totalSteps);
+  }, [moduleId, totalSteps, recordFinish]);
+
+  const completeModule = useCallback(() => {
+    finishStep(step);
+    const done = new Set([...completedSteps, step]);
+    const firstMissing = Array.from({ length: totalSteps }, (_, i) => i).find(i => !done.has(i));
+    if (firstMissing === undefined) return true;
+    setStepState(firstMissing);
+    return false;
+  }, [finishStep, step, completedSteps, totalSteps]);
+
+  return { step, setStep, completedSteps, finishStep, completeModule };
+};
+
+export default useStepProgress;
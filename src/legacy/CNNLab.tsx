@@ -5,8 +5,8 @@
  * This component is preserved from the original Computer Vision Lab.
  */
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import {
   Eye,
   Camera,
@@ -22,14 +22,54 @@ import {
   Zap,
   Lightbulb,
   ArrowLeft,
+  CheckCircle,
   Image as ImageIcon,
+  Pencil,
+  Package,
+  FileSpreadsheet,
 } from 'lucide-react';
 
 // Types
-import type { PixelData, MatrixMode, LearnModalType, AlgorithmInfo } from '../../types';
+import type {
+  PixelData,
+  MatrixMode,
+  LearnModalType,
+  AlgorithmInfo,
+  CustomKernelSpec,
+  NonLinearFilter,
+  StructuringShape,
+} from '../../types';
 
 // Constants
-import { PRESET_ALGORITHMS } from '../../constants';
+import { PRESET_ALGORITHMS, NON_LINEAR_ALGORITHMS, getAlgorithm, withNonLinearFilter } from '../../constants';
+
+// Utils
+import { pixelMatrixToBuffer, compareSeparableSpeed } from '../../utils/imageOps';
+import type { ImageBuffer, SeparableSpeedComparison } from '../../utils/imageOps';
+import { EMPTY_RGBA_MATRIX, rgbaMatrixToPixels } from '../../utils/rgbaMatrix';
+import type { ColorChannelTarget } from '../../utils/colorChannels';
+import { applyFrameFilter } from '../../utils/frameFilter';
+import type { PointOperation } from '../../utils/pointOps';
+import type { RgbaMatrix } from '../../utils/rgbaMatrix';
+import {
+  CUSTOM_KERNEL_PARAM,
+  createCustomAlgorithm,
+  encodeCustomKernel,
+  decodeCustomKernel,
+} from '../../utils/customKernel';
+import {
+  EXPORT_FORMATS,
+  exportMatrix,
+  exportMatrixBundle,
+  downloadFile,
+  toFileSlug,
+} from '../../utils/matrixExport';
+import type { ExportFormat } from '../../utils/matrixExport';
+import { importMatrix, MATRIX_IMPORT_ACCEPT, MAX_IMPORT_SIZE } from '../../utils/matrixImport';
+import type { FrameStats } from '../../utils/frameTiming';
+
+// Hooks
+import { useFrameWorker } from '../../hooks';
 
 // Components
 import { 
@@ -38,9 +78,21 @@ import {
   KernelDemo, 
   MatrixDemo,
   AlgorithmModal,
-  CameraSelector 
+  CameraSelector,
+  KernelGrid,
+  KernelEditor,
+  Slider,
+  PoolingStage,
+  CnnPipelineBuilder,
+  ChannelSplitPanel,
+  HistogramPanel,
+  CannyWalkthrough,
 } from '../../components';
 
+// Progress
+import { useProgress } from '../context';
+import { getModuleByPath } from '../config/curriculum';
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -48,6 +100,52 @@ import {
 /** Camera connection status */
 type CameraStatus = 'idle' | 'connecting' | 'initializing' | 'ready' | 'error';
 
+/** Where the lab's input comes from */
+type SourceMode = 'upload' | 'camera' | 'matrix';
+
+/** Matrix loaded from a CSV, .npy or JSON file */
+interface ImportedMatrix {
+  name: string;
+  matrix: PixelData[][];
+  /** Data URL of the matrix drawn as an image */
+  preview: string;
+}
+
+/** Live camera timings and frame-rate control */
+interface LiveProcessing {
+  stats: FrameStats;
+  targetFps: number;
+  setTargetFps: (fps: number) => void;
+  usingWorker: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Header text for each CNN lesson served by this lab */
+const LAB_TITLES: Record<string, { title: string; subtitle: string }> = {
+  pooling: { title: 'CNN Pooling Lab', subtitle: 'Convolution followed by pooling and stride' },
+  'cnn-architecture': { title: 'CNN Architecture Lab', subtitle: 'Stack layers and follow the feature maps' },
+};
+
+const DEFAULT_LAB_TITLE = { title: 'CNN Convolution Lab', subtitle: 'Interactive convolution visualization' };
+
+/** Display formats, plain views first and color spaces after */
+const DISPLAY_MODES: MatrixMode[] = ['rgb', 'hex', 'gray', 'heatmap', 'hsv', 'hsl', 'ycbcr', 'lab'];
+
+/**
+ * Largest resolution on the slider, kept equal to the largest importable
+ * matrix; the matrix view pans and zooms beyond its height.
+ */
+const MAX_RESOLUTION = MAX_IMPORT_SIZE;
+
+/** Frame-rate caps offered for the live camera; 0 means uncapped */
+const TARGET_FPS_OPTIONS = [15, 30, 60, 0];
+
+const STRUCTURING_SHAPES: StructuringShape[] = ['square', 'cross', 'disk'];
+const STRUCTURING_SIZES = [3, 5, 7];
+
 // =============================================================================
 // MAIN COMPONENT
 // =============================================================================
@@ -57,20 +155,46 @@ type CameraStatus = 'idle' | 'connecting' | 'initializing' | 'ready' | 'error';
  */
 const CNNLab: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { completedModules, markModuleComplete } = useProgress();
+  // CNNLab serves more than one CNN lesson, so resolve the module from the URL
+  const moduleId = getModuleByPath(location.pathname)?.id;
+  const isCompleted = moduleId ? completedModules.includes(moduleId) : false;
+  const showPooling = moduleId === 'pooling';
+  const showPipeline = moduleId === 'cnn-architecture';
+  const showHistogram = moduleId === 'image-matrix';
+  const showCanny = moduleId === 'convolution';
+  const labTitle = (moduleId && LAB_TITLES[moduleId]) || DEFAULT_LAB_TITLE;
+
   // =========================================================================
   // STATE
   // =========================================================================
   
   // Input source state
-  const [sourceMode, setSourceMode] = useState<'upload' | 'camera'>('upload');
+  const [sourceMode, setSourceMode] = useState<SourceMode>('upload');
   const [image, setImage] = useState<string | null>(null);
+  const [imported, setImported] = useState<ImportedMatrix | null>(null);
   
   // Processing state
   const [resolution, setResolution] = useState<number>(32);
-  const [matrix, setMatrix] = useState<PixelData[][]>([]);
+  const [matrix, setMatrix] = useState<RgbaMatrix>(EMPTY_RGBA_MATRIX);
+  // Input before the active kernel, for the pipeline and bundle exports
+  const [sourceMatrix, setSourceMatrix] = useState<RgbaMatrix>(EMPTY_RGBA_MATRIX);
   const [mode, setMode] = useState<MatrixMode>('rgb');
-  const [activeAlgo, setActiveAlgo] = useState<AlgorithmInfo>(PRESET_ALGORITHMS.identity);
+  // A kernel shared by link opens straight into the editor
+  const [customSpec, setCustomSpec] = useState<CustomKernelSpec | null>(
+    () => decodeCustomKernel(searchParams.get(CUSTOM_KERNEL_PARAM) ?? '')
+  );
+  const [activeAlgo, setActiveAlgo] = useState<AlgorithmInfo>(
+    () => (customSpec ? createCustomAlgorithm(customSpec) : PRESET_ALGORITHMS.identity)
+  );
   const [isLive, setIsLive] = useState(false);
+  const [targetFps, setTargetFps] = useState(30);
+  const [channelTarget, setChannelTarget] = useState<ColorChannelTarget | null>(null);
+  const [pointOp, setPointOp] = useState<PointOperation | null>(null);
+  // Point operations belong to the image-matrix lesson only
+  const activePointOp = showHistogram ? pointOp : null;
   
   // Camera state
   const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
@@ -88,6 +212,7 @@ const CNNLab: React.FC = () => {
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const matrixInputRef = useRef<HTMLInputElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const requestRef = useRef<number | null>(null);
 
@@ -95,96 +220,55 @@ const CNNLab: React.FC = () => {
   // PROCESSING FUNCTIONS
   // =========================================================================
 
-  const applyConvolution = useCallback((
-    input: PixelData[][], 
-    algo: AlgorithmInfo
-  ): PixelData[][] => {
-    if (algo.name === 'Identity') return input;
-    
-    const height = input.length;
-    const width = input[0]?.length || 0;
-    const output: PixelData[][] = [];
-    const k = algo.kernel;
-    const div = algo.divisor;
-
-    for (let y = 0; y < height; y++) {
-      const row: PixelData[] = [];
-      for (let x = 0; x < width; x++) {
-        let r = 0, g = 0, b = 0;
-
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const py = Math.min(Math.max(y + ky, 0), height - 1);
-            const px = Math.min(Math.max(x + kx, 0), width - 1);
-            const weight = k[ky + 1][kx + 1];
-            
-            r += input[py][px].r * weight;
-            g += input[py][px].g * weight;
-            b += input[py][px].b * weight;
-          }
-        }
-
-        const finalR = Math.min(Math.max(Math.round(r / div), 0), 255);
-        const finalG = Math.min(Math.max(Math.round(g / div), 0), 255);
-        const finalB = Math.min(Math.max(Math.round(b / div), 0), 255);
-        const finalGray = Math.round(0.299 * finalR + 0.587 * finalG + 0.114 * finalB);
-        const finalHex = `#${((1 << 24) + (finalR << 16) + (finalG << 8) + finalB).toString(16).slice(1)}`;
+  const filterFrame = useCallback((imageData: ImageBuffer) => {
+    setSourceMatrix(imageData);
+    setMatrix(applyFrameFilter(imageData, {
+      algorithm: activeAlgo,
+      padding: 'clamp',
+      channel: channelTarget,
+      pointOp: activePointOp,
+    }));
+  }, [activeAlgo, channelTarget, activePointOp]);
 
-        row.push({ r: finalR, g: finalG, b: finalB, a: 255, hex: finalHex, gray: finalGray });
-      }
-      output.push(row);
-    }
-    return output;
-  }, []);
+  // Still images are filtered here; live frames go through the worker
+  const processFrame = useCallback((source: HTMLImageElement, res: number) => {
+    const size = getFrameSize(source.width, source.height, res);
+    if (!size) return;
 
-  const processFrame = useCallback((
-    source: HTMLImageElement | HTMLVideoElement, 
-    res: number
-  ) => {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
+    canvas.width = size.width;
+    canvas.height = size.height;
 
-    const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
-    const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
-    if (sourceWidth === 0 || sourceHeight === 0) return;
-
-    const aspectRatio = sourceWidth / sourceHeight;
-    const width = res;
-    const height = Math.round(res / aspectRatio);
-    canvas.width = width;
-    canvas.height = height;
-
-    ctx.drawImage(source, 0, 0, width, height);
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-    
-    const baseMatrix: PixelData[][] = [];
-    for (let y = 0; y < height; y++) {
-      const row: PixelData[] = [];
-      for (let x = 0; x < width; x++) {
-        const i = (y * width + x) * 4;
-        const r = data[i], g = data[i + 1], b = data[i + 2], a = data[i + 3];
-        const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-        const hex = `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
-        row.push({ r, g, b, a, hex, gray });
-      }
-      baseMatrix.push(row);
-    }
+    ctx.drawImage(source, 0, 0, size.width, size.height);
+    filterFrame(ctx.getImageData(0, 0, size.width, size.height));
+  }, [filterFrame]);
 
-    setMatrix(applyConvolution(baseMatrix, activeAlgo));
-  }, [activeAlgo, applyConvolution]);
+  const { submitFrame, stats: frameStats, resetStats, usingWorker } = useFrameWorker({
+    algorithm: activeAlgo,
+    padding: 'clamp',
+    channel: channelTarget,
+    pointOp: activePointOp,
+    targetFps,
+    onFrame: ({ source, filtered }) => {
+      setSourceMatrix(source);
+      setMatrix(filtered);
+    },
+  });
 
   // =========================================================================
   // ANIMATION LOOP
   // =========================================================================
 
   const animate = useCallback(() => {
-    if (isLive && videoRef.current && videoRef.current.readyState === 4) {
-      processFrame(videoRef.current, resolution);
+    const video = videoRef.current;
+    if (isLive && video && video.readyState === 4) {
+      const size = getFrameSize(video.videoWidth, video.videoHeight, resolution);
+      if (size) submitFrame(video, size.width, size.height);
     }
     requestRef.current = requestAnimationFrame(animate);
-  }, [isLive, resolution, processFrame]);
+  }, [isLive, resolution, submitFrame]);
 
   useEffect(() => {
     if (isLive) {
@@ -237,6 +321,7 @@ const CNNLab: React.FC = () => {
         }
       }
       setSourceMode('camera');
+      resetStats();
       setIsLive(true);
       setShowCameraSelector(false);
     } catch {
@@ -315,53 +400,114 @@ const CNNLab: React.FC = () => {
     }
   };
 
+  // =========================================================================
+  // MATRIX IMPORT
+  // =========================================================================
+
+  useEffect(() => {
+    if (sourceMode === 'matrix' && imported) {
+      filterFrame(pixelMatrixToBuffer(imported.matrix));
+    }
+  }, [imported, sourceMode, filterFrame]);
+
+  const handleMatrixImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const matrix = importMatrix(file.name, new Uint8Array(await file.arrayBuffer()));
+      setImported({ name: file.name, matrix, preview: renderMatrixPreview(matrix) });
+      setSourceMode('matrix');
+      stopCamera();
+    } catch (error) {
+      alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
   // =========================================================================
   // EXPORT
   // =========================================================================
 
-  const downloadData = () => {
-    if (!matrix.length) return;
-    
-    const content = matrix.map(row => row.map(p => {
-      if (mode === 'rgb') return `"${p.r},${p.g},${p.b}"`;
-      if (mode === 'hex') return p.hex;
-      return p.gray;
-    }).join(",")).join("\n");
-    
-    const blob = new Blob([content], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `matrix_${activeAlgo.name.toLowerCase().replace(' ', '_')}_${resolution}x.csv`;
-    link.click();
+  const exportName = `matrix_${toFileSlug(activeAlgo.name)}_${resolution}x`;
+
+  const downloadData = (format: ExportFormat) => {
+    if (!matrix.height) return;
+    downloadFile(exportMatrix(rgbaMatrixToPixels(matrix), format, mode), exportName);
+  };
+
+  const downloadBundle = () => {
+    if (!matrix.height || !sourceMatrix.height) return;
+    const bundle = exportMatrixBundle(rgbaMatrixToPixels(sourceMatrix), rgbaMatrixToPixels(matrix), mode);
+    downloadFile(bundle, `${exportName}_bundle`);
   };
 
+  // The lesson stages work on per-pixel objects; only build them when shown
+  const poolingInput = useMemo(
+    () => (showPooling ? rgbaMatrixToPixels(matrix) : []),
+    [showPooling, matrix]
+  );
+  const pipelineInput = useMemo(
+    () => (showPipeline ? rgbaMatrixToPixels(sourceMatrix) : []),
+    [showPipeline, sourceMatrix]
+  );
+
   // =========================================================================
   // MODAL HANDLERS
   // =========================================================================
 
   const getAlgorithmFromModalKey = (key: string): AlgorithmInfo | null => {
-    const keyMap: Record<string, keyof typeof PRESET_ALGORITHMS> = {
-      'identity': 'identity',
-      'edge-detection': 'edge-detection',
-      'gaussian-blur': 'gaussian-blur',
-      'sharpen': 'sharpen',
-    };
-    const algoKey = keyMap[key];
-    return algoKey ? PRESET_ALGORITHMS[algoKey] : null;
+    return getAlgorithm(key) ?? null;
   };
 
   const handleApplyAlgorithm = (algo: AlgorithmInfo) => {
-    setActiveAlgo(algo);
+    selectPreset(algo);
     setLearnModal(null);
   };
 
+  // =========================================================================
+  // CUSTOM KERNEL
+  // =========================================================================
+
+  const updateCustomKernel = (spec: CustomKernelSpec) => {
+    setCustomSpec(spec);
+    setActiveAlgo(createCustomAlgorithm(spec));
+    setSearchParams(params => {
+      params.set(CUSTOM_KERNEL_PARAM, encodeCustomKernel(spec));
+      return params;
+    }, { replace: true });
+  };
+
+  // Start from whatever is active, so tweaking a preset is one click away.
+  // A non-linear filter becomes the plain average over its footprint.
+  const openCustomKernel = () => {
+    if (!customSpec && !isSingleKernel(activeAlgo)) return;
+    updateCustomKernel(customSpec ?? {
+      kernel: activeAlgo.kernel.map(row => [...row]),
+      divisor: activeAlgo.nonLinear ? 'auto' : activeAlgo.divisor,
+      bias: activeAlgo.bias ?? 0,
+    });
+  };
+
+  const selectPreset = (algo: AlgorithmInfo) => {
+    setActiveAlgo(algo);
+    if (!customSpec) return;
+    setCustomSpec(null);
+    setSearchParams(params => {
+      params.delete(CUSTOM_KERNEL_PARAM);
+      return params;
+    }, { replace: true });
+  };
+
+  const shareUrl = customSpec
+    ? `${window.location.origin}${location.pathname}?${CUSTOM_KERNEL_PARAM}=${encodeURIComponent(encodeCustomKernel(customSpec))}`
+    : '';
+
   // =========================================================================
   // COMPUTED VALUES
   // =========================================================================
 
-  const hasInput = image || sourceMode === 'camera';
-  const algorithmsArray = Object.values(PRESET_ALGORITHMS);
+  const hasInput = image || sourceMode === 'camera' || (sourceMode === 'matrix' && imported);
 
   // =========================================================================
   // RENDER
@@ -383,17 +529,32 @@ const CNNLab: React.FC = () => {
               <Eye size={18} />
             </div>
             <div>
-              <h1 className="text-lg font-semibold">CNN Convolution Lab</h1>
-              <p className="text-xs text-neutral-500">Interactive convolution visualization</p>
+              <h1 className="text-lg font-semibold">{labTitle.title}</h1>
+              <p className="text-xs text-neutral-500">{labTitle.subtitle}</p>
             </div>
           </div>
-          <button
-            onClick={() => setLearnModal('convolution')}
-            className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all bg-white/5 text-neutral-400 hover:bg-white/10 hover:text-white"
-          >
-            <Info size={14} />
-            What is Convolution?
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setLearnModal('convolution')}
+              className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all bg-white/5 text-neutral-400 hover:bg-white/10 hover:text-white"
+            >
+              <Info size={14} />
+              What is Convolution?
+            </button>
+            {moduleId && (
+              <button
+                onClick={() => {
+                  markModuleComplete(moduleId);
+                  navigate('/curriculum');
+                }}
+                disabled={isCompleted}
+                className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 transition-all bg-violet-500 text-white hover:bg-violet-600 disabled:bg-green-500/20 disabled:text-green-400"
+              >
+                <CheckCircle size={14} />
+                {isCompleted ? 'Completed' : 'Mark Complete'}
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -402,30 +563,77 @@ const CNNLab: React.FC = () => {
           <LandingScreen
             onCameraClick={handleCameraButtonClick}
             onUploadClick={() => fileInputRef.current?.click()}
+            onImportClick={() => matrixInputRef.current?.click()}
           />
         ) : (
           <MainView
             sourceMode={sourceMode}
             image={image}
+            imported={imported}
             matrix={matrix}
             mode={mode}
             resolution={resolution}
             activeAlgo={activeAlgo}
             isLive={isLive}
+            live={{ stats: frameStats, targetFps, setTargetFps, usingWorker }}
             cameras={cameras}
             cameraStatus={cameraStatus}
             cameraStatusMessage={cameraStatusMessage}
             videoRef={videoRef}
             setMode={setMode}
             setResolution={setResolution}
-            setActiveAlgo={setActiveAlgo}
+            setActiveAlgo={selectPreset}
             setLearnModal={setLearnModal}
             handleCameraButtonClick={handleCameraButtonClick}
+            onUploadClick={() => fileInputRef.current?.click()}
+            onImportClick={() => matrixInputRef.current?.click()}
             downloadData={downloadData}
-            algorithmsArray={algorithmsArray}
+            downloadBundle={downloadBundle}
+            algorithms={PRESET_ALGORITHMS}
+            nonLinearAlgorithms={NON_LINEAR_ALGORITHMS}
+            customSpec={customSpec}
+            shareUrl={shareUrl}
+            onCustomChange={updateCustomKernel}
+            onCustomOpen={openCustomKernel}
+            onCustomClose={() => selectPreset(PRESET_ALGORITHMS.identity)}
           />
         )}
 
+        {hasInput && showPooling && poolingInput.length > 0 && (
+          <div className="mt-6">
+            <PoolingStage matrix={poolingInput} />
+          </div>
+        )}
+
+        {hasInput && showHistogram && sourceMatrix.height > 0 && (
+          <div className="mt-6">
+            <HistogramPanel source={sourceMatrix} operation={pointOp} onOperationChange={setPointOp} />
+          </div>
+        )}
+
+        {hasInput && sourceMatrix.height > 0 && (
+          <div className="mt-6">
+            <ChannelSplitPanel source={sourceMatrix} target={channelTarget} onTargetChange={setChannelTarget} />
+          </div>
+        )}
+
+        {showCanny && (sourceMode === 'camera' || (sourceMode === 'upload' && image)) && (
+          <div className="mt-6">
+            <CannyWalkthrough
+              imageUrl={sourceMode === 'upload' ? image : null}
+              videoRef={videoRef}
+              isLive={isLive}
+              width={resolution}
+            />
+          </div>
+        )}
+
+        {hasInput && showPipeline && pipelineInput.length > 0 && (
+          <div className="mt-6">
+            <CnnPipelineBuilder matrix={pipelineInput} algorithms={PRESET_ALGORITHMS} />
+          </div>
+        )}
+
         <input 
           type="file" 
           ref={fileInputRef} 
@@ -433,11 +641,18 @@ const CNNLab: React.FC = () => {
           className="hidden" 
           accept="image/*" 
         />
+        <input
+          type="file"
+          ref={matrixInputRef}
+          onChange={handleMatrixImport}
+          className="hidden"
+          accept={MATRIX_IMPORT_ACCEPT}
+        />
 
         {learnModal && (
           <div className="fixed inset-0 bg-black/90 flex items-center justify-center z-50 p-4 overflow-y-auto">
             <div className="bg-[#141414] border border-white/10 rounded-2xl w-full max-w-2xl overflow-hidden my-8">
-              {['identity', 'edge-detection', 'gaussian-blur', 'sharpen'].includes(learnModal) && (() => {
+              {(() => {
                 const algo = getAlgorithmFromModalKey(learnModal);
                 if (!algo) return null;
                 return (
@@ -484,7 +699,8 @@ const CNNLab: React.FC = () => {
 const LandingScreen: React.FC<{
   onCameraClick: () => void;
   onUploadClick: () => void;
-}> = ({ onCameraClick, onUploadClick }) => (
+  onImportClick: () => void;
+}> = ({ onCameraClick, onUploadClick, onImportClick }) => (
   <div className="space-y-12">
     <div className="text-center py-12">
       <h2 className="text-4xl font-bold mb-4">
@@ -522,17 +738,29 @@ const LandingScreen: React.FC<{
         </p>
       </button>
     </div>
+
+    <div className="text-center">
+      <button
+        onClick={onImportClick}
+        className="text-sm text-neutral-500 hover:text-violet-400 transition-colors inline-flex items-center gap-2"
+      >
+        <FileSpreadsheet size={14} />
+        Or load a matrix from CSV, .npy or JSON
+      </button>
+    </div>
   </div>
 );
 
 const MainView: React.FC<{
-  sourceMode: 'upload' | 'camera';
+  sourceMode: SourceMode;
   image: string | null;
-  matrix: PixelData[][];
+  imported: ImportedMatrix | null;
+  matrix: RgbaMatrix;
   mode: MatrixMode;
   resolution: number;
   activeAlgo: AlgorithmInfo;
   isLive: boolean;
+  live: LiveProcessing;
   cameras: MediaDeviceInfo[];
   cameraStatus: CameraStatus;
   cameraStatusMessage: string;
@@ -542,16 +770,27 @@ const MainView: React.FC<{
   setActiveAlgo: (algo: AlgorithmInfo) => void;
   setLearnModal: (modal: LearnModalType) => void;
   handleCameraButtonClick: () => void;
-  downloadData: () => void;
-  algorithmsArray: AlgorithmInfo[];
+  onUploadClick: () => void;
+  onImportClick: () => void;
+  downloadData: (format: ExportFormat) => void;
+  downloadBundle: () => void;
+  algorithms: Record<string, AlgorithmInfo>;
+  nonLinearAlgorithms: Record<string, AlgorithmInfo>;
+  customSpec: CustomKernelSpec | null;
+  shareUrl: string;
+  onCustomChange: (spec: CustomKernelSpec) => void;
+  onCustomOpen: () => void;
+  onCustomClose: () => void;
 }> = ({
   sourceMode,
   image,
+  imported,
   matrix,
   mode,
   resolution,
   activeAlgo,
   isLive,
+  live,
   cameras,
   cameraStatus,
   cameraStatusMessage,
@@ -561,34 +800,42 @@ const MainView: React.FC<{
   setActiveAlgo,
   setLearnModal,
   handleCameraButtonClick,
+  onUploadClick,
+  onImportClick,
   downloadData,
-  algorithmsArray,
+  downloadBundle,
+  algorithms,
+  nonLinearAlgorithms,
+  customSpec,
+  shareUrl,
+  onCustomChange,
+  onCustomOpen,
+  onCustomClose,
 }) => {
-  const localFileRef = useRef<HTMLInputElement>(null);
-
   return (
     <div className="grid lg:grid-cols-12 gap-6">
       <div className="lg:col-span-3 space-y-4">
         <InputSourcePanel
           sourceMode={sourceMode}
           image={image}
+          imported={imported}
           isLive={isLive}
           cameras={cameras}
           videoRef={videoRef}
           onCameraClick={handleCameraButtonClick}
-          onUploadClick={() => localFileRef.current?.click()}
+          onUploadClick={onUploadClick}
+          onImportClick={onImportClick}
         />
-        <input type="file" ref={localFileRef} className="hidden" accept="image/*" />
-        <ResolutionPanel resolution={resolution} matrixHeight={matrix.length} setResolution={setResolution} />
+        {sourceMode !== 'matrix' && (
+          <ResolutionPanel resolution={resolution} matrixHeight={matrix.height} setResolution={setResolution} />
+        )}
         <DisplayFormatPanel mode={mode} setMode={setMode} />
-        <button 
-          onClick={downloadData} 
-          disabled={!matrix.length}
-          className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm flex items-center justify-center gap-2 hover:bg-white/10 transition-colors disabled:opacity-50"
-        >
-          <Download size={14} />
-          Export Matrix (CSV)
-        </button>
+        <ExportPanel
+          mode={mode}
+          disabled={!matrix.height}
+          onExport={downloadData}
+          onExportBundle={downloadBundle}
+        />
       </div>
 
       <div className="lg:col-span-6">
@@ -597,35 +844,99 @@ const MainView: React.FC<{
           mode={mode}
           resolution={resolution}
           isLive={isLive}
+          live={live}
           cameraStatus={cameraStatus}
           cameraStatusMessage={cameraStatusMessage}
         />
       </div>
 
       <div className="lg:col-span-3 space-y-4">
+        {customSpec && (
+          <KernelEditor
+            spec={customSpec}
+            onChange={onCustomChange}
+            presets={algorithms}
+            shareUrl={shareUrl}
+            onClose={onCustomClose}
+          />
+        )}
         <KernelSelectionPanel
-          algorithms={algorithmsArray}
+          algorithms={algorithms}
+          nonLinearAlgorithms={nonLinearAlgorithms}
           activeAlgo={activeAlgo}
           setActiveAlgo={setActiveAlgo}
           setLearnModal={setLearnModal}
+          onCustomize={customSpec ? undefined : onCustomOpen}
+        />
+        <ActiveKernelPanel
+          key={activeAlgo.name}
+          activeAlgo={activeAlgo}
+          onFilterChange={nonLinear => setActiveAlgo(withNonLinearFilter(activeAlgo, nonLinear))}
         />
-        <ActiveKernelPanel activeAlgo={activeAlgo} />
         <ConceptLinksPanel setLearnModal={setLearnModal} />
       </div>
     </div>
   );
 };
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Processing size for a source: `res` pixels wide, keeping the aspect
+ * ratio. Returns null until the source has loaded.
+ */
+const getFrameSize = (sourceWidth: number, sourceHeight: number, res: number) => {
+  if (sourceWidth === 0 || sourceHeight === 0) return null;
+  return { width: res, height: Math.max(1, Math.round(res * sourceHeight / sourceWidth)) };
+};
+
+/**
+ * Whether a preset is exactly its `kernel`, so the custom editor can
+ * reproduce it. Gradient presets combine a second kernel, and non-linear
+ * filters only use `kernel` to show their footprint.
+ */
+const isSingleKernel = (algo: AlgorithmInfo) => !algo.gradient && !algo.nonLinear;
+
+/**
+ * Draws a pixel matrix into a data URL so imported matrices can be
+ * previewed like uploaded images.
+ */
+const renderMatrixPreview = (matrix: PixelData[][]): string => {
+  const buffer = pixelMatrixToBuffer(matrix);
+  const canvas = document.createElement('canvas');
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+  return canvas.toDataURL();
+};
+
+/**
+ * Deterministic noise image for timing kernels independently of the input.
+ */
+const createBenchmarkImage = (width: number, height: number): ImageBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 1;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    data[i] = i % 4 === 3 ? 255 : seed & 255;
+  }
+  return { data, width, height };
+};
+
 // Panel components
 const InputSourcePanel: React.FC<{
-  sourceMode: 'upload' | 'camera';
+  sourceMode: SourceMode;
   image: string | null;
+  imported: ImportedMatrix | null;
   isLive: boolean;
   cameras: MediaDeviceInfo[];
   videoRef: React.RefObject<HTMLVideoElement | null>;
   onCameraClick: () => void;
   onUploadClick: () => void;
-}> = ({ sourceMode, image, isLive, cameras, videoRef, onCameraClick, onUploadClick }) => (
+  onImportClick: () => void;
+}> = ({ sourceMode, image, imported, isLive, cameras, videoRef, onCameraClick, onUploadClick, onImportClick }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10 overflow-hidden">
     <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
       <span className="text-xs font-medium text-neutral-400">Input Source</span>
@@ -636,11 +947,22 @@ const InputSourcePanel: React.FC<{
         <button onClick={onUploadClick} className={`p-1.5 rounded-md transition-colors ${sourceMode === 'upload' ? 'bg-violet-500/20 text-violet-400' : 'text-neutral-500 hover:bg-white/10'}`}>
           <Upload size={14} />
         </button>
+        <button onClick={onImportClick} title="Load a CSV, .npy or JSON matrix" className={`p-1.5 rounded-md transition-colors ${sourceMode === 'matrix' ? 'bg-violet-500/20 text-violet-400' : 'text-neutral-500 hover:bg-white/10'}`}>
+          <FileSpreadsheet size={14} />
+        </button>
       </div>
     </div>
     <div className="aspect-video relative bg-black">
       <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-cover ${sourceMode === 'camera' ? 'block' : 'hidden'}`} />
       {sourceMode === 'upload' && image && <img src={image} className="w-full h-full object-cover" alt="Source" />}
+      {sourceMode === 'matrix' && imported && (
+        <>
+          <img src={imported.preview} className="w-full h-full object-contain [image-rendering:pixelated]" alt="Imported matrix" />
+          <div className="absolute bottom-2 left-2 bg-black/70 px-2 py-1 rounded-md text-[10px] font-mono text-white/80">
+            {imported.name} · {imported.matrix[0].length}×{imported.matrix.length}
+          </div>
+        </>
+      )}
       {isLive && (
         <div className="absolute top-2 left-2 flex items-center gap-1.5 bg-black/70 px-2 py-1 rounded-full">
           <div className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
@@ -662,14 +984,10 @@ const ResolutionPanel: React.FC<{
   setResolution: (res: number) => void;
 }> = ({ resolution, matrixHeight, setResolution }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10 p-4">
-    <div className="flex items-center justify-between mb-3">
-      <span className="text-xs font-medium text-neutral-400">Resolution</span>
-      <span className="text-xs font-mono text-violet-400">{resolution}×{matrixHeight || '?'}</span>
-    </div>
-    <input 
-      type="range" min="8" max="64" step="8" value={resolution}
-      onChange={(e) => setResolution(parseInt(e.target.value))}
-      className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-violet-500"
+    <Slider
+      label="Resolution" value={resolution} min={8} max={MAX_RESOLUTION} step={8}
+      format={v => `${v}×${matrixHeight || '?'}`}
+      onChange={setResolution}
     />
   </div>
 );
@@ -680,36 +998,113 @@ const DisplayFormatPanel: React.FC<{
 }> = ({ mode, setMode }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10 p-4">
     <span className="text-xs font-medium text-neutral-400 block mb-3">Display Format</span>
-    <div className="grid grid-cols-3 gap-1.5">
-      {(['rgb', 'hex', 'gray'] as MatrixMode[]).map((m) => (
+    <div className="grid grid-cols-4 gap-1.5">
+      {DISPLAY_MODES.map((m) => (
         <button key={m} onClick={() => setMode(m)}
           className={`py-2 rounded-lg text-xs font-medium uppercase transition-all ${mode === m ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-300 hover:bg-white/5'}`}>
-          {m}
+          {m === 'heatmap' ? 'heat' : m}
         </button>
       ))}
     </div>
   </div>
 );
 
+const ExportPanel: React.FC<{
+  mode: MatrixMode;
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+  onExportBundle: () => void;
+}> = ({ mode, disabled, onExport, onExportBundle }) => {
+  const [format, setFormat] = useState<ExportFormat>('npy');
+  const layout = mode === 'gray' ? 'H×W gray' : 'H×W×3 RGB';
+
+  return (
+    <div className="rounded-xl bg-white/[0.02] border border-white/10 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-medium text-neutral-400">Export</span>
+        <span className="text-[10px] text-neutral-600 font-mono">{format === 'csv' ? `${mode} cells` : `uint8 ${layout}`}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-1.5 mb-3">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+          <button key={f} onClick={() => setFormat(f)} title={EXPORT_FORMATS[f].description}
+            className={`py-1.5 rounded-lg text-[11px] font-medium transition-all ${format === f ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-300 hover:bg-white/5'}`}>
+            {EXPORT_FORMATS[f].label}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-1.5">
+        <button
+          onClick={() => onExport(format)}
+          disabled={disabled}
+          className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-xs flex items-center justify-center gap-2 hover:bg-white/10 transition-colors disabled:opacity-50"
+        >
+          <Download size={12} />
+          Export Matrix
+        </button>
+        <button
+          onClick={onExportBundle}
+          disabled={disabled}
+          title="original and filtered arrays in one .npz file"
+          className="w-full px-4 py-2 rounded-lg text-xs text-neutral-400 flex items-center justify-center gap-2 hover:bg-white/5 hover:text-neutral-200 transition-colors disabled:opacity-50"
+        >
+          <Package size={12} />
+          Original + Filtered (.npz)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const LiveStatsBar: React.FC<{ live: LiveProcessing }> = ({ live }) => {
+  const { stats, targetFps, setTargetFps, usingWorker } = live;
+  return (
+    <div className="px-4 py-2 border-b border-white/10 flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] font-mono text-neutral-500">
+      <span><span className="text-violet-300">{stats.fps.toFixed(1)}</span> fps</span>
+      <span title="From grabbing a frame to receiving its filtered pixels">
+        <span className="text-neutral-300">{stats.latencyMs.toFixed(1)}</span> ms latency
+      </span>
+      <span title="Time spent in the convolution itself">
+        <span className="text-neutral-300">{stats.processMs.toFixed(1)}</span> ms filter
+      </span>
+      <span title="Frames skipped because the previous one was still being filtered">
+        <span className={stats.dropped ? 'text-amber-300' : 'text-neutral-300'}>{stats.dropped}</span> dropped
+      </span>
+      <span className="text-neutral-600">{usingWorker ? 'worker' : 'main thread'}</span>
+      <label className="ml-auto flex items-center gap-1.5">
+        target
+        <select
+          value={targetFps}
+          onChange={(e) => setTargetFps(Number(e.target.value))}
+          className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-neutral-300"
+        >
+          {TARGET_FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps ? `${fps} fps` : 'max'}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
 const MatrixDisplayPanel: React.FC<{
-  matrix: PixelData[][];
+  matrix: RgbaMatrix;
   mode: MatrixMode;
   resolution: number;
   isLive: boolean;
+  live: LiveProcessing;
   cameraStatus: string;
   cameraStatusMessage: string;
-}> = ({ matrix, mode, resolution, isLive, cameraStatus, cameraStatusMessage }) => (
+}> = ({ matrix, mode, resolution, isLive, live, cameraStatus, cameraStatusMessage }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10 h-full flex flex-col">
     <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
       <div className="flex items-center gap-2">
         <span className="text-sm font-medium">Pixel Matrix</span>
         {isLive && <span className="text-[10px] text-violet-400 bg-violet-500/10 px-2 py-0.5 rounded-full">Real-time</span>}
       </div>
-      <span className="text-xs text-neutral-500 font-mono">{matrix.length ? `${matrix[0]?.length}×${matrix.length} pixels` : ''}</span>
+      <span className="text-xs text-neutral-500 font-mono">{matrix.height ? `${matrix.width}×${matrix.height} pixels` : ''}</span>
     </div>
+    {isLive && <LiveStatsBar live={live} />}
     <div className="flex-1 flex items-center justify-center p-4 min-h-[400px]">
-      {matrix.length > 0 ? (
-        <MatrixVisualizer matrix={matrix} mode={mode} cellSize={resolution > 48 ? 12 : resolution > 32 ? 16 : 24} />
+      {matrix.height > 0 ? (
+        <MatrixVisualizer matrix={matrix} mode={mode} cellSize={resolution > 128 ? 4 : resolution > 48 ? 12 : resolution > 32 ? 16 : 24} />
       ) : (cameraStatus === 'connecting' || cameraStatus === 'initializing') ? (
         <div className="text-center">
           <div className="relative w-16 h-16 mx-auto mb-4">
@@ -730,21 +1125,62 @@ const MatrixDisplayPanel: React.FC<{
   </div>
 );
 
-const getKernelCellClass = (val: number, isActive: boolean): string => {
-  if (isActive) {
-    if (val > 0) return 'bg-violet-500/30 text-violet-300';
-    if (val < 0) return 'bg-red-500/30 text-red-300';
-    return 'bg-white/10 text-neutral-500';
-  }
-  return 'bg-white/5 text-neutral-500';
+/**
+ * Footprint size shown beside each algorithm: kernel dimensions, or the
+ * structuring element for non-linear filters.
+ */
+const getFootprintLabel = (algo: AlgorithmInfo): string => {
+  if (algo.nonLinear) return `${algo.nonLinear.element.size}×${algo.nonLinear.element.size} ${algo.nonLinear.element.shape}`;
+  const size = `${algo.kernel.length}×${algo.kernel[0].length}`;
+  return `${algo.gradient ? `2×${size}` : size}${algo.separable ? ' · sep' : ''}`;
 };
 
+const AlgorithmListItem: React.FC<{
+  algoKey: string;
+  algo: AlgorithmInfo;
+  isActive: boolean;
+  setActiveAlgo: (algo: AlgorithmInfo) => void;
+  setLearnModal: (modal: LearnModalType) => void;
+}> = ({ algoKey, algo, isActive, setActiveAlgo, setLearnModal }) => (
+  <div className={`rounded-lg transition-all mb-1 last:mb-0 ${isActive ? 'bg-violet-500/10 border border-violet-500/30' : 'hover:bg-white/5 border border-transparent'}`}>
+    <button onClick={() => setActiveAlgo(algo)} className="w-full p-3 text-left">
+      <div className="flex items-center justify-between mb-1">
+        <span className={`text-sm font-medium ${isActive ? 'text-violet-400' : 'text-neutral-300'}`}>{algo.name}</span>
+        <span className="text-[9px] font-mono text-neutral-600">{getFootprintLabel(algo)}</span>
+      </div>
+      <p className="text-[10px] text-neutral-500 mb-2">{algo.description}</p>
+      <div className="flex items-center gap-3">
+        <div className="shrink-0 w-14 flex justify-center">
+          <KernelGrid
+            kernel={algo.kernel}
+            cellSize={Math.max(4, Math.floor(56 / Math.max(algo.kernel.length, algo.kernel[0].length)) - 2)}
+            muted={!isActive}
+          />
+        </div>
+        <div className="text-[9px] font-mono text-neutral-500">{algo.formula}</div>
+      </div>
+    </button>
+    {isActive && (
+      <div className="px-3 pb-3">
+        <button onClick={() => setLearnModal(algoKey as LearnModalType)}
+          className="w-full py-1.5 rounded-md bg-violet-500/20 text-violet-400 text-[10px] font-medium hover:bg-violet-500/30 transition-colors flex items-center justify-center gap-1">
+          <Lightbulb size={10} /> Learn how {algo.name} works
+        </button>
+      </div>
+    )}
+  </div>
+);
+
 const KernelSelectionPanel: React.FC<{
-  algorithms: AlgorithmInfo[];
+  algorithms: Record<string, AlgorithmInfo>;
+  /** Listed after the kernels, for contrast with convolution */
+  nonLinearAlgorithms: Record<string, AlgorithmInfo>;
   activeAlgo: AlgorithmInfo;
   setActiveAlgo: (algo: AlgorithmInfo) => void;
   setLearnModal: (modal: LearnModalType) => void;
-}> = ({ algorithms, activeAlgo, setActiveAlgo, setLearnModal }) => (
+  /** Opens the custom kernel editor; hidden while it is already open */
+  onCustomize?: () => void;
+}> = ({ algorithms, nonLinearAlgorithms, activeAlgo, setActiveAlgo, setLearnModal, onCustomize }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10">
     <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
       <span className="text-xs font-medium text-neutral-400">Convolution Kernel</span>
@@ -752,56 +1188,150 @@ const KernelSelectionPanel: React.FC<{
         <Info size={10} /> What's a kernel?
       </button>
     </div>
-    <div className="p-2">
-      {algorithms.map((algo) => {
-        const isActive = activeAlgo.name === algo.name;
-        return (
-          <div key={algo.name} className={`rounded-lg transition-all mb-1 last:mb-0 ${isActive ? 'bg-violet-500/10 border border-violet-500/30' : 'hover:bg-white/5 border border-transparent'}`}>
-            <button onClick={() => setActiveAlgo(algo)} className="w-full p-3 text-left">
-              <div className="flex items-center justify-between mb-1">
-                <span className={`text-sm font-medium ${isActive ? 'text-violet-400' : 'text-neutral-300'}`}>{algo.name}</span>
-              </div>
-              <p className="text-[10px] text-neutral-500 mb-2">{algo.description}</p>
-              <div className="flex items-center gap-3">
-                <div className="grid grid-cols-3 gap-0.5 w-14">
-                  {algo.kernel.flat().map((val, i) => (
-                    <div key={i} className={`aspect-square flex items-center justify-center text-[8px] font-mono rounded-sm ${getKernelCellClass(val, isActive)}`}>{val}</div>
-                  ))}
-                </div>
-                <div className="text-[9px] font-mono text-neutral-500">{algo.formula}</div>
-              </div>
-            </button>
-            {isActive && (
-              <div className="px-3 pb-3">
-                <button onClick={() => setLearnModal(algo.name.toLowerCase().replace(' ', '-') as LearnModalType)}
-                  className="w-full py-1.5 rounded-md bg-violet-500/20 text-violet-400 text-[10px] font-medium hover:bg-violet-500/30 transition-colors flex items-center justify-center gap-1">
-                  <Lightbulb size={10} /> Learn how {algo.name} works
-                </button>
-              </div>
-            )}
-          </div>
-        );
-      })}
+    <div className="p-2 max-h-[520px] overflow-y-auto">
+      {Object.entries(algorithms).map(([key, algo]) => (
+        <AlgorithmListItem
+          key={key}
+          algoKey={key}
+          algo={algo}
+          isActive={activeAlgo.name === algo.name}
+          setActiveAlgo={setActiveAlgo}
+          setLearnModal={setLearnModal}
+        />
+      ))}
+      <div className="px-3 pt-3 pb-2 mt-2 border-t border-white/10">
+        <span className="text-[10px] font-medium text-neutral-500 uppercase tracking-wider">Non-linear filters</span>
+        <p className="text-[10px] text-neutral-600 mt-0.5">No weights: they sort, pick or compare the values under a structuring element.</p>
+      </div>
+      {Object.entries(nonLinearAlgorithms).map(([key, algo]) => (
+        <AlgorithmListItem
+          key={key}
+          algoKey={key}
+          algo={algo}
+          isActive={activeAlgo.name === algo.name}
+          setActiveAlgo={setActiveAlgo}
+          setLearnModal={setLearnModal}
+        />
+      ))}
     </div>
+    {onCustomize && (
+      <div className="px-2 pb-2">
+        <button onClick={onCustomize} disabled={!isSingleKernel(activeAlgo)}
+          className="w-full py-2 rounded-lg border border-dashed border-white/15 text-xs text-neutral-400 hover:text-violet-300 hover:border-violet-500/40 disabled:opacity-40 disabled:hover:text-neutral-400 disabled:hover:border-white/15 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5">
+          <Pencil size={11} /> Edit as custom kernel
+        </button>
+        {!isSingleKernel(activeAlgo) && (
+          <p className="text-[10px] text-neutral-600 mt-1 text-center">
+            {activeAlgo.name} is not a single weighted kernel, so it cannot be edited as one.
+          </p>
+        )}
+      </div>
+    )}
   </div>
 );
 
-const ActiveKernelPanel: React.FC<{ activeAlgo: AlgorithmInfo }> = ({ activeAlgo }) => (
-  <div className="rounded-xl bg-gradient-to-br from-violet-500/10 to-violet-500/10 border border-violet-500/20 p-4">
-    <div className="flex items-center justify-between mb-3">
-      <div className="flex items-center gap-2">
-        <Zap size={14} className="text-violet-400" />
-        <span className="text-xs font-medium text-violet-400 uppercase tracking-wider">Active Filter</span>
+/**
+ * Structuring element picker, plus the range sigma for bilateral filtering.
+ */
+const NonLinearControls: React.FC<{
+  filter: NonLinearFilter;
+  onChange: (filter: NonLinearFilter) => void;
+}> = ({ filter, onChange }) => {
+  const { element } = filter;
+  const optionClass = (selected: boolean) =>
+    `flex-1 py-1 rounded-md text-[10px] font-medium transition-colors ${selected ? 'bg-violet-500/20 text-violet-300' : 'bg-black/20 text-neutral-500 hover:text-neutral-300'}`;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-violet-500/20 space-y-2">
+      <span className="text-[10px] text-neutral-400">Structuring element</span>
+      <div className="flex gap-1">
+        {STRUCTURING_SHAPES.map(shape => (
+          <button key={shape} onClick={() => onChange({ ...filter, element: { ...element, shape } })} className={optionClass(element.shape === shape)}>
+            {shape}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {STRUCTURING_SIZES.map(size => (
+          <button key={size} onClick={() => onChange({ ...filter, element: { ...element, size } })} className={optionClass(element.size === size)}>
+            {size}×{size}
+          </button>
+        ))}
       </div>
+      {filter.type === 'bilateral' && (
+        <Slider
+          label="Range sigma (edge sensitivity)" value={filter.sigmaRange} min={5} max={150} step={5}
+          onChange={sigmaRange => onChange({ ...filter, sigmaRange })}
+        />
+      )}
     </div>
-    <h4 className="font-medium mb-2">{activeAlgo.name}</h4>
-    <p className="text-xs text-neutral-400 leading-relaxed mb-3">{activeAlgo.learn}</p>
-    <div className="bg-black/30 rounded-lg p-2 font-mono text-[10px] text-neutral-300 mb-3">{activeAlgo.formula}</div>
-    <div className="text-[10px] text-neutral-500">
-      <span className="text-neutral-400 font-medium">Real-world use:</span> {activeAlgo.deepDive.realWorld[0]}
+  );
+};
+
+const ActiveKernelPanel: React.FC<{
+  activeAlgo: AlgorithmInfo;
+  /** Called with new settings for a non-linear filter */
+  onFilterChange: (filter: NonLinearFilter) => void;
+}> = ({ activeAlgo, onFilterChange }) => {
+  const [speed, setSpeed] = useState<SeparableSpeedComparison | null>(null);
+  const { separable, nonLinear } = activeAlgo;
+
+  const runComparison = () => {
+    if (!separable) return;
+    setSpeed(compareSeparableSpeed(createBenchmarkImage(320, 240), separable, {
+      divisor: activeAlgo.divisor,
+    }));
+  };
+
+  return (
+    <div className="rounded-xl bg-gradient-to-br from-violet-500/10 to-violet-500/10 border border-violet-500/20 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Zap size={14} className="text-violet-400" />
+          <span className="text-xs font-medium text-violet-400 uppercase tracking-wider">Active Filter</span>
+        </div>
+      </div>
+      <h4 className="font-medium mb-2">{activeAlgo.name}</h4>
+      <p className="text-xs text-neutral-400 leading-relaxed mb-3">{activeAlgo.learn}</p>
+      <div className="bg-black/30 rounded-lg p-2 font-mono text-[10px] text-neutral-300 mb-3">{activeAlgo.formula}</div>
+      <div className="text-[10px] text-neutral-500">
+        <span className="text-neutral-400 font-medium">Real-world use:</span> {activeAlgo.deepDive.realWorld[0]}
+      </div>
+
+      {separable && (
+        <div className="mt-3 pt-3 border-t border-violet-500/20">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-[10px] text-neutral-400">
+              Separable: {separable.column.length}×{separable.row.length} as two 1D passes
+            </span>
+            <button onClick={runComparison} className="text-[10px] px-2 py-1 rounded-md bg-violet-500/20 text-violet-300 hover:bg-violet-500/30 transition-colors">
+              {speed ? 'Re-run' : 'Compare speed'}
+            </button>
+          </div>
+          {speed && (
+            <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+              <div className="bg-black/30 rounded-md p-2">
+                <div className="text-neutral-500 mb-1">2D kernel</div>
+                <div className="text-neutral-300">{speed.fullMultiplies} mult/px</div>
+                <div className="text-neutral-300">{speed.fullMs.toFixed(1)} ms</div>
+              </div>
+              <div className="bg-black/30 rounded-md p-2">
+                <div className="text-neutral-500 mb-1">Row × column</div>
+                <div className="text-violet-300">{speed.separableMultiplies} mult/px</div>
+                <div className="text-violet-300">{speed.separableMs.toFixed(1)} ms</div>
+              </div>
+              <div className="col-span-2 text-neutral-500">
+                {(speed.fullMs / Math.max(speed.separableMs, 0.001)).toFixed(1)}× faster on 320×240 · max difference {speed.maxDifference}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {nonLinear && <NonLinearControls filter={nonLinear} onChange={onFilterChange} />}
     </div>
-  </div>
-);
+  );
+};
 
 const ConceptLinksPanel: React.FC<{ setLearnModal: (modal: LearnModalType) => void }> = ({ setLearnModal }) => (
   <div className="rounded-xl bg-white/[0.02] border border-white/10 p-3">
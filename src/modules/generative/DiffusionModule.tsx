@@ -4,6 +4,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { Sparkles, X, Play, Pause, RotateCcw } from 'lucide-react';
 
@@ -36,7 +37,7 @@ const STEPS = [
 
 const DiffusionModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('diffusion', STEPS.length);
 
   const renderVisual = () => {
     switch (step) {
@@ -93,7 +94,11 @@ const DiffusionModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
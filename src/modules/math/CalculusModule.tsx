@@ -1,16 +1,27 @@
 /**
  * @fileoverview Interactive Calculus Demo - Derivatives, Gradients, Chain Rule.
+ *
+ * Every visual plots a function the learner types. Derivatives are worked
+ * out symbolically and shown next to a finite-difference estimate.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator, InteractiveCanvas } from '../../components/shared';
 import { TrendingUp, ArrowRight, X } from 'lucide-react';
+import { parseExpression, evaluate, formatExpression, substitute } from '../../../utils/expression';
+import type { Expr, Scope } from '../../../utils/expression';
+import { differentiate, finiteDifference } from '../../../utils/derivative';
+import { createGraph, backward, buildExpressionGraph, findGradientPath } from '../../../utils/autograd';
+import type { GradNode } from '../../../utils/autograd';
+import { OptimizerZoo } from '../../../components/OptimizerZoo';
+import { ComputationGraph } from '../../../components/ComputationGraph';
 
 const STEPS = [
   {
     title: 'What is a Derivative?',
-    desc: 'A derivative measures how fast something changes. Move the slider to see the slope at any point!',
+    desc: 'A derivative measures how fast something changes. Type a function and move the slider to see the slope at any point!',
   },
   {
     title: 'Gradients in 2D',
@@ -26,25 +37,20 @@ const STEPS = [
   },
   {
     title: 'Gradient Descent',
-    desc: 'To minimize a function, we move in the opposite direction of the gradient. This is how neural networks learn!',
+    desc: 'To minimize a function, we move in the opposite direction of the gradient. This is how neural networks learn! Below, race momentum, Nesterov, RMSProp and Adam against plain gradient descent on real loss surfaces with valleys, saddles and many minima.',
   },
 ];
 
 const CalculusModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('calculus', STEPS.length);
   const [xValue, setXValue] = useState(0);
   const [learningRate, setLearningRate] = useState(0.1);
   const [gdX, setGdX] = useState(3);
 
-  // f(x) = x^2
-  const f = (x: number) => x * x;
-  // f'(x) = 2x
-  const fPrime = (x: number) => 2 * x;
-
-  // Gradient descent step
-  const stepGD = () => {
-    setGdX(prev => prev - learningRate * fPrime(prev));
+  // Gradient descent step, given the slope at the current x
+  const stepGD = (slope: number) => {
+    setGdX(prev => prev - learningRate * slope);
   };
 
   const renderVisual = () => {
@@ -57,15 +63,21 @@ const CalculusModule: React.FC = () => {
         return <ChainRuleVisual />;
       case 3:
         return <PartialDerivativeVisual />;
+      // The optimizer zoo shares this step so the module keeps its step count
       case 4:
         return (
-          <GradientDescentVisual 
-            gdX={gdX} 
-            stepGD={stepGD} 
-            learningRate={learningRate} 
-            setLearningRate={setLearningRate}
-            reset={() => setGdX(3)}
-          />
+          <>
+            <GradientDescentVisual 
+              gdX={gdX} 
+              stepGD={stepGD} 
+              learningRate={learningRate} 
+              setLearningRate={setLearningRate}
+              reset={() => setGdX(3)}
+            />
+            <div className="mt-6">
+              <OptimizerZoo />
+            </div>
+          </>
         );
       default:
         return null;
@@ -109,7 +121,11 @@ const CalculusModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
@@ -119,59 +135,240 @@ const CalculusModule: React.FC = () => {
   );
 };
 
+// =============================================================================
+// FUNCTION INPUT & PLOTTING
+// =============================================================================
+
+interface ParsedFunction {
+  expr: Expr | null;
+  error: string | null;
+}
+
+/** Parses a typed function, turning a syntax error into a message */
+const parseFunction = (source: string, variables: string[]): ParsedFunction => {
+  try {
+    return { expr: parseExpression(source, variables), error: null };
+  } catch (err) {
+    return { expr: null, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+/** Value at a point, or null where the function is undefined */
+const evaluateAt = (expr: Expr | null, scope: Scope): number | null => {
+  if (!expr) return null;
+  const value = evaluate(expr, scope);
+  return Number.isFinite(value) ? value : null;
+};
+
+const formatValue = (value: number | null, digits = 3) => (value === null ? 'undefined' : value.toFixed(digits));
+
+/** Text box for a function, with presets and the parser's error */
+const FunctionInput: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  error: string | null;
+  presets?: string[];
+}> = ({ label, value, onChange, error, presets = [] }) => (
+  <div className="max-w-sm mx-auto w-full">
+    <div className="flex items-center gap-2">
+      <span className="font-mono text-sm text-neutral-400 shrink-0">{label} =</span>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        className={`w-full px-3 py-1.5 rounded-lg bg-white/5 border font-mono text-sm focus:outline-none ${error ? 'border-red-500/50' : 'border-white/10 focus:border-violet-500/50'}`}
+      />
+    </div>
+    {error ? (
+      <p className="text-[10px] text-red-400 mt-1">{error}</p>
+    ) : presets.length > 0 && (
+      <div className="flex flex-wrap gap-2 mt-2">
+        {presets.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onChange(preset)}
+            className="px-2 py-1 text-[10px] font-mono bg-white/5 hover:bg-white/10 rounded transition-colors"
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+interface PlotScale {
+  toX: (x: number) => number;
+  toY: (y: number) => number;
+}
+
+const PLOT_WIDTH = 300;
+const PLOT_HEIGHT = 180;
+const PLOT_MARGIN = 12;
+const PLOT_SAMPLES = 120;
+
+/** Largest |y| the plot scales to, so poles do not flatten the rest of the curve */
+const PLOT_Y_LIMIT = 50;
+
+/**
+ * Plots f(x) over a fixed x range with the y range fitted to the curve.
+ * Gaps are left where the function is undefined; `children` draws
+ * overlays using the plot's scale.
+ */
+const FunctionPlot: React.FC<{
+  expr: Expr | null;
+  xMin: number;
+  xMax: number;
+  children?: (scale: PlotScale) => React.ReactNode;
+}> = ({ expr, xMin, xMax, children }) => {
+  const samples = useMemo(
+    () => Array.from({ length: PLOT_SAMPLES + 1 }, (_, i) => {
+      const x = xMin + ((xMax - xMin) * i) / PLOT_SAMPLES;
+      return { x, y: evaluateAt(expr, { x }) };
+    }),
+    [expr, xMin, xMax]
+  );
+
+  const visible = samples.flatMap(s => (s.y !== null && Math.abs(s.y) <= PLOT_Y_LIMIT ? [s.y] : []));
+  let yMin = visible.length ? Math.min(...visible) : -1;
+  let yMax = visible.length ? Math.max(...visible) : 1;
+  if (yMax - yMin < 1e-6) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const pad = (yMax - yMin) * 0.1;
+  yMin -= pad;
+  yMax += pad;
+
+  const scale: PlotScale = {
+    toX: x => PLOT_MARGIN + ((x - xMin) / (xMax - xMin)) * (PLOT_WIDTH - 2 * PLOT_MARGIN),
+    toY: y => PLOT_HEIGHT - PLOT_MARGIN - ((y - yMin) / (yMax - yMin)) * (PLOT_HEIGHT - 2 * PLOT_MARGIN),
+  };
+
+  let path = '';
+  let penDown = false;
+  for (const { x, y } of samples) {
+    if (y === null || Math.abs(y) > PLOT_Y_LIMIT * 10) {
+      penDown = false;
+      continue;
+    }
+    path += `${penDown ? 'L' : 'M'}${scale.toX(x).toFixed(1)} ${scale.toY(y).toFixed(1)}`;
+    penDown = true;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full max-w-[300px] bg-black/50 rounded-lg overflow-hidden">
+      {yMin < 0 && yMax > 0 && (
+        <line x1={0} y1={scale.toY(0)} x2={PLOT_WIDTH} y2={scale.toY(0)} stroke="white" strokeOpacity="0.2" />
+      )}
+      <line x1={scale.toX(0)} y1={0} x2={scale.toX(0)} y2={PLOT_HEIGHT} stroke="white" strokeOpacity="0.2" />
+      <path d={path} fill="none" stroke="#8b5cf6" strokeWidth="2" />
+      {children?.(scale)}
+      <text x={4} y={12} fontSize="10" fill="#737373">y</text>
+      <text x={PLOT_WIDTH - 10} y={PLOT_HEIGHT - 4} fontSize="10" fill="#737373">x</text>
+    </svg>
+  );
+};
+
+/** Symbolic value next to the finite-difference estimate */
+const NumericCheck: React.FC<{ symbolic: number | null; numeric: number | null }> = ({ symbolic, numeric }) => (
+  <div className="text-[10px] text-neutral-500 font-mono">
+    finite difference: {formatValue(numeric, 5)}
+    {symbolic !== null && numeric !== null && (
+      <span> · difference {Math.abs(symbolic - numeric).toExponential(1)}</span>
+    )}
+  </div>
+);
+
+/** Finite difference at a point, or null where it is undefined */
+const finiteDifferenceAt = (expr: Expr | null, name: string, scope: Scope): number | null => {
+  if (!expr) return null;
+  const value = finiteDifference(expr, name, scope);
+  return Number.isFinite(value) ? value : null;
+};
+
+const finiteOrNull = (value: number) => (Number.isFinite(value) ? value : null);
+
+/**
+ * Records y = f(g(x)) on an autograd graph and runs two backward passes:
+ * one from g for dg/dx, then one from y, which leaves df/dg on the g node
+ * and dy/dx on x. The graph is zeroed in between, since a constant f does
+ * not reach g and would otherwise leave the first pass's gradients behind.
+ */
+const traceChainRule = (inner: Expr, outer: Expr, x: number) => {
+  const graph = createGraph();
+  const input = graph.input(x, 'x');
+  const g = buildExpressionGraph(graph, inner, { x: input });
+  if (!g.label) g.label = 'g';
+  const output = buildExpressionGraph(graph, outer, { g });
+  if (!output.label) output.label = 'y';
+
+  backward(g);
+  const innerSlope = input.grad;
+  graph.zeroGrad();
+  backward(output);
+  return {
+    input,
+    output,
+    innerSlope: finiteOrNull(innerSlope),
+    outerSlope: finiteOrNull(g.grad),
+    total: finiteOrNull(input.grad),
+  };
+};
+
+/** Records f(x, y) on an autograd graph and backpropagates from f */
+const tracePartials = (expr: Expr, point: Scope) => {
+  const graph = createGraph();
+  const inputs: Record<string, GradNode> = { x: graph.input(point.x, 'x'), y: graph.input(point.y, 'y') };
+  const output = buildExpressionGraph(graph, expr, inputs);
+  if (!output.label) output.label = 'f';
+  backward(output);
+  return { output, x: finiteOrNull(inputs.x.grad), y: finiteOrNull(inputs.y.grad) };
+};
+
+// =============================================================================
+// VISUALS
+// =============================================================================
+
 // Derivative visualization
 const DerivativeVisual: React.FC<{
   xValue: number;
   setXValue: (x: number) => void;
 }> = ({ xValue, setXValue }) => {
-  const f = (x: number) => x * x;
-  const fPrime = (x: number) => 2 * x;
-  const slope = fPrime(xValue);
-  const yValue = f(xValue);
+  const [source, setSource] = useState('x^2');
+  const { expr, error } = useMemo(() => parseFunction(source, ['x']), [source]);
+  const derivative = useMemo(() => (expr ? differentiate(expr, 'x') : null), [expr]);
+
+  const yValue = evaluateAt(expr, { x: xValue });
+  const slope = evaluateAt(derivative, { x: xValue });
+  const numericSlope = finiteDifferenceAt(expr, 'x', { x: xValue });
 
   return (
     <div className="space-y-6">
+      <FunctionInput
+        label="f(x)" value={source} onChange={setSource} error={error}
+        presets={['x^2', 'x^3 - 3x', 'sin(x)', 'exp(-x^2)', 'ln(x)']}
+      />
+
       <div className="flex justify-center">
-        <div className="relative bg-black/50 rounded-lg p-4" style={{ width: 300, height: 200 }}>
-          {/* Y-axis */}
-          <div className="absolute left-8 top-2 bottom-8 w-px bg-white/20" />
-          {/* X-axis */}
-          <div className="absolute left-8 right-2 bottom-8 h-px bg-white/20" />
-          
-          {/* Curve f(x) = x² */}
-          <svg className="absolute inset-0" viewBox="0 0 300 200" preserveAspectRatio="none">
-            <path
-              d={`M ${30 + (-3 + 3) * 40} ${160 - 9 * 15} ` + 
-                 Array.from({ length: 61 }, (_, i) => {
-                   const x = -3 + i * 0.1;
-                   const y = x * x;
-                   return `L ${30 + (x + 3) * 40} ${160 - y * 15}`;
-                 }).join(' ')}
-              fill="none"
-              stroke="#8b5cf6"
-              strokeWidth="2"
-            />
-            {/* Tangent line at xValue */}
-            <line
-              x1={30 + (xValue - 1 + 3) * 40}
-              y1={160 - (yValue - slope) * 15}
-              x2={30 + (xValue + 1 + 3) * 40}
-              y2={160 - (yValue + slope) * 15}
-              stroke="#f97316"
-              strokeWidth="2"
-            />
-            {/* Point on curve */}
-            <circle
-              cx={30 + (xValue + 3) * 40}
-              cy={160 - yValue * 15}
-              r="6"
-              fill="#f97316"
-            />
-          </svg>
-          
-          <div className="absolute left-2 top-2 text-[10px] text-neutral-500">y</div>
-          <div className="absolute right-2 bottom-2 text-[10px] text-neutral-500">x</div>
-        </div>
+        <FunctionPlot expr={expr} xMin={-3} xMax={3}>
+          {({ toX, toY }) => yValue !== null && (
+            <>
+              {/* Tangent line at xValue */}
+              {slope !== null && (
+                <line
+                  x1={toX(xValue - 1)} y1={toY(yValue - slope)}
+                  x2={toX(xValue + 1)} y2={toY(yValue + slope)}
+                  stroke="#f97316" strokeWidth="2"
+                />
+              )}
+              {/* Point on curve */}
+              <circle cx={toX(xValue)} cy={toY(yValue)} r="6" fill="#f97316" />
+            </>
+          )}
+        </FunctionPlot>
       </div>
 
       {/* Slider */}
@@ -193,40 +390,55 @@ const DerivativeVisual: React.FC<{
       </div>
 
       {/* Info */}
-      <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center">
-        <div className="font-mono text-sm mb-2">
-          f(x) = x² → f'(x) = 2x
-        </div>
-        <div className="flex justify-center gap-8 text-sm">
-          <div>
-            <span className="text-neutral-500">x = </span>
-            <span className="text-violet-400">{xValue.toFixed(1)}</span>
-          </div>
-          <div>
-            <span className="text-neutral-500">f(x) = </span>
-            <span className="text-violet-400">{yValue.toFixed(2)}</span>
+      {expr && derivative && (
+        <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center space-y-2">
+          <div className="font-mono text-sm">
+            f(x) = {formatExpression(expr)} → f'(x) = {formatExpression(derivative)}
           </div>
-          <div>
-            <span className="text-neutral-500">slope = </span>
-            <span className="text-orange-400">{slope.toFixed(2)}</span>
+          <div className="flex justify-center gap-8 text-sm">
+            <div>
+              <span className="text-neutral-500">x = </span>
+              <span className="text-violet-400">{xValue.toFixed(1)}</span>
+            </div>
+            <div>
+              <span className="text-neutral-500">f(x) = </span>
+              <span className="text-violet-400">{formatValue(yValue, 2)}</span>
+            </div>
+            <div>
+              <span className="text-neutral-500">slope = </span>
+              <span className="text-orange-400">{formatValue(slope, 2)}</span>
+            </div>
           </div>
+          <NumericCheck symbolic={slope} numeric={numericSlope} />
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
 // Gradient visualization
 const GradientVisual: React.FC = () => {
+  const [source, setSource] = useState('x^2 + y^2');
   const [point, setPoint] = useState({ x: 1, y: 1 });
-
-  // f(x,y) = x² + y²
-  // ∇f = (2x, 2y)
-  const gradient = { x: 2 * point.x, y: 2 * point.y };
+  const { expr, error } = useMemo(() => parseFunction(source, ['x', 'y']), [source]);
+  const partials = useMemo(
+    () => (expr ? { x: differentiate(expr, 'x'), y: differentiate(expr, 'y') } : null),
+    [expr]
+  );
+  // The numeric gradient comes from one backward pass; the symbolic partials are for display
+  const trace = useMemo(() => (expr ? tracePartials(expr, point) : null), [expr, point]);
+  const gradient = { x: trace?.x ?? 0, y: trace?.y ?? 0 };
   const magnitude = Math.sqrt(gradient.x ** 2 + gradient.y ** 2);
+  // Long gradients are shortened so the arrow stays on the grid
+  const arrowScale = Math.min(0.3, 1.5 / (magnitude || 1));
 
   return (
     <div className="space-y-4">
+      <FunctionInput
+        label="f(x, y)" value={source} onChange={setSource} error={error}
+        presets={['x^2 + y^2', 'x^2 - y^2', 'sin(x)cos(y)', 'x*y']}
+      />
+
       <div className="flex justify-center">
         <div 
           className="relative bg-black/50 rounded-lg cursor-crosshair"
@@ -269,8 +481,8 @@ const GradientVisual: React.FC = () => {
               <line
                 x1={125 + point.x * 250 / 4}
                 y1={125 - point.y * 250 / 4}
-                x2={125 + (point.x + gradient.x * 0.3) * 250 / 4}
-                y2={125 - (point.y + gradient.y * 0.3) * 250 / 4}
+                x2={125 + (point.x + gradient.x * arrowScale) * 250 / 4}
+                y2={125 - (point.y + gradient.y * arrowScale) * 250 / 4}
                 stroke="#f97316"
                 strokeWidth="2"
                 markerEnd="url(#arrowhead)"
@@ -280,161 +492,274 @@ const GradientVisual: React.FC = () => {
         </div>
       </div>
 
-      <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center">
-        <div className="font-mono text-sm mb-3">
-          f(x,y) = x² + y² → ∇f = (2x, 2y)
-        </div>
-        <div className="flex justify-center gap-6 text-xs">
-          <div>
-            <span className="text-neutral-500">Point: </span>
-            <span className="text-violet-400">({point.x.toFixed(1)}, {point.y.toFixed(1)})</span>
+      {partials && (
+        <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center">
+          <div className="font-mono text-sm mb-3">
+            ∇f = ({formatExpression(partials.x)}, {formatExpression(partials.y)})
           </div>
-          <div>
-            <span className="text-neutral-500">Gradient: </span>
-            <span className="text-orange-400">({gradient.x.toFixed(1)}, {gradient.y.toFixed(1)})</span>
+          <div className="flex justify-center gap-6 text-xs">
+            <div>
+              <span className="text-neutral-500">Point: </span>
+              <span className="text-violet-400">({point.x.toFixed(1)}, {point.y.toFixed(1)})</span>
+            </div>
+            <div>
+              <span className="text-neutral-500">Gradient: </span>
+              <span className="text-orange-400">({gradient.x.toFixed(2)}, {gradient.y.toFixed(2)})</span>
+            </div>
           </div>
+          <div className="text-[10px] text-neutral-500 font-mono mt-2">
+            finite difference: ({formatValue(finiteDifferenceAt(expr, 'x', point), 4)}, {formatValue(finiteDifferenceAt(expr, 'y', point), 4)})
+          </div>
+          <p className="text-[10px] text-neutral-500 mt-2">Click anywhere to move the point</p>
         </div>
-        <p className="text-[10px] text-neutral-500 mt-2">Click anywhere to move the point</p>
-      </div>
+      )}
     </div>
   );
 };
 
 // Chain rule visualization
-const ChainRuleVisual: React.FC = () => (
-  <div className="space-y-6">
-    <div className="flex items-center justify-center gap-4">
-      <div className="text-center p-4 bg-white/5 rounded-xl">
-        <div className="text-2xl mb-2">x</div>
-        <div className="text-xs text-neutral-500">Input</div>
-      </div>
-      <ArrowRight className="text-neutral-600" />
-      <div className="text-center p-4 bg-blue-500/10 border border-blue-500/20 rounded-xl">
-        <div className="text-2xl mb-2">g(x)</div>
-        <div className="text-xs text-blue-400">Inner function</div>
-        <div className="text-[10px] text-neutral-500 mt-1">g(x) = x²</div>
-      </div>
-      <ArrowRight className="text-neutral-600" />
-      <div className="text-center p-4 bg-green-500/10 border border-green-500/20 rounded-xl">
-        <div className="text-2xl mb-2">f(g)</div>
-        <div className="text-xs text-green-400">Outer function</div>
-        <div className="text-[10px] text-neutral-500 mt-1">f(g) = sin(g)</div>
-      </div>
-      <ArrowRight className="text-neutral-600" />
-      <div className="text-center p-4 bg-violet-500/10 border border-violet-500/20 rounded-xl">
-        <div className="text-2xl mb-2">y</div>
-        <div className="text-xs text-violet-400">Output</div>
-      </div>
-    </div>
+const ChainRuleVisual: React.FC = () => {
+  const [innerSource, setInnerSource] = useState('x^2');
+  const [outerSource, setOuterSource] = useState('sin(g)');
+  const [x, setX] = useState(1);
+  const inner = useMemo(() => parseFunction(innerSource, ['x']), [innerSource]);
+  const outer = useMemo(() => parseFunction(outerSource, ['g']), [outerSource]);
 
-    <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4 text-center">
-      <div className="text-sm text-orange-300 mb-2">The Chain Rule</div>
-      <div className="font-mono text-lg">
-        <span className="text-violet-400">dy/dx</span> = 
-        <span className="text-green-400"> df/dg</span> × 
-        <span className="text-blue-400"> dg/dx</span>
-      </div>
-      <div className="font-mono text-sm text-neutral-400 mt-2">
-        = cos(x²) × 2x
-      </div>
-    </div>
+  const chain = useMemo(() => {
+    if (!inner.expr || !outer.expr) return null;
+    const composed = substitute(outer.expr, 'g', inner.expr);
+    return {
+      composed,
+      // df/dg is evaluated at g = g(x)
+      outerSlope: substitute(differentiate(outer.expr, 'g'), 'g', inner.expr),
+      innerSlope: differentiate(inner.expr, 'x'),
+      total: differentiate(composed, 'x'),
+    };
+  }, [inner.expr, outer.expr]);
 
-    <div className="text-center text-xs text-neutral-500">
-      This is exactly how backpropagation works - derivatives flow backwards through the chain!
-    </div>
-  </div>
-);
+  const trace = useMemo(
+    () => (inner.expr && outer.expr ? traceChainRule(inner.expr, outer.expr, x) : null),
+    [inner.expr, outer.expr, x]
+  );
+  const path = useMemo(() => (trace ? findGradientPath(trace.output, trace.input) ?? [] : []), [trace]);
 
-// Partial derivative visualization
-const PartialDerivativeVisual: React.FC = () => (
-  <div className="space-y-4">
-    <div className="bg-black/50 rounded-lg p-6 text-center">
-      <div className="font-mono text-lg mb-4">
-        f(x, y) = x²y + 3xy²
+  return (
+    <div className="space-y-6">
+      <div className="grid sm:grid-cols-2 gap-3">
+        <FunctionInput label="g(x)" value={innerSource} onChange={setInnerSource} error={inner.error} />
+        <FunctionInput label="f(g)" value={outerSource} onChange={setOuterSource} error={outer.error} />
       </div>
-      
-      <div className="grid grid-cols-2 gap-4">
-        <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
-          <div className="text-xs text-blue-400 mb-2">∂f/∂x (hold y constant)</div>
-          <div className="font-mono">2xy + 3y²</div>
+
+      <div className="flex items-center justify-center gap-4">
+        <div className="text-center p-4 bg-white/5 rounded-xl">
+          <div className="text-2xl mb-2">x</div>
+          <div className="text-xs text-neutral-500">Input</div>
+        </div>
+        <ArrowRight className="text-neutral-600" />
+        <div className="text-center p-4 bg-blue-500/10 border border-blue-500/20 rounded-xl">
+          <div className="text-2xl mb-2">g(x)</div>
+          <div className="text-xs text-blue-400">Inner function</div>
+          <div className="text-[10px] text-neutral-500 mt-1 font-mono">{inner.expr ? formatExpression(inner.expr) : '?'}</div>
+        </div>
+        <ArrowRight className="text-neutral-600" />
+        <div className="text-center p-4 bg-green-500/10 border border-green-500/20 rounded-xl">
+          <div className="text-2xl mb-2">f(g)</div>
+          <div className="text-xs text-green-400">Outer function</div>
+          <div className="text-[10px] text-neutral-500 mt-1 font-mono">{outer.expr ? formatExpression(outer.expr) : '?'}</div>
         </div>
-        <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
-          <div className="text-xs text-green-400 mb-2">∂f/∂y (hold x constant)</div>
-          <div className="font-mono">x² + 6xy</div>
+        <ArrowRight className="text-neutral-600" />
+        <div className="text-center p-4 bg-violet-500/10 border border-violet-500/20 rounded-xl">
+          <div className="text-2xl mb-2">y</div>
+          <div className="text-xs text-violet-400">Output</div>
         </div>
       </div>
-    </div>
 
-    <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center">
-      <div className="font-mono text-sm">
-        ∇f = (∂f/∂x, ∂f/∂y) = (<span className="text-blue-400">2xy + 3y²</span>, <span className="text-green-400">x² + 6xy</span>)
+      <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4 text-center space-y-2">
+        <div className="text-sm text-orange-300">The Chain Rule</div>
+        <div className="font-mono text-lg">
+          <span className="text-violet-400">dy/dx</span> = 
+          <span className="text-green-400"> df/dg</span> × 
+          <span className="text-blue-400"> dg/dx</span>
+        </div>
+        {chain && (
+          <>
+            <div className="font-mono text-sm text-neutral-400">
+              = <span className="text-green-400">{formatExpression(chain.outerSlope)}</span> ×{' '}
+              <span className="text-blue-400">{formatExpression(chain.innerSlope)}</span>
+            </div>
+            <div className="font-mono text-sm text-neutral-400">
+              = {formatExpression(chain.total)}
+            </div>
+            <div className="max-w-xs mx-auto pt-2">
+              <div className="flex justify-between text-xs text-neutral-500 mb-1">
+                <span>x</span>
+                <span>{x.toFixed(1)}</span>
+              </div>
+              <input
+                type="range" min="-2.5" max="2.5" step="0.1" value={x}
+                onChange={(e) => setX(parseFloat(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            {trace && (
+              <>
+                <div className="font-mono text-sm">
+                  <span className="text-green-400">{formatValue(trace.outerSlope)}</span> ×{' '}
+                  <span className="text-blue-400">{formatValue(trace.innerSlope)}</span> ={' '}
+                  <span className="text-violet-400">{formatValue(trace.total)}</span>
+                </div>
+                <NumericCheck symbolic={trace.total} numeric={finiteDifferenceAt(chain.composed, 'x', { x })} />
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {trace && (
+        <div className="bg-black/50 rounded-lg p-4 space-y-2">
+          <div className="text-xs text-neutral-400 text-center">
+            Computation graph after backward(y): each edge multiplies the gradient by its local derivative
+          </div>
+          <ComputationGraph output={trace.output} showLocalGrads highlight={path} />
+        </div>
+      )}
+
+      <div className="text-center text-xs text-neutral-500">
+        This is exactly how backpropagation works - derivatives flow backwards through the chain!
       </div>
-      <p className="text-[10px] text-neutral-500 mt-2">
-        The gradient is a vector of all partial derivatives
-      </p>
     </div>
-  </div>
-);
+  );
+};
+
+// Partial derivative visualization
+const PartialDerivativeVisual: React.FC = () => {
+  const [source, setSource] = useState('x^2*y + 3x*y^2');
+  const [point, setPoint] = useState({ x: 1, y: 2 });
+  const { expr, error } = useMemo(() => parseFunction(source, ['x', 'y']), [source]);
+  const partials = useMemo(
+    () => (expr ? { x: differentiate(expr, 'x'), y: differentiate(expr, 'y') } : null),
+    [expr]
+  );
+  const trace = useMemo(() => (expr ? tracePartials(expr, point) : null), [expr, point]);
+
+  return (
+    <div className="space-y-4">
+      <FunctionInput
+        label="f(x, y)" value={source} onChange={setSource} error={error}
+        presets={['x^2*y + 3x*y^2', 'x*exp(y)', 'sin(x*y)', 'ln(x^2 + y^2)']}
+      />
+
+      {expr && partials && trace && (
+        <>
+          <div className="bg-black/50 rounded-lg p-6 text-center">
+            <div className="font-mono text-lg mb-4">
+              f(x, y) = {formatExpression(expr)}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 space-y-2">
+                <div className="text-xs text-blue-400">∂f/∂x (hold y constant)</div>
+                <div className="font-mono">{formatExpression(partials.x)}</div>
+                <div className="font-mono text-sm text-blue-300">= {formatValue(trace.x)}</div>
+                <NumericCheck symbolic={trace.x} numeric={finiteDifferenceAt(expr, 'x', point)} />
+              </div>
+              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4 space-y-2">
+                <div className="text-xs text-green-400">∂f/∂y (hold x constant)</div>
+                <div className="font-mono">{formatExpression(partials.y)}</div>
+                <div className="font-mono text-sm text-green-300">= {formatValue(trace.y)}</div>
+                <NumericCheck symbolic={trace.y} numeric={finiteDifferenceAt(expr, 'y', point)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mt-4">
+              {(['x', 'y'] as const).map(name => (
+                <div key={name}>
+                  <div className="flex justify-between text-xs text-neutral-500 mb-1">
+                    <span>{name}</span>
+                    <span>{point[name].toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range" min="-3" max="3" step="0.1" value={point[name]}
+                    onChange={(e) => setPoint(prev => ({ ...prev, [name]: parseFloat(e.target.value) }))}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-4 text-center">
+            <div className="font-mono text-sm">
+              ∇f = (∂f/∂x, ∂f/∂y) = (<span className="text-blue-400">{formatExpression(partials.x)}</span>, <span className="text-green-400">{formatExpression(partials.y)}</span>)
+            </div>
+            <p className="text-[10px] text-neutral-500 mt-2">
+              The gradient is a vector of all partial derivatives
+            </p>
+          </div>
+
+          <div className="bg-black/50 rounded-lg p-4 space-y-2">
+            <div className="text-xs text-neutral-400 text-center">
+              One backward pass from f fills in ∂f/∂x and ∂f/∂y together: x and y collect gradient from every path they feed
+            </div>
+            <ComputationGraph output={trace.output} showLocalGrads />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
 
 // Gradient descent visualization
 const GradientDescentVisual: React.FC<{
   gdX: number;
-  stepGD: () => void;
+  stepGD: (slope: number) => void;
   learningRate: number;
   setLearningRate: (lr: number) => void;
   reset: () => void;
 }> = ({ gdX, stepGD, learningRate, setLearningRate, reset }) => {
-  const f = (x: number) => x * x;
-  const yValue = f(gdX);
-  const gradient = 2 * gdX;
+  const [source, setSource] = useState('x^2');
+  const { expr, error } = useMemo(() => parseFunction(source, ['x']), [source]);
+  const derivative = useMemo(() => (expr ? differentiate(expr, 'x') : null), [expr]);
+  const yValue = evaluateAt(expr, { x: gdX });
+  const gradient = evaluateAt(derivative, { x: gdX });
+
+  const changeFunction = (value: string) => {
+    setSource(value);
+    reset();
+  };
 
   return (
     <div className="space-y-4">
+      <FunctionInput
+        label="f(x)" value={source} onChange={changeFunction} error={error}
+        presets={['x^2', 'x^4 - 3x^2 + x', '(x - 1)^2 + sin(3x)', 'ln(1 + x^2)']}
+      />
+
       <div className="flex justify-center">
-        <div className="relative bg-black/50 rounded-lg p-4" style={{ width: 300, height: 180 }}>
-          {/* Curve */}
-          <svg className="absolute inset-0" viewBox="0 0 300 180">
-            <path
-              d={`M ${30} ${160 - 9 * 15} ` + 
-                 Array.from({ length: 61 }, (_, i) => {
-                   const x = -3 + i * 0.1;
-                   const y = x * x;
-                   return `L ${30 + (x + 3) * 40} ${160 - y * 15}`;
-                 }).join(' ')}
-              fill="none"
-              stroke="#8b5cf6"
-              strokeWidth="2"
-            />
-            {/* Current position */}
-            <circle
-              cx={30 + (gdX + 3) * 40}
-              cy={160 - yValue * 15}
-              r="8"
-              fill="#f97316"
-            />
-            {/* Gradient arrow (pointing left = towards minimum) */}
-            <line
-              x1={30 + (gdX + 3) * 40}
-              y1={160 - yValue * 15}
-              x2={30 + (gdX - Math.sign(gradient) * 0.5 + 3) * 40}
-              y2={160 - yValue * 15}
-              stroke="#22c55e"
-              strokeWidth="2"
-              markerEnd="url(#arrow)"
-            />
-          </svg>
-          
-          <div className="absolute bottom-1 left-1/2 -translate-x-1/2 text-[10px] text-neutral-500">
-            Minimum at x=0
-          </div>
-        </div>
+        <FunctionPlot expr={expr} xMin={-3.5} xMax={3.5}>
+          {({ toX, toY }) => yValue !== null && (
+            <>
+              {/* Current position */}
+              <circle cx={toX(gdX)} cy={toY(yValue)} r="8" fill="#f97316" />
+              {/* Arrow against the gradient, towards lower f */}
+              {gradient !== null && gradient !== 0 && (
+                <line
+                  x1={toX(gdX)} y1={toY(yValue)}
+                  x2={toX(gdX - Math.sign(gradient) * 0.5)} y2={toY(yValue)}
+                  stroke="#22c55e" strokeWidth="2"
+                />
+              )}
+            </>
+          )}
+        </FunctionPlot>
       </div>
 
       {/* Controls */}
       <div className="flex justify-center gap-4">
         <button
-          onClick={stepGD}
-          className="px-4 py-2 bg-violet-500 hover:bg-violet-600 rounded-lg text-sm font-medium transition-colors"
+          onClick={() => gradient !== null && stepGD(gradient)}
+          disabled={gradient === null}
+          className="px-4 py-2 bg-violet-500 hover:bg-violet-600 disabled:opacity-40 rounded-lg text-sm font-medium transition-colors"
         >
           Step Down Gradient
         </button>
@@ -467,11 +792,16 @@ const GradientDescentVisual: React.FC<{
       <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3 text-center text-sm">
         <div className="flex justify-center gap-6">
           <span>x = <span className="text-orange-400">{gdX.toFixed(3)}</span></span>
-          <span>f(x) = <span className="text-violet-400">{yValue.toFixed(4)}</span></span>
-          <span>∇f = <span className="text-green-400">{gradient.toFixed(3)}</span></span>
+          <span>f(x) = <span className="text-violet-400">{formatValue(yValue, 4)}</span></span>
+          <span>∇f = <span className="text-green-400">{formatValue(gradient)}</span></span>
         </div>
+        {derivative && (
+          <div className="text-[10px] text-neutral-500 font-mono mt-1">
+            f'(x) = {formatExpression(derivative)}
+          </div>
+        )}
         <div className="text-[10px] text-neutral-500 mt-1">
-          x_new = x - α × ∇f = {gdX.toFixed(3)} - {learningRate} × {gradient.toFixed(3)}
+          x_new = x - α × ∇f = {gdX.toFixed(3)} - {learningRate} × {formatValue(gradient)}
         </div>
       </div>
     </div>
@@ -4,8 +4,12 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { Grid3X3, ArrowRight, RotateCcw, X } from 'lucide-react';
+import { createMatrix, determinant, multiplyVector } from '../../../utils/linearAlgebra';
+import { MatrixExplorer } from '../../../components/MatrixExplorer';
+import { TransformViewer3D } from '../../../components/TransformViewer3D';
 
 const STEPS = [
   {
@@ -32,11 +36,19 @@ const STEPS = [
     title: 'The Dot Product',
     desc: 'The dot product measures similarity between vectors. Essential for attention mechanisms!',
   },
+  {
+    title: 'Determinants, Eigenvectors & SVD',
+    desc: 'Type any 2×2 or 3×3 matrix. The determinant is how much it scales area, eigenvectors are the directions it only stretches, and the SVD finds the axes of the ellipse it turns a circle into.',
+  },
+  {
+    title: 'Transformations in 3D',
+    desc: 'Orbit a cube and point cloud as a 3×3 matrix reshapes space - the same kind of matrix that projects tokens into queries, keys and values.',
+  },
 ];
 
 const LinearAlgebraModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('linear-algebra', STEPS.length);
   const [vector1, setVector1] = useState({ x: 2, y: 1 });
   const [vector2, setVector2] = useState({ x: 1, y: 2 });
   const [transformAngle, setTransformAngle] = useState(0);
@@ -63,6 +75,10 @@ const LinearAlgebraModule: React.FC = () => {
         );
       case 5:
         return <DotProductVisual v1={vector1} v2={vector2} />;
+      case 6:
+        return <MatrixExplorer />;
+      case 7:
+        return <TransformViewer3D />;
       default:
         return null;
     }
@@ -104,7 +120,11 @@ const LinearAlgebraModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
@@ -412,15 +432,13 @@ const TransformVisual: React.FC<{
   const radians = (angle * Math.PI) / 180;
   const cos = Math.cos(radians) * scale;
   const sin = Math.sin(radians) * scale;
+  const matrix = createMatrix([[cos, -sin], [sin, cos]]);
 
   // Original unit square corners
   const original = [[0, 0], [1, 0], [1, 1], [0, 1]];
   
   // Transform points
-  const transformed = original.map(([x, y]) => [
-    cos * x - sin * y,
-    sin * x + cos * y,
-  ]);
+  const transformed = original.map(point => multiplyVector(matrix, point));
 
   return (
     <div className="space-y-4">
@@ -494,6 +512,9 @@ const TransformVisual: React.FC<{
       <div className="bg-violet-500/10 border border-violet-500/20 rounded-lg p-3 text-center font-mono text-sm">
         <span className="text-neutral-500">Transform matrix: </span>
         [{cos.toFixed(2)}, {(-sin).toFixed(2)}; {sin.toFixed(2)}, {cos.toFixed(2)}]
+        <div className="text-[10px] text-neutral-500 mt-1">
+          det = {determinant(matrix).toFixed(2)}: the square's area scales by scale², whatever the angle
+        </div>
       </div>
     </div>
   );
@@ -4,6 +4,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { BarChart3, X } from 'lucide-react';
 
@@ -32,7 +33,7 @@ const STEPS = [
 
 const StatisticsModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('statistics', STEPS.length);
   const [diceRolls, setDiceRolls] = useState<number[]>([]);
   const [prior, setPrior] = useState(0.5);
   const [evidence, setEvidence] = useState<'positive' | 'negative' | null>(null);
@@ -90,7 +91,11 @@ const StatisticsModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
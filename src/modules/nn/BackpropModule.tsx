@@ -2,10 +2,13 @@
  * @fileoverview Interactive Backpropagation Module.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { RotateCcw, X, ArrowRight } from 'lucide-react';
+import { createGraph, backward, findGradientPath, getLocalGrad } from '../../../utils/autograd';
+import { ComputationGraph } from '../../../components/ComputationGraph';
 
 const STEPS = [
   {
@@ -30,10 +33,33 @@ const STEPS = [
   },
 ];
 
+const INPUT = 1.0;
+const TARGET = 1.0;
+const INITIAL_WEIGHTS = [0.5, -0.3, 0.8, 0.2];
+const WEIGHT_LABELS = ['w₁', 'w₂', 'w₃', 'w₄'];
+
+/**
+ * Records the network ŷ = w₃·relu(w₁x) + w₄·relu(w₂x) and its loss
+ * L = ½(ŷ - y)² on an autograd graph, then backpropagates from L so every
+ * node carries ∂L/∂node.
+ */
+const buildNetwork = (weights: number[]) => {
+  const graph = createGraph();
+  const x = graph.input(INPUT, 'x');
+  const w = weights.map((value, i) => graph.input(value, WEIGHT_LABELS[i]));
+  const h1 = graph.relu(graph.mul(w[0], x, 'z₁'), 'h₁');
+  const h2 = graph.relu(graph.mul(w[1], x, 'z₂'), 'h₂');
+  const prediction = graph.add(graph.mul(w[2], h1, 'w₃h₁'), graph.mul(w[3], h2, 'w₄h₂'), 'ŷ');
+  const error = graph.sub(prediction, graph.input(TARGET, 'y'), 'ŷ - y');
+  const loss = graph.mul(0.5, graph.pow(error, 2, '(ŷ - y)²'), 'L');
+  backward(loss);
+  return { x, weights: w, h1, h2, prediction, error, loss };
+};
+
 const BackpropModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
-  const [weights, setWeights] = useState([0.5, -0.3, 0.8, 0.2]);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('backprop', STEPS.length);
+  const [weights, setWeights] = useState(INITIAL_WEIGHTS);
   const [learningRate, setLearningRate] = useState(0.5);
   const [animationPhase, setAnimationPhase] = useState<'forward' | 'backward' | 'update'>('forward');
 
@@ -97,7 +123,11 @@ const BackpropModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
@@ -164,12 +194,11 @@ const LearningProblemVisual: React.FC = () => (
 
 // Forward pass
 const ForwardPassVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
-  const input = 1.0;
-  const h1 = input * weights[0];
-  const h1_act = Math.max(0, h1); // ReLU
-  const h2 = input * weights[1];
-  const h2_act = Math.max(0, h2);
-  const output = h1_act * weights[2] + h2_act * weights[3];
+  const network = useMemo(() => buildNetwork(weights), [weights]);
+  const input = network.x.value;
+  const h1_act = network.h1.value;
+  const h2_act = network.h2.value;
+  const output = network.prediction.value;
 
   return (
     <div className="space-y-4">
@@ -241,13 +270,11 @@ const ForwardPassVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
 
 // Loss computation
 const LossVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
-  const input = 1.0;
-  const target = 1.0;
-  const h1_act = Math.max(0, input * weights[0]);
-  const h2_act = Math.max(0, input * weights[1]);
-  const prediction = h1_act * weights[2] + h2_act * weights[3];
-  const loss = 0.5 * Math.pow(prediction - target, 2);
-  const error = prediction - target;
+  const network = useMemo(() => buildNetwork(weights), [weights]);
+  const target = TARGET;
+  const prediction = network.prediction.value;
+  const error = network.error.value;
+  const loss = network.loss.value;
 
   return (
     <div className="space-y-4">
@@ -295,22 +322,16 @@ const LossVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
 
 // Backward pass
 const BackwardPassVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
-  const input = 1.0;
-  const target = 1.0;
-  const h1 = input * weights[0];
-  const h1_act = Math.max(0, h1);
-  const h2 = input * weights[1];
-  const h2_act = Math.max(0, h2);
-  const prediction = h1_act * weights[2] + h2_act * weights[3];
-  
-  // Gradients (chain rule!)
-  const dL_dPred = prediction - target;
-  const dL_dW3 = dL_dPred * h1_act;
-  const dL_dW4 = dL_dPred * h2_act;
-  const dL_dH1 = dL_dPred * weights[2] * (h1 > 0 ? 1 : 0);
-  const dL_dH2 = dL_dPred * weights[3] * (h2 > 0 ? 1 : 0);
-  const dL_dW1 = dL_dH1 * input;
-  const dL_dW2 = dL_dH2 * input;
+  const [selected, setSelected] = useState(0);
+  const network = useMemo(() => buildNetwork(weights), [weights]);
+  const weight = network.weights[selected];
+  const path = useMemo(() => findGradientPath(network.loss, weight) ?? [], [network, weight]);
+  // One factor per edge on the way from L down to the weight
+  const factors = path.slice(1).map((node, i) => ({
+    parent: path[i].label ?? '',
+    child: node.label ?? '',
+    value: getLocalGrad(path[i], node),
+  }));
 
   return (
     <div className="space-y-4">
@@ -319,32 +340,33 @@ const BackwardPassVisual: React.FC<{ weights: number[] }> = ({ weights }) => {
       </div>
 
       <div className="grid grid-cols-4 gap-2 max-w-md mx-auto">
-        <div className="bg-pink-500/10 border border-pink-500/20 rounded-lg p-2 text-center">
-          <div className="text-[10px] text-pink-400 mb-1">∂L/∂w₁</div>
-          <div className="font-mono text-sm text-pink-300">{dL_dW1.toFixed(3)}</div>
-        </div>
-        <div className="bg-pink-500/10 border border-pink-500/20 rounded-lg p-2 text-center">
-          <div className="text-[10px] text-pink-400 mb-1">∂L/∂w₂</div>
-          <div className="font-mono text-sm text-pink-300">{dL_dW2.toFixed(3)}</div>
-        </div>
-        <div className="bg-pink-500/10 border border-pink-500/20 rounded-lg p-2 text-center">
-          <div className="text-[10px] text-pink-400 mb-1">∂L/∂w₃</div>
-          <div className="font-mono text-sm text-pink-300">{dL_dW3.toFixed(3)}</div>
-        </div>
-        <div className="bg-pink-500/10 border border-pink-500/20 rounded-lg p-2 text-center">
-          <div className="text-[10px] text-pink-400 mb-1">∂L/∂w₄</div>
-          <div className="font-mono text-sm text-pink-300">{dL_dW4.toFixed(3)}</div>
-        </div>
+        {network.weights.map((w, i) => (
+          <button
+            key={w.label}
+            onClick={() => setSelected(i)}
+            className={`rounded-lg p-2 text-center border transition-colors ${selected === i ? 'bg-pink-500/20 border-pink-500/50' : 'bg-pink-500/10 border-pink-500/20 hover:bg-pink-500/15'}`}
+          >
+            <div className="text-[10px] text-pink-400 mb-1">∂L/∂{w.label}</div>
+            <div className="font-mono text-sm text-pink-300">{w.grad.toFixed(3)}</div>
+          </button>
+        ))}
       </div>
 
       <div className="bg-purple-500/10 border border-purple-500/20 rounded-lg p-3 text-center">
         <div className="text-xs text-purple-400 mb-2">Chain Rule in Action</div>
         <div className="font-mono text-[10px] text-neutral-300">
-          ∂L/∂w₁ = ∂L/∂pred × ∂pred/∂h₁ × ∂h₁/∂w₁
+          ∂L/∂{weight.label} = {factors.map(f => `∂${f.parent}/∂${f.child}`).join(' × ')}
         </div>
         <div className="font-mono text-[10px] text-neutral-300 mt-1">
-          = ({dL_dPred.toFixed(2)}) × ({weights[2].toFixed(1)}) × ({input}) = <span className="text-pink-400">{dL_dW1.toFixed(3)}</span>
+          = {factors.map(f => `(${f.value.toFixed(2)})`).join(' × ')} = <span className="text-pink-400">{weight.grad.toFixed(3)}</span>
+        </div>
+      </div>
+
+      <div className="bg-black/50 rounded-lg p-4 space-y-2">
+        <div className="text-xs text-neutral-400 text-center">
+          Computation graph after backward(L), with the path to {weight.label} highlighted
         </div>
+        <ComputationGraph output={network.loss} hideConstants showLocalGrads highlight={path} />
       </div>
 
       <p className="text-[10px] text-neutral-500 text-center">
@@ -361,32 +383,16 @@ const WeightUpdateVisual: React.FC<{
   learningRate: number;
   setLearningRate: (lr: number) => void;
 }> = ({ weights, setWeights, learningRate, setLearningRate }) => {
-  const input = 1.0;
-  const target = 1.0;
-  
-  // Compute gradients
-  const h1 = input * weights[0];
-  const h1_act = Math.max(0, h1);
-  const h2 = input * weights[1];
-  const h2_act = Math.max(0, h2);
-  const prediction = h1_act * weights[2] + h2_act * weights[3];
-  
-  const dL_dPred = prediction - target;
-  const gradients = [
-    dL_dPred * weights[2] * (h1 > 0 ? 1 : 0) * input,
-    dL_dPred * weights[3] * (h2 > 0 ? 1 : 0) * input,
-    dL_dPred * h1_act,
-    dL_dPred * h2_act,
-  ];
-
-  const loss = 0.5 * Math.pow(prediction - target, 2);
+  const network = useMemo(() => buildNetwork(weights), [weights]);
+  const gradients = network.weights.map(w => w.grad);
+  const loss = network.loss.value;
 
   const applyUpdate = () => {
     setWeights(weights.map((w, i) => w - learningRate * gradients[i]));
   };
 
   const reset = () => {
-    setWeights([0.5, -0.3, 0.8, 0.2]);
+    setWeights(INITIAL_WEIGHTS);
   };
 
   return (
@@ -4,6 +4,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { Layers, X } from 'lucide-react';
 
@@ -32,7 +33,7 @@ const STEPS = [
 
 const MLPModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('mlp', STEPS.length);
   const [hiddenLayers, setHiddenLayers] = useState([4, 4]);
   const [points, setPoints] = useState<{x: number, y: number, label: number}[]>([]);
 
@@ -96,7 +97,11 @@ const MLPModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
@@ -4,6 +4,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { Circle, Zap, X } from 'lucide-react';
 
@@ -32,7 +33,7 @@ const STEPS = [
 
 const NeuronsModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('neurons', STEPS.length);
   const [inputs, setInputs] = useState([0.5, 0.3]);
   const [weights, setWeights] = useState([0.7, -0.4]);
   const [bias, setBias] = useState(0.1);
@@ -112,7 +113,11 @@ const NeuronsModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Module component registry.
+ *
+ * Maps each `LearningModule.id` to a lazily loaded component so every
+ * module is split into its own chunk. Curriculum entries without an
+ * implementation are absent here and fall back to the Coming Soon page.
+ */
+
+import { lazy } from 'react';
+import type React from 'react';
+
+/** Lazily loaded module page */
+export type ModuleComponent = React.LazyExoticComponent<React.ComponentType>;
+
+// Shared by all four CNN lessons
+const CNNLab = lazy(() => import('../legacy/CNNLab'));
+
+export const MODULE_COMPONENTS: Record<string, ModuleComponent> = {
+  // Math Foundations
+  'calculus': lazy(() => import('./math/CalculusModule')),
+  'linear-algebra': lazy(() => import('./math/LinearAlgebraModule')),
+  'statistics': lazy(() => import('./math/StatisticsModule')),
+
+  // Neural Network Basics
+  'neurons': lazy(() => import('./nn/NeuronsModule')),
+  'activations': lazy(() => import('./nn/ActivationsModule')),
+  'backprop': lazy(() => import('./nn/BackpropModule')),
+  'mlp': lazy(() => import('./nn/MLPModule')),
+
+  // CNN
+  'image-matrix': CNNLab,
+  'convolution': CNNLab,
+  'pooling': CNNLab,
+  'cnn-architecture': CNNLab,
+
+  // Transformers
+  'attention': lazy(() => import('./transformers/AttentionModule')),
+  'self-attention': lazy(() => import('./transformers/SelfAttentionModule')),
+  'transformer-arch': lazy(() => import('./transformers/TransformerArchModule')),
+
+  // Vision Transformers
+  'patch-embedding': lazy(() => import('./vit/PatchEmbeddingModule')),
+  'vit-architecture': lazy(() => import('./vit/ViTModule')),
+  'vision-encoder': lazy(() => import('./vit/VisionEncoderModule')),
+
+  // VLA Models
+  'vla-complete': lazy(() => import('./vla/VLAModule')),
+
+  // Generative Models for Actions
+  'diffusion': lazy(() => import('./generative/DiffusionModule')),
+  'flow-matching': lazy(() => import('./generative/FlowMatchingModule')),
+  'diffusion-policy': lazy(() => import('./generative/DiffusionPolicyModule')),
+
+  // Robotics Fundamentals
+  'kinematics': lazy(() => import('./robotics/KinematicsModule')),
+  'dynamics': lazy(() => import('./robotics/DynamicsModule')),
+  'control-theory': lazy(() => import('./robotics/ControlTheoryModule')),
+  'motion-planning': lazy(() => import('./robotics/MotionPlanningModule')),
+};
+
+/**
+ * Get the component for a module, if one is implemented.
+ */
+export const getModuleComponent = (moduleId: string): ModuleComponent | undefined => {
+  return MODULE_COMPONENTS[moduleId];
+};
@@ -4,6 +4,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator } from '../../components/shared';
 import { Eye, ArrowRight, X } from 'lucide-react';
 
@@ -36,7 +37,7 @@ const STEPS = [
 
 const AttentionModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('attention', STEPS.length);
   const [selectedToken, setSelectedToken] = useState(0);
   const [hoveredCell, setHoveredCell] = useState<[number, number] | null>(null);
 
@@ -95,7 +96,11 @@ const AttentionModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
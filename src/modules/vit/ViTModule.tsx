@@ -4,6 +4,7 @@
 
 import React, { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useStepProgress } from '../../context';
 import { Header, StepNavigator, InteractiveCanvas } from '../../components/shared';
 import { Grid3X3, Scan, Layers, X } from 'lucide-react';
 
@@ -36,7 +37,7 @@ const STEPS = [
 
 const ViTModule: React.FC = () => {
   const navigate = useNavigate();
-  const [step, setStep] = useState(0);
+  const { step, setStep, completedSteps, finishStep, completeModule } = useStepProgress('vit-architecture', STEPS.length);
   const [patchSize, setPatchSize] = useState(4);
   const [selectedPatch, setSelectedPatch] = useState<number | null>(null);
   const [imageData, setImageData] = useState<number[][] | null>(null);
@@ -119,7 +120,11 @@ const ViTModule: React.FC = () => {
             steps={STEPS}
             currentStep={step}
             onStepChange={setStep}
-            onComplete={() => navigate('/curriculum')}
+            completedSteps={completedSteps}
+            onStepFinish={finishStep}
+            onComplete={() => {
+              if (completeModule()) navigate('/curriculum');
+            }}
           >
             {renderVisual()}
           </StepNavigator>
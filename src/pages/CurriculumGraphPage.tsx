@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Curriculum dependency graph page.
+ *
+ * Renders every module as a node in its category swim lane, with arrows
+ * for prerequisites, the critical path to the complete VLA module, and a
+ * report of any broken prerequisite references.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Header } from '../components/shared';
+import { useProgress } from '../context';
+import { CATEGORIES, MODULES, isModuleUnlocked } from '../config/curriculum';
+import {
+  buildCurriculumGraph,
+  getCriticalPath,
+  getAncestors,
+  UNCATEGORIZED_LANE,
+} from '../config/curriculumGraph';
+import type { GraphNode } from '../config/curriculumGraph';
+import { GitBranch, AlertTriangle, CheckCircle, Route as RouteIcon, ArrowLeft } from 'lucide-react';
+
+// =============================================================================
+// LAYOUT CONSTANTS
+// =============================================================================
+
+/** Module the critical path leads to */
+const CRITICAL_TARGET = 'vla-complete';
+
+const LANE_LABEL_WIDTH = 170;
+const COLUMN_WIDTH = 170;
+const NODE_WIDTH = 140;
+const NODE_HEIGHT = 44;
+const NODE_GAP = 10;
+const LANE_PADDING = 14;
+
+const COLORS = {
+  completed: '#22c55e',
+  unlocked: '#8b5cf6',
+  locked: '#525252',
+  critical: '#f59e0b',
+};
+
+interface PositionedNode extends GraphNode {
+  x: number;
+  y: number;
+}
+
+interface Lane {
+  id: string;
+  name: string;
+  color: string;
+  top: number;
+  height: number;
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+const CurriculumGraphPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { completedModules } = useProgress();
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const graph = useMemo(() => buildCurriculumGraph(), []);
+  const criticalPath = useMemo(() => getCriticalPath(CRITICAL_TARGET), []);
+  const criticalMinutes = criticalPath.reduce((sum, id) => sum + MODULES[id].duration, 0);
+
+  // Lay out nodes: lanes stacked vertically, depth as columns
+  const { nodes, lanes, width, height } = useMemo(() => {
+    const laneDefs = CATEGORIES.map(c => ({ id: c.id, name: c.name, color: c.color }));
+    if (graph.nodes.some(n => n.lane === UNCATEGORIZED_LANE)) {
+      laneDefs.push({ id: UNCATEGORIZED_LANE, name: 'Uncategorized', color: '#737373' });
+    }
+
+    const positioned: PositionedNode[] = [];
+    const laneList: Lane[] = [];
+    let top = 0;
+
+    for (const lane of laneDefs) {
+      const members = graph.nodes.filter(n => n.lane === lane.id);
+      const stacks = new Map<number, number>();
+      let maxStack = 1;
+
+      for (const node of members) {
+        const index = stacks.get(node.depth) ?? 0;
+        stacks.set(node.depth, index + 1);
+        maxStack = Math.max(maxStack, index + 1);
+        positioned.push({
+          ...node,
+          x: LANE_LABEL_WIDTH + node.depth * COLUMN_WIDTH + (COLUMN_WIDTH - NODE_WIDTH) / 2,
+          y: top + LANE_PADDING + index * (NODE_HEIGHT + NODE_GAP),
+        });
+      }
+
+      const laneHeight = LANE_PADDING * 2 + maxStack * (NODE_HEIGHT + NODE_GAP) - NODE_GAP;
+      laneList.push({ ...lane, top, height: laneHeight });
+      top += laneHeight;
+    }
+
+    const maxDepth = Math.max(0, ...graph.nodes.map(n => n.depth));
+    return {
+      nodes: positioned,
+      lanes: laneList,
+      width: LANE_LABEL_WIDTH + (maxDepth + 1) * COLUMN_WIDTH,
+      height: top,
+    };
+  }, [graph]);
+
+  const nodeById = useMemo(() => new Map(nodes.map(n => [n.module.id, n])), [nodes]);
+  const criticalEdges = useMemo(() => {
+    const set = new Set<string>();
+    for (let i = 1; i < criticalPath.length; i++) {
+      set.add(`${criticalPath[i - 1]}->${criticalPath[i]}`);
+    }
+    return set;
+  }, [criticalPath]);
+  const highlighted = useMemo(
+    () => (hovered ? new Set([hovered, ...getAncestors(hovered)]) : null),
+    [hovered]
+  );
+
+  const nodeColor = (id: string): string => {
+    if (completedModules.includes(id)) return COLORS.completed;
+    if (isModuleUnlocked(id, completedModules)) return COLORS.unlocked;
+    return COLORS.locked;
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white">
+      <Header
+        showBreadcrumb
+        breadcrumb={[
+          { label: 'Curriculum', path: '/curriculum' },
+          { label: 'Dependency Graph', path: '/curriculum/graph' },
+        ]}
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-6 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <GitBranch className="text-violet-400" />
+              Curriculum Dependency Graph
+            </h1>
+            <p className="text-neutral-400 max-w-2xl">
+              Every module and the prerequisites it builds on. Hover a module to trace
+              everything you need before it; click to open it.
+            </p>
+          </div>
+          <Link
+            to="/curriculum"
+            className="px-4 py-2 rounded-lg border border-white/10 text-sm text-neutral-300 hover:bg-white/5 transition-all flex items-center gap-2 shrink-0"
+          >
+            <ArrowLeft size={14} />
+            Curriculum
+          </Link>
+        </div>
+
+        {/* Legend & stats */}
+        <div className="flex flex-wrap items-center gap-6 mb-6 text-xs text-neutral-400">
+          <LegendDot color={COLORS.completed} label="Completed" />
+          <LegendDot color={COLORS.unlocked} label="Prerequisites met" />
+          <LegendDot color={COLORS.locked} label="Locked" />
+          <span className="flex items-center gap-2">
+            <span className="w-6 h-0.5" style={{ background: COLORS.critical }} />
+            Critical path to {MODULES[CRITICAL_TARGET]?.title ?? CRITICAL_TARGET}
+          </span>
+          <span className="ml-auto flex items-center gap-2 text-neutral-500">
+            <RouteIcon size={12} />
+            {criticalPath.length} modules · {Math.round(criticalMinutes / 6) / 10}h on the critical path
+          </span>
+        </div>
+
+        {/* Graph */}
+        <div className="rounded-2xl bg-white/[0.02] border border-white/10 overflow-x-auto">
+          <svg width={width} height={height} className="block">
+            <defs>
+              <marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#525252" />
+              </marker>
+              <marker id="arrow-critical" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.critical} />
+              </marker>
+            </defs>
+
+            {/* Swim lanes */}
+            {lanes.map((lane, i) => (
+              <g key={lane.id}>
+                <rect
+                  x={0}
+                  y={lane.top}
+                  width={width}
+                  height={lane.height}
+                  fill={i % 2 === 0 ? 'rgba(255,255,255,0.015)' : 'transparent'}
+                />
+                <rect x={0} y={lane.top} width={3} height={lane.height} fill={lane.color} />
+                <text x={14} y={lane.top + lane.height / 2} dominantBaseline="middle" fill="#a3a3a3" fontSize={11}>
+                  {lane.name}
+                </text>
+              </g>
+            ))}
+
+            {/* Edges */}
+            {graph.edges.map(edge => {
+              const from = nodeById.get(edge.from);
+              const to = nodeById.get(edge.to);
+              if (!from || !to) return null;
+
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(30, (x2 - x1) / 2);
+              const isCritical = criticalEdges.has(`${edge.from}->${edge.to}`);
+              const isDimmed = highlighted !== null && !(highlighted.has(edge.from) && highlighted.has(edge.to));
+
+              return (
+                <path
+                  key={`${edge.from}->${edge.to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={isCritical ? COLORS.critical : '#525252'}
+                  strokeWidth={isCritical ? 2 : 1}
+                  opacity={isDimmed ? 0.1 : isCritical ? 0.9 : 0.5}
+                  markerEnd={isCritical ? 'url(#arrow-critical)' : 'url(#arrow)'}
+                />
+              );
+            })}
+
+            {/* Nodes */}
+            {nodes.map(node => {
+              const { id, title } = node.module;
+              const color = nodeColor(id);
+              const isCritical = criticalPath.includes(id);
+              const isCyclic = graph.cyclic.includes(id);
+              const isDimmed = highlighted !== null && !highlighted.has(id);
+
+              return (
+                <g
+                  key={id}
+                  transform={`translate(${node.x}, ${node.y})`}
+                  className="cursor-pointer"
+                  opacity={isDimmed ? 0.25 : 1}
+                  onMouseEnter={() => setHovered(id)}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => navigate(node.module.path)}
+                >
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={10}
+                    fill={`${color}26`}
+                    stroke={isCyclic ? '#ef4444' : isCritical ? COLORS.critical : color}
+                    strokeWidth={isCritical || isCyclic ? 2 : 1}
+                  />
+                  <circle cx={12} cy={NODE_HEIGHT / 2} r={4} fill={color} />
+                  <text x={22} y={NODE_HEIGHT / 2} dominantBaseline="middle" fill="#e5e5e5" fontSize={11}>
+                    {title.length > 19 ? `${title.slice(0, 18)}…` : title}
+                  </text>
+                  <title>{`${title} · ${node.module.duration}m`}</title>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+
+        {/* Integrity report */}
+        <IntegrityReport
+          brokenReferences={graph.brokenReferences}
+          cyclic={graph.cyclic}
+        />
+      </div>
+    </div>
+  );
+};
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+const LegendDot: React.FC<{ color: string; label: string }> = ({ color, label }) => (
+  <span className="flex items-center gap-2">
+    <span className="w-3 h-3 rounded-full" style={{ background: color }} />
+    {label}
+  </span>
+);
+
+const IntegrityReport: React.FC<{
+  brokenReferences: { moduleId: string; missingId: string }[];
+  cyclic: string[];
+}> = ({ brokenReferences, cyclic }) => {
+  const ok = brokenReferences.length === 0 && cyclic.length === 0;
+
+  return (
+    <div className={`mt-6 rounded-xl border p-4 ${ok ? 'border-green-500/20 bg-green-500/5' : 'border-red-500/30 bg-red-500/5'}`}>
+      <div className="flex items-center gap-2 mb-2">
+        {ok ? (
+          <CheckCircle size={16} className="text-green-400" />
+        ) : (
+          <AlertTriangle size={16} className="text-red-400" />
+        )}
+        <span className="text-sm font-medium">
+          {ok ? 'All prerequisite references resolve' : 'Curriculum graph problems'}
+        </span>
+      </div>
+      {brokenReferences.length > 0 && (
+        <ul className="text-xs text-neutral-400 space-y-1 mb-2">
+          {brokenReferences.map(ref => (
+            <li key={`${ref.moduleId}:${ref.missingId}`}>
+              <span className="font-mono text-neutral-300">{ref.moduleId}</span> requires unknown module{' '}
+              <span className="font-mono text-red-300">{ref.missingId}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {cyclic.length > 0 && (
+        <p className="text-xs text-neutral-400">
+          Prerequisite cycle through{' '}
+          <span className="font-mono text-red-300">{cyclic.join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CurriculumGraphPage;
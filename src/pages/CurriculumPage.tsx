@@ -2,15 +2,17 @@
  * @fileoverview Curriculum page with all learning modules.
  */
 
-import React, { useState, useEffect } from 'react';
-import { useLocation } from 'react-router-dom';
+import React, { useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { Header, ModuleCard, ProgressBar } from '../components/shared';
+import { useProgress, useSettings, useModuleAccess } from '../context';
 import { CATEGORIES, calculateProgress, isModuleUnlocked, getNextModule } from '../config/curriculum';
-import { Target, Clock, BookOpen } from 'lucide-react';
+import { Target, Clock, BookOpen, Lock, KeyRound, GitBranch } from 'lucide-react';
 
 const CurriculumPage: React.FC = () => {
-  // In a real app, this would come from a context or localStorage
-  const [completedModules] = useState<string[]>([]);
+  const { completedModules, getStepProgress } = useProgress();
+  const { settings, setGuidedMode, setInstructorOverride } = useSettings();
+  const { isUnlocked, getMissing } = useModuleAccess();
   const progress = calculateProgress(completedModules);
   const location = useLocation();
 
@@ -67,6 +69,33 @@ const CurriculumPage: React.FC = () => {
           <div className="max-w-md mx-auto">
             <ProgressBar progress={progress} />
           </div>
+
+          {/* Guided mode */}
+          <div className="flex flex-wrap items-center justify-center gap-3 mt-6">
+            <SettingToggle
+              icon={<Lock size={14} />}
+              label="Guided mode"
+              hint="Lock modules until prerequisites are done"
+              enabled={settings.guidedMode}
+              onChange={setGuidedMode}
+            />
+            {settings.guidedMode && (
+              <SettingToggle
+                icon={<KeyRound size={14} />}
+                label="Instructor override"
+                hint="Temporarily unlock every module"
+                enabled={settings.instructorOverride}
+                onChange={setInstructorOverride}
+              />
+            )}
+            <Link
+              to="/curriculum/graph"
+              className="px-4 py-2 rounded-full border border-white/10 bg-white/[0.02] text-sm text-neutral-400 hover:bg-white/5 hover:text-white flex items-center gap-2 transition-all"
+            >
+              <GitBranch size={14} />
+              Dependency graph
+            </Link>
+          </div>
         </div>
 
         {/* Categories */}
@@ -98,8 +127,10 @@ const CurriculumPage: React.FC = () => {
                   <ModuleCard
                     key={module.id}
                     module={module}
-                    isUnlocked={true}
+                    isUnlocked={isUnlocked(module.id)}
                     isCompleted={completedModules.includes(module.id)}
+                    stepProgress={getStepProgress(module.id)}
+                    missingPrerequisites={getMissing(module.id)}
                   />
                 ))}
               </div>
@@ -111,4 +142,29 @@ const CurriculumPage: React.FC = () => {
   );
 };
 
+// Pill-style on/off switch for curriculum settings
+const SettingToggle: React.FC<{
+  icon: React.ReactNode;
+  label: string;
+  hint: string;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}> = ({ icon, label, hint, enabled, onChange }) => (
+  <button
+    onClick={() => onChange(!enabled)}
+    title={hint}
+    className={`px-4 py-2 rounded-full border text-sm flex items-center gap-2 transition-all ${
+      enabled
+        ? 'bg-violet-500/20 border-violet-500/40 text-violet-300'
+        : 'bg-white/[0.02] border-white/10 text-neutral-400 hover:bg-white/5'
+    }`}
+  >
+    {icon}
+    {label}
+    <span className={`w-7 h-4 rounded-full relative transition-colors ${enabled ? 'bg-violet-500' : 'bg-white/20'}`}>
+      <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${enabled ? 'left-3.5' : 'left-0.5'}`} />
+    </span>
+  </button>
+);
+
 export default CurriculumPage;
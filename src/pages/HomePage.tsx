@@ -2,7 +2,7 @@
  * @fileoverview Homepage component with curriculum overview.
  */
 
-import React, { useState } from 'react';
+import React from 'react';
 import { Link } from 'react-router-dom';
 import { 
   Brain, 
@@ -19,11 +19,12 @@ import {
   Calculator,
 } from 'lucide-react';
 import { Header, ModuleCard, ProgressBar } from '../components/shared';
+import { useProgress, useModuleAccess } from '../context';
 import { CATEGORIES, MODULES, calculateProgress, getNextModule } from '../config/curriculum';
 
 const HomePage: React.FC = () => {
-  // In a real app, this would come from a context or localStorage
-  const [completedModules] = useState<string[]>([]);
+  const { completedModules, getStepProgress } = useProgress();
+  const { isUnlocked, getMissing } = useModuleAccess();
   const progress = calculateProgress(completedModules);
   const nextModule = getNextModule(completedModules);
 
@@ -151,8 +152,10 @@ const HomePage: React.FC = () => {
               <ModuleCard 
                 key={id}
                 module={module}
-                isUnlocked={true}
+                isUnlocked={isUnlocked(id)}
                 isCompleted={completedModules.includes(id)}
+                stepProgress={getStepProgress(id)}
+                missingPrerequisites={getMissing(id)}
               />
             );
           })}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Locked module page shown in guided mode when prerequisites are missing.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header, ModuleCard } from '../components/shared';
+import { useProgress, useSettings, useModuleAccess } from '../context';
+import { Lock, ArrowLeft, KeyRound, X } from 'lucide-react';
+import type { LearningModule } from '../types';
+
+interface LockedModulePageProps {
+  module: LearningModule;
+}
+
+const LockedModulePage: React.FC<LockedModulePageProps> = ({ module }) => {
+  const navigate = useNavigate();
+  const { completedModules, getStepProgress } = useProgress();
+  const { setInstructorOverride } = useSettings();
+  const { isUnlocked, getMissing } = useModuleAccess();
+  const missing = getMissing(module.id);
+
+  const handleOverride = () => {
+    if (window.confirm('Enable instructor override? All modules will be unlocked until you turn it off on the Curriculum page.')) {
+      setInstructorOverride(true);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white">
+      <Header
+        showBreadcrumb
+        breadcrumb={[
+          { label: 'Curriculum', path: '/curriculum' },
+          { label: module.title, path: module.path },
+        ]}
+      />
+
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        <div className="bg-[#141414] border border-white/10 rounded-2xl overflow-hidden">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-white/10 bg-gradient-to-r from-neutral-500/10 to-neutral-500/5">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-white/10 flex items-center justify-center">
+                  <Lock size={20} className="text-neutral-400" />
+                </div>
+                <div>
+                  <h2 className="font-semibold text-lg">{module.title}</h2>
+                  <p className="text-xs text-neutral-500">Locked in guided mode</p>
+                </div>
+              </div>
+              <button
+                onClick={() => navigate('/curriculum')}
+                className="p-2 rounded-lg hover:bg-white/10 transition-colors cursor-pointer"
+              >
+                <X size={18} className="text-neutral-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-8">
+            <div className="text-center mb-8">
+              <h3 className="text-2xl font-bold mb-3">Finish the prerequisites first</h3>
+              <p className="text-neutral-400 max-w-md mx-auto">
+                This module builds on ideas from earlier lessons. Complete the{' '}
+                {missing.length === 1 ? 'module' : `${missing.length} modules`} below to unlock it.
+              </p>
+            </div>
+
+            <div className="space-y-3 mb-8">
+              {missing.map(prereq => (
+                <ModuleCard
+                  key={prereq.id}
+                  module={prereq}
+                  isUnlocked={isUnlocked(prereq.id)}
+                  isCompleted={completedModules.includes(prereq.id)}
+                  stepProgress={getStepProgress(prereq.id)}
+                  missingPrerequisites={getMissing(prereq.id)}
+                  compact
+                />
+              ))}
+            </div>
+
+            <div className="flex items-center justify-center gap-4">
+              <button
+                onClick={() => navigate('/curriculum')}
+                className="px-6 py-3 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium transition-colors flex items-center gap-2"
+              >
+                <ArrowLeft size={16} />
+                Back to Curriculum
+              </button>
+              <button
+                onClick={handleOverride}
+                className="px-6 py-3 rounded-lg border border-white/10 hover:bg-white/5 text-sm text-neutral-400 hover:text-white transition-colors flex items-center gap-2"
+              >
+                <KeyRound size={16} />
+                Instructor Override
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockedModulePage;
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Route element for a curriculum module.
+ *
+ * Loads the module's component from the registry on demand, or shows the
+ * Coming Soon page when the module has no implementation yet.
+ */
+
+import React, { Suspense } from 'react';
+import { getModuleComponent } from '../modules/registry';
+import ComingSoonPage from './ComingSoonPage';
+import type { LearningModule } from '../types';
+
+interface ModulePageProps {
+  module: LearningModule;
+}
+
+const ModulePage: React.FC<ModulePageProps> = ({ module }) => {
+  const Component = getModuleComponent(module.id);
+
+  if (!Component) {
+    return <ComingSoonPage title={module.title} />;
+  }
+
+  return (
+    <Suspense fallback={<ModuleLoading />}>
+      <Component />
+    </Suspense>
+  );
+};
+
+// Shown while the module chunk downloads
+const ModuleLoading: React.FC = () => (
+  <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+    <div className="w-10 h-10 rounded-full border-2 border-white/10 border-t-violet-500 animate-spin" />
+  </div>
+);
+
+export default ModulePage;
@@ -4,4 +4,7 @@
 
 export { default as HomePage } from './HomePage';
 export { default as CurriculumPage } from './CurriculumPage';
+export { default as CurriculumGraphPage } from './CurriculumGraphPage';
 export { default as ComingSoonPage } from './ComingSoonPage';
+export { default as ModulePage } from './ModulePage';
+export { default as LockedModulePage } from './LockedModulePage';
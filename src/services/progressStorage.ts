@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Persistent storage for learning progress.
+ *
+ * Serializes `LearningProgress` to localStorage inside a versioned
+ * envelope, and migrates data written by older versions of the app
+ * forward to the current schema on load.
+ */
+
+import type { LearningProgress, ModuleStepProgress } from '../types';
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+/** localStorage key for the progress envelope */
+export const PROGRESS_STORAGE_KEY = 'vla-lab:progress';
+
+/**
+ * Current schema version.
+ *
+ * Version history:
+ * - 0: Unversioned `LearningProgress` object written directly
+ * - 1: Versioned envelope, adds per-module completed steps
+ * - 2: Replaces completed steps with visited/completed/last-step tracking
+ */
+export const PROGRESS_SCHEMA_VERSION = 2;
+
+/**
+ * JSON-safe form of `LearningProgress` (dates stored as ISO strings).
+ */
+interface SerializedProgress {
+  completedModules: string[];
+  stepProgress: Record<string, ModuleStepProgress>;
+  currentModule: string | null;
+  totalTimeSpent: number;
+  lastAccessed: string;
+}
+
+/**
+ * Envelope written to localStorage.
+ */
+interface StoredProgress {
+  version: number;
+  progress: SerializedProgress;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Creates a fresh progress record for a new learner.
+ */
+export const createEmptyProgress = (): LearningProgress => ({
+  completedModules: [],
+  stepProgress: {},
+  currentModule: null,
+  totalTimeSpent: 0,
+  lastAccessed: new Date(),
+});
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const toIndexList = (value: unknown): number[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter(
+        (step): step is number => Number.isInteger(step) && step >= 0
+      ))).sort((a, b) => a - b)
+    : [];
+
+const toIndexRecord = (value: unknown): Record<string, number[]> => {
+  if (!value || typeof value !== 'object') return {};
+  const record: Record<string, number[]> = {};
+  for (const [moduleId, steps] of Object.entries(value as Record<string, unknown>)) {
+    record[moduleId] = toIndexList(steps);
+  }
+  return record;
+};
+
+const toStepProgress = (value: unknown): Record<string, ModuleStepProgress> => {
+  if (!value || typeof value !== 'object') return {};
+  const record: Record<string, ModuleStepProgress> = {};
+  for (const [moduleId, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!entry || typeof entry !== 'object') continue;
+    const raw = entry as Record<string, unknown>;
+    record[moduleId] = {
+      visited: toIndexList(raw.visited),
+      completed: toIndexList(raw.completed),
+      lastStep: Number.isInteger(raw.lastStep) && (raw.lastStep as number) >= 0
+        ? raw.lastStep as number
+        : 0,
+      totalSteps: Number.isInteger(raw.totalSteps) && (raw.totalSteps as number) >= 0
+        ? raw.totalSteps as number
+        : 0,
+    };
+  }
+  return record;
+};
+
+// =============================================================================
+// MIGRATIONS
+// =============================================================================
+
+/**
+ * Upgrades raw stored data by exactly one version.
+ * Keyed by the version being migrated *from*.
+ */
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 -> v1: wrap the bare progress object and add step tracking
+  0: (data) => ({
+    version: 1,
+    progress: { ...data, completedSteps: {} },
+  }),
+
+  // v1 -> v2: expand completed step lists into full step progress
+  1: (data) => {
+    const progress = (data.progress ?? {}) as Record<string, unknown>;
+    const { completedSteps, ...rest } = progress;
+    const stepProgress: Record<string, ModuleStepProgress> = {};
+    for (const [moduleId, steps] of Object.entries(toIndexRecord(completedSteps))) {
+      stepProgress[moduleId] = {
+        visited: steps,
+        completed: steps,
+        lastStep: steps.length ? Math.max(...steps) : 0,
+        totalSteps: 0,
+      };
+    }
+    return { version: 2, progress: { ...rest, stepProgress } };
+  },
+};
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+/**
+ * Converts a migrated payload into a `LearningProgress`, dropping any
+ * malformed fields rather than failing the whole load.
+ */
+const deserialize = (raw: Record<string, unknown>): LearningProgress => {
+  const empty = createEmptyProgress();
+  const lastAccessed = typeof raw.lastAccessed === 'string'
+    ? new Date(raw.lastAccessed)
+    : empty.lastAccessed;
+
+  return {
+    completedModules: isStringArray(raw.completedModules)
+      ? Array.from(new Set(raw.completedModules))
+      : empty.completedModules,
+    stepProgress: toStepProgress(raw.stepProgress),
+    currentModule: typeof raw.currentModule === 'string' ? raw.currentModule : null,
+    totalTimeSpent: typeof raw.totalTimeSpent === 'number' && raw.totalTimeSpent >= 0
+      ? raw.totalTimeSpent
+      : 0,
+    lastAccessed: isNaN(lastAccessed.getTime()) ? empty.lastAccessed : lastAccessed,
+  };
+};
+
+/**
+ * Runs migrations until the payload reaches the current schema version.
+ * Returns null if the data cannot be upgraded.
+ */
+export const migrateProgress = (data: unknown): StoredProgress | null => {
+  if (!data || typeof data !== 'object') return null;
+
+  let current = data as Record<string, unknown>;
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  if (version > PROGRESS_SCHEMA_VERSION) {
+    console.warn(`Stored progress has unknown schema version ${version}`);
+    return null;
+  }
+
+  while (version < PROGRESS_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    current = migrate(current);
+    version = current.version as number;
+  }
+
+  return current as unknown as StoredProgress;
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Loads progress from localStorage, migrating older data if needed.
+ * Falls back to empty progress when nothing usable is stored.
+ */
+export const loadProgress = (): LearningProgress => {
+  try {
+    const raw = window.localStorage.getItem(PROGRESS_STORAGE_KEY);
+    if (!raw) return createEmptyProgress();
+
+    const stored = migrateProgress(JSON.parse(raw));
+    if (!stored?.progress) return createEmptyProgress();
+
+    return deserialize(stored.progress as unknown as Record<string, unknown>);
+  } catch (err) {
+    console.error('Failed to load learning progress:', err);
+    return createEmptyProgress();
+  }
+};
+
+/**
+ * Persists progress to localStorage under the current schema version.
+ */
+export const saveProgress = (progress: LearningProgress): void => {
+  const stored: StoredProgress = {
+    version: PROGRESS_SCHEMA_VERSION,
+    progress: {
+      ...progress,
+      lastAccessed: progress.lastAccessed.toISOString(),
+    },
+  };
+
+  try {
+    window.localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.error('Failed to save learning progress:', err);
+  }
+};
+
+/**
+ * Removes all stored progress.
+ */
+export const clearProgress = (): void => {
+  try {
+    window.localStorage.removeItem(PROGRESS_STORAGE_KEY);
+  } catch (err) {
+    console.error('Failed to clear learning progress:', err);
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Persistent storage for learner settings.
+ */
+
+import type { LearningSettings } from '../types';
+
+/** localStorage key for learner settings */
+export const SETTINGS_STORAGE_KEY = 'vla-lab:settings';
+
+/** Settings for a first-time learner: everything open, no override. */
+export const DEFAULT_SETTINGS: LearningSettings = {
+  guidedMode: false,
+  instructorOverride: false,
+};
+
+/**
+ * Loads settings from localStorage, falling back to defaults for
+ * anything missing or malformed.
+ */
+export const loadSettings = (): LearningSettings => {
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_SETTINGS };
+
+    const parsed = JSON.parse(raw) as Partial<Record<keyof LearningSettings, unknown>>;
+    return {
+      guidedMode: typeof parsed.guidedMode === 'boolean'
+        ? parsed.guidedMode
+        : DEFAULT_SETTINGS.guidedMode,
+      instructorOverride: typeof parsed.instructorOverride === 'boolean'
+        ? parsed.instructorOverride
+        : DEFAULT_SETTINGS.instructorOverride,
+    };
+  } catch (err) {
+    console.error('Failed to load settings:', err);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+/**
+ * Persists settings to localStorage.
+ */
+export const saveSettings = (settings: LearningSettings): void => {
+  try {
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save settings:', err);
+  }
+};
@@ -48,16 +48,43 @@ export interface LearningCategory {
   color: string;
 }
 
+/**
+ * Step-level progress within a single module.
+ */
+export interface ModuleStepProgress {
+  /** Step indices the learner has opened */
+  visited: number[];
+  /** Step indices the learner has finished */
+  completed: number[];
+  /** Step to resume at when the module is reopened */
+  lastStep: number;
+  /** Number of steps in the module when last recorded */
+  totalSteps: number;
+}
+
 /**
  * User's learning progress.
  */
 export interface LearningProgress {
   completedModules: string[];
+  /** Step-level progress, keyed by module ID */
+  stepProgress: Record<string, ModuleStepProgress>;
   currentModule: string | null;
+  /** Total time spent in modules (in seconds) */
   totalTimeSpent: number;
   lastAccessed: Date;
 }
 
+/**
+ * Learner preferences that control how the curriculum is presented.
+ */
+export interface LearningSettings {
+  /** Lock modules until their prerequisites are completed */
+  guidedMode: boolean;
+  /** Instructor override: bypass guided-mode locks */
+  instructorOverride: boolean;
+}
+
 // =============================================================================
 // PIXEL & IMAGE TYPES (from original)
 // =============================================================================
@@ -77,20 +104,40 @@ export interface PixelData {
 /**
  * Display modes for the matrix visualizer.
  */
-export type MatrixMode = 'rgb' | 'hex' | 'gray';
+export type MatrixMode = 'rgb' | 'hex' | 'gray' | 'heatmap' | 'hsv' | 'hsl' | 'ycbcr' | 'lab';
 
 // =============================================================================
 // KERNEL & ALGORITHM TYPES
 // =============================================================================
 
 /**
- * A 3x3 convolution kernel matrix.
+ * A convolution kernel indexed [row][col], with odd dimensions.
+ */
+export type Kernel = number[][];
+
+/**
+ * A kernel factored as `column[y] * row[x]`.
+ */
+export interface SeparableKernel {
+  row: number[];
+  column: number[];
+}
+
+/**
+ * A Gx/Gy kernel pair combined by gradient magnitude or direction.
+ */
+export interface GradientOperator {
+  x: Kernel;
+  y: Kernel;
+  output: 'magnitude' | 'direction';
+}
+
+/**
+ * A median, morphology or bilateral filter over a structuring element.
  */
-export type Kernel = [
-  [number, number, number],
-  [number, number, number],
-  [number, number, number]
-];
+export type NonLinearFilter =
+  | { type: 'median' | 'erode' | 'dilate' | 'open' | 'close'; element: { shape: 'square' | 'cross' | 'disk'; size: number } }
+  | { type: 'bilateral'; element: { shape: 'square' | 'cross' | 'disk'; size: number }; sigmaSpace: number; sigmaRange: number };
 
 /**
  * Algorithm configuration with educational content.
@@ -100,6 +147,10 @@ export interface AlgorithmInfo {
   description: string;
   kernel: Kernel;
   divisor: number;
+  bias?: number;
+  separable?: SeparableKernel;
+  gradient?: GradientOperator;
+  nonLinear?: NonLinearFilter;
   learn: string;
   formula: string;
   deepDive: {
@@ -327,6 +378,18 @@ export type LearnModalType =
   | 'edge-detection' 
   | 'gaussian-blur' 
   | 'sharpen'
+  | 'gaussian-blur-5x5'
+  | 'box-blur-7x7'
+  | 'motion-blur'
+  | 'sobel'
+  | 'scharr'
+  | 'sobel-direction'
+  | 'median'
+  | 'erosion'
+  | 'dilation'
+  | 'opening'
+  | 'closing'
+  | 'bilateral'
   | 'convolution'
   | 'kernel'
   | 'matrix'
@@ -34,22 +34,84 @@ export interface PixelData {
  * - 'rgb': Shows R,G,B values (e.g., "255,128,0")
  * - 'hex': Shows hexadecimal color (e.g., "#FF8000")
  * - 'gray': Shows grayscale value (e.g., "180")
+ * - 'heatmap': Colors one channel with a heat ramp and shows its value
+ * - 'hsv' / 'hsl' / 'ycbcr' / 'lab': Shows the pixel's channels in that
+ *   color space (e.g., "30°, 100%, 100%" in HSV)
  */
-export type MatrixMode = 'rgb' | 'hex' | 'gray';
+export type MatrixMode = 'rgb' | 'hex' | 'gray' | 'heatmap' | 'hsv' | 'hsl' | 'ycbcr' | 'lab';
 
 // =============================================================================
 // KERNEL & ALGORITHM TYPES
 // =============================================================================
 
 /**
- * A 3x3 convolution kernel matrix.
- * Used for image filtering operations like blur, sharpen, and edge detection.
+ * A convolution kernel as rows of weights, indexed [row][col].
+ * Both dimensions must be odd so the kernel has a center pixel;
+ * square (3x3, 5x5, 7x7) and rectangular (1x9, 3x5) shapes are allowed.
  */
-export type Kernel = [
-  [number, number, number],
-  [number, number, number],
-  [number, number, number]
-];
+export type Kernel = number[][];
+
+/**
+ * A kernel that factors into a column vector times a row vector.
+ * The full 2D kernel is `column[y] * row[x]`, which lets it be applied
+ * as a horizontal pass followed by a vertical pass.
+ */
+export interface SeparableKernel {
+  /** Horizontal weights (applied along x) */
+  row: number[];
+  /** Vertical weights (applied along y) */
+  column: number[];
+}
+
+/**
+ * How the responses of a gradient kernel pair are combined.
+ * - 'magnitude': edge strength, sqrt(Gx² + Gy²)
+ * - 'direction': edge orientation, atan2(Gy, Gx) mapped onto 0-255
+ */
+export type GradientOutput = 'magnitude' | 'direction';
+
+/**
+ * A pair of kernels measuring the horizontal and vertical gradient,
+ * such as Sobel or Scharr, combined into a single output per pixel.
+ */
+export interface GradientOperator {
+  /** Kernel responding to horizontal change (Gx) */
+  x: Kernel;
+  /** Kernel responding to vertical change (Gy) */
+  y: Kernel;
+  output: GradientOutput;
+}
+
+/** Footprint shapes for structuring elements */
+export type StructuringShape = 'square' | 'cross' | 'disk';
+
+/**
+ * The neighbourhood a non-linear filter looks at, centered on each pixel.
+ */
+export interface StructuringElement {
+  shape: StructuringShape;
+  /** Width and height in pixels; must be odd */
+  size: number;
+}
+
+/**
+ * Filters that pick or compare neighbourhood values instead of summing them.
+ * - 'median': middle value of the neighbourhood
+ * - 'erode': minimum, shrinking bright regions
+ * - 'dilate': maximum, growing bright regions
+ * - 'open': erode then dilate, removing bright specks smaller than the element
+ * - 'close': dilate then erode, filling dark gaps smaller than the element
+ */
+export type RankOperation = 'median' | 'erode' | 'dilate' | 'open' | 'close';
+
+/**
+ * A filter no kernel can express. Bilateral filtering is a weighted
+ * average whose weights also fall off with the difference in value from
+ * the center pixel, so it smooths regions without blurring across edges.
+ */
+export type NonLinearFilter =
+  | { type: RankOperation; element: StructuringElement }
+  | { type: 'bilateral'; element: StructuringElement; sigmaSpace: number; sigmaRange: number };
 
 /**
  * Basic vision algorithm configuration with kernel and divisor.
@@ -59,10 +121,28 @@ export interface VisionAlgorithm {
   name: string;
   /** Short description of what the algorithm does */
   description: string;
-  /** The 3x3 convolution kernel */
+  /** The convolution kernel (Gx for gradient operators) */
   kernel: Kernel;
   /** Divisor for normalizing kernel output (sum of positive weights for blur, 1 for edge) */
   divisor: number;
+  /** Constant added to each output after dividing (default: 0) */
+  bias?: number;
+  /** Factored form of `kernel`, used for the faster two-pass convolution */
+  separable?: SeparableKernel;
+  /** Set for multi-kernel operators; replaces the single-kernel convolution */
+  gradient?: GradientOperator;
+  /** Set for non-linear filters; replaces the convolution, and `kernel` only shows the footprint */
+  nonLinear?: NonLinearFilter;
+}
+
+/**
+ * A learner-defined kernel, as edited in the CNN lab and shared by URL.
+ */
+export interface CustomKernelSpec {
+  kernel: Kernel;
+  /** Fixed divisor, or 'auto' to use the sum of the weights */
+  divisor: number | 'auto';
+  bias: number;
 }
 
 /**
@@ -110,7 +190,7 @@ export type SourceMode = 'upload' | 'camera';
 
 /**
  * Modal identifiers for the learning system.
- * - Algorithm names: 'identity', 'edge-detection', 'gaussian-blur', 'sharpen'
+ * - Algorithm names: keys of PRESET_ALGORITHMS and NON_LINEAR_ALGORITHMS (e.g. 'sobel', 'median')
  * - Concept names: 'convolution', 'kernel', 'matrix'
  */
 export type LearnModalType = 
@@ -118,6 +198,18 @@ export type LearnModalType =
   | 'edge-detection' 
   | 'gaussian-blur' 
   | 'sharpen'
+  | 'gaussian-blur-5x5'
+  | 'box-blur-7x7'
+  | 'motion-blur'
+  | 'sobel'
+  | 'scharr'
+  | 'sobel-direction'
+  | 'median'
+  | 'erosion'
+  | 'dilation'
+  | 'opening'
+  | 'closing'
+  | 'bilateral'
   | 'convolution'
   | 'kernel'
   | 'matrix'
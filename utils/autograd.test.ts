@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Tests for the reverse-mode autodiff engine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGraph, backward, buildExpressionGraph, findGradientPath, getLocalGrad, layoutGraph } from './autograd';
+import { parseExpression } from './expression';
+import { finiteDifference } from './derivative';
+
+describe('backward', () => {
+  it('applies the product and chain rules', () => {
+    const g = createGraph();
+    const x = g.input(3, 'x');
+    const y = g.mul(x, g.sin(x));
+    backward(y);
+    expect(y.value).toBeCloseTo(3 * Math.sin(3));
+    expect(x.grad).toBeCloseTo(Math.sin(3) + 3 * Math.cos(3));
+  });
+
+  it('accumulates gradients where a node is used more than once', () => {
+    const g = createGraph();
+    const x = g.input(2);
+    backward(g.add(g.mul(x, x), x));
+    expect(x.grad).toBe(5);
+  });
+
+  it('clears earlier gradients on each pass', () => {
+    const g = createGraph();
+    const x = g.input(2);
+    const y = g.mul(x, 3);
+    backward(y);
+    backward(y);
+    expect(x.grad).toBe(3);
+  });
+
+  it('leaves nodes the output does not reach at zero after zeroGrad', () => {
+    const g = createGraph();
+    const x = g.input(2, 'x');
+    const inner = g.mul(x, x);
+    backward(inner);
+    expect(x.grad).toBe(4);
+
+    // A constant outer function does not depend on the inner node at all
+    const outer = buildExpressionGraph(g, parseExpression('5', ['g']), { g: inner });
+    g.zeroGrad();
+    backward(outer);
+    expect([inner.grad, x.grad]).toEqual([0, 0]);
+  });
+
+  it('gives relu a zero gradient for negative inputs', () => {
+    const g = createGraph();
+    const a = g.input(-1);
+    const b = g.input(2);
+    backward(g.add(g.relu(a), g.relu(b)));
+    expect([a.grad, b.grad]).toEqual([0, 1]);
+  });
+
+  it('differentiates matmul entry by entry', () => {
+    const g = createGraph();
+    const A = g.tensor([[1, 2], [3, 4]], 'A');
+    const B = g.tensor([[5], [6]], 'B');
+    const [[top], [bottom]] = g.matmul(A, B);
+    expect([top.value, bottom.value]).toEqual([17, 39]);
+    backward(g.add(top, bottom));
+    expect(A.flat().map(n => n.grad)).toEqual([5, 6, 5, 6]);
+    expect(B.flat().map(n => n.grad)).toEqual([4, 6]);
+  });
+
+  it('rejects tensors that do not line up', () => {
+    const g = createGraph();
+    expect(() => g.matmul(g.tensor([[1, 2]]), g.tensor([[1, 2]]))).toThrow('Cannot multiply a 1×2 tensor by a 1×2 tensor');
+  });
+});
+
+describe('buildExpressionGraph', () => {
+  it.each([
+    'x^3 - 2x + 1',
+    'sin(x)*exp(-x)',
+    'x^x',
+    'ln(x^2 + 1)/sqrt(x)',
+    'tanh(x) + sigmoid(2x) - cos(x)^2',
+  ])('matches finite differences for %s', source => {
+    const expr = parseExpression(source);
+    const g = createGraph();
+    const x = g.input(0.8, 'x');
+    backward(buildExpressionGraph(g, expr, { x }));
+    expect(x.grad).toBeCloseTo(finiteDifference(expr, 'x', { x: 0.8 }), 5);
+  });
+
+  it('gives partial derivatives for every variable in one pass', () => {
+    const expr = parseExpression('x^2*y + y^3', ['x', 'y']);
+    const g = createGraph();
+    const x = g.input(1.5);
+    const y = g.input(-2);
+    backward(buildExpressionGraph(g, expr, { x, y }));
+    expect(x.grad).toBeCloseTo(2 * 1.5 * -2);
+    expect(y.grad).toBeCloseTo(1.5 ** 2 + 3 * 4);
+  });
+
+  it('throws for an unbound variable', () => {
+    expect(() => buildExpressionGraph(createGraph(), parseExpression('x'), {})).toThrow('No value for x');
+  });
+});
+
+describe('findGradientPath', () => {
+  it('multiplies local gradients along a single path to the full gradient', () => {
+    const g = createGraph();
+    const x = g.input(0.5, 'x');
+    const out = g.exp(g.sin(g.mul(x, 2)));
+    backward(out);
+    const path = findGradientPath(out, x)!;
+    expect(path).toHaveLength(4);
+    const product = path.slice(1).reduce((p, node, i) => p * getLocalGrad(path[i], node), 1);
+    expect(product).toBeCloseTo(x.grad);
+  });
+
+  it('returns null for an unrelated node', () => {
+    const g = createGraph();
+    expect(findGradientPath(g.input(1), g.input(2))).toBeNull();
+  });
+});
+
+describe('layoutGraph', () => {
+  it('places each node one column after its deepest input', () => {
+    const g = createGraph();
+    const x = g.input(1, 'x');
+    const y = g.input(2, 'y');
+    const out = g.add(g.mul(x, y), g.mul(x, 3));
+    const layout = layoutGraph(out, { hideConstants: true });
+    expect(layout.map(e => [e.node.label ?? e.node.op, e.depth, e.row])).toEqual([
+      ['x', 0, 0],
+      ['y', 0, 1],
+      ['mul', 1, 0],
+      ['mul', 1, 1],
+      ['add', 2, 0],
+    ]);
+  });
+});
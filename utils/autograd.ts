@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Reverse-mode automatic differentiation on scalars, in the
+ * style of micrograd.
+ *
+ * Every operation on a graph records a node holding its forward value and
+ * the local derivative with respect to each input. `backward` then walks
+ * the graph from an output to its leaves, accumulating
+ * grad(input) += grad(node) × local, which is the chain rule applied one
+ * edge at a time. Nodes stay inspectable afterwards, so the UI can draw
+ * each one with its value and gradient.
+ *
+ * Tensors are grids of scalar nodes; `matmul` builds one sum of products
+ * per output entry, so their gradients come from the same backward pass.
+ */
+
+import { applyFunction } from './expression';
+import type { Expr, FunctionName } from './expression';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GradOp = 'input' | 'const' | 'add' | 'sub' | 'mul' | 'div' | 'pow' | 'neg' | 'relu' | FunctionName;
+
+export interface GradNode {
+  /** Position in the graph; inputs always have smaller ids than their users */
+  id: number;
+  op: GradOp;
+  /** Display name, e.g. `w₁` or `L` */
+  label?: string;
+  value: number;
+  /** ∂output/∂node after the last `backward` */
+  grad: number;
+  inputs: GradNode[];
+  /** ∂node/∂input for each entry of `inputs`, evaluated at the forward values */
+  localGrads: number[];
+}
+
+/** A node or a plain number, which is recorded as a constant */
+export type Operand = GradNode | number;
+
+/** A matrix of scalar nodes, [row][col] */
+export type Tensor = GradNode[][];
+
+/** Where a node is drawn: column by depth from the leaves, row within the column */
+export interface GraphLayoutEntry {
+  node: GradNode;
+  depth: number;
+  row: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Short symbol for each operation, for drawing nodes */
+export const GRAD_OP_SYMBOLS: Record<GradOp, string> = {
+  input: '',
+  const: '',
+  add: '+',
+  sub: '−',
+  mul: '×',
+  div: '÷',
+  pow: '^',
+  neg: '−x',
+  relu: 'ReLU',
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  exp: 'exp',
+  ln: 'ln',
+  sqrt: '√',
+  abs: '|x|',
+  sign: 'sign',
+  tanh: 'tanh',
+  sigmoid: 'σ',
+};
+
+/** Derivative of each function, given its input x and output y */
+const UNARY_DERIVATIVES: Record<FunctionName | 'relu', (x: number, y: number) => number> = {
+  sin: x => Math.cos(x),
+  cos: x => -Math.sin(x),
+  tan: x => 1 / Math.cos(x) ** 2,
+  exp: (_, y) => y,
+  ln: x => 1 / x,
+  sqrt: (_, y) => 1 / (2 * y),
+  abs: x => Math.sign(x),
+  sign: () => 0,
+  tanh: (_, y) => 1 - y * y,
+  sigmoid: (_, y) => y * (1 - y),
+  relu: x => (x > 0 ? 1 : 0),
+};
+
+// =============================================================================
+// GRAPH CONSTRUCTION
+// =============================================================================
+
+/**
+ * Starts an empty computation graph. Every node built through the
+ * returned functions is appended to `nodes`.
+ *
+ * @example
+ * const g = createGraph();
+ * const x = g.input(3, 'x');
+ * const y = g.mul(x, g.sin(x));
+ * backward(y);
+ * x.grad // sin(3) + 3cos(3)
+ */
+export const createGraph = () => {
+  const nodes: GradNode[] = [];
+
+  const record = (op: GradOp, value: number, inputs: GradNode[], localGrads: number[], label?: string): GradNode => {
+    const node: GradNode = { id: nodes.length, op, label, value, grad: 0, inputs, localGrads };
+    nodes.push(node);
+    return node;
+  };
+
+  const lift = (operand: Operand): GradNode =>
+    typeof operand === 'number' ? record('const', operand, [], []) : operand;
+
+  const unary = (op: FunctionName | 'relu', a: Operand, label?: string): GradNode => {
+    const x = lift(a);
+    const y = op === 'relu' ? Math.max(0, x.value) : applyFunction(op, x.value);
+    return record(op, y, [x], [UNARY_DERIVATIVES[op](x.value, y)], label);
+  };
+
+  const graph = {
+    nodes,
+    /** Clears every gradient, including on nodes the next output will not reach */
+    zeroGrad: () => {
+      for (const node of nodes) node.grad = 0;
+    },
+
+    input: (value: number, label?: string) => record('input', value, [], [], label),
+    constant: (value: number, label?: string) => record('const', value, [], [], label),
+
+    add: (a: Operand, b: Operand, label?: string) => {
+      const [x, y] = [lift(a), lift(b)];
+      return record('add', x.value + y.value, [x, y], [1, 1], label);
+    },
+    sub: (a: Operand, b: Operand, label?: string) => {
+      const [x, y] = [lift(a), lift(b)];
+      return record('sub', x.value - y.value, [x, y], [1, -1], label);
+    },
+    mul: (a: Operand, b: Operand, label?: string) => {
+      const [x, y] = [lift(a), lift(b)];
+      return record('mul', x.value * y.value, [x, y], [y.value, x.value], label);
+    },
+    div: (a: Operand, b: Operand, label?: string) => {
+      const [x, y] = [lift(a), lift(b)];
+      return record('div', x.value / y.value, [x, y], [1 / y.value, -x.value / y.value ** 2], label);
+    },
+    /** a^b; the exponent's derivative is taken as 0 where a ≤ 0 and ln a is undefined */
+    pow: (a: Operand, b: Operand, label?: string) => {
+      const [x, y] = [lift(a), lift(b)];
+      const value = x.value ** y.value;
+      const dBase = y.value === 0 ? 0 : y.value * x.value ** (y.value - 1);
+      const dExponent = x.value > 0 ? value * Math.log(x.value) : 0;
+      return record('pow', value, [x, y], [dBase, dExponent], label);
+    },
+    neg: (a: Operand, label?: string) => {
+      const x = lift(a);
+      return record('neg', -x.value, [x], [-1], label);
+    },
+
+    relu: (a: Operand, label?: string) => unary('relu', a, label),
+    sin: (a: Operand, label?: string) => unary('sin', a, label),
+    cos: (a: Operand, label?: string) => unary('cos', a, label),
+    exp: (a: Operand, label?: string) => unary('exp', a, label),
+    ln: (a: Operand, label?: string) => unary('ln', a, label),
+    tanh: (a: Operand, label?: string) => unary('tanh', a, label),
+    sigmoid: (a: Operand, label?: string) => unary('sigmoid', a, label),
+    /** Any built-in function of the expression language */
+    apply: (fn: FunctionName, a: Operand, label?: string) => unary(fn, a, label),
+
+    /** Adds a list of operands left to right */
+    sum: (operands: Operand[], label?: string): GradNode => {
+      if (!operands.length) return record('const', 0, [], [], label);
+      const total = operands.slice(1).reduce<GradNode>((acc, o) => graph.add(acc, o), lift(operands[0]));
+      if (label) total.label = label;
+      return total;
+    },
+
+    /** Input nodes for a matrix of values, labelled `name[i][j]` */
+    tensor: (values: number[][], label?: string): Tensor =>
+      values.map((row, i) => row.map((v, j) => record('input', v, [], [], label ? `${label}[${i}][${j}]` : undefined))),
+
+    /**
+     * Matrix product, one sum of products per entry.
+     *
+     * @throws Error if the inner dimensions differ
+     */
+    matmul: (a: Tensor, b: Tensor): Tensor => {
+      const inner = a[0]?.length ?? 0;
+      if (inner !== b.length) {
+        throw new Error(`Cannot multiply a ${a.length}×${inner} tensor by a ${b.length}×${b[0]?.length ?? 0} tensor`);
+      }
+      return a.map(row =>
+        (b[0] ?? []).map((_, j) => graph.sum(row.map((x, k) => graph.mul(x, b[k][j]))))
+      );
+    },
+
+    /** Applies a node-level function to every entry of a tensor */
+    map: (t: Tensor, fn: (node: GradNode, i: number, j: number) => GradNode): Tensor =>
+      t.map((row, i) => row.map((node, j) => fn(node, i, j))),
+  };
+
+  return graph;
+};
+
+export type Graph = ReturnType<typeof createGraph>;
+
+/**
+ * Records an expression from `expression.ts` on a graph, with each
+ * variable bound to an existing node.
+ *
+ * @throws Error if the expression uses a variable missing from `variables`
+ */
+export const buildExpressionGraph = (graph: Graph, expr: Expr, variables: Record<string, GradNode>): GradNode => {
+  switch (expr.type) {
+    case 'num':
+      return graph.constant(expr.value);
+    case 'var': {
+      const node = variables[expr.name];
+      if (!node) throw new Error(`No value for ${expr.name}`);
+      return node;
+    }
+    case 'neg':
+      return graph.neg(buildExpressionGraph(graph, expr.arg, variables));
+    case 'call':
+      return graph.apply(expr.fn, buildExpressionGraph(graph, expr.arg, variables));
+    case 'binary': {
+      const left = buildExpressionGraph(graph, expr.left, variables);
+      const right = buildExpressionGraph(graph, expr.right, variables);
+      switch (expr.op) {
+        case '+': return graph.add(left, right);
+        case '-': return graph.sub(left, right);
+        case '*': return graph.mul(left, right);
+        case '/': return graph.div(left, right);
+        case '^': return graph.pow(left, right);
+      }
+    }
+  }
+};
+
+// =============================================================================
+// BACKWARD PASS
+// =============================================================================
+
+/**
+ * Nodes the output depends on, leaves first, each after all of its inputs.
+ */
+export const topologicalOrder = (output: GradNode): GradNode[] => {
+  const order: GradNode[] = [];
+  const seen = new Set<GradNode>();
+  const visit = (node: GradNode) => {
+    if (seen.has(node)) return;
+    seen.add(node);
+    node.inputs.forEach(visit);
+    order.push(node);
+  };
+  visit(output);
+  return order;
+};
+
+/**
+ * Fills in `grad` on every node the output depends on, as ∂output/∂node.
+ * Gradients on those nodes from an earlier pass are cleared first. Nodes
+ * the output does not depend on keep theirs, so call `zeroGrad` on the
+ * graph before differentiating a different output.
+ *
+ * @returns The nodes in topological order
+ */
+export const backward = (output: GradNode): GradNode[] => {
+  const order = topologicalOrder(output);
+  for (const node of order) node.grad = 0;
+  output.grad = 1;
+  for (let i = order.length - 1; i >= 0; i--) {
+    const node = order[i];
+    node.inputs.forEach((input, k) => {
+      input.grad += node.grad * node.localGrads[k];
+    });
+  }
+  return order;
+};
+
+/**
+ * Local derivative ∂node/∂input along one edge; inputs used twice (as in
+ * x × x) contribute both terms.
+ */
+export const getLocalGrad = (node: GradNode, input: GradNode): number =>
+  node.inputs.reduce((sum, candidate, k) => (candidate === input ? sum + node.localGrads[k] : sum), 0);
+
+/**
+ * One path of edges from `output` down to `target`, as the list of nodes
+ * visited, or null if the output does not depend on the target. With a
+ * single path, the product of local gradients along it equals target.grad.
+ */
+export const findGradientPath = (output: GradNode, target: GradNode): GradNode[] | null => {
+  if (output === target) return [output];
+  for (const input of new Set(output.inputs)) {
+    const rest = findGradientPath(input, target);
+    if (rest) return [output, ...rest];
+  }
+  return null;
+};
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+/**
+ * Arranges the graph behind an output in columns: leaves in column 0 and
+ * every other node one column right of its deepest input. Rows follow the
+ * order in which nodes were recorded.
+ *
+ * @param options.hideConstants - Leave constant nodes out of the layout
+ */
+export const layoutGraph = (output: GradNode, options: { hideConstants?: boolean } = {}): GraphLayoutEntry[] => {
+  const depths = new Map<GradNode, number>();
+  const order = topologicalOrder(output).filter(node => !(options.hideConstants && node.op === 'const'));
+  for (const node of order) {
+    const inputDepths = node.inputs.filter(input => depths.has(input)).map(input => depths.get(input)!);
+    depths.set(node, inputDepths.length ? Math.max(...inputDepths) + 1 : 0);
+  }
+
+  const rows = new Map<number, number>();
+  return [...order]
+    .sort((a, b) => a.id - b.id)
+    .map(node => {
+      const depth = depths.get(node)!;
+      const row = rows.get(depth) ?? 0;
+      rows.set(depth, row + 1);
+      return { node, depth, row };
+    });
+};
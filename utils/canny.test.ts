@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Tests for the Canny edge-detection stages.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  runCanny,
+  getGradientStep,
+  suppressNonMaxima,
+  classifyEdges,
+  traceHysteresis,
+  cannyStageToMatrix,
+  countNonZero,
+} from './canny';
+import type { ImageBuffer } from './imageOps';
+
+/** Builds an opaque gray image from a matrix of values */
+const grayImage = (values: number[][]): ImageBuffer => ({
+  data: new Uint8ClampedArray(values.flat().flatMap(v => [v, v, v, 255])),
+  width: values[0].length,
+  height: values.length,
+});
+
+/** 12x12 image, dark on the left and bright from column 6 */
+const STEP = grayImage(Array.from({ length: 12 }, () => Array.from({ length: 12 }, (_, x) => (x < 6 ? 20 : 220))));
+
+describe('getGradientStep', () => {
+  it.each([
+    [0, [1, 0]],
+    [Math.PI, [1, 0]],
+    [Math.PI / 4, [1, 1]],
+    [Math.PI / 2, [0, 1]],
+    [-Math.PI / 2, [0, 1]],
+    [(3 * Math.PI) / 4, [-1, 1]],
+  ])('rounds %f radians onto a neighbour', (angle, step) => {
+    expect(getGradientStep(angle)).toEqual(step);
+  });
+});
+
+describe('suppressNonMaxima', () => {
+  it('keeps only the ridge across the gradient', () => {
+    const magnitude = [[0, 10, 30, 10, 0]];
+    const direction = [[0, 0, 0, 0, 0]];
+    expect(suppressNonMaxima(magnitude, direction)).toEqual([[0, 0, 30, 0, 0]]);
+  });
+
+  it('keeps one pixel of a two-pixel plateau', () => {
+    expect(suppressNonMaxima([[0, 20, 20, 0]], [[0, 0, 0, 0]])).toEqual([[0, 20, 0, 0]]);
+  });
+});
+
+describe('classifyEdges', () => {
+  it('splits pixels at the two thresholds', () => {
+    expect(classifyEdges([[5, 20, 49, 50]], { lowThreshold: 20, highThreshold: 50 })).toEqual([[0, 1, 1, 2]]);
+  });
+
+  it('rejects a low threshold above the high one', () => {
+    expect(() => classifyEdges([[0]], { lowThreshold: 60, highThreshold: 50 })).toThrow('must not exceed');
+  });
+});
+
+describe('traceHysteresis', () => {
+  it('keeps weak pixels connected to a strong one, including diagonally', () => {
+    const classes = [
+      [2, 1, 0, 0, 1],
+      [0, 0, 1, 0, 0],
+    ] as const;
+    expect(traceHysteresis(classes.map(row => [...row]))).toEqual([
+      [255, 255, 0, 0, 0],
+      [0, 0, 255, 0, 0],
+    ]);
+  });
+});
+
+describe('runCanny', () => {
+  it('finds a vertical step as one thin line', () => {
+    const { edges, magnitude } = runCanny(STEP);
+    expect(Math.max(...magnitude[6])).toBeGreaterThan(50);
+    edges.forEach(row => {
+      expect(countNonZero([row])).toBe(1);
+      expect(row[5] + row[6]).toBe(255);
+    });
+  });
+
+  it('finds nothing in a flat image', () => {
+    const flat = grayImage(Array.from({ length: 6 }, () => Array(6).fill(90)));
+    expect(countNonZero(runCanny(flat).edges)).toBe(0);
+  });
+
+  it('drops edges weaker than the low threshold', () => {
+    const { edges } = runCanny(STEP, { lowThreshold: 300, highThreshold: 400 });
+    expect(countNonZero(edges)).toBe(0);
+  });
+
+  it('keeps every stage at the image size', () => {
+    const result = runCanny(STEP);
+    for (const plane of Object.values(result)) {
+      expect(plane).toHaveLength(12);
+      expect(plane[0]).toHaveLength(12);
+    }
+  });
+});
+
+describe('cannyStageToMatrix', () => {
+  it('shows weak pixels as mid-gray and strong ones as white', () => {
+    const result = runCanny(STEP);
+    result.classes = [[0, 1, 2]];
+    expect(Array.from(cannyStageToMatrix(result, 'classes').data)).toEqual([0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 255]);
+  });
+});
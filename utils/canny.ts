@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Canny edge detection, keeping every intermediate stage.
+ *
+ * The smoothing and gradient stages are plain convolutions run through
+ * `convolvePlane`, so they match what the lab's Gaussian and Sobel
+ * presets compute. Non-maximum suppression, double thresholding and
+ * hysteresis follow, each returning a new plane so the walkthrough can
+ * show how the edge map is built up.
+ */
+
+import type { Kernel } from '../types';
+import { convolvePlane } from './imageOps';
+import type { ImageBuffer } from './imageOps';
+import { clampPixelValue } from './colorConversion';
+import { createRgbaMatrix, getGrayView } from './rgbaMatrix';
+import type { RgbaMatrix } from './rgbaMatrix';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Hysteresis thresholds on the gradient magnitude, in gray levels per
+ * pixel: a hard step from 0 to 255 has magnitude 255.
+ */
+export interface CannyOptions {
+  /** Weakest magnitude that can still be part of an edge */
+  lowThreshold: number;
+  /** Magnitude at which a pixel is an edge on its own */
+  highThreshold: number;
+}
+
+/** A pixel after double thresholding: 0 none, 1 weak, 2 strong */
+export type EdgeClass = 0 | 1 | 2;
+
+/**
+ * Every stage of one Canny run, as [row][col] planes.
+ */
+export interface CannyResult {
+  gray: number[][];
+  smoothed: number[][];
+  magnitude: number[][];
+  /** Gradient angle in radians, atan2(Gy, Gx) */
+  direction: number[][];
+  /** Magnitude with everything but the ridge of each edge set to 0 */
+  suppressed: number[][];
+  classes: EdgeClass[][];
+  /** 255 on final edges, 0 elsewhere */
+  edges: number[][];
+}
+
+export type CannyStage = keyof CannyResult;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_CANNY_OPTIONS: CannyOptions = { lowThreshold: 20, highThreshold: 50 };
+
+/** Stages in the order they are computed */
+export const CANNY_STAGES: CannyStage[] = ['gray', 'smoothed', 'magnitude', 'direction', 'suppressed', 'classes', 'edges'];
+
+/** 5x5 binomial approximation of a Gaussian; weights sum to 256 */
+const GAUSSIAN_5: Kernel = [1, 4, 6, 4, 1].map(c => [1, 4, 6, 4, 1].map(r => c * r));
+
+const SOBEL_X: Kernel = [
+  [-1, 0, 1],
+  [-2, 0, 2],
+  [-1, 0, 1],
+];
+
+const SOBEL_Y: Kernel = [
+  [-1, -2, -1],
+  [0, 0, 0],
+  [1, 2, 1],
+];
+
+/** Sobel's response to a unit step, used to express magnitude in gray levels */
+const SOBEL_GAIN = 4;
+
+const NEIGHBOURS_8: [number, number][] = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+];
+
+// =============================================================================
+// STAGES
+// =============================================================================
+
+const mapPlane = <T>(plane: number[][], fn: (v: number, x: number, y: number) => T): T[][] =>
+  plane.map((row, y) => row.map((v, x) => fn(v, x, y)));
+
+/**
+ * Offset, along the gradient, of the neighbours an edge pixel is compared
+ * with. The angle is folded onto 0-180° and rounded to the nearest 45°;
+ * y points down, as in the image.
+ */
+export const getGradientStep = (angle: number): [number, number] => {
+  const degrees = ((angle * 180) / Math.PI + 180) % 180;
+  if (degrees < 22.5 || degrees >= 157.5) return [1, 0];
+  if (degrees < 67.5) return [1, 1];
+  if (degrees < 112.5) return [0, 1];
+  return [-1, 1];
+};
+
+/**
+ * Keeps a pixel only where its magnitude is a local maximum across the
+ * edge, thinning each edge to a one-pixel ridge. Ties keep the first
+ * pixel of a plateau.
+ */
+export const suppressNonMaxima = (magnitude: number[][], direction: number[][]): number[][] => {
+  const at = (x: number, y: number) => magnitude[y]?.[x] ?? 0;
+  return mapPlane(magnitude, (m, x, y) => {
+    if (m === 0) return 0;
+    const [dx, dy] = getGradientStep(direction[y][x]);
+    return m >= at(x + dx, y + dy) && m > at(x - dx, y - dy) ? m : 0;
+  });
+};
+
+/**
+ * Splits pixels into strong, weak and discarded.
+ *
+ * @throws Error if the low threshold is above the high one
+ */
+export const classifyEdges = (suppressed: number[][], { lowThreshold, highThreshold }: CannyOptions): EdgeClass[][] => {
+  if (lowThreshold > highThreshold) {
+    throw new Error(`Low threshold (${lowThreshold}) must not exceed the high threshold (${highThreshold})`);
+  }
+  return mapPlane(suppressed, (m): EdgeClass => (m >= highThreshold ? 2 : m >= lowThreshold ? 1 : 0));
+};
+
+/**
+ * Keeps strong pixels and every weak pixel 8-connected to one; other weak
+ * pixels are dropped as noise.
+ */
+export const traceHysteresis = (classes: EdgeClass[][]): number[][] => {
+  const edges = classes.map(row => row.map(c => (c === 2 ? 255 : 0)));
+  const stack: [number, number][] = [];
+  classes.forEach((row, y) => row.forEach((c, x) => {
+    if (c === 2) stack.push([x, y]);
+  }));
+
+  while (stack.length) {
+    const [x, y] = stack.pop()!;
+    for (const [dx, dy] of NEIGHBOURS_8) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (classes[ny]?.[nx] === 1 && edges[ny][nx] === 0) {
+        edges[ny][nx] = 255;
+        stack.push([nx, ny]);
+      }
+    }
+  }
+  return edges;
+};
+
+// =============================================================================
+// PIPELINE
+// =============================================================================
+
+/**
+ * Runs Canny on the luminance of an image.
+ *
+ * @param image - Source image
+ * @param options - Hysteresis thresholds
+ * @returns Every intermediate plane
+ */
+export const runCanny = (image: ImageBuffer, options: CannyOptions = DEFAULT_CANNY_OPTIONS): CannyResult => {
+  const grayView = getGrayView(image);
+  const gray = Array.from({ length: image.height }, (_, y) =>
+    Array.from(grayView.subarray(y * image.width, (y + 1) * image.width))
+  );
+
+  const smoothed = mapPlane(convolvePlane(gray, GAUSSIAN_5, { padding: 'clamp' }), v => v / 256);
+  const gx = convolvePlane(smoothed, SOBEL_X, { padding: 'clamp' });
+  const gy = convolvePlane(smoothed, SOBEL_Y, { padding: 'clamp' });
+  const magnitude = mapPlane(gx, (v, x, y) => Math.hypot(v, gy[y][x]) / SOBEL_GAIN);
+  const direction = mapPlane(gx, (v, x, y) => Math.atan2(gy[y][x], v));
+
+  const suppressed = suppressNonMaxima(magnitude, direction);
+  const classes = classifyEdges(suppressed, options);
+  const edges = traceHysteresis(classes);
+
+  return { gray, smoothed, magnitude, direction, suppressed, classes, edges };
+};
+
+/**
+ * A stage as a gray image for the matrix view. Magnitudes are clamped
+ * rather than normalized, so they read against the thresholds; angles map
+ * from [-π, π] onto 0-255 like the Sobel direction preset; weak pixels are
+ * mid-gray and strong ones white.
+ */
+export const cannyStageToMatrix = (result: CannyResult, stage: CannyStage): RgbaMatrix => {
+  const plane: number[][] = result[stage];
+  const height = plane.length;
+  const width = plane[0]?.length ?? 0;
+  const toByte = (v: number): number => {
+    switch (stage) {
+      case 'direction':
+        return clampPixelValue(((v + Math.PI) / (2 * Math.PI)) * 255);
+      case 'classes':
+        return v * 127.5;
+      default:
+        return clampPixelValue(v);
+    }
+  };
+
+  const matrix = createRgbaMatrix(width, height);
+  plane.forEach((row, y) => row.forEach((v, x) => {
+    const g = toByte(v);
+    matrix.data.set([g, g, g, 255], (y * width + x) * 4);
+  }));
+  return matrix;
+};
+
+/**
+ * Number of pixels in a plane above zero.
+ */
+export const countNonZero = (plane: number[][]): number =>
+  plane.reduce((sum, row) => sum + row.reduce((n, v) => n + (v > 0 ? 1 : 0), 0), 0);
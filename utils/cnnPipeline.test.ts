@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Tests for the CNN pipeline: shapes, parameter counts and
+ * layer arithmetic.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matrixToFeatureMaps,
+  featureMapToPixels,
+  getLayerOutputShape,
+  countLayerParams,
+  runPipeline,
+} from './cnnPipeline';
+import type { PipelineLayer } from './cnnPipeline';
+import { createPixel } from './imageOps';
+import { PRESET_ALGORITHMS } from '../constants/algorithms';
+
+const conv = (filters: string[], stride = 1): PipelineLayer => ({ id: 1, type: 'conv', filters, stride });
+const relu: PipelineLayer = { id: 2, type: 'relu' };
+const pool: PipelineLayer = { id: 3, type: 'pool', mode: 'max', window: 2, stride: 2 };
+const flatten: PipelineLayer = { id: 4, type: 'flatten' };
+
+/** 4×4 single-channel ramp, values 0..15 */
+const RAMP = [Array.from({ length: 4 }, (_, y) => Array.from({ length: 4 }, (_, x) => y * 4 + x))];
+
+describe('matrixToFeatureMaps', () => {
+  it('splits rgb or keeps gray', () => {
+    const matrix = [[createPixel(10, 20, 30)]];
+    expect(matrixToFeatureMaps(matrix, 'rgb')).toEqual([[[10]], [[20]], [[30]]]);
+    expect(matrixToFeatureMaps(matrix, 'gray')).toEqual([[[matrix[0][0].gray]]]);
+  });
+});
+
+describe('featureMapToPixels', () => {
+  it('stretches each map to the full range', () => {
+    const pixels = featureMapToPixels([[-4, 0, 4]]);
+    expect(pixels[0].map(p => p.r)).toEqual([0, 128, 255]);
+  });
+
+  it('handles a flattened 256×256×2 stack', () => {
+    // Rows of 256, as the vector strip lays out a flatten output
+    const plane = Array.from({ length: 512 }, (_, y) => Array.from({ length: 256 }, (_, x) => x - y));
+    const pixels = featureMapToPixels(plane);
+    expect(pixels[511][0].r).toBe(0);
+    expect(pixels[0][255].r).toBe(255);
+  });
+});
+
+describe('shapes and parameters', () => {
+  it('follows conv, pool and flatten arithmetic', () => {
+    expect(getLayerOutputShape(conv(['sharpen', 'edge-detection'], 2), [3, 32, 24], PRESET_ALGORITHMS)).toEqual([2, 16, 12]);
+    expect(getLayerOutputShape(pool, [2, 15, 12], PRESET_ALGORITHMS)).toEqual([2, 7, 6]);
+    expect(getLayerOutputShape(flatten, [2, 7, 6], PRESET_ALGORITHMS)).toEqual([84]);
+  });
+
+  it('counts kH·kW·C_in weights plus a bias per filter', () => {
+    // 3×3×3 + 1 and 5×5×3 + 1
+    expect(countLayerParams(conv(['sharpen', 'gaussian-blur-5x5']), 3, PRESET_ALGORITHMS)).toBe(28 + 76);
+    expect(countLayerParams(pool, 3, PRESET_ALGORITHMS)).toBe(0);
+  });
+
+  it('counts both kernels of a gradient preset', () => {
+    expect(countLayerParams(conv(['sobel']), 3, PRESET_ALGORITHMS)).toBe(2 * 27 + 1);
+  });
+
+  it('rejects layers that cannot follow their input', () => {
+    expect(() => getLayerOutputShape(conv([]), [1, 4, 4], PRESET_ALGORITHMS)).toThrow(/at least one filter/);
+    expect(() => getLayerOutputShape(pool, [1, 1, 1], PRESET_ALGORITHMS)).toThrow(/does not fit/);
+    expect(() => getLayerOutputShape(relu, [16], PRESET_ALGORITHMS)).toThrow(/Flatten must be the last/);
+  });
+});
+
+describe('runPipeline', () => {
+  it('runs conv, relu, pool and flatten', () => {
+    const result = runPipeline(RAMP, [conv(['identity']), relu, pool, flatten], PRESET_ALGORITHMS);
+    expect(result.error).toBeUndefined();
+    expect(result.steps.map(s => s.shape)).toEqual([[1, 4, 4], [1, 4, 4], [1, 2, 2], [4]]);
+    expect(result.steps[3].vector).toEqual([5, 7, 13, 15]);
+    expect(result.totalParams).toBe(10);
+  });
+
+  it('keeps negative conv responses until ReLU', () => {
+    const edges = { id: 9, type: 'conv', filters: ['edge-detection'], stride: 1 } as PipelineLayer;
+    const result = runPipeline([[[0, 0, 0], [0, 9, 0], [0, 0, 0]]], [edges, relu], PRESET_ALGORITHMS);
+    expect(result.steps[0].maps[0][0][1]).toBeLessThan(0);
+    expect(result.steps[1].maps[0][0][1]).toBe(0);
+  });
+
+  it('averages a filter over input channels', () => {
+    const result = runPipeline([[[10]], [[20]], [[60]]], [conv(['identity'])], PRESET_ALGORITHMS);
+    expect(result.steps[0].maps).toEqual([[[30]]]);
+  });
+
+  it('combines Gx and Gy for a gradient preset', () => {
+    // A vertical step has no Gy response, and a horizontal one no Gx
+    const vertical = [[[0, 0, 9, 9], [0, 0, 9, 9], [0, 0, 9, 9], [0, 0, 9, 9]]];
+    const horizontal = [vertical[0][0].map((_, y) => vertical[0].map(row => row[y]))];
+    const [a, b] = [vertical, horizontal].map(maps => runPipeline(maps, [conv(['sobel'])], PRESET_ALGORITHMS).steps[0].maps[0]);
+    expect(a[1][1]).toBeGreaterThan(0);
+    expect(b[1][1]).toBeCloseTo(a[1][1]);
+  });
+
+  it('stops at the first invalid layer', () => {
+    const result = runPipeline(RAMP, [flatten, { ...relu, id: 7 }, pool], PRESET_ALGORITHMS);
+    expect(result.steps).toHaveLength(1);
+    expect(result.error).toEqual({ layerId: 7, message: 'Flatten must be the last layer' });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Multi-layer CNN pipeline for the architecture lesson.
+ *
+ * A pipeline is a list of conv, ReLU, pool and flatten layers run on a
+ * C×H×W stack of feature maps. Values stay unclamped floats between
+ * layers, as in a real network; only the thumbnails are rescaled to 0-255.
+ *
+ * Conv filters are preset kernels. Each filter is applied to every input
+ * channel and the responses are averaged, so a preset keeps its meaning
+ * whether the input has one channel or many. Gradient presets such as
+ * Sobel run both their Gx and Gy kernels and combine them as the lab does.
+ * Parameter counts assume a standard conv layer of the same shape:
+ * kH·kW·C_in weights per kernel plus one bias per filter.
+ */
+
+import type { PixelData, AlgorithmInfo } from '../types';
+import { convolvePlane, createPixel } from './imageOps';
+import { poolPlane, getPoolingOutputSize } from './pooling';
+import { clampPixelValue } from './colorConversion';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Stack of feature maps as [channel][row][col] */
+export type FeatureMaps = number[][][];
+
+/** Layer kinds in build order */
+export type PipelineLayerType = 'conv' | 'relu' | 'pool' | 'flatten';
+
+export interface ConvLayer {
+  type: 'conv';
+  /** Preset keys, one output channel each */
+  filters: string[];
+  stride: number;
+}
+
+export interface ReluLayer {
+  type: 'relu';
+}
+
+export interface PoolLayer {
+  type: 'pool';
+  mode: 'max' | 'average';
+  window: number;
+  stride: number;
+}
+
+export interface FlattenLayer {
+  type: 'flatten';
+}
+
+/** Layer settings without identity */
+export type PipelineLayerSpec = ConvLayer | ReluLayer | PoolLayer | FlattenLayer;
+
+/**
+ * One stage of the pipeline. `id` keeps React keys stable while layers
+ * are added, moved and removed.
+ */
+export type PipelineLayer = PipelineLayerSpec & { id: number };
+
+/**
+ * Result of running one layer.
+ */
+export interface PipelineStep {
+  layer: PipelineLayer;
+  /** [C, H, W] for feature maps, [N] after flatten */
+  shape: number[];
+  /** Learnable weights and biases in this layer */
+  params: number;
+  /** Output feature maps; empty after flatten */
+  maps: FeatureMaps;
+  /** Output vector, only set by flatten */
+  vector?: number[];
+}
+
+/**
+ * Full pipeline run. Stops at the first layer that cannot be applied.
+ */
+export interface PipelineResult {
+  input: FeatureMaps;
+  steps: PipelineStep[];
+  /** Why the layer after the last step failed, if one did */
+  error?: { layerId: number; message: string };
+  totalParams: number;
+}
+
+// =============================================================================
+// INPUT & DISPLAY
+// =============================================================================
+
+/**
+ * Splits a pixel matrix into input channels: one gray map or R, G and B.
+ */
+export const matrixToFeatureMaps = (matrix: PixelData[][], channels: 'gray' | 'rgb'): FeatureMaps =>
+  channels === 'gray'
+    ? [matrix.map(row => row.map(p => p.gray))]
+    : (['r', 'g', 'b'] as const).map(key => matrix.map(row => row.map(p => p[key])));
+
+/**
+ * Rescales a feature map to 0-255 gray pixels for display, mapping its
+ * own minimum to black and maximum to white. Constant maps are shown at
+ * their clamped value.
+ */
+export const featureMapToPixels = (plane: number[][]): PixelData[][] => {
+  // A loop rather than Math.min(...values): a flattened 256×256 stack
+  // has more values than a call can take as arguments
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of plane) {
+    for (const v of row) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  const scale = (v: number) => (max > min ? ((v - min) / (max - min)) * 255 : v);
+  return plane.map(row => row.map(v => {
+    const g = clampPixelValue(scale(v));
+    return createPixel(g, g, g);
+  }));
+};
+
+// =============================================================================
+// LAYERS
+// =============================================================================
+
+/**
+ * Output shape of a layer for a given input shape.
+ *
+ * @throws Error if the layer cannot follow the input
+ */
+export const getLayerOutputShape = (
+  layer: PipelineLayer,
+  inputShape: number[],
+  algorithms: Record<string, AlgorithmInfo>
+): number[] => {
+  if (inputShape.length !== 3) {
+    throw new Error('Flatten must be the last layer');
+  }
+  const [channels, height, width] = inputShape;
+
+  switch (layer.type) {
+    case 'conv': {
+      if (!layer.filters.length) throw new Error('Pick at least one filter');
+      const unknown = layer.filters.find(key => !algorithms[key]);
+      if (unknown) throw new Error(`Unknown filter "${unknown}"`);
+      return [layer.filters.length, Math.ceil(height / layer.stride), Math.ceil(width / layer.stride)];
+    }
+    case 'relu':
+      return inputShape;
+    case 'pool': {
+      const outHeight = getPoolingOutputSize(height, layer.window, layer.stride, 0);
+      const outWidth = getPoolingOutputSize(width, layer.window, layer.stride, 0);
+      if (!outHeight || !outWidth) {
+        throw new Error(`A ${layer.window}×${layer.window} window does not fit a ${width}×${height} map`);
+      }
+      return [channels, outHeight, outWidth];
+    }
+    case 'flatten':
+      return [channels * height * width];
+  }
+};
+
+/**
+ * Learnable parameters in a layer: only conv layers have any.
+ */
+export const countLayerParams = (
+  layer: PipelineLayer,
+  inputChannels: number,
+  algorithms: Record<string, AlgorithmInfo>
+): number => {
+  if (layer.type !== 'conv') return 0;
+  return layer.filters.reduce((sum, key) => {
+    const { kernel, gradient } = algorithms[key];
+    const kernels = gradient ? 2 : 1;
+    return sum + kernels * kernel.length * kernel[0].length * inputChannels + 1;
+  }, 0);
+};
+
+/**
+ * Response of one preset to one map, before dividing: the kernel alone,
+ * or for a gradient preset its Gx/Gy pair combined into a magnitude or
+ * a direction on 0-255, as in `applyGradientOperator`.
+ */
+const applyPreset = (map: number[][], { kernel, gradient }: AlgorithmInfo, stride: number): number[][] => {
+  if (!gradient) return convolvePlane(map, kernel, { stride });
+  const gx = convolvePlane(map, gradient.x, { stride });
+  const gy = convolvePlane(map, gradient.y, { stride });
+  return gx.map((row, y) => row.map((x, i) => (gradient.output === 'magnitude'
+    ? Math.hypot(x, gy[y][i])
+    : ((Math.atan2(gy[y][i], x) + Math.PI) / (2 * Math.PI)) * 255)));
+};
+
+const runConv = (maps: FeatureMaps, layer: ConvLayer, algorithms: Record<string, AlgorithmInfo>): FeatureMaps =>
+  layer.filters.map(key => {
+    const algorithm = algorithms[key];
+    const { divisor, bias = 0, gradient } = algorithm;
+    // Like applyGradientOperator, a direction map ignores the divisor
+    const scale = (gradient?.output === 'direction' ? 1 : divisor || 1) * maps.length;
+    const responses = maps.map(map => applyPreset(map, algorithm, layer.stride));
+    return responses[0].map((row, y) =>
+      row.map((_, x) => responses.reduce((sum, r) => sum + r[y][x], 0) / scale + bias)
+    );
+  });
+
+const sumParams = (steps: PipelineStep[]): number => steps.reduce((sum, s) => sum + s.params, 0);
+
+/**
+ * Runs every layer in order, recording each output, its shape and its
+ * parameter count. A layer that cannot be applied ends the run and is
+ * reported in `error`.
+ */
+export const runPipeline = (
+  input: FeatureMaps,
+  layers: PipelineLayer[],
+  algorithms: Record<string, AlgorithmInfo>
+): PipelineResult => {
+  const steps: PipelineStep[] = [];
+  let maps = input;
+  let shape = [input.length, input[0]?.length ?? 0, input[0]?.[0]?.length ?? 0];
+
+  for (const layer of layers) {
+    let outShape: number[];
+    try {
+      outShape = getLayerOutputShape(layer, shape, algorithms);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { input, steps, error: { layerId: layer.id, message }, totalParams: sumParams(steps) };
+    }
+
+    const params = countLayerParams(layer, shape[0], algorithms);
+    switch (layer.type) {
+      case 'conv':
+        maps = runConv(maps, layer, algorithms);
+        break;
+      case 'relu':
+        maps = maps.map(map => map.map(row => row.map(v => Math.max(0, v))));
+        break;
+      case 'pool':
+        maps = maps.map(map => poolPlane(map, { ...layer, padding: 0 }).output);
+        break;
+      case 'flatten':
+        steps.push({ layer, shape: outShape, params, maps: [], vector: maps.flat(2) });
+        shape = outShape;
+        continue;
+    }
+
+    steps.push({ layer, shape: outShape, params, maps });
+    shape = outShape;
+  }
+
+  return { input, steps, totalParams: sumParams(steps) };
+};
+
+/**
+ * Formats a shape as "C×H×W" or "N".
+ */
+export const formatShape = (shape: number[]): string => shape.join('×');
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Tests for channel splitting and single-channel filtering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitChannels, mergeChannels, applyChannelAlgorithm } from './colorChannels';
+import { applyAlgorithm } from './imageOps';
+import type { ImageBuffer } from './imageOps';
+import { PRESET_ALGORITHMS } from '../constants/algorithms';
+
+// 3×1: orange, half-transparent teal, gray
+const IMAGE: ImageBuffer = {
+  data: new Uint8ClampedArray([255, 128, 0, 255, 12, 200, 180, 128, 128, 128, 128, 255]),
+  width: 3,
+  height: 1,
+};
+
+describe('splitChannels', () => {
+  it('stores each channel as a gray image with the source alpha', () => {
+    const [r, g, b] = splitChannels(IMAGE, 'rgb');
+    expect(Array.from(r.data.slice(0, 8))).toEqual([255, 255, 255, 255, 12, 12, 12, 128]);
+    expect(g.data[4]).toBe(200);
+    expect(b.data[8]).toBe(128);
+  });
+
+  it('round-trips through YCbCr', () => {
+    const merged = mergeChannels(splitChannels(IMAGE, 'ycbcr'), 'ycbcr');
+    merged.data.forEach((v, i) => expect(Math.abs(v - IMAGE.data[i])).toBeLessThanOrEqual(2));
+  });
+
+  it('rejects mismatched channels', () => {
+    const [y, cb] = splitChannels(IMAGE, 'ycbcr');
+    expect(() => mergeChannels([y, cb], 'ycbcr')).toThrow('three channel images');
+  });
+});
+
+describe('applyChannelAlgorithm', () => {
+  it('filters R, G and B without a target', () => {
+    const blur = PRESET_ALGORITHMS['gaussian-blur'];
+    expect(applyChannelAlgorithm(IMAGE, blur, null)).toEqual(applyAlgorithm(IMAGE, blur));
+  });
+
+  it('leaves the other channels alone', () => {
+    const invert = { kernel: [[-1]], divisor: 1, bias: 255 };
+    const result = applyChannelAlgorithm(IMAGE, invert, { space: 'rgb', channel: 2 });
+    expect(Array.from(result.data.slice(0, 4))).toEqual([255, 128, 255, 255]);
+    expect(Array.from(result.data.slice(4, 8))).toEqual([12, 200, 75, 128]);
+  });
+});
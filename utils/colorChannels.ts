@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Splitting images into color-space channels and filtering
+ * a single channel.
+ *
+ * Each channel is stored as a gray RGBA image (the channel byte in R, G
+ * and B) so it can be shown by the matrix view and passed through the
+ * same convolution engine as any other image.
+ */
+
+import { toChannelBytes, fromChannelBytes } from './colorConversion';
+import type { ColorSpace } from './colorConversion';
+import { applyAlgorithm } from './imageOps';
+import type { AlgorithmFilter, ImageBuffer, PaddingMode } from './imageOps';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One channel of a color space, e.g. `{ space: 'ycbcr', channel: 0 }`
+ * for luma.
+ */
+export interface ColorChannelTarget {
+  space: ColorSpace;
+  /** Index into `COLOR_SPACE_CHANNELS[space]` */
+  channel: 0 | 1 | 2;
+}
+
+// =============================================================================
+// SPLIT & MERGE
+// =============================================================================
+
+/**
+ * Converts an image to `space` and returns its three channels as gray
+ * images, keeping the source alpha.
+ */
+export const splitChannels = (image: ImageBuffer, space: ColorSpace): [ImageBuffer, ImageBuffer, ImageBuffer] => {
+  const { data, width, height } = image;
+  const planes = [0, 1, 2].map(() => new Uint8ClampedArray(data.length));
+
+  for (let i = 0; i < data.length; i += 4) {
+    const bytes = toChannelBytes(data[i], data[i + 1], data[i + 2], space);
+    for (let c = 0; c < 3; c++) {
+      const plane = planes[c];
+      plane[i] = plane[i + 1] = plane[i + 2] = bytes[c];
+      plane[i + 3] = data[i + 3];
+    }
+  }
+
+  return planes.map(plane => ({ data: plane, width, height })) as [ImageBuffer, ImageBuffer, ImageBuffer];
+};
+
+/**
+ * Inverse of `splitChannels`: reads the R byte of each channel image and
+ * converts back to RGB, taking alpha from the first channel.
+ *
+ * @throws Error if the channel images differ in size
+ */
+export const mergeChannels = (channels: ImageBuffer[], space: ColorSpace): ImageBuffer => {
+  const [first] = channels;
+  if (channels.length !== 3 || channels.some(c => c.width !== first.width || c.height !== first.height)) {
+    throw new Error('Expected three channel images of the same size');
+  }
+
+  const out = new Uint8ClampedArray(first.data.length);
+  for (let i = 0; i < out.length; i += 4) {
+    const [r, g, b] = fromChannelBytes(channels[0].data[i], channels[1].data[i], channels[2].data[i], space);
+    out[i] = r;
+    out[i + 1] = g;
+    out[i + 2] = b;
+    out[i + 3] = first.data[i + 3];
+  }
+  return { data: out, width: first.width, height: first.height };
+};
+
+// =============================================================================
+// FILTERING
+// =============================================================================
+
+/**
+ * Runs an algorithm on one color channel and recombines the image, or on
+ * the RGB channels as usual when `target` is null.
+ *
+ * Hue is an angle stored as a byte, so filtering it treats red at 0° and
+ * red at 359° as opposite ends of the range - a useful illustration of
+ * why models are rarely fed raw hue.
+ *
+ * @param image - Source RGBA image
+ * @param algorithm - Filter to apply
+ * @param target - Channel to filter, or null for all RGB channels
+ * @param options - Border handling (default: 'clamp')
+ */
+export const applyChannelAlgorithm = (
+  image: ImageBuffer,
+  algorithm: AlgorithmFilter,
+  target: ColorChannelTarget | null,
+  options: { padding?: PaddingMode } = {}
+): ImageBuffer => {
+  if (!target) return applyAlgorithm(image, algorithm, options);
+
+  const channels = splitChannels(image, target.space);
+  // R, G and B are equal in a channel image, so one gray plane is enough
+  channels[target.channel] = applyAlgorithm(channels[target.channel], algorithm, { ...options, channels: 'gray' });
+  return mergeChannels(channels, target.space);
+};
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Tests for color-space conversions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  rgbToHsv,
+  hsvToRgb,
+  rgbToHsl,
+  hslToRgb,
+  rgbToYCbCr,
+  yCbCrToRgb,
+  rgbToLab,
+  labToRgb,
+  toChannelBytes,
+  fromChannelBytes,
+  toGray,
+} from './colorConversion';
+import type { ColorSpace } from './colorConversion';
+
+const SAMPLES: [number, number, number][] = [
+  [0, 0, 0], [255, 255, 255], [255, 0, 0], [0, 255, 0], [0, 0, 255],
+  [255, 128, 0], [12, 200, 180], [90, 40, 160], [128, 128, 128],
+];
+
+// `|| 0` folds the -0 that rounding tiny negative errors produces
+const round = (rgb: { r: number; g: number; b: number }) => [rgb.r, rgb.g, rgb.b].map(c => Math.round(c) || 0);
+
+describe('known values', () => {
+  it('converts primaries', () => {
+    expect(rgbToHsv(255, 0, 0)).toEqual({ h: 0, s: 1, v: 1 });
+    expect(rgbToHsv(0, 0, 255).h).toBe(240);
+    expect(rgbToHsl(255, 0, 0)).toEqual({ h: 0, s: 1, l: 0.5 });
+    expect(rgbToHsl(0, 255, 0).h).toBe(120);
+  });
+
+  it('gives gray no hue or chroma', () => {
+    expect(rgbToHsv(128, 128, 128)).toMatchObject({ h: 0, s: 0 });
+    const { cb, cr } = rgbToYCbCr(128, 128, 128);
+    expect([cb, cr].map(Math.round)).toEqual([128, 128]);
+    const lab = rgbToLab(128, 128, 128);
+    expect(Math.abs(lab.a)).toBeLessThan(0.01);
+    expect(Math.abs(lab.b)).toBeLessThan(0.01);
+  });
+
+  it('uses the grayscale weights for luma', () => {
+    expect(Math.round(rgbToYCbCr(255, 128, 0).y)).toBe(toGray(255, 128, 0));
+  });
+
+  it('matches reference Lab values', () => {
+    const white = rgbToLab(255, 255, 255);
+    expect(white.l).toBeCloseTo(100, 1);
+    const red = rgbToLab(255, 0, 0);
+    expect(red.l).toBeCloseTo(53.24, 1);
+    expect(red.a).toBeCloseTo(80.09, 1);
+    expect(red.b).toBeCloseTo(67.2, 1);
+  });
+});
+
+describe('round trips', () => {
+  it.each(SAMPLES)('recovers rgb(%i, %i, %i)', (r, g, b) => {
+    const hsv = rgbToHsv(r, g, b);
+    expect(round(hsvToRgb(hsv.h, hsv.s, hsv.v))).toEqual([r, g, b]);
+    const hsl = rgbToHsl(r, g, b);
+    expect(round(hslToRgb(hsl.h, hsl.s, hsl.l))).toEqual([r, g, b]);
+    const ycc = rgbToYCbCr(r, g, b);
+    expect(round(yCbCrToRgb(ycc.y, ycc.cb, ycc.cr))).toEqual([r, g, b]);
+    const lab = rgbToLab(r, g, b);
+    expect(round(labToRgb(lab.l, lab.a, lab.b))).toEqual([r, g, b]);
+  });
+
+  // One L*a*b* step is coarse next to a dark channel, so 8-bit Lab loses
+  // the most; the others stay within a few levels
+  it.each<[ColorSpace, number]>([['rgb', 0], ['hsv', 4], ['hsl', 4], ['ycbcr', 2], ['lab', 8]])(
+    'survives byte encoding in %s to within %i levels',
+    (space, tolerance) => {
+      for (const [r, g, b] of SAMPLES) {
+        const decoded = fromChannelBytes(...toChannelBytes(r, g, b, space), space);
+        decoded.forEach((c, i) => expect(Math.abs(c - [r, g, b][i])).toBeLessThanOrEqual(tolerance));
+      }
+    }
+  );
+});
+
+describe('toChannelBytes', () => {
+  it('scales each space onto 0-255', () => {
+    expect(toChannelBytes(255, 0, 0, 'hsv')).toEqual([0, 255, 255]);
+    expect(toChannelBytes(0, 0, 255, 'hsl')).toEqual([170, 255, 128]);
+    expect(toChannelBytes(255, 255, 255, 'lab')).toEqual([255, 128, 128]);
+  });
+});
@@ -2,7 +2,8 @@
  * @fileoverview Color conversion utilities for image processing.
  * 
  * Contains functions for converting between color representations
- * (RGB, hex, grayscale) used throughout the application.
+ * (RGB, hex, grayscale, HSV, HSL, YCbCr and CIE Lab) used throughout
+ * the application.
  */
 
 // =============================================================================
@@ -75,6 +76,234 @@ export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
   };
 };
 
+// =============================================================================
+// COLOR SPACES
+// =============================================================================
+
+/**
+ * Color spaces the lab can decompose an image into.
+ * - 'rgb': red, green, blue as stored
+ * - 'hsv': hue, saturation, value (brightness of the strongest channel)
+ * - 'hsl': hue, saturation, lightness (midpoint of strongest and weakest)
+ * - 'ycbcr': luma plus blue- and red-difference chroma (JPEG, BT.601)
+ * - 'lab': CIE L*a*b* under D65, built to be perceptually uniform
+ */
+export type ColorSpace = 'rgb' | 'hsv' | 'hsl' | 'ycbcr' | 'lab';
+
+/** Channel names of each color space, in storage order */
+export const COLOR_SPACE_CHANNELS: Record<ColorSpace, [string, string, string]> = {
+  rgb: ['R', 'G', 'B'],
+  hsv: ['H', 'S', 'V'],
+  hsl: ['H', 'S', 'L'],
+  ycbcr: ['Y', 'Cb', 'Cr'],
+  lab: ['L*', 'a*', 'b*'],
+};
+
+/**
+ * Converts RGB to HSV.
+ *
+ * @returns Hue in degrees (0-360), saturation and value (0-1)
+ *
+ * @example
+ * rgbToHsv(255, 0, 0) // Returns { h: 0, s: 1, v: 1 }
+ */
+export const rgbToHsv = (r: number, g: number, b: number): { h: number; s: number; v: number } => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const chroma = max - min;
+  return {
+    h: getHue(r / 255, g / 255, b / 255, max, chroma),
+    s: max === 0 ? 0 : chroma / max,
+    v: max,
+  };
+};
+
+/**
+ * Converts HSV (hue in degrees, saturation and value 0-1) to RGB.
+ */
+export const hsvToRgb = (h: number, s: number, v: number): { r: number; g: number; b: number } => {
+  const chroma = v * s;
+  return fromHueChroma(h, chroma, v - chroma);
+};
+
+/**
+ * Converts RGB to HSL.
+ *
+ * @returns Hue in degrees (0-360), saturation and lightness (0-1)
+ *
+ * @example
+ * rgbToHsl(255, 0, 0) // Returns { h: 0, s: 1, l: 0.5 }
+ */
+export const rgbToHsl = (r: number, g: number, b: number): { h: number; s: number; l: number } => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const chroma = max - min;
+  const l = (max + min) / 2;
+  return {
+    h: getHue(r / 255, g / 255, b / 255, max, chroma),
+    s: chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * l - 1)),
+    l,
+  };
+};
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to RGB.
+ */
+export const hslToRgb = (h: number, s: number, l: number): { r: number; g: number; b: number } => {
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  return fromHueChroma(h, chroma, l - chroma / 2);
+};
+
+/**
+ * Converts RGB to full-range YCbCr as used by JPEG. Y uses the same
+ * weights as `toGray`; Cb and Cr are centered on 128.
+ *
+ * @example
+ * rgbToYCbCr(128, 128, 128) // Returns { y: 128, cb: 128, cr: 128 }
+ */
+export const rgbToYCbCr = (r: number, g: number, b: number): { y: number; cb: number; cr: number } => ({
+  y: 0.299 * r + 0.587 * g + 0.114 * b,
+  cb: 128 - 0.168736 * r - 0.331264 * g + 0.5 * b,
+  cr: 128 + 0.5 * r - 0.418688 * g - 0.081312 * b,
+});
+
+/**
+ * Converts full-range YCbCr back to RGB (unclamped).
+ */
+export const yCbCrToRgb = (y: number, cb: number, cr: number): { r: number; g: number; b: number } => ({
+  r: y + 1.402 * (cr - 128),
+  g: y - 0.344136 * (cb - 128) - 0.714136 * (cr - 128),
+  b: y + 1.772 * (cb - 128),
+});
+
+/**
+ * Converts sRGB to CIE L*a*b* with a D65 white point.
+ *
+ * @returns L* (0-100) and a*, b* (roughly -128 to 127)
+ *
+ * @example
+ * rgbToLab(255, 255, 255) // Returns { l: 100, a: 0, b: 0 } (to rounding)
+ */
+export const rgbToLab = (r: number, g: number, b: number): { l: number; a: number; b: number } => {
+  const [lr, lg, lb] = [r, g, b].map(srgbToLinear);
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / D65[0];
+  const y = (0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) / D65[1];
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / D65[2];
+  const [fx, fy, fz] = [x, y, z].map(labF);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+/**
+ * Converts CIE L*a*b* (D65) back to sRGB (unclamped).
+ */
+export const labToRgb = (l: number, a: number, bStar: number): { r: number; g: number; b: number } => {
+  const fy = (l + 16) / 116;
+  const [x, y, z] = [fy + a / 500, fy, fy - bStar / 200].map((f, i) => labFInverse(f) * D65[i]);
+  const [r, g, b] = [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.9692660 * x + 1.8760108 * y + 0.0415560 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ].map(linearToSrgb);
+  return { r, g, b };
+};
+
+/**
+ * Encodes a pixel's channels in `space` as three bytes, so each can be
+ * shown and filtered like an 8-bit gray image. Hue maps 0-360 onto
+ * 0-255, fractions onto 0-255, L* 0-100 onto 0-255, and a* and b* are
+ * offset by 128.
+ *
+ * @example
+ * toChannelBytes(255, 0, 0, 'hsv') // Returns [0, 255, 255]
+ */
+export const toChannelBytes = (r: number, g: number, b: number, space: ColorSpace): [number, number, number] => {
+  switch (space) {
+    case 'hsv': {
+      const { h, s, v } = rgbToHsv(r, g, b);
+      return [clampPixelValue(h * 255 / 360), clampPixelValue(s * 255), clampPixelValue(v * 255)];
+    }
+    case 'hsl': {
+      const { h, s, l } = rgbToHsl(r, g, b);
+      return [clampPixelValue(h * 255 / 360), clampPixelValue(s * 255), clampPixelValue(l * 255)];
+    }
+    case 'ycbcr': {
+      const { y, cb, cr } = rgbToYCbCr(r, g, b);
+      return [clampPixelValue(y), clampPixelValue(cb), clampPixelValue(cr)];
+    }
+    case 'lab': {
+      const lab = rgbToLab(r, g, b);
+      return [clampPixelValue(lab.l * 255 / 100), clampPixelValue(lab.a + 128), clampPixelValue(lab.b + 128)];
+    }
+    case 'rgb':
+    default:
+      return [r, g, b];
+  }
+};
+
+/**
+ * Inverse of `toChannelBytes`: decodes three channel bytes to RGB.
+ */
+export const fromChannelBytes = (c0: number, c1: number, c2: number, space: ColorSpace): [number, number, number] => {
+  let rgb: { r: number; g: number; b: number };
+  switch (space) {
+    case 'hsv':
+      rgb = hsvToRgb(c0 * 360 / 255, c1 / 255, c2 / 255);
+      break;
+    case 'hsl':
+      rgb = hslToRgb(c0 * 360 / 255, c1 / 255, c2 / 255);
+      break;
+    case 'ycbcr':
+      rgb = yCbCrToRgb(c0, c1, c2);
+      break;
+    case 'lab':
+      rgb = labToRgb(c0 * 100 / 255, c1 - 128, c2 - 128);
+      break;
+    case 'rgb':
+    default:
+      return [c0, c1, c2];
+  }
+  return [clampPixelValue(rgb.r), clampPixelValue(rgb.g), clampPixelValue(rgb.b)];
+};
+
+/** D65 reference white in XYZ */
+const D65 = [0.95047, 1, 1.08883];
+
+/** Hue in degrees from normalized channels, their maximum and chroma */
+const getHue = (r: number, g: number, b: number, max: number, chroma: number): number => {
+  if (chroma === 0) return 0;
+  let h: number;
+  if (max === r) h = ((g - b) / chroma) % 6;
+  else if (max === g) h = (b - r) / chroma + 2;
+  else h = (r - g) / chroma + 4;
+  return (h * 60 + 360) % 360;
+};
+
+/** RGB (0-255) from hue, chroma and the amount added to every channel */
+const fromHueChroma = (h: number, chroma: number, m: number): { r: number; g: number; b: number } => {
+  const sector = (((h % 360) + 360) % 360) / 60;
+  const x = chroma * (1 - Math.abs((sector % 2) - 1));
+  const [r, g, b] = [
+    [chroma, x, 0], [x, chroma, 0], [0, chroma, x],
+    [0, x, chroma], [x, 0, chroma], [chroma, 0, x],
+  ][Math.floor(sector) % 6];
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+};
+
+const srgbToLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const linearToSrgb = (c: number) =>
+  255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.max(0, c) ** (1 / 2.4) - 0.055);
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const labF = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+
+const labFInverse = (f: number) => (f ** 3 > LAB_EPSILON ? f ** 3 : (116 * f - 16) / LAB_KAPPA);
+
 // =============================================================================
 // COLOR MANIPULATION
 // =============================================================================
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Tests for custom kernel helpers and their URL encoding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAutoDivisor,
+  resolveDivisor,
+  resizeKernel,
+  createCustomAlgorithm,
+  encodeCustomKernel,
+  decodeCustomKernel,
+} from './customKernel';
+import type { CustomKernelSpec } from '../types';
+
+const BLUR: CustomKernelSpec = {
+  kernel: [[1, 2, 1], [2, 4, 2], [1, 2, 1]],
+  divisor: 'auto',
+  bias: 0,
+};
+
+describe('divisor', () => {
+  it('uses the weight sum, or 1 for zero-sum kernels', () => {
+    expect(getAutoDivisor(BLUR.kernel)).toBe(16);
+    expect(getAutoDivisor([[-1, 0, 1]])).toBe(1);
+    expect(getAutoDivisor([[-1, -1, -1]])).toBe(-3);
+  });
+
+  it('prefers a manual divisor', () => {
+    expect(resolveDivisor(BLUR)).toBe(16);
+    expect(resolveDivisor({ ...BLUR, divisor: 8 })).toBe(8);
+  });
+});
+
+describe('resizeKernel', () => {
+  it('grows around the center with zeros', () => {
+    expect(resizeKernel([[7]], 3, 3)).toEqual([[0, 0, 0], [0, 7, 0], [0, 0, 0]]);
+  });
+
+  it('shrinks to the central weights', () => {
+    const five = Array.from({ length: 5 }, (_, y) => Array.from({ length: 5 }, (_, x) => y * 5 + x));
+    expect(resizeKernel(five, 3, 1)).toEqual([[7], [12], [17]]);
+  });
+});
+
+describe('createCustomAlgorithm', () => {
+  it('resolves the divisor and shows the bias in the formula', () => {
+    const algo = createCustomAlgorithm({ ...BLUR, bias: -10 });
+    expect(algo.divisor).toBe(16);
+    expect(algo.bias).toBe(-10);
+    expect(algo.formula).toBe('Output = sum(weight × pixel) ÷ 16 − 10');
+  });
+});
+
+describe('URL encoding', () => {
+  it('round-trips specs', () => {
+    const specs: CustomKernelSpec[] = [
+      BLUR,
+      { kernel: [[0.5, -1.25, 0.5]], divisor: 3, bias: 128 },
+    ];
+    for (const spec of specs) {
+      expect(decodeCustomKernel(encodeCustomKernel(spec))).toEqual(spec);
+    }
+  });
+
+  it('produces a readable string', () => {
+    expect(encodeCustomKernel(BLUR)).toBe('3x3:1,2,1,2,4,2,1,2,1:auto:0');
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['3x3:1,2,3:auto:0', 'too few weights'],
+    ['2x2:1,1,1,1:auto:0', 'even size'],
+    ['11x1:1,1,1,1,1,1,1,1,1,1,1:auto:0', 'too large'],
+    ['1x3:1,x,1:auto:0', 'non-numeric weight'],
+    ['1x3:1,,1:auto:0', 'empty weight'],
+    ['1x3:1,1,1:0:0', 'zero divisor'],
+    ['1x3:1,1,1:auto:NaN', 'non-numeric bias'],
+  ])('rejects %j (%s)', (text) => {
+    expect(decodeCustomKernel(text)).toBeNull();
+  });
+});
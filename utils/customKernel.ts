@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Helpers for learner-defined kernels in the CNN lab.
+ *
+ * Covers the automatic divisor, resizing the editable grid, turning a
+ * spec into an `AlgorithmInfo` the lab can apply, and the compact text
+ * form used to share a kernel through the URL.
+ */
+
+import type { AlgorithmInfo, CustomKernelSpec, Kernel } from '../types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Query parameter holding an encoded custom kernel */
+export const CUSTOM_KERNEL_PARAM = 'kernel';
+
+/** Display name of the algorithm built from a custom kernel */
+export const CUSTOM_KERNEL_NAME = 'Custom Kernel';
+
+/** Largest kernel side the editor and URL decoder accept */
+export const MAX_KERNEL_SIZE = 9;
+
+// =============================================================================
+// DIVISOR & SHAPE
+// =============================================================================
+
+/**
+ * Divisor that keeps overall brightness unchanged: the sum of the weights.
+ * Kernels summing to zero (edge detectors) fall back to 1.
+ *
+ * @example
+ * getAutoDivisor([[1, 2, 1], [2, 4, 2], [1, 2, 1]]) // 16
+ * getAutoDivisor([[-1, 0, 1], [-2, 0, 2], [-1, 0, 1]]) // 1
+ */
+export const getAutoDivisor = (kernel: Kernel): number => {
+  const sum = kernel.flat().reduce((a, b) => a + b, 0);
+  return Math.abs(sum) < 1e-9 ? 1 : sum;
+};
+
+/**
+ * Divisor a spec actually applies.
+ */
+export const resolveDivisor = (spec: CustomKernelSpec): number => {
+  return spec.divisor === 'auto' ? getAutoDivisor(spec.kernel) : spec.divisor;
+};
+
+/**
+ * Resizes a kernel around its center. Weights that still fit keep their
+ * offset from the center; new cells are zero.
+ */
+export const resizeKernel = (kernel: Kernel, rows: number, cols: number): Kernel => {
+  const oldRows = kernel.length;
+  const oldCols = kernel[0]?.length ?? 0;
+  const dy = (oldRows - rows) / 2;
+  const dx = (oldCols - cols) / 2;
+
+  return Array.from({ length: rows }, (_, y) =>
+    Array.from({ length: cols }, (_, x) => kernel[y + dy]?.[x + dx] ?? 0)
+  );
+};
+
+// =============================================================================
+// ALGORITHM
+// =============================================================================
+
+/**
+ * Wraps a custom kernel in the AlgorithmInfo shape used by the lab panels.
+ */
+export const createCustomAlgorithm = (spec: CustomKernelSpec): AlgorithmInfo => {
+  const divisor = resolveDivisor(spec);
+  const rows = spec.kernel.length;
+  const cols = spec.kernel[0]?.length ?? 0;
+  const biasText = spec.bias ? ` ${spec.bias > 0 ? '+' : '−'} ${Math.abs(spec.bias)}` : '';
+
+  return {
+    name: CUSTOM_KERNEL_NAME,
+    description: `Your own ${rows}×${cols} kernel`,
+    kernel: spec.kernel,
+    divisor,
+    bias: spec.bias,
+    learn: 'Every weight says how much of that neighbor flows into the output. Change one and watch the matrix respond.',
+    formula: `Output = sum(weight × pixel) ÷ ${divisor}${biasText}`,
+    deepDive: {
+      whatItDoes: 'Whatever you design! Positive weights add a neighbor in, negative weights subtract it, and zero ignores it.',
+      howItWorks: 'The kernel is centered on each pixel, every weight is multiplied by the pixel beneath it, and the products are summed. The sum is divided by the divisor, the bias is added, and the result is clamped to 0-255.',
+      mathExplained: `With these settings: output = (Σ weight × pixel) ÷ ${divisor}${biasText}. Weights summing to the divisor keep brightness unchanged; summing to zero turns flat areas black (plus the bias).`,
+      realWorld: [
+        'Prototyping filters before hard-coding them',
+        'Understanding what a CNN layer has learned by reading its weights',
+      ],
+      funFact: 'The first layer of a trained CNN learns kernels that look a lot like the presets here - blurs, edge detectors and color blobs - without ever being told to.',
+    },
+  };
+};
+
+// =============================================================================
+// URL ENCODING
+// =============================================================================
+
+/**
+ * Encodes a spec as `ROWSxCOLS:w1,w2,...:DIVISOR:BIAS`.
+ *
+ * @example
+ * encodeCustomKernel({ kernel: [[0, 1, 0]], divisor: 'auto', bias: 0 })
+ * // '1x3:0,1,0:auto:0'
+ */
+export const encodeCustomKernel = (spec: CustomKernelSpec): string => {
+  const rows = spec.kernel.length;
+  const cols = spec.kernel[0]?.length ?? 0;
+  return `${rows}x${cols}:${spec.kernel.flat().join(',')}:${spec.divisor}:${spec.bias}`;
+};
+
+/**
+ * Parses the output of `encodeCustomKernel`.
+ *
+ * @returns The spec, or null if the text is malformed, the sides are not
+ * odd numbers up to MAX_KERNEL_SIZE, or any number is not finite
+ */
+export const decodeCustomKernel = (text: string): CustomKernelSpec | null => {
+  const match = /^(\d+)x(\d+):([^:]*):([^:]+):([^:]+)$/.exec(text.trim());
+  if (!match) return null;
+
+  const rows = Number(match[1]);
+  const cols = Number(match[2]);
+  const validSide = (n: number) => n % 2 === 1 && n <= MAX_KERNEL_SIZE;
+  if (!validSide(rows) || !validSide(cols)) return null;
+
+  // Number('') is 0, so an empty field would otherwise load as a zero weight
+  const weights = match[3].split(',').map(field => (field.trim() === '' ? NaN : Number(field)));
+  if (weights.length !== rows * cols || !weights.every(Number.isFinite)) return null;
+
+  const divisor = match[4] === 'auto' ? 'auto' : Number(match[4]);
+  if (divisor !== 'auto' && (!Number.isFinite(divisor) || divisor === 0)) return null;
+
+  const bias = Number(match[5]);
+  if (!Number.isFinite(bias)) return null;
+
+  const kernel = Array.from({ length: rows }, (_, y) => weights.slice(y * cols, (y + 1) * cols));
+  return { kernel, divisor, bias };
+};
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Tests for symbolic differentiation and simplification.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseExpression, formatExpression, evaluate } from './expression';
+import { differentiate, simplify, finiteDifference } from './derivative';
+
+const derivativeOf = (source: string, name = 'x') =>
+  formatExpression(differentiate(parseExpression(source, ['x', 'y']), name));
+
+describe('simplify', () => {
+  it.each([
+    ['0 + x*1', 'x'],
+    ['x^1 + 0*y', 'x'],
+    ['2x + x - 3x', '0'],
+    ['x*x*x', 'x^3'],
+    ['x*3', '3x'],
+    ['--x', 'x'],
+    ['x*y + 2y*x', '3x*y'],
+    ['4x/2', '2x'],
+    ['1/3', '1/3'],
+    ['2/4', '1/2'],
+    ['2x/(-4)', '-x/2'],
+    ['(x^2)^3', 'x^6'],
+    ['(x^4)^0.5', 'x^2'],
+    ['(x^2)^0.5', '(x^2)^0.5'],
+  ])('simplifies %s to %s', (source, expected) => {
+    expect(formatExpression(simplify(parseExpression(source, ['x', 'y'])))).toBe(expected);
+  });
+});
+
+describe('differentiate', () => {
+  it.each([
+    ['x^3 + sin(2x)', '3x^2 + 2cos(2x)'],
+    ['-x^2 + 4x', '-2x + 4'],
+    ['(x - 1)^2', '2(x - 1)'],
+    ['1/x', '-1/x^2'],
+    ['ln(x)/x', '(1 - ln(x))/x^2'],
+    ['sqrt(x^2 + 1)', 'x/sqrt(x^2 + 1)'],
+    ['2^x', '2^x*ln(2)'],
+    ['x^x', 'x^x*(ln(x) + 1)'],
+    ['sin(x)^2 + cos(x)^2', '0'],
+    ['-x/(-2)', '1/2'],
+    ['1e-7*x^2', '2e-7*x'],
+  ])('d/dx %s = %s', (source, expected) => {
+    expect(derivativeOf(source)).toBe(expected);
+  });
+
+  it('holds other variables constant for a partial derivative', () => {
+    expect(derivativeOf('x^2*y + 3x*y^2', 'x')).toBe('2x*y + 3y^2');
+    expect(derivativeOf('x^2*y + 3x*y^2', 'y')).toBe('x^2 + 6x*y');
+  });
+
+  it.each(['exp(-x^2)', 'tan(x)*x', 'sigmoid(3x - 1)', 'tanh(x)^2', 'abs(x - 2)', 'x^2.5/(1 + x)'])(
+    'agrees with the finite difference for %s',
+    source => {
+      const expr = parseExpression(source);
+      const derivative = differentiate(expr, 'x');
+      for (const x of [0.4, 1.3, 3.1]) {
+        expect(evaluate(derivative, { x })).toBeCloseTo(finiteDifference(expr, 'x', { x }), 5);
+      }
+    }
+  );
+});
+
+describe('finiteDifference', () => {
+  it('steps one variable and holds the others', () => {
+    const expr = parseExpression('x^2*y', ['x', 'y']);
+    expect(finiteDifference(expr, 'y', { x: 3, y: 5 })).toBeCloseTo(9, 6);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Symbolic differentiation and simplification of parsed
+ * expressions, with a finite-difference check.
+ *
+ * `differentiate` applies the textbook rules (sum, product, quotient,
+ * power and chain) literally, which leaves results like `2*x^1*1 + 0`.
+ * `simplify` then rewrites them into what a learner would write by hand.
+ */
+
+import { binary, call, dependsOn, evaluate, exprEquals, formatExpression, neg, num } from './expression';
+import type { Expr, FunctionName, Scope } from './expression';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Step used by the central difference */
+export const FINITE_DIFFERENCE_STEP = 1e-5;
+
+/** Upper bound on simplification passes; each pass only shrinks the tree */
+const MAX_SIMPLIFY_PASSES = 20;
+
+/**
+ * Derivative of each function with respect to its argument `u`; the chain
+ * rule multiplies by du/dx.
+ */
+const FUNCTION_DERIVATIVES: Record<FunctionName, (u: Expr) => Expr> = {
+  sin: u => call('cos', u),
+  cos: u => neg(call('sin', u)),
+  tan: u => binary('/', num(1), binary('^', call('cos', u), num(2))),
+  exp: u => call('exp', u),
+  ln: u => binary('/', num(1), u),
+  sqrt: u => binary('/', num(1), binary('*', num(2), call('sqrt', u))),
+  abs: u => call('sign', u),
+  sign: () => num(0),
+  tanh: u => binary('-', num(1), binary('^', call('tanh', u), num(2))),
+  sigmoid: u => binary('*', call('sigmoid', u), binary('-', num(1), call('sigmoid', u))),
+};
+
+// =============================================================================
+// SIMPLIFICATION
+// =============================================================================
+
+const isNum = (expr: Expr): expr is Extract<Expr, { type: 'num' }> => expr.type === 'num';
+
+/** Not a type guard, so a false result does not rule out other numbers */
+const isConstant = (expr: Expr, value: number): boolean => expr.type === 'num' && expr.value === value;
+
+/** Folds a constant only when the result stays exact, so `1/3` is kept as a fraction */
+const foldable = (value: number) => Number.isInteger(value) && Math.abs(value) < 1e12;
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? Math.abs(a) : greatestCommonDivisor(b, a % b);
+
+const isEven = (value: number) => value % 2 === 0;
+
+/**
+ * Splits `3*x` into [3, x], `-x` into [-1, x] and `(2x)*y` into [2, x*y] so
+ * coefficients can be collected; a bare number is its own coefficient.
+ */
+const splitCoefficient = (expr: Expr): [number, Expr] => {
+  if (expr.type === 'num') return [expr.value, num(1)];
+  if (expr.type === 'neg') {
+    const [c, rest] = splitCoefficient(expr.arg);
+    return [-c, rest];
+  }
+  if (expr.type === 'binary' && expr.op === '*') {
+    const [c, rest] = splitCoefficient(expr.left);
+    if (isConstant(rest, 1)) {
+      const [c2, rest2] = splitCoefficient(expr.right);
+      return [c * c2, rest2];
+    }
+    if (c !== 1) return [c, binary('*', rest, expr.right)];
+  }
+  return [1, expr];
+};
+
+/** Factors of a product, in any order */
+const factorsOf = (expr: Expr): Expr[] =>
+  expr.type === 'binary' && expr.op === '*' ? [...factorsOf(expr.left), ...factorsOf(expr.right)] : [expr];
+
+/** Whether two terms differ only in the order of their factors, as `x*y` and `y*x` */
+const isSameTerm = (a: Expr, b: Expr): boolean => {
+  const key = (expr: Expr) => factorsOf(expr).map(formatExpression).sort().join('*');
+  return exprEquals(a, b) || key(a) === key(b);
+};
+
+const withCoefficient = (c: number, rest: Expr): Expr => {
+  if (c === 0) return num(0);
+  if (c === 1) return rest;
+  if (c === -1) return neg(rest);
+  return c < 0 ? neg(binary('*', num(-c), rest)) : binary('*', num(c), rest);
+};
+
+/** Splits `x^3` into [x, 3] and `x` into [x, 1] so powers of one base can be merged */
+const splitPower = (expr: Expr): [Expr, Expr] =>
+  expr.type === 'binary' && expr.op === '^' ? [expr.left, expr.right] : [expr, num(1)];
+
+const simplifySum = (op: '+' | '-', left: Expr, right: Expr): Expr => {
+  const sign = op === '+' ? 1 : -1;
+  if (isNum(left) && isNum(right)) return num(left.value + sign * right.value);
+  if (isConstant(right, 0)) return left;
+  if (isConstant(left, 0)) return op === '+' ? right : neg(right);
+
+  // a + -b → a - b, a - -b → a + b
+  if (right.type === 'neg') return binary(op === '+' ? '-' : '+', left, right.arg);
+  if (isNum(right) && right.value < 0) return binary(op === '+' ? '-' : '+', left, num(-right.value));
+
+  const [c1, rest1] = splitCoefficient(left);
+  const [c2, rest2] = splitCoefficient(right);
+  if (isSameTerm(rest1, rest2)) return withCoefficient(c1 + sign * c2, rest1);
+
+  return binary(op, left, right);
+};
+
+const simplifyProduct = (left: Expr, right: Expr): Expr => {
+  if (isNum(left) && isNum(right)) return num(left.value * right.value);
+  if (isConstant(left, 0) || isConstant(right, 0)) return num(0);
+  if (isConstant(left, 1)) return right;
+  if (isConstant(right, 1)) return left;
+
+  // Signs move outward, constants to the front and quotients to the top
+  if (left.type === 'neg') return neg(binary('*', left.arg, right));
+  if (right.type === 'neg') return neg(binary('*', left, right.arg));
+  if (left.type === 'binary' && left.op === '/') return binary('/', binary('*', left.left, right), left.right);
+  if (right.type === 'binary' && right.op === '/') return binary('/', binary('*', left, right.left), right.right);
+
+  const [c1, rest1] = splitCoefficient(left);
+  const [c2, rest2] = splitCoefficient(right);
+  if (!(isNum(left) && c2 === 1) && (c1 !== 1 || c2 !== 1)) {
+    return withCoefficient(c1 * c2, binary('*', rest1, rest2));
+  }
+
+  // x^a * x^b → x^(a + b)
+  const [base1, exp1] = splitPower(left);
+  const [base2, exp2] = splitPower(right);
+  if (exprEquals(base1, base2)) return binary('^', base1, binary('+', exp1, exp2));
+
+  return binary('*', left, right);
+};
+
+const simplifyQuotient = (left: Expr, right: Expr): Expr => {
+  if (isNum(left) && isNum(right) && right.value !== 0 && foldable(left.value / right.value)) {
+    return num(left.value / right.value);
+  }
+  if (isConstant(right, 1)) return left;
+  if (isConstant(left, 0) && !isConstant(right, 0)) return num(0);
+  if (exprEquals(left, right) && !isConstant(left, 0)) return num(1);
+
+  // Cancel a shared integer factor and keep the denominator's coefficient
+  // positive, as in 4x/(2y) → 2x/y and 2/(-4) → -1/2
+  const [cn, restN] = splitCoefficient(left);
+  const [cd, restD] = splitCoefficient(right);
+  if (Number.isInteger(cn) && Number.isInteger(cd) && cd !== 0) {
+    const divisor = greatestCommonDivisor(cn, cd) * Math.sign(cd);
+    if (divisor !== 1) {
+      const numerator = withCoefficient(cn / divisor, restN);
+      const denominator = withCoefficient(cd / divisor, restD);
+      return isConstant(denominator, 1) ? numerator : binary('/', numerator, denominator);
+    }
+  }
+
+  if (left.type === 'neg') return neg(binary('/', left.arg, right));
+  if (right.type === 'neg') return neg(binary('/', left, right.arg));
+  return binary('/', left, right);
+};
+
+const simplifyPower = (base: Expr, exponent: Expr): Expr => {
+  if (isNum(base) && isNum(exponent) && foldable(base.value ** exponent.value)) {
+    return num(base.value ** exponent.value);
+  }
+  if (isConstant(exponent, 0)) return num(1);
+  if (isConstant(exponent, 1)) return base;
+  if (isConstant(base, 1)) return num(1);
+  if (isConstant(base, 0) && isNum(exponent) && exponent.value > 0) return num(0);
+  // (x^a)^b → x^(a*b) for constant exponents, unless an even power drops the
+  // sign of x that a fractional b cannot bring back: (x^2)^0.5 is |x|, not x
+  if (
+    base.type === 'binary' && base.op === '^' && isNum(base.right) && isNum(exponent) &&
+    (Number.isInteger(exponent.value) || !isEven(base.right.value) || isEven(base.right.value * exponent.value))
+  ) {
+    return binary('^', base.left, num(base.right.value * exponent.value));
+  }
+  return binary('^', base, exponent);
+};
+
+const simplifyOnce = (expr: Expr): Expr => {
+  switch (expr.type) {
+    case 'num':
+    case 'var':
+      return expr;
+    case 'neg': {
+      const arg = simplifyOnce(expr.arg);
+      if (isNum(arg)) return num(-arg.value);
+      if (arg.type === 'neg') return arg.arg;
+      return neg(arg);
+    }
+    case 'call': {
+      const arg = simplifyOnce(expr.arg);
+      if (isNum(arg)) {
+        const value = evaluate(call(expr.fn, arg), {});
+        if (foldable(value)) return num(value);
+      }
+      return call(expr.fn, arg);
+    }
+    case 'binary': {
+      const left = simplifyOnce(expr.left);
+      const right = simplifyOnce(expr.right);
+      switch (expr.op) {
+        case '+':
+        case '-':
+          return simplifySum(expr.op, left, right);
+        case '*':
+          return simplifyProduct(left, right);
+        case '/':
+          return simplifyQuotient(left, right);
+        case '^':
+          return simplifyPower(left, right);
+      }
+    }
+  }
+};
+
+/**
+ * Rewrites an expression into a simpler equivalent: folds constants,
+ * drops `+ 0`, `* 1` and `^ 1`, moves signs and coefficients outward,
+ * and combines like terms (`2x + x` → `3x`) and powers (`x * x` → `x^2`).
+ * Non-integer constants are left unevaluated so results stay exact.
+ */
+export const simplify = (expr: Expr): Expr => {
+  let current = expr;
+  for (let pass = 0; pass < MAX_SIMPLIFY_PASSES; pass++) {
+    const next = simplifyOnce(current);
+    if (exprEquals(next, current)) break;
+    current = next;
+  }
+  return current;
+};
+
+// =============================================================================
+// DIFFERENTIATION
+// =============================================================================
+
+const differentiateRaw = (expr: Expr, name: string): Expr => {
+  switch (expr.type) {
+    case 'num':
+      return num(0);
+    case 'var':
+      return num(expr.name === name ? 1 : 0);
+    case 'neg':
+      return neg(differentiateRaw(expr.arg, name));
+    case 'call':
+      // Chain rule: f(u)' = f'(u) * u'
+      return binary('*', FUNCTION_DERIVATIVES[expr.fn](expr.arg), differentiateRaw(expr.arg, name));
+    case 'binary': {
+      const { left: u, right: v } = expr;
+      const du = differentiateRaw(u, name);
+      const dv = differentiateRaw(v, name);
+      switch (expr.op) {
+        case '+':
+        case '-':
+          return binary(expr.op, du, dv);
+        case '*':
+          return binary('+', binary('*', du, v), binary('*', u, dv));
+        case '/':
+          return binary('/', binary('-', binary('*', du, v), binary('*', u, dv)), binary('^', v, num(2)));
+        case '^':
+          // Power rule when only the base varies
+          if (!dependsOn(v, name)) {
+            return binary('*', binary('*', v, binary('^', u, binary('-', v, num(1)))), du);
+          }
+          // a^v = e^(v ln a) when only the exponent varies
+          if (!dependsOn(u, name)) {
+            return binary('*', binary('*', expr, call('ln', u)), dv);
+          }
+          // General case: (u^v)' = u^v * (v' ln u + v u' / u)
+          return binary('*', expr, binary('+', binary('*', dv, call('ln', u)), binary('/', binary('*', v, du), u)));
+      }
+    }
+  }
+};
+
+/**
+ * Symbolic derivative with respect to one variable; any other variable is
+ * held constant, giving a partial derivative.
+ *
+ * @example
+ * formatExpression(differentiate(parseExpression('x^3 + sin(2x)'), 'x')) // '3x^2 + 2cos(2x)'
+ */
+export const differentiate = (expr: Expr, name: string): Expr => simplify(differentiateRaw(expr, name));
+
+/**
+ * Central finite difference (f(a + h) - f(a - h)) / 2h along one variable,
+ * with the other variables held at their values in `scope`.
+ */
+export const finiteDifference = (
+  expr: Expr,
+  name: string,
+  scope: Scope,
+  step: number = FINITE_DIFFERENCE_STEP
+): number => {
+  const at = (offset: number) => evaluate(expr, { ...scope, [name]: scope[name] + offset });
+  return (at(step) - at(-step)) / (2 * step);
+};
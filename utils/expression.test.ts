@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Tests for the expression parser, evaluator and printer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseExpression, evaluate, compileExpression, formatExpression, substitute, dependsOn } from './expression';
+
+const valueOf = (source: string, scope: Record<string, number> = {}, variables?: string[]) =>
+  evaluate(parseExpression(source, variables), scope);
+
+describe('parseExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['2^3^2', 512],
+    ['-2^2', -4],
+    ['2^-1', 0.5],
+    ['8 / 4 / 2', 1],
+    ['1.5e2', 150],
+    ['2pi', 2 * Math.PI],
+  ])('evaluates %s with the usual precedence', (source, expected) => {
+    expect(valueOf(source)).toBeCloseTo(expected);
+  });
+
+  it('reads implicit multiplication', () => {
+    expect(valueOf('3x^2 + 2(x + 1)', { x: 2 })).toBe(18);
+    expect(valueOf('2sin(x)cos(x)', { x: 0.3 })).toBeCloseTo(Math.sin(0.6));
+  });
+
+  it('splits a run of variable letters into a product', () => {
+    expect(valueOf('3xy^2', { x: 2, y: 3 }, ['x', 'y'])).toBe(54);
+  });
+
+  it('accepts log as the natural logarithm', () => {
+    expect(valueOf('log(e^2)')).toBeCloseTo(2);
+  });
+
+  it('reports unknown names and where they are', () => {
+    expect(() => parseExpression('x + y')).toThrow("Unknown name 'y' at position 5");
+  });
+
+  it.each([
+    ['x +', 'Unexpected end of input'],
+    ['(x + 1', "Expected ')'"],
+    ['x + 1)', "Unexpected ')' at position 6"],
+    ['sin x', "Expected '(' after sin"],
+    ['x $ 2', "Unexpected '$' at position 3"],
+    ['', 'Type a function'],
+  ])('rejects %j', (source, message) => {
+    expect(() => parseExpression(source)).toThrow(message);
+  });
+});
+
+describe('evaluate', () => {
+  it('follows Math at points where a function is undefined', () => {
+    expect(valueOf('ln(x)', { x: -1 })).toBeNaN();
+    expect(valueOf('1/x', { x: 0 })).toBe(Infinity);
+  });
+
+  it('throws for a variable without a value', () => {
+    expect(() => valueOf('x')).toThrow('No value for x');
+  });
+});
+
+describe('compileExpression', () => {
+  it('matches evaluate, taking variables in the given order', () => {
+    const expr = parseExpression('x^2*y - sin(y)/x', ['x', 'y']);
+    const f = compileExpression(expr, ['y', 'x']);
+    expect(f(1.5, 0.8)).toBeCloseTo(evaluate(expr, { x: 0.8, y: 1.5 }));
+  });
+
+  it('rejects a variable it was not given', () => {
+    expect(() => compileExpression(parseExpression('x + y', ['x', 'y']), ['x'])).toThrow('No value for y');
+  });
+});
+
+describe('formatExpression', () => {
+  it.each([
+    ['3*x^2 + 2*x - 1', '3x^2 + 2x - 1'],
+    ['(x + 1)*(x - 1)', '(x + 1)*(x - 1)'],
+    ['x - (y - 1)', 'x - (y - 1)'],
+    ['(-x)^2', '(-x)^2'],
+    ['2*(x + 1)', '2(x + 1)'],
+    ['pi*x', 'pi*x'],
+    ['0.1234567*x', '0.123457x'],
+    ['0.0000001*x', '1e-7*x'],
+    ['0.00002345678', '0.0000234568'],
+  ])('prints %s as %s', (source, expected) => {
+    expect(formatExpression(parseExpression(source, ['x', 'y']))).toBe(expected);
+  });
+
+  it('prints text that parses back to the same values', () => {
+    for (const source of ['x/(2x)', '2^x^2', '-(x - 1)*3', 'sin(x)^2/(1 - x)', 'x - -x', '3e-9*x^2']) {
+      const reparsed = parseExpression(formatExpression(parseExpression(source)));
+      expect(evaluate(reparsed, { x: 0.7 })).toBeCloseTo(valueOf(source, { x: 0.7 }));
+    }
+  });
+});
+
+describe('substitute', () => {
+  it('composes one expression into another', () => {
+    const composed = substitute(parseExpression('sin(x)'), 'x', parseExpression('x^2'));
+    expect(formatExpression(composed)).toBe('sin(x^2)');
+    expect(dependsOn(composed, 'x')).toBe(true);
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * @fileoverview A small math-expression language for the calculus visuals.
+ *
+ * Learners type functions such as `x^2 - 3x + sin(x)` or `x^2*y + 3x*y^2`.
+ * They are parsed into a tree that can be evaluated at any point, printed
+ * back as text, and differentiated symbolically by `derivative.ts`.
+ *
+ * Supported: numbers, the variables passed to the parser, `pi` and `e`,
+ * `+ - * / ^` with the usual precedence (`^` is right-associative and
+ * binds tighter than unary minus, so `-x^2` is `-(x^2)`), implicit
+ * multiplication (`2x`, `3(x + 1)`, `xy`), and the functions in
+ * `FUNCTION_NAMES`.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Built-in functions of one argument */
+export type FunctionName = 'sin' | 'cos' | 'tan' | 'exp' | 'ln' | 'sqrt' | 'abs' | 'sign' | 'tanh' | 'sigmoid';
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+/**
+ * A parsed expression.
+ */
+export type Expr =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: Expr }
+  | { type: 'binary'; op: BinaryOperator; left: Expr; right: Expr }
+  | { type: 'call'; fn: FunctionName; arg: Expr };
+
+/** Values of the variables an expression is evaluated at */
+export type Scope = Record<string, number>;
+
+type Token =
+  | { kind: 'num'; value: number; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'op'; value: BinaryOperator | '(' | ')'; pos: number };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const FUNCTION_NAMES: FunctionName[] = ['sin', 'cos', 'tan', 'exp', 'ln', 'sqrt', 'abs', 'sign', 'tanh', 'sigmoid'];
+
+/** Alternative spellings accepted by the parser */
+const FUNCTION_ALIASES: Record<string, FunctionName> = { log: 'ln' };
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<FunctionName, (v: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sign: Math.sign,
+  tanh: Math.tanh,
+  sigmoid: v => 1 / (1 + Math.exp(-v)),
+};
+
+/** Binding strength of each operator, used when printing */
+const PRECEDENCE: Record<BinaryOperator, number> = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 };
+const NEG_PRECEDENCE = 3;
+
+// =============================================================================
+// CONSTRUCTORS
+// =============================================================================
+
+export const num = (value: number): Expr => ({ type: 'num', value });
+export const variable = (name: string): Expr => ({ type: 'var', name });
+export const neg = (arg: Expr): Expr => ({ type: 'neg', arg });
+export const binary = (op: BinaryOperator, left: Expr, right: Expr): Expr => ({ type: 'binary', op, left, right });
+export const call = (fn: FunctionName, arg: Expr): Expr => ({ type: 'call', fn, arg });
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const isFunctionName = (name: string): name is FunctionName => (FUNCTION_NAMES as string[]).includes(name);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[\d.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected '${ch}' at position ${i + 1}`);
+      tokens.push({ kind: 'num', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+    } else if (/[a-z]/i.test(ch)) {
+      const word = /^[a-z]+/i.exec(source.slice(i))![0];
+      tokens.push({ kind: 'name', value: word.toLowerCase(), pos: i });
+      i += word.length;
+    } else if ('+-*/^()'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch as BinaryOperator | '(' | ')', pos: i });
+      i++;
+    } else {
+      throw new Error(`Unexpected '${ch}' at position ${i + 1}`);
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Parses an expression.
+ *
+ * @param source - Text such as `3x^2 + sin(x)`
+ * @param variables - Names allowed as variables (default: `['x']`)
+ * @throws Error describing the first problem, with its position
+ *
+ * @example
+ * evaluate(parseExpression('x^2 + 2x'), { x: 3 }) // 15
+ */
+export const parseExpression = (source: string, variables: string[] = ['x']): Expr => {
+  // A word that is not a function or constant may be several variables
+  // written together, as in `xy`; each becomes its own token so that
+  // `xy^2` reads as x*y^2
+  const isKnownName = (word: string) =>
+    word in FUNCTION_ALIASES || isFunctionName(word) || word in CONSTANTS || variables.includes(word);
+  const tokens = tokenize(source).flatMap((token): Token[] =>
+    token.kind === 'name' && !isKnownName(token.value) && [...token.value].every(c => variables.includes(c))
+      ? [...token.value].map((c, i) => ({ kind: 'name', value: c, pos: token.pos + i }))
+      : [token]
+  );
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (token: Token | undefined, value: string) => token?.kind === 'op' && token.value === value;
+  const describe = (token: Token | undefined) =>
+    token ? `'${token.value}' at position ${token.pos + 1}` : 'end of input';
+
+  const parseName = (token: Extract<Token, { kind: 'name' }>): Expr => {
+    const name = FUNCTION_ALIASES[token.value] ?? token.value;
+    if (isFunctionName(name)) {
+      if (!isOp(peek(), '(')) throw new Error(`Expected '(' after ${name} at position ${token.pos + name.length + 1}`);
+      index++;
+      const arg = parseSum();
+      expectClose();
+      return call(name, arg);
+    }
+    if (variables.includes(name)) return variable(name);
+    if (name in CONSTANTS) return num(CONSTANTS[name]);
+    throw new Error(`Unknown name '${token.value}' at position ${token.pos + 1}; use ${variables.join(', ')} or a function such as sin(x)`);
+  };
+
+  const expectClose = () => {
+    if (!isOp(peek(), ')')) throw new Error(`Expected ')' but found ${describe(peek())}`);
+    index++;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of input');
+    index++;
+    if (token.kind === 'num') return num(token.value);
+    if (token.kind === 'name') return parseName(token);
+    if (token.value === '(') {
+      const inner = parseSum();
+      expectClose();
+      return inner;
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  const parsePower = (): Expr => {
+    const base = parsePrimary();
+    if (!isOp(peek(), '^')) return base;
+    index++;
+    return binary('^', base, parseUnary());
+  };
+
+  const parseUnary = (): Expr => {
+    if (isOp(peek(), '-')) {
+      index++;
+      return neg(parseUnary());
+    }
+    if (isOp(peek(), '+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const startsPrimary = (token: Token | undefined) =>
+    !!token && (token.kind !== 'op' || token.value === '(');
+
+  const parseProduct = (): Expr => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (isOp(token, '*') || isOp(token, '/')) {
+        index++;
+        left = binary(token!.value as '*' | '/', left, parseUnary());
+      } else if (startsPrimary(token)) {
+        left = binary('*', left, parsePower());
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (isOp(peek(), '+') || isOp(peek(), '-')) {
+      const op = peek()!.value as '+' | '-';
+      index++;
+      left = binary(op, left, parseProduct());
+    }
+    return left;
+  };
+
+  if (!tokens.length) throw new Error('Type a function, for example x^2');
+  const expr = parseSum();
+  if (index < tokens.length) throw new Error(`Unexpected ${describe(peek())}`);
+  return expr;
+};
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Value of a built-in function.
+ */
+export const applyFunction = (fn: FunctionName, value: number): number => FUNCTIONS[fn](value);
+
+/**
+ * Value of an expression at a point. Returns NaN or ±Infinity where the
+ * function is undefined, as the built-in Math functions do.
+ *
+ * @throws Error if a variable has no value in `scope`
+ */
+export const evaluate = (expr: Expr, scope: Scope): number => {
+  switch (expr.type) {
+    case 'num':
+      return expr.value;
+    case 'var': {
+      const value = scope[expr.name];
+      if (value === undefined) throw new Error(`No value for ${expr.name}`);
+      return value;
+    }
+    case 'neg':
+      return -evaluate(expr.arg, scope);
+    case 'call':
+      return FUNCTIONS[expr.fn](evaluate(expr.arg, scope));
+    case 'binary': {
+      const a = evaluate(expr.left, scope);
+      const b = evaluate(expr.right, scope);
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return a ** b;
+      }
+    }
+  }
+};
+
+/**
+ * Turns an expression into a plain function of its variables, in the
+ * order given. Much faster than `evaluate` when the same expression is
+ * sampled many times, as when drawing a contour plot.
+ *
+ * @throws Error if the expression uses a variable not in `variables`
+ *
+ * @example
+ * const f = compileExpression(parseExpression('x^2 + y', ['x', 'y']), ['x', 'y']);
+ * f(2, 1) // 5
+ */
+export const compileExpression = (expr: Expr, variables: string[]): ((...args: number[]) => number) => {
+  const build = (node: Expr): ((args: number[]) => number) => {
+    switch (node.type) {
+      case 'num': {
+        const { value } = node;
+        return () => value;
+      }
+      case 'var': {
+        const index = variables.indexOf(node.name);
+        if (index < 0) throw new Error(`No value for ${node.name}`);
+        return args => args[index];
+      }
+      case 'neg': {
+        const arg = build(node.arg);
+        return args => -arg(args);
+      }
+      case 'call': {
+        const fn = FUNCTIONS[node.fn];
+        const arg = build(node.arg);
+        return args => fn(arg(args));
+      }
+      case 'binary': {
+        const a = build(node.left);
+        const b = build(node.right);
+        switch (node.op) {
+          case '+': return args => a(args) + b(args);
+          case '-': return args => a(args) - b(args);
+          case '*': return args => a(args) * b(args);
+          case '/': return args => a(args) / b(args);
+          case '^': return args => a(args) ** b(args);
+        }
+      }
+    }
+  };
+  const compiled = build(expr);
+  return (...args) => compiled(args);
+};
+
+/**
+ * True if the expression mentions the variable anywhere.
+ */
+export const dependsOn = (expr: Expr, name: string): boolean => {
+  switch (expr.type) {
+    case 'num':
+      return false;
+    case 'var':
+      return expr.name === name;
+    case 'neg':
+    case 'call':
+      return dependsOn(expr.arg, name);
+    case 'binary':
+      return dependsOn(expr.left, name) || dependsOn(expr.right, name);
+  }
+};
+
+/**
+ * Replaces every occurrence of a variable with another expression, as in
+ * composing f(g(x)).
+ */
+export const substitute = (expr: Expr, name: string, replacement: Expr): Expr => {
+  switch (expr.type) {
+    case 'num':
+      return expr;
+    case 'var':
+      return expr.name === name ? replacement : expr;
+    case 'neg':
+      return neg(substitute(expr.arg, name, replacement));
+    case 'call':
+      return call(expr.fn, substitute(expr.arg, name, replacement));
+    case 'binary':
+      return binary(expr.op, substitute(expr.left, name, replacement), substitute(expr.right, name, replacement));
+  }
+};
+
+/**
+ * Structural equality of two expressions.
+ */
+export const exprEquals = (a: Expr, b: Expr): boolean => {
+  switch (a.type) {
+    case 'num':
+      return b.type === 'num' && a.value === b.value;
+    case 'var':
+      return b.type === 'var' && a.name === b.name;
+    case 'neg':
+      return b.type === 'neg' && exprEquals(a.arg, b.arg);
+    case 'call':
+      return b.type === 'call' && a.fn === b.fn && exprEquals(a.arg, b.arg);
+    case 'binary':
+      return b.type === 'binary' && a.op === b.op && exprEquals(a.left, b.left) && exprEquals(a.right, b.right);
+  }
+};
+
+// =============================================================================
+// PRINTING
+// =============================================================================
+
+const formatNumber = (value: number): string => {
+  if (value === Math.PI) return 'pi';
+  if (value === Math.E) return 'e';
+  if (Number.isInteger(value)) return String(value);
+  // Six decimals would round small coefficients such as 1e-7 to 0
+  const rounded = Math.abs(value) < 1e-4 ? value.toPrecision(6) : value.toFixed(6);
+  return String(parseFloat(rounded));
+};
+
+const precedenceOf = (expr: Expr): number => {
+  if (expr.type === 'binary') return PRECEDENCE[expr.op];
+  if (expr.type === 'neg' || (expr.type === 'num' && expr.value < 0)) return NEG_PRECEDENCE;
+  return 5;
+};
+
+/** First factor of a product or quotient */
+const leadingFactor = (expr: Expr): Expr =>
+  expr.type === 'binary' && (expr.op === '*' || expr.op === '/') ? leadingFactor(expr.left) : expr;
+
+/** A coefficient written directly before a name, call or bracket, as in `3x`, `2sin(x)` or `2(x - 1)` */
+const canJuxtapose = (left: Expr, right: Expr): boolean => {
+  if (left.type !== 'num' || !/^[\d.]+$/.test(formatNumber(left.value))) return false;
+  const first = leadingFactor(right);
+  return first.type === 'var' || first.type === 'call' ||
+    (first.type === 'binary' && (first.op === '+' || first.op === '-' || (first.op === '^' && first.left.type === 'var')));
+};
+
+/**
+ * Prints an expression with the fewest parentheses that keep its value, in
+ * a form `parseExpression` reads back. Products and negations are treated
+ * as associative, so `-(2x)` prints as `-2x`.
+ *
+ * @example
+ * formatExpression(parseExpression('(3*x)^2 + -(1)')) // '(3x)^2 + -1'
+ */
+export const formatExpression = (expr: Expr): string => {
+  const wrap = (child: Expr, minPrecedence: number) => {
+    const text = formatExpression(child);
+    return precedenceOf(child) < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (expr.type) {
+    case 'num':
+      return formatNumber(expr.value);
+    case 'var':
+      return expr.name;
+    case 'neg':
+      return `-${wrap(expr.arg, PRECEDENCE['*'])}`;
+    case 'call':
+      return `${expr.fn}(${formatExpression(expr.arg)})`;
+    case 'binary': {
+      const p = PRECEDENCE[expr.op];
+      switch (expr.op) {
+        case '+':
+          return `${wrap(expr.left, p)} + ${wrap(expr.right, p)}`;
+        case '-':
+          return `${wrap(expr.left, p)} - ${wrap(expr.right, p + 1)}`;
+        case '*':
+          return canJuxtapose(expr.left, expr.right)
+            ? `${wrap(expr.left, p)}${wrap(expr.right, p)}`
+            : `${wrap(expr.left, p)}*${wrap(expr.right, p)}`;
+        case '/':
+          return `${wrap(expr.left, p)}/${wrap(expr.right, p + 1)}`;
+        case '^':
+          // Right-associative, and a negative base needs parentheses
+          return `${wrap(expr.left, p + 1)}^${wrap(expr.right, NEG_PRECEDENCE)}`;
+      }
+    }
+  }
+};
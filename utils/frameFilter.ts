@@ -0,0 +1,34 @@
+/**
+ * @fileoverview The per-frame pipeline of the CNN lab.
+ *
+ * Still images, imported matrices and camera frames - in the worker or
+ * on the main thread - all go through `applyFrameFilter`, so every input
+ * path produces the same matrix for the same settings.
+ */
+
+import { applyChannelAlgorithm } from './colorChannels';
+import type { ColorChannelTarget } from './colorChannels';
+import { applyPointOperation } from './pointOps';
+import type { PointOperation } from './pointOps';
+import type { AlgorithmFilter, ImageBuffer, PaddingMode } from './imageOps';
+
+/**
+ * Everything that decides how a frame is filtered. Plain data, so it can
+ * be posted to a worker.
+ */
+export interface FrameFilterSettings {
+  algorithm: AlgorithmFilter;
+  padding: PaddingMode;
+  /** Color channel to filter, or null for R, G and B */
+  channel: ColorChannelTarget | null;
+  /** Applied to the frame before the kernel, or null for none */
+  pointOp: PointOperation | null;
+}
+
+/**
+ * Applies the point operation, then the kernel.
+ */
+export const applyFrameFilter = (image: ImageBuffer, settings: FrameFilterSettings): ImageBuffer => {
+  const adjusted = settings.pointOp ? applyPointOperation(image, settings.pointOp) : image;
+  return applyChannelAlgorithm(adjusted, settings.algorithm, settings.channel, { padding: settings.padding });
+};
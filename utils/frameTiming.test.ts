@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Tests for frame pacing and statistics.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getFrameInterval,
+  decideFrame,
+  advanceFrameClock,
+  recordFrame,
+  recordDrop,
+  EMPTY_FRAME_STATS,
+} from './frameTiming';
+
+describe('decideFrame', () => {
+  it('throttles to the target rate', () => {
+    expect(getFrameInterval(20)).toBe(50);
+    expect(decideFrame(1030, 1000, 20, false)).toBe('throttled');
+    expect(decideFrame(1050, 1000, 20, false)).toBe('submit');
+  });
+
+  it('tolerates display jitter', () => {
+    // 60 Hz ticks land at 33.2ms and 33.4ms for a 30 fps target
+    expect(decideFrame(1032.9, 1000, 30, false)).toBe('submit');
+  });
+
+  it('drops frames while busy, but only once they are due', () => {
+    expect(decideFrame(1060, 1000, 20, true)).toBe('busy');
+    expect(decideFrame(1010, 1000, 20, true)).toBe('throttled');
+  });
+
+  it('never throttles without a target', () => {
+    expect(decideFrame(1000, 1000, 0, false)).toBe('submit');
+    expect(decideFrame(0, -Infinity, 30, false)).toBe('submit');
+  });
+});
+
+describe('advanceFrameClock', () => {
+  it('keeps the schedule from drifting', () => {
+    expect(advanceFrameClock(1000, 1060, 20)).toBe(1050);
+  });
+
+  it('resynchronizes after a long pause or with no target', () => {
+    expect(advanceFrameClock(1000, 1500, 20)).toBe(1500);
+    expect(advanceFrameClock(-Infinity, 1500, 20)).toBe(1500);
+    expect(advanceFrameClock(1000, 1060, 0)).toBe(1060);
+  });
+});
+
+describe('recordFrame', () => {
+  it('starts from the first sample and then smooths', () => {
+    let stats = recordFrame(EMPTY_FRAME_STATS, { latencyMs: 10, processMs: 4 });
+    expect(stats).toMatchObject({ fps: 0, latencyMs: 10, processMs: 4, frames: 1 });
+
+    stats = recordFrame(stats, { intervalMs: 50, latencyMs: 20, processMs: 4 });
+    expect(stats.fps).toBe(20);
+    expect(stats.latencyMs).toBe(12);
+
+    stats = recordFrame(stats, { intervalMs: 25, latencyMs: 20, processMs: 4 });
+    expect(stats.fps).toBe(24);
+  });
+
+  it('counts drops separately', () => {
+    expect(recordDrop(recordDrop(EMPTY_FRAME_STATS)).dropped).toBe(2);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Frame pacing and performance statistics for live video.
+ *
+ * Decides which animation frames to process given a target frame rate
+ * and whether the previous frame is still being filtered, and keeps
+ * smoothed FPS and latency figures for the on-screen readout.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What to do with an animation frame.
+ * - 'submit': process it
+ * - 'throttled': too soon for the target frame rate
+ * - 'busy': the previous frame is still in flight, so drop this one
+ */
+export type FrameDecision = 'submit' | 'throttled' | 'busy';
+
+/**
+ * Smoothed timings for the live readout.
+ */
+export interface FrameStats {
+  /** Processed frames per second */
+  fps: number;
+  /** Time from submitting a frame to receiving its result */
+  latencyMs: number;
+  /** Time spent filtering, excluding messaging */
+  processMs: number;
+  /** Frames dropped because the previous one was still in flight */
+  dropped: number;
+  /** Frames processed */
+  frames: number;
+}
+
+/**
+ * Timings of one completed frame.
+ */
+export interface FrameSample {
+  /** Milliseconds since the previous completed frame, if there was one */
+  intervalMs?: number;
+  latencyMs: number;
+  processMs: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const EMPTY_FRAME_STATS: FrameStats = {
+  fps: 0,
+  latencyMs: 0,
+  processMs: 0,
+  dropped: 0,
+  frames: 0,
+};
+
+/** Weight of the newest sample in the moving averages */
+const SMOOTHING = 0.2;
+
+// =============================================================================
+// PACING
+// =============================================================================
+
+/**
+ * Milliseconds between frames for a target rate; 0 means no limit.
+ */
+export const getFrameInterval = (targetFps: number): number =>
+  targetFps > 0 ? 1000 / targetFps : 0;
+
+/**
+ * Decides whether to process the frame at `now`.
+ *
+ * Throttling comes first so frames skipped for pacing are not counted
+ * as dropped. A small tolerance keeps a 60 Hz display from missing every
+ * other slot at a 30 fps target because of timer jitter.
+ *
+ * @param now - Current time in milliseconds
+ * @param lastSubmit - When the last frame was submitted, or -Infinity
+ * @param targetFps - Desired frame rate; 0 or less for no limit
+ * @param busy - Whether a frame is still being processed
+ */
+export const decideFrame = (
+  now: number,
+  lastSubmit: number,
+  targetFps: number,
+  busy: boolean
+): FrameDecision => {
+  const interval = getFrameInterval(targetFps);
+  if (now - lastSubmit < interval - 1) return 'throttled';
+  return busy ? 'busy' : 'submit';
+};
+
+/**
+ * Next reference time after processing at `now`. Keeps the remainder
+ * of the elapsed time so the schedule does not drift later each frame.
+ */
+export const advanceFrameClock = (lastSubmit: number, now: number, targetFps: number): number => {
+  const interval = getFrameInterval(targetFps);
+  const elapsed = now - lastSubmit;
+  if (!interval || !Number.isFinite(elapsed) || elapsed >= 2 * interval) return now;
+  return now - (elapsed % interval);
+};
+
+// =============================================================================
+// STATISTICS
+// =============================================================================
+
+const smooth = (previous: number, sample: number, first: boolean): number =>
+  first ? sample : previous + SMOOTHING * (sample - previous);
+
+/**
+ * Folds a completed frame into the running statistics.
+ */
+export const recordFrame = (stats: FrameStats, sample: FrameSample): FrameStats => {
+  const first = stats.frames === 0;
+  const fps = sample.intervalMs && sample.intervalMs > 0
+    ? smooth(stats.fps, 1000 / sample.intervalMs, stats.fps === 0)
+    : stats.fps;
+
+  return {
+    ...stats,
+    fps,
+    latencyMs: smooth(stats.latencyMs, sample.latencyMs, first),
+    processMs: smooth(stats.processMs, sample.processMs, first),
+    frames: stats.frames + 1,
+  };
+};
+
+/**
+ * Counts a frame dropped for backpressure.
+ */
+export const recordDrop = (stats: FrameStats): FrameStats => ({
+  ...stats,
+  dropped: stats.dropped + 1,
+});
@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Golden-value tests for the shared convolution engine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convolve,
+  convolveSeparable,
+  convolvePixelMatrix,
+  convolvePlane,
+  separateKernel,
+  applyGradientOperator,
+  applyNonLinearFilter,
+  getStructuringElement,
+  applyAlgorithm,
+  compareSeparableSpeed,
+  resolvePaddedIndex,
+  getOutputSize,
+  isIdentityKernel,
+  createPixel,
+} from './imageOps';
+import type { ImageBuffer } from './imageOps';
+import { PRESET_ALGORITHMS, NON_LINEAR_ALGORITHMS } from '../constants/algorithms';
+
+/** Builds an opaque gray image from a matrix of values. */
+const grayImage = (values: number[][]): ImageBuffer => {
+  const height = values.length;
+  const width = values[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  values.flat().forEach((v, i) => {
+    data.set([v, v, v, 255], i * 4);
+  });
+  return { data, width, height };
+};
+
+/** Reads the red channel back as a matrix. */
+const redChannel = ({ data, width, height }: ImageBuffer): number[][] =>
+  Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => data[(y * width + x) * 4])
+  );
+
+const BOX = [
+  [1, 1, 1],
+  [1, 1, 1],
+  [1, 1, 1],
+];
+
+const RAMP = grayImage([
+  [0, 9, 18],
+  [27, 36, 45],
+  [54, 63, 72],
+]);
+
+describe('resolvePaddedIndex', () => {
+  it.each([
+    ['zero', -1, -1],
+    ['zero', 4, -1],
+    ['clamp', -2, 0],
+    ['clamp', 5, 3],
+    ['reflect', -1, 1],
+    ['reflect', -3, 3],
+    ['reflect', 4, 2],
+    ['reflect', 6, 0],
+    ['wrap', -1, 3],
+    ['wrap', 5, 1],
+  ] as const)('%s maps %i to %i in a size-4 axis', (mode, index, expected) => {
+    expect(resolvePaddedIndex(index, 4, mode)).toBe(expected);
+  });
+
+  it('reflects a single-pixel axis onto itself', () => {
+    expect(resolvePaddedIndex(-3, 1, 'reflect')).toBe(0);
+  });
+});
+
+describe('convolve', () => {
+  it.each([
+    ['zero', [[8, 15, 12], [21, 36, 27], [20, 33, 24]]],
+    ['clamp', [[12, 18, 24], [30, 36, 42], [48, 54, 60]]],
+    ['reflect', [[24, 27, 30], [33, 36, 39], [42, 45, 48]]],
+    ['wrap', [[36, 36, 36], [36, 36, 36], [36, 36, 36]]],
+  ] as const)('box-filters a ramp with %s padding', (padding, expected) => {
+    const out = convolve(RAMP, BOX, { divisor: 9, padding });
+    expect(redChannel(out)).toEqual(expected);
+  });
+
+  it('supports 5x5 kernels', () => {
+    const kernel = Array.from({ length: 5 }, () => Array(5).fill(1));
+    const out = convolve(RAMP, kernel, { divisor: 25, padding: 'clamp' });
+    expect(redChannel(out)[1][1]).toBe(36);
+    expect(redChannel(out)[0][0]).toBe(22);
+  });
+
+  it('samples every stride-th pixel', () => {
+    const out = convolve(RAMP, BOX, { divisor: 9, padding: 'clamp', stride: 2 });
+    expect(out.width).toBe(2);
+    expect(out.height).toBe(2);
+    expect(redChannel(out)).toEqual([[12, 24], [48, 60]]);
+  });
+
+  it('filters channels independently in rgb mode', () => {
+    const image: ImageBuffer = {
+      data: new Uint8ClampedArray([200, 100, 50, 255]),
+      width: 1,
+      height: 1,
+    };
+    const out = convolve(image, [[2]], { channels: 'rgb' });
+    expect(Array.from(out.data)).toEqual([255, 200, 100, 255]);
+  });
+
+  it('filters luminance in gray mode', () => {
+    const image: ImageBuffer = {
+      data: new Uint8ClampedArray([255, 0, 0, 128]),
+      width: 1,
+      height: 1,
+    };
+    const out = convolve(image, [[1]], { channels: 'gray' });
+    expect(Array.from(out.data)).toEqual([76, 76, 76, 128]);
+  });
+
+  it('clamps edge-detection output to 0-255', () => {
+    const image = grayImage([
+      [0, 0, 0],
+      [0, 200, 0],
+      [0, 0, 0],
+    ]);
+    const { kernel, divisor } = PRESET_ALGORITHMS['edge-detection'];
+    const out = redChannel(convolve(image, kernel, { divisor, padding: 'zero' }));
+    expect(out[1][1]).toBe(255);
+    expect(out[0][0]).toBe(0);
+  });
+
+  it('leaves pixels unchanged with the identity preset', () => {
+    const { kernel, divisor } = PRESET_ALGORITHMS.identity;
+    const out = convolve(RAMP, kernel, { divisor, padding: 'zero' });
+    expect(Array.from(out.data)).toEqual(Array.from(RAMP.data));
+    expect(out.data).not.toBe(RAMP.data);
+  });
+
+  it('adds the bias after dividing', () => {
+    const out = convolve(RAMP, [[-1, 0, 1]], { divisor: 2, bias: 128, padding: 'clamp' });
+    // Horizontal difference of a 9-per-column ramp, centered on mid gray
+    expect(redChannel(out)[0]).toEqual([133, 137, 133]);
+  });
+
+  it('rejects even-sized kernels and invalid strides', () => {
+    expect(() => convolve(RAMP, [[1, 1], [1, 1]])).toThrow(/odd/);
+    expect(() => convolve(RAMP, BOX, { stride: 0 })).toThrow(/Stride/);
+  });
+});
+
+describe('convolvePixelMatrix', () => {
+  it('matches the buffer engine and fills derived fields', () => {
+    const matrix = [
+      [createPixel(0, 0, 0), createPixel(90, 90, 90)],
+      [createPixel(180, 180, 180), createPixel(255, 255, 255)],
+    ];
+    const out = convolvePixelMatrix(matrix, BOX, { divisor: 9, padding: 'clamp' });
+    expect(out[0][0]).toEqual({ r: 88, g: 88, b: 88, a: 255, hex: '#585858', gray: 88 });
+    expect(out[1][1].gray).toBe(173);
+  });
+
+  it('returns an empty matrix unchanged', () => {
+    expect(convolvePixelMatrix([], BOX)).toEqual([]);
+  });
+});
+
+describe('helpers', () => {
+  it('computes strided output sizes', () => {
+    expect(getOutputSize(32, 1)).toBe(32);
+    expect(getOutputSize(33, 2)).toBe(17);
+  });
+
+  it('recognizes identity kernels of any size', () => {
+    expect(isIdentityKernel([[0, 0, 0], [0, 1, 0], [0, 0, 0]])).toBe(true);
+    expect(isIdentityKernel([[0, 0, 0], [0, 2, 0], [0, 0, 0]], 2)).toBe(true);
+    expect(isIdentityKernel(BOX)).toBe(false);
+  });
+});
+
+describe('convolveSeparable', () => {
+  const NOISE = grayImage([
+    [12, 200, 37, 90, 5],
+    [255, 0, 128, 64, 33],
+    [7, 99, 180, 250, 18],
+    [60, 140, 20, 3, 222],
+  ]);
+
+  it.each(['zero', 'clamp', 'reflect', 'wrap'] as const)(
+    'matches the full 2D kernel with %s padding',
+    (padding) => {
+      const { kernel, separable, divisor } = PRESET_ALGORITHMS['gaussian-blur-5x5'];
+      const full = convolve(NOISE, kernel, { divisor, padding, stride: 2 });
+      const fast = convolveSeparable(NOISE, separable!, { divisor, padding, stride: 2 });
+      expect(fast).toEqual(full);
+    }
+  );
+
+  it('supports different row and column lengths', () => {
+    const separable = { row: [1, 2, 1], column: [1] };
+    const out = convolveSeparable(RAMP, separable, { divisor: 4 });
+    expect(redChannel(out)[1]).toEqual([29, 36, 43]);
+  });
+});
+
+describe('separateKernel', () => {
+  it('factors rank-one kernels', () => {
+    const factors = separateKernel([[1, 2, 1], [2, 4, 2], [1, 2, 1]]);
+    expect(factors).not.toBeNull();
+    const rebuilt = factors!.column.map(c => factors!.row.map(r => c * r));
+    expect(rebuilt).toEqual([[1, 2, 1], [2, 4, 2], [1, 2, 1]]);
+  });
+
+  it('rejects kernels that do not factor', () => {
+    expect(separateKernel(PRESET_ALGORITHMS.sharpen.kernel)).toBeNull();
+    expect(separateKernel([[0, 0, 0], [0, 0, 0], [0, 0, 0]])).toBeNull();
+  });
+});
+
+describe('convolvePlane', () => {
+  const PLANE = [
+    [0, 9, 18],
+    [27, 36, 45],
+    [54, 63, 72],
+  ];
+
+  it('keeps negative responses and zero-pads by default', () => {
+    expect(convolvePlane(PLANE, [[-1, 0, 1]])[0]).toEqual([9, 18, -9]);
+  });
+
+  it('applies stride', () => {
+    expect(convolvePlane(PLANE, BOX, { stride: 2 })).toEqual([[72, 108], [180, 216]]);
+  });
+});
+
+describe('applyGradientOperator', () => {
+  const STEP = grayImage([
+    [0, 0, 100],
+    [0, 0, 100],
+    [0, 0, 100],
+  ]);
+
+  it('measures Sobel magnitude', () => {
+    const { gradient, divisor } = PRESET_ALGORITHMS.sobel;
+    const out = redChannel(applyGradientOperator(STEP, gradient!, { divisor, padding: 'clamp' }));
+    expect(out).toEqual([[0, 100, 100], [0, 100, 100], [0, 100, 100]]);
+  });
+
+  it('maps gradient direction onto 0-255', () => {
+    const { gradient } = PRESET_ALGORITHMS['sobel-direction'];
+    const right = redChannel(applyGradientOperator(STEP, gradient!, { padding: 'clamp' }));
+    // Brighter to the right is angle 0, the middle of the range
+    expect(right[1][1]).toBe(128);
+
+    const down = grayImage([[0, 0, 0], [0, 0, 0], [100, 100, 100]]);
+    expect(redChannel(applyGradientOperator(down, gradient!, { padding: 'clamp' }))[1][1]).toBe(191);
+  });
+});
+
+describe('getStructuringElement', () => {
+  it('builds square, cross and disk footprints', () => {
+    expect(getStructuringElement({ shape: 'square', size: 3 })).toEqual(BOX);
+    expect(getStructuringElement({ shape: 'cross', size: 3 })).toEqual([[0, 1, 0], [1, 1, 1], [0, 1, 0]]);
+    expect(getStructuringElement({ shape: 'disk', size: 5 })).toEqual([
+      [0, 1, 1, 1, 0],
+      [1, 1, 1, 1, 1],
+      [1, 1, 1, 1, 1],
+      [1, 1, 1, 1, 1],
+      [0, 1, 1, 1, 0],
+    ]);
+  });
+
+  it('rejects even sizes', () => {
+    expect(() => getStructuringElement({ shape: 'square', size: 4 })).toThrow('odd positive integer');
+  });
+});
+
+describe('applyNonLinearFilter', () => {
+  const SQUARE = { shape: 'square', size: 3 } as const;
+  const SPECK = grayImage([
+    [10, 10, 10, 10, 10],
+    [10, 10, 10, 10, 10],
+    [10, 10, 250, 10, 10],
+    [10, 10, 10, 10, 10],
+    [10, 10, 10, 10, 10],
+  ]);
+
+  it('removes an isolated speck with the median', () => {
+    const out = redChannel(applyNonLinearFilter(SPECK, { type: 'median', element: SQUARE }));
+    expect(out.flat().every(v => v === 10)).toBe(true);
+  });
+
+  it('takes the neighbourhood minimum and maximum', () => {
+    expect(redChannel(applyNonLinearFilter(RAMP, { type: 'erode', element: SQUARE }))).toEqual([
+      [0, 0, 9],
+      [0, 0, 9],
+      [27, 27, 36],
+    ]);
+    expect(redChannel(applyNonLinearFilter(RAMP, { type: 'dilate', element: SQUARE }))).toEqual([
+      [36, 45, 45],
+      [63, 72, 72],
+      [63, 72, 72],
+    ]);
+  });
+
+  it('only looks through the footprint', () => {
+    const corner = grayImage([[0, 9, 0], [9, 9, 9], [0, 9, 0]]);
+    expect(redChannel(applyNonLinearFilter(corner, { type: 'erode', element: { shape: 'cross', size: 3 } }))[1][1]).toBe(9);
+  });
+
+  it('fills zero padding with black', () => {
+    const flat = grayImage([[50, 50], [50, 50]]);
+    const out = redChannel(applyNonLinearFilter(flat, { type: 'erode', element: SQUARE }, { padding: 'zero' }));
+    expect(out).toEqual([[0, 0], [0, 0]]);
+  });
+
+  it('opens away bright specks and closes dark holes', () => {
+    const opened = redChannel(applyNonLinearFilter(SPECK, { type: 'open', element: SQUARE }));
+    expect(opened.flat().every(v => v === 10)).toBe(true);
+
+    const hole = grayImage(redChannel(SPECK).map(row => row.map(v => 260 - v)));
+    const closed = redChannel(applyNonLinearFilter(hole, { type: 'close', element: SQUARE }));
+    expect(closed.flat().every(v => v === 250)).toBe(true);
+  });
+
+  it('keeps edges with the bilateral filter while a box blur smears them', () => {
+    const step = grayImage(Array.from({ length: 5 }, () => [0, 0, 0, 200, 200, 200]));
+    const bilateral = redChannel(applyNonLinearFilter(step, {
+      type: 'bilateral', element: { shape: 'square', size: 5 }, sigmaSpace: 2, sigmaRange: 20,
+    }));
+    expect(bilateral[2]).toEqual([0, 0, 0, 200, 200, 200]);
+    expect(redChannel(convolve(step, BOX, { divisor: 9 }))[2][2]).toBe(67);
+  });
+
+  it('filters each color channel separately unless asked for gray', () => {
+    const image: ImageBuffer = { data: new Uint8ClampedArray([200, 0, 0, 255, 0, 0, 200, 255]), width: 2, height: 1 };
+    expect(Array.from(applyNonLinearFilter(image, { type: 'dilate', element: SQUARE }).data)).toEqual([200, 0, 200, 255, 200, 0, 200, 255]);
+    expect(applyNonLinearFilter(image, { type: 'dilate', element: SQUARE }, { channels: 'gray' }).data[1]).toBe(60);
+  });
+
+  it('rejects non-positive bilateral sigmas', () => {
+    expect(() => applyNonLinearFilter(RAMP, {
+      type: 'bilateral', element: SQUARE, sigmaSpace: 0, sigmaRange: 10,
+    })).toThrow('positive');
+  });
+});
+
+describe('applyAlgorithm', () => {
+  it('routes non-linear presets to the non-linear filters', () => {
+    const median = NON_LINEAR_ALGORITHMS.median;
+    expect(applyAlgorithm(RAMP, median)).toEqual(applyNonLinearFilter(RAMP, median.nonLinear!));
+  });
+
+  it('routes gradient presets to the gradient operator', () => {
+    const sobel = PRESET_ALGORITHMS.sobel;
+    expect(applyAlgorithm(RAMP, sobel)).toEqual(
+      applyGradientOperator(RAMP, sobel.gradient!, { divisor: sobel.divisor })
+    );
+  });
+
+  it('gives the same result for separable and plain presets', () => {
+    const blur = PRESET_ALGORITHMS['gaussian-blur'];
+    const { separable: _, ...plain } = blur;
+    expect(applyAlgorithm(RAMP, blur)).toEqual(applyAlgorithm(RAMP, plain));
+  });
+});
+
+describe('PRESET_ALGORITHMS', () => {
+  it.each(Object.entries(PRESET_ALGORITHMS))('%s has consistent kernels', (_, algo) => {
+    const rows = algo.kernel.length;
+    const cols = algo.kernel[0].length;
+    expect(rows % 2).toBe(1);
+    expect(cols % 2).toBe(1);
+    if (algo.separable) {
+      const rebuilt = algo.separable.column.map(c => algo.separable!.row.map(r => c * r));
+      expect(rebuilt).toEqual(algo.kernel);
+    }
+    if (algo.gradient) {
+      expect(algo.kernel).toBe(algo.gradient.x);
+    }
+  });
+});
+
+describe('NON_LINEAR_ALGORITHMS', () => {
+  it.each(Object.entries(NON_LINEAR_ALGORITHMS))('%s shows its structuring element as the kernel', (_, algo) => {
+    expect(algo.kernel).toEqual(getStructuringElement(algo.nonLinear!.element));
+  });
+});
+
+describe('compareSeparableSpeed', () => {
+  it('reports work per pixel and identical output', () => {
+    const result = compareSeparableSpeed(RAMP, { row: [1, 4, 6, 4, 1], column: [1, 4, 6, 4, 1] }, { divisor: 256 }, 1);
+    expect(result.fullMultiplies).toBe(25);
+    expect(result.separableMultiplies).toBe(10);
+    expect(result.maxDifference).toBe(0);
+    expect(result.fullMs).toBeGreaterThanOrEqual(0);
+  });
+});
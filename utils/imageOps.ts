@@ -0,0 +1,784 @@
+/**
+ * @fileoverview Core image operations shared by every convolution caller.
+ *
+ * Images are flat RGBA buffers (the layout of `ImageData.data`). Every
+ * filter - plain 2D, separable two-pass, and gradient pairs - splits the
+ * image into channel planes and runs the same correlation loop over them.
+ * The non-linear filters (median, morphology, bilateral) use the same
+ * planes and padding with a neighbourhood loop in place of the weighted sum.
+ * `PixelData[][]` matrices used by the CNN lab are converted to and from
+ * that layout with the adapters below, so both paths produce identical
+ * values for the same kernel.
+ */
+
+import type {
+  PixelData,
+  Kernel,
+  SeparableKernel,
+  GradientOperator,
+  VisionAlgorithm,
+  StructuringElement,
+  RankOperation,
+  NonLinearFilter,
+} from '../types';
+import { toGray, rgbToHex, clampPixelValue } from './colorConversion';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How samples outside the image are filled.
+ * - 'zero': treated as black (0)
+ * - 'clamp': repeat the nearest edge pixel
+ * - 'reflect': mirror around the edge pixel without repeating it (dcb|abcd|cba)
+ * - 'wrap': tile the image (bcd|abcd|abc)
+ */
+export type PaddingMode = 'zero' | 'clamp' | 'reflect' | 'wrap';
+
+/**
+ * Which values the kernel is applied to.
+ * - 'rgb': each of R, G and B independently
+ * - 'gray': the luminance of each pixel, written back to all three channels
+ */
+export type ChannelMode = 'rgb' | 'gray';
+
+/**
+ * A flat RGBA image. `ImageData` satisfies this shape.
+ */
+export interface ImageBuffer {
+  /** Interleaved RGBA bytes, row-major */
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * The parts of a `VisionAlgorithm` that decide its output. Small enough
+ * to post to a worker every frame.
+ */
+export type AlgorithmFilter = Pick<VisionAlgorithm, 'kernel' | 'divisor' | 'bias' | 'separable' | 'gradient' | 'nonLinear'>;
+
+/**
+ * Options for `convolve`.
+ */
+export interface ConvolutionOptions {
+  /** Normalization divisor applied to each weighted sum (default: 1) */
+  divisor?: number;
+  /** Constant added after dividing, before clamping (default: 0) */
+  bias?: number;
+  /** Border handling (default: 'clamp') */
+  padding?: PaddingMode;
+  /** Step between sampled positions in both axes (default: 1) */
+  stride?: number;
+  /** Channels to filter (default: 'rgb') */
+  channels?: ChannelMode;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Maps a possibly out-of-range coordinate onto the image.
+ *
+ * @param index - Coordinate to resolve
+ * @param size - Image extent along that axis
+ * @param padding - Border handling mode
+ * @returns A valid coordinate, or -1 for zero padding outside the image
+ *
+ * @example
+ * resolvePaddedIndex(-1, 4, 'reflect') // 1
+ * resolvePaddedIndex(4, 4, 'wrap')     // 0
+ */
+export const resolvePaddedIndex = (
+  index: number,
+  size: number,
+  padding: PaddingMode
+): number => {
+  if (index >= 0 && index < size) return index;
+
+  switch (padding) {
+    case 'zero':
+      return -1;
+    case 'clamp':
+      return index < 0 ? 0 : size - 1;
+    case 'wrap':
+      return ((index % size) + size) % size;
+    case 'reflect': {
+      if (size === 1) return 0;
+      const period = 2 * (size - 1);
+      const i = ((index % period) + period) % period;
+      return i < size ? i : period - i;
+    }
+  }
+};
+
+/**
+ * Number of output positions along an axis for a given stride.
+ * Convolution here is always "same" padded, so this is ceil(size / stride).
+ */
+export const getOutputSize = (size: number, stride: number): number => {
+  return Math.ceil(size / stride);
+};
+
+/**
+ * Checks that a kernel is a non-empty rectangle with odd dimensions,
+ * so it has a well-defined center pixel.
+ */
+const assertValidKernel = (kernel: Kernel): void => {
+  const rows = kernel.length;
+  const cols = kernel[0]?.length ?? 0;
+  if (rows === 0 || cols === 0) {
+    throw new Error('Kernel must have at least one row and column');
+  }
+  if (rows % 2 === 0 || cols % 2 === 0) {
+    throw new Error(`Kernel must have odd dimensions, got ${rows}x${cols}`);
+  }
+  if (kernel.some(row => row.length !== cols)) {
+    throw new Error('Kernel rows must all have the same length');
+  }
+};
+
+const assertValidStride = (stride: number): void => {
+  if (!Number.isInteger(stride) || stride < 1) {
+    throw new Error(`Stride must be a positive integer, got ${stride}`);
+  }
+};
+
+/**
+ * True if the kernel passes every pixel through unchanged.
+ */
+export const isIdentityKernel = (kernel: Kernel, divisor = 1): boolean => {
+  const cy = Math.floor(kernel.length / 2);
+  const cx = Math.floor((kernel[0]?.length ?? 0) / 2);
+  return kernel.every((row, y) =>
+    row.every((w, x) => (y === cy && x === cx ? w === divisor : w === 0))
+  );
+};
+
+// =============================================================================
+// PLANES
+// =============================================================================
+
+/**
+ * Splits an image into the planes a kernel runs over: one luminance
+ * plane in gray mode, or separate R, G and B planes.
+ */
+const extractPlanes = ({ data, width, height }: ImageBuffer, channels: ChannelMode): Float64Array[] => {
+  const count = width * height;
+
+  if (channels === 'gray') {
+    const gray = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      gray[i] = toGray(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    }
+    return [gray];
+  }
+
+  const planes = [new Float64Array(count), new Float64Array(count), new Float64Array(count)];
+  for (let i = 0; i < count; i++) {
+    planes[0][i] = data[i * 4];
+    planes[1][i] = data[i * 4 + 1];
+    planes[2][i] = data[i * 4 + 2];
+  }
+  return planes;
+};
+
+/**
+ * Correlates one plane with a kernel, keeping full precision.
+ * Output size is ceil(width / strideX) x ceil(height / strideY).
+ */
+const correlatePlane = (
+  plane: Float64Array,
+  width: number,
+  height: number,
+  kernel: Kernel,
+  padding: PaddingMode,
+  strideX: number,
+  strideY: number
+): Float64Array => {
+  const kRows = kernel.length;
+  const kCols = kernel[0].length;
+  const anchorY = Math.floor(kRows / 2);
+  const anchorX = Math.floor(kCols / 2);
+  const outWidth = getOutputSize(width, strideX);
+  const outHeight = getOutputSize(height, strideY);
+  const output = new Float64Array(outWidth * outHeight);
+
+  // Precompute padded coordinates once per axis
+  const colLookup = Array.from({ length: outWidth }, (_, ox) =>
+    Array.from({ length: kCols }, (_, kx) => resolvePaddedIndex(ox * strideX + kx - anchorX, width, padding))
+  );
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    const rows = Array.from({ length: kRows }, (_, ky) =>
+      resolvePaddedIndex(oy * strideY + ky - anchorY, height, padding)
+    );
+
+    for (let ox = 0; ox < outWidth; ox++) {
+      const cols = colLookup[ox];
+      let sum = 0;
+
+      for (let ky = 0; ky < kRows; ky++) {
+        const sy = rows[ky];
+        if (sy < 0) continue;
+        const kernelRow = kernel[ky];
+        const rowOffset = sy * width;
+
+        for (let kx = 0; kx < kCols; kx++) {
+          const sx = cols[kx];
+          const weight = kernelRow[kx];
+          if (sx < 0 || weight === 0) continue;
+          sum += plane[rowOffset + sx] * weight;
+        }
+      }
+
+      output[oy * outWidth + ox] = sum;
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Packs filtered planes back into RGBA. A single plane is written to all
+ * three color channels; alpha comes from the source pixel at each sample.
+ */
+const assembleImage = (
+  source: ImageBuffer,
+  planes: Float64Array[],
+  stride: number,
+  toByte: (value: number) => number
+): ImageBuffer => {
+  const width = getOutputSize(source.width, stride);
+  const height = getOutputSize(source.height, stride);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let oy = 0; oy < height; oy++) {
+    for (let ox = 0; ox < width; ox++) {
+      const i = oy * width + ox;
+      const o = i * 4;
+      if (planes.length === 1) {
+        const v = toByte(planes[0][i]);
+        data[o] = v;
+        data[o + 1] = v;
+        data[o + 2] = v;
+      } else {
+        data[o] = toByte(planes[0][i]);
+        data[o + 1] = toByte(planes[1][i]);
+        data[o + 2] = toByte(planes[2][i]);
+      }
+      data[o + 3] = source.data[(oy * stride * source.width + ox * stride) * 4 + 3];
+    }
+  }
+
+  return { data, width, height };
+};
+
+// =============================================================================
+// CONVOLUTION
+// =============================================================================
+
+/**
+ * Convolves an RGBA image with an arbitrary odd-sized kernel.
+ *
+ * The kernel is centered on each sampled pixel (correlation, as is usual in
+ * CNNs), out-of-range neighbors are filled according to `padding`, and
+ * results are divided by `divisor`, offset by `bias` and clamped to 0-255.
+ * Alpha is taken from the source pixel under the kernel center.
+ *
+ * @param image - Source image
+ * @param kernel - Kernel weights as [row][col]
+ * @param options - Divisor, bias, padding, stride and channel mode
+ * @returns A new image of size ceil(width / stride) x ceil(height / stride)
+ *
+ * @example
+ * const blurred = convolve(imageData, [[1, 2, 1], [2, 4, 2], [1, 2, 1]], {
+ *   divisor: 16,
+ *   padding: 'reflect',
+ * });
+ */
+export const convolve = (
+  image: ImageBuffer,
+  kernel: Kernel,
+  options: ConvolutionOptions = {}
+): ImageBuffer => {
+  const { divisor = 1, bias = 0, padding = 'clamp', stride = 1, channels = 'rgb' } = options;
+  assertValidKernel(kernel);
+  assertValidStride(stride);
+
+  const { data, width, height } = image;
+  if (stride === 1 && channels === 'rgb' && bias === 0 && isIdentityKernel(kernel, divisor)) {
+    return { data: new Uint8ClampedArray(data), width, height };
+  }
+
+  const div = divisor === 0 ? 1 : divisor;
+  const planes = extractPlanes(image, channels).map(plane =>
+    correlatePlane(plane, width, height, kernel, padding, stride, stride)
+  );
+  return assembleImage(image, planes, stride, v => clampPixelValue(v / div + bias));
+};
+
+/**
+ * Convolves with a separable kernel as a horizontal pass followed by a
+ * vertical pass. Produces the same result as `convolve` with the full
+ * kernel `column[y] * row[x]`, at rows + cols multiplies per pixel
+ * instead of rows * cols.
+ *
+ * @param image - Source image
+ * @param separable - Row and column weights, each of odd length
+ * @param options - Divisor, padding, stride and channel mode
+ */
+export const convolveSeparable = (
+  image: ImageBuffer,
+  separable: SeparableKernel,
+  options: ConvolutionOptions = {}
+): ImageBuffer => {
+  const { divisor = 1, bias = 0, padding = 'clamp', stride = 1, channels = 'rgb' } = options;
+  const rowKernel = [separable.row];
+  const columnKernel = separable.column.map(w => [w]);
+  assertValidKernel(rowKernel);
+  assertValidKernel(columnKernel);
+  assertValidStride(stride);
+
+  const { width, height } = image;
+  const div = divisor === 0 ? 1 : divisor;
+  const planes = extractPlanes(image, channels).map(plane => {
+    const horizontal = correlatePlane(plane, width, height, rowKernel, padding, stride, 1);
+    return correlatePlane(horizontal, getOutputSize(width, stride), height, columnKernel, padding, 1, stride);
+  });
+  return assembleImage(image, planes, stride, v => clampPixelValue(v / div + bias));
+};
+
+/**
+ * Factors a kernel into row and column vectors if it has rank one.
+ *
+ * @returns The factors, or null if the kernel is not separable
+ *
+ * @example
+ * separateKernel([[1, 2, 1], [2, 4, 2], [1, 2, 1]])
+ * // { row: [1, 2, 1], column: [1, 2, 1] }
+ */
+export const separateKernel = (kernel: Kernel): SeparableKernel | null => {
+  assertValidKernel(kernel);
+
+  // Pivot on the largest weight for numerical stability
+  let py = 0, px = 0;
+  kernel.forEach((row, y) => row.forEach((w, x) => {
+    if (Math.abs(w) > Math.abs(kernel[py][px])) {
+      py = y;
+      px = x;
+    }
+  }));
+  const pivot = kernel[py][px];
+  if (pivot === 0) return null;
+
+  const column = kernel.map(row => row[px]);
+  const row = kernel[py].map(w => w / pivot);
+  const tolerance = 1e-9 * Math.abs(pivot);
+  const fits = kernel.every((r, y) => r.every((w, x) => Math.abs(w - column[y] * row[x]) <= tolerance));
+  return fits ? { row, column } : null;
+};
+
+/**
+ * Correlates a single feature map with a kernel without dividing,
+ * clamping or rounding, so negative and large responses survive for
+ * later layers such as ReLU.
+ *
+ * @param plane - Values as [row][col]
+ * @param kernel - Kernel weights as [row][col]
+ * @param options - Padding (default: 'zero') and stride (default: 1)
+ * @returns A plane of size ceil(height / stride) x ceil(width / stride)
+ */
+export const convolvePlane = (
+  plane: number[][],
+  kernel: Kernel,
+  options: Pick<ConvolutionOptions, 'padding' | 'stride'> = {}
+): number[][] => {
+  const { padding = 'zero', stride = 1 } = options;
+  assertValidKernel(kernel);
+  assertValidStride(stride);
+
+  const height = plane.length;
+  const width = plane[0]?.length ?? 0;
+  if (!height || !width) return [];
+
+  const flat = correlatePlane(Float64Array.from(plane.flat()), width, height, kernel, padding, stride, stride);
+  const outWidth = getOutputSize(width, stride);
+  return Array.from({ length: getOutputSize(height, stride) }, (_, y) =>
+    Array.from(flat.subarray(y * outWidth, (y + 1) * outWidth))
+  );
+};
+
+// =============================================================================
+// MULTI-KERNEL OPERATORS
+// =============================================================================
+
+/**
+ * Applies a gradient kernel pair and combines the two responses.
+ *
+ * Magnitude is sqrt(Gx² + Gy²) / divisor. Direction maps atan2(Gy, Gx)
+ * from [-π, π] onto 0-255, so 128 means "increasing to the right".
+ * Defaults to gray channels, since edge orientation per color channel is
+ * rarely what you want to look at.
+ *
+ * @param image - Source image
+ * @param operator - Gx/Gy kernels and how to combine them
+ * @param options - Divisor (magnitude only), padding, stride and channel mode
+ */
+export const applyGradientOperator = (
+  image: ImageBuffer,
+  operator: GradientOperator,
+  options: ConvolutionOptions = {}
+): ImageBuffer => {
+  const { divisor = 1, padding = 'clamp', stride = 1, channels = 'gray' } = options;
+  assertValidKernel(operator.x);
+  assertValidKernel(operator.y);
+  assertValidStride(stride);
+
+  const { width, height } = image;
+  const div = divisor === 0 ? 1 : divisor;
+  const planes = extractPlanes(image, channels).map(plane => {
+    const gx = correlatePlane(plane, width, height, operator.x, padding, stride, stride);
+    const gy = correlatePlane(plane, width, height, operator.y, padding, stride, stride);
+    const combined = new Float64Array(gx.length);
+    for (let i = 0; i < gx.length; i++) {
+      combined[i] = operator.output === 'magnitude'
+        ? Math.hypot(gx[i], gy[i]) / div
+        : ((Math.atan2(gy[i], gx[i]) + Math.PI) / (2 * Math.PI)) * 255;
+    }
+    return combined;
+  });
+  return assembleImage(image, planes, stride, clampPixelValue);
+};
+
+// =============================================================================
+// NON-LINEAR FILTERS
+// =============================================================================
+
+const assertValidElement = ({ size }: StructuringElement): void => {
+  if (!Number.isInteger(size) || size < 1 || size % 2 === 0) {
+    throw new Error(`Structuring element size must be an odd positive integer, got ${size}`);
+  }
+};
+
+/**
+ * The footprint of a structuring element as a 0/1 mask. The disk keeps
+ * cells within sqrt(r² + r) of the center, the usual digital disk, so
+ * at 3x3 it covers the whole square.
+ *
+ * @example
+ * getStructuringElement({ shape: 'cross', size: 3 })
+ * // [[0, 1, 0], [1, 1, 1], [0, 1, 0]]
+ */
+export const getStructuringElement = (element: StructuringElement): Kernel => {
+  assertValidElement(element);
+  const r = Math.floor(element.size / 2);
+  return Array.from({ length: element.size }, (_, y) =>
+    Array.from({ length: element.size }, (_, x) => {
+      const dy = y - r;
+      const dx = x - r;
+      switch (element.shape) {
+        case 'square':
+          return 1;
+        case 'cross':
+          return dx === 0 || dy === 0 ? 1 : 0;
+        case 'disk':
+          return dx * dx + dy * dy <= r * r + r ? 1 : 0;
+      }
+    })
+  );
+};
+
+/** [dy, dx] of every cell in a mask, in row-major order */
+const getFootprintOffsets = (mask: Kernel): [number, number][] => {
+  const anchorY = Math.floor(mask.length / 2);
+  const anchorX = Math.floor(mask[0].length / 2);
+  const offsets: [number, number][] = [];
+  mask.forEach((row, y) => row.forEach((on, x) => {
+    if (on) offsets.push([y - anchorY, x - anchorX]);
+  }));
+  return offsets;
+};
+
+/**
+ * Gathers the footprint around each sampled pixel into a window, in
+ * offset order, and reduces it to one output value. Zero padding
+ * contributes 0, as it does for convolution. The window is reused, so
+ * `reduce` may reorder it.
+ */
+const filterNeighbourhood = (
+  plane: Float64Array,
+  width: number,
+  height: number,
+  offsets: [number, number][],
+  padding: PaddingMode,
+  stride: number,
+  reduce: (window: Float64Array, center: number) => number
+): Float64Array => {
+  const outWidth = getOutputSize(width, stride);
+  const outHeight = getOutputSize(height, stride);
+  const output = new Float64Array(outWidth * outHeight);
+  const window = new Float64Array(offsets.length);
+
+  const colLookup = Array.from({ length: outWidth }, (_, ox) =>
+    offsets.map(([, dx]) => resolvePaddedIndex(ox * stride + dx, width, padding))
+  );
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    const cy = oy * stride;
+    const rows = offsets.map(([dy]) => resolvePaddedIndex(cy + dy, height, padding));
+
+    for (let ox = 0; ox < outWidth; ox++) {
+      const cols = colLookup[ox];
+      for (let k = 0; k < offsets.length; k++) {
+        window[k] = rows[k] < 0 || cols[k] < 0 ? 0 : plane[rows[k] * width + cols[k]];
+      }
+      output[oy * outWidth + ox] = reduce(window, plane[cy * width + ox * stride]);
+    }
+  }
+
+  return output;
+};
+
+const RANK_REDUCERS: Record<'median' | 'erode' | 'dilate', (window: Float64Array) => number> = {
+  median: window => window.sort()[window.length >> 1],
+  erode: window => Math.min(...window),
+  dilate: window => Math.max(...window),
+};
+
+const rankPlane = (
+  plane: Float64Array,
+  width: number,
+  height: number,
+  operation: RankOperation,
+  offsets: [number, number][],
+  padding: PaddingMode,
+  stride: number
+): Float64Array => {
+  const pass = (input: Float64Array, reducer: keyof typeof RANK_REDUCERS, step: number) =>
+    filterNeighbourhood(input, width, height, offsets, padding, step, RANK_REDUCERS[reducer]);
+
+  switch (operation) {
+    case 'open':
+      return pass(pass(plane, 'erode', 1), 'dilate', stride);
+    case 'close':
+      return pass(pass(plane, 'dilate', 1), 'erode', stride);
+    default:
+      return pass(plane, operation, stride);
+  }
+};
+
+const bilateralPlane = (
+  plane: Float64Array,
+  width: number,
+  height: number,
+  sigmaSpace: number,
+  sigmaRange: number,
+  offsets: [number, number][],
+  padding: PaddingMode,
+  stride: number
+): Float64Array => {
+  const spatial = offsets.map(([dy, dx]) => Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpace * sigmaSpace)));
+  const rangeScale = -1 / (2 * sigmaRange * sigmaRange);
+
+  return filterNeighbourhood(plane, width, height, offsets, padding, stride, (window, center) => {
+    // The center always has weight 1, so the total is never 0
+    let sum = 0;
+    let total = 0;
+    for (let k = 0; k < window.length; k++) {
+      const diff = window[k] - center;
+      const weight = spatial[k] * Math.exp(diff * diff * rangeScale);
+      sum += window[k] * weight;
+      total += weight;
+    }
+    return sum / total;
+  });
+};
+
+/**
+ * Applies a median, morphology or bilateral filter over a structuring
+ * element. Like convolution it filters R, G and B independently unless
+ * `channels` is 'gray'; there is no divisor or bias.
+ *
+ * @param image - Source image
+ * @param filter - Operation and structuring element
+ * @param options - Padding, stride and channel mode
+ */
+export const applyNonLinearFilter = (
+  image: ImageBuffer,
+  filter: NonLinearFilter,
+  options: Omit<ConvolutionOptions, 'divisor' | 'bias'> = {}
+): ImageBuffer => {
+  const { padding = 'clamp', stride = 1, channels = 'rgb' } = options;
+  assertValidStride(stride);
+  if (filter.type === 'bilateral' && !(filter.sigmaSpace > 0 && filter.sigmaRange > 0)) {
+    throw new Error('Bilateral sigmas must be positive');
+  }
+
+  const { width, height } = image;
+  const offsets = getFootprintOffsets(getStructuringElement(filter.element));
+  const planes = extractPlanes(image, channels).map(plane =>
+    filter.type === 'bilateral'
+      ? bilateralPlane(plane, width, height, filter.sigmaSpace, filter.sigmaRange, offsets, padding, stride)
+      : rankPlane(plane, width, height, filter.type, offsets, padding, stride)
+  );
+  return assembleImage(image, planes, stride, clampPixelValue);
+};
+
+// =============================================================================
+// ALGORITHMS
+// =============================================================================
+
+/**
+ * Runs an algorithm preset with whichever engine fits it: the non-linear
+ * filter or gradient operator if it has one, the separable passes if it
+ * is factored, and the plain 2D convolution otherwise.
+ */
+export const applyAlgorithm = (
+  image: ImageBuffer,
+  algorithm: AlgorithmFilter,
+  options: Omit<ConvolutionOptions, 'divisor' | 'bias'> = {}
+): ImageBuffer => {
+  if (algorithm.nonLinear) return applyNonLinearFilter(image, algorithm.nonLinear, options);
+  const withDivisor = { ...options, divisor: algorithm.divisor, bias: algorithm.bias };
+  if (algorithm.gradient) return applyGradientOperator(image, algorithm.gradient, withDivisor);
+  if (algorithm.separable) return convolveSeparable(image, algorithm.separable, withDivisor);
+  return convolve(image, algorithm.kernel, withDivisor);
+};
+
+/**
+ * Copies just the filter fields of an algorithm, dropping display text
+ * and deep-dive content.
+ */
+export const toAlgorithmFilter = ({ kernel, divisor, bias, separable, gradient, nonLinear }: AlgorithmFilter): AlgorithmFilter =>
+  ({ kernel, divisor, bias, separable, gradient, nonLinear });
+
+// =============================================================================
+// BENCHMARKING
+// =============================================================================
+
+/**
+ * Timing of a full 2D convolution against its separable equivalent.
+ */
+export interface SeparableSpeedComparison {
+  /** Mean milliseconds per run of the 2D convolution */
+  fullMs: number;
+  /** Mean milliseconds per run of the two-pass convolution */
+  separableMs: number;
+  /** Multiplies per output pixel and channel for each approach */
+  fullMultiplies: number;
+  separableMultiplies: number;
+  /** Largest per-byte difference between the two outputs (rounding only) */
+  maxDifference: number;
+}
+
+/**
+ * Times `convolve` against `convolveSeparable` on the same image.
+ *
+ * @param image - Image to filter; larger images give steadier timings
+ * @param separable - Kernel factors; the full kernel is their outer product
+ * @param options - Options passed to both engines
+ * @param runs - Number of timed runs per engine (default: 3)
+ */
+export const compareSeparableSpeed = (
+  image: ImageBuffer,
+  separable: SeparableKernel,
+  options: ConvolutionOptions = {},
+  runs = 3
+): SeparableSpeedComparison => {
+  const kernel = separable.column.map(c => separable.row.map(r => c * r));
+
+  const time = (fn: () => ImageBuffer): { ms: number; result: ImageBuffer } => {
+    let result = fn();
+    const start = performance.now();
+    for (let i = 0; i < runs; i++) result = fn();
+    return { ms: (performance.now() - start) / runs, result };
+  };
+
+  const full = time(() => convolve(image, kernel, options));
+  const fast = time(() => convolveSeparable(image, separable, options));
+
+  let maxDifference = 0;
+  for (let i = 0; i < full.result.data.length; i++) {
+    maxDifference = Math.max(maxDifference, Math.abs(full.result.data[i] - fast.result.data[i]));
+  }
+
+  return {
+    fullMs: full.ms,
+    separableMs: fast.ms,
+    fullMultiplies: separable.row.length * separable.column.length,
+    separableMultiplies: separable.row.length + separable.column.length,
+    maxDifference,
+  };
+};
+
+// =============================================================================
+// PIXEL MATRIX ADAPTERS
+// =============================================================================
+
+/**
+ * Builds a PixelData entry with its derived hex and gray values.
+ */
+export const createPixel = (r: number, g: number, b: number, a = 255): PixelData => ({
+  r,
+  g,
+  b,
+  a,
+  hex: rgbToHex(r, g, b),
+  gray: toGray(r, g, b),
+});
+
+/**
+ * Flattens a PixelData matrix into an RGBA buffer.
+ */
+export const pixelMatrixToBuffer = (matrix: PixelData[][]): ImageBuffer => {
+  const height = matrix.length;
+  const width = matrix[0]?.length ?? 0;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = matrix[y][x];
+      const i = (y * width + x) * 4;
+      data[i] = p.r;
+      data[i + 1] = p.g;
+      data[i + 2] = p.b;
+      data[i + 3] = p.a;
+    }
+  }
+
+  return { data, width, height };
+};
+
+/**
+ * Expands an RGBA buffer into a PixelData matrix.
+ */
+export const bufferToPixelMatrix = ({ data, width, height }: ImageBuffer): PixelData[][] => {
+  const matrix: PixelData[][] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row: PixelData[] = [];
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      row.push(createPixel(data[i], data[i + 1], data[i + 2], data[i + 3]));
+    }
+    matrix.push(row);
+  }
+
+  return matrix;
+};
+
+/**
+ * Convolves a PixelData matrix. Same semantics as `convolve`.
+ * An empty matrix is returned unchanged.
+ */
+export const convolvePixelMatrix = (
+  matrix: PixelData[][],
+  kernel: Kernel,
+  options: ConvolutionOptions = {}
+): PixelData[][] => {
+  if (matrix.length === 0 || matrix[0].length === 0) return matrix;
+  return bufferToPixelMatrix(convolve(pixelMatrixToBuffer(matrix), kernel, options));
+};
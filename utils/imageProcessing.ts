@@ -5,24 +5,30 @@
  * pixel extraction, and frame processing for real-time video.
  */
 
-import type { PixelData, Kernel } from '../types';
+import type { PixelData, Kernel, VisionAlgorithm } from '../types';
 import { toGray, rgbToHex, clampPixelValue } from './colorConversion';
+import { convolve, applyAlgorithm } from './imageOps';
+import { extractRgbaMatrix, rgbaMatrixToPixels } from './rgbaMatrix';
+import type { ConvolutionOptions } from './imageOps';
 
 // =============================================================================
 // CONVOLUTION OPERATIONS
 // =============================================================================
 
 /**
- * Applies a 3x3 convolution kernel to image data.
+ * Applies a convolution kernel to image data.
  * 
  * Convolution slides a kernel over the image and computes weighted sums
  * at each position. This is the foundation of image filtering operations.
+ * The work is done by `convolve` in imageOps; this wrapper keeps the
+ * canvas-friendly signature used by the processing hook.
  * 
  * @param imageData - Source image data from canvas
  * @param width - Image width in pixels
  * @param height - Image height in pixels
- * @param kernel - 3x3 convolution kernel
+ * @param kernel - Convolution kernel with odd dimensions
  * @param divisor - Normalization divisor (usually sum of kernel weights)
+ * @param options - Padding and channel mode (default: clamp padding, RGB)
  * @returns New ImageData with convolution applied
  * 
  * @example
@@ -35,95 +41,33 @@ export const applyConvolution = (
   width: number,
   height: number,
   kernel: Kernel,
-  divisor: number
+  divisor: number,
+  options: Pick<ConvolutionOptions, 'padding' | 'channels'> = {}
 ): ImageData => {
-  const src = imageData.data;
-  const output = new Uint8ClampedArray(src.length);
-
-  // Process each pixel (excluding 1px border for 3x3 kernel)
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      let r = 0, g = 0, b = 0;
-
-      // Apply kernel to 3x3 neighborhood
-      for (let ky = -1; ky <= 1; ky++) {
-        for (let kx = -1; kx <= 1; kx++) {
-          // Calculate source pixel index
-          const srcIdx = ((y + ky) * width + (x + kx)) * 4;
-          // Get kernel weight (kernel is [row][col], so [ky+1][kx+1])
-          const weight = kernel[ky + 1][kx + 1];
-
-          // Accumulate weighted RGB values
-          r += src[srcIdx] * weight;
-          g += src[srcIdx + 1] * weight;
-          b += src[srcIdx + 2] * weight;
-        }
-      }
-
-      // Calculate output pixel index
-      const outIdx = (y * width + x) * 4;
-
-      // Normalize by divisor and clamp to valid range
-      output[outIdx] = clampPixelValue(r / divisor);
-      output[outIdx + 1] = clampPixelValue(g / divisor);
-      output[outIdx + 2] = clampPixelValue(b / divisor);
-      output[outIdx + 3] = 255; // Full opacity
-    }
-  }
-
-  // Handle border pixels (copy from source)
-  copyBorderPixels(src, output, width, height);
-
-  return new ImageData(output, width, height);
+  const result = convolve(
+    { data: imageData.data, width, height },
+    kernel,
+    { ...options, divisor }
+  );
+  return new ImageData(result.data, result.width, result.height);
 };
 
 /**
- * Copies border pixels from source to output (convolution can't process edges).
+ * Applies an algorithm preset to image data, using its separable or
+ * gradient form when it has one.
  * 
- * @param src - Source pixel array
- * @param output - Output pixel array
- * @param width - Image width
- * @param height - Image height
+ * @param imageData - Source image data from canvas
+ * @param algorithm - Preset with kernel, divisor and optional fast forms
+ * @param options - Padding and channel mode (default: clamp padding, RGB)
+ * @returns New ImageData with the filter applied
  */
-const copyBorderPixels = (
-  src: Uint8ClampedArray,
-  output: Uint8ClampedArray,
-  width: number,
-  height: number
-): void => {
-  // Top and bottom rows
-  for (let x = 0; x < width; x++) {
-    // Top row
-    const topIdx = x * 4;
-    output[topIdx] = src[topIdx];
-    output[topIdx + 1] = src[topIdx + 1];
-    output[topIdx + 2] = src[topIdx + 2];
-    output[topIdx + 3] = src[topIdx + 3];
-
-    // Bottom row
-    const bottomIdx = ((height - 1) * width + x) * 4;
-    output[bottomIdx] = src[bottomIdx];
-    output[bottomIdx + 1] = src[bottomIdx + 1];
-    output[bottomIdx + 2] = src[bottomIdx + 2];
-    output[bottomIdx + 3] = src[bottomIdx + 3];
-  }
-
-  // Left and right columns
-  for (let y = 0; y < height; y++) {
-    // Left column
-    const leftIdx = y * width * 4;
-    output[leftIdx] = src[leftIdx];
-    output[leftIdx + 1] = src[leftIdx + 1];
-    output[leftIdx + 2] = src[leftIdx + 2];
-    output[leftIdx + 3] = src[leftIdx + 3];
-
-    // Right column
-    const rightIdx = (y * width + width - 1) * 4;
-    output[rightIdx] = src[rightIdx];
-    output[rightIdx + 1] = src[rightIdx + 1];
-    output[rightIdx + 2] = src[rightIdx + 2];
-    output[rightIdx + 3] = src[rightIdx + 3];
-  }
+export const applyFilter = (
+  imageData: ImageData,
+  algorithm: VisionAlgorithm,
+  options: Pick<ConvolutionOptions, 'padding' | 'channels'> = {}
+): ImageData => {
+  const result = applyAlgorithm(imageData, algorithm, options);
+  return new ImageData(result.data, result.width, result.height);
 };
 
 // =============================================================================
@@ -133,6 +77,7 @@ const copyBorderPixels = (
 /**
  * Extracts pixel data from a canvas at specified position.
  * Creates a PixelData object with all color representations.
+ * Reads one pixel per call; use `extractRgbaMatrix` for regions.
  * 
  * @param ctx - Canvas 2D rendering context
  * @param x - X coordinate
@@ -162,7 +107,7 @@ export const extractPixelData = (
 
 /**
  * Extracts a grid of pixel data from a canvas region.
- * Used for the matrix visualizer display.
+ * The region is read with a single `getImageData` call.
  * 
  * @param ctx - Canvas 2D rendering context
  * @param startX - Starting X coordinate
@@ -175,19 +120,7 @@ export const extractPixelGrid = (
   startX: number,
   startY: number,
   gridSize: number
-): PixelData[][] => {
-  const grid: PixelData[][] = [];
-
-  for (let row = 0; row < gridSize; row++) {
-    const rowData: PixelData[] = [];
-    for (let col = 0; col < gridSize; col++) {
-      rowData.push(extractPixelData(ctx, startX + col, startY + row));
-    }
-    grid.push(rowData);
-  }
-
-  return grid;
-};
+): PixelData[][] => rgbaMatrixToPixels(extractRgbaMatrix(ctx, startX, startY, gridSize));
 
 // =============================================================================
 // GRAYSCALE CONVERSION
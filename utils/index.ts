@@ -3,4 +3,22 @@
  */
 
 export * from './colorConversion';
+export * from './colorChannels';
+export * from './pointOps';
+export * from './frameFilter';
 export * from './imageProcessing';
+export * from './imageOps';
+export * from './rgbaMatrix';
+export * from './matrixView';
+export * from './customKernel';
+export * from './pooling';
+export * from './matrixExport';
+export * from './matrixImport';
+export * from './cnnPipeline';
+export * from './canny';
+export * from './expression';
+export * from './derivative';
+export * from './optimizers';
+export * from './autograd';
+export * from './linearAlgebra';
+export * from './projection3d';
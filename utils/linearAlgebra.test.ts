@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Tests for the linear algebra toolkit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMatrix,
+  identity,
+  transpose,
+  multiply,
+  multiplyVector,
+  determinant,
+  rank,
+  inverse,
+  nullSpace,
+  qrDecompose,
+  eigenvalues,
+  eigenDecompose,
+  powerIteration,
+  svd,
+} from './linearAlgebra';
+import type { Matrix } from '../src/types';
+
+const expectMatrixClose = (actual: Matrix, expected: number[][], digits = 8) => {
+  expect([actual.rows, actual.cols]).toEqual([expected.length, expected[0].length]);
+  actual.data.forEach((row, i) => row.forEach((v, j) => expect(v).toBeCloseTo(expected[i][j], digits)));
+};
+
+const A = createMatrix([[2, 1, 0], [1, 3, 1], [0, 1, 4]]);
+const ROTATION = createMatrix([[0, -1], [1, 0]]);
+const SHEAR = createMatrix([[1, 1], [0, 1]]);
+
+describe('createMatrix', () => {
+  it('records the shape and copies the rows', () => {
+    const rows = [[1, 2, 3], [4, 5, 6]];
+    const m = createMatrix(rows, 'M');
+    rows[0][0] = 9;
+    expect(m).toEqual({ rows: 2, cols: 3, data: [[1, 2, 3], [4, 5, 6]], label: 'M' });
+  });
+
+  it('rejects ragged or empty rows', () => {
+    expect(() => createMatrix([[1, 2], [3]])).toThrow('Row 2 has 1 entries; expected 2');
+    expect(() => createMatrix([])).toThrow('at least one row');
+  });
+});
+
+describe('multiply and transpose', () => {
+  it('multiplies compatible shapes', () => {
+    const product = multiply(createMatrix([[1, 2, 3], [4, 5, 6]]), createMatrix([[1], [0], [-1]]));
+    expect(product.data).toEqual([[-2], [-2]]);
+    expect(multiplyVector(SHEAR, [2, 3])).toEqual([5, 3]);
+  });
+
+  it('rejects mismatched shapes', () => {
+    expect(() => multiply(createMatrix([[1, 2]]), createMatrix([[1, 2]]))).toThrow('Cannot multiply a 1×2 matrix by a 1×2 matrix');
+  });
+
+  it('transposes rows into columns', () => {
+    expect(transpose(createMatrix([[1, 2, 3], [4, 5, 6]])).data).toEqual([[1, 4], [2, 5], [3, 6]]);
+  });
+});
+
+describe('determinant, rank and inverse', () => {
+  it('matches the cofactor expansion', () => {
+    expect(determinant(createMatrix([[1, 2], [3, 4]]))).toBeCloseTo(-2);
+    expect(determinant(A)).toBeCloseTo(18);
+    expect(determinant(createMatrix([[0, 1], [1, 0]]))).toBe(-1);
+  });
+
+  it('counts independent rows', () => {
+    expect(rank(A)).toBe(3);
+    expect(rank(createMatrix([[1, 2, 3], [2, 4, 6], [1, 0, 1]]))).toBe(2);
+    expect(rank(createMatrix([[0, 0], [0, 0]]))).toBe(0);
+  });
+
+  it('inverts a non-singular matrix', () => {
+    expectMatrixClose(multiply(A, inverse(A)), identity(3).data);
+  });
+
+  it('refuses to invert a singular matrix', () => {
+    expect(() => inverse(createMatrix([[1, 2], [2, 4]]))).toThrow('singular');
+    expect(() => determinant(createMatrix([[1, 2]]))).toThrow('needs a square matrix, got 1×2');
+  });
+
+  it('finds the null space', () => {
+    const [v] = nullSpace(createMatrix([[1, 2], [2, 4]]));
+    expect(v[0]).toBeCloseTo(2 / Math.sqrt(5));
+    expect(v[1]).toBeCloseTo(-1 / Math.sqrt(5));
+  });
+});
+
+describe('qrDecompose', () => {
+  it('factors into an orthogonal and an upper-triangular matrix', () => {
+    const m = createMatrix([[1, 2], [3, 4], [5, 6]]);
+    const { q, r } = qrDecompose(m);
+    expectMatrixClose(multiply(q, r), m.data);
+    expectMatrixClose(multiply(transpose(q), q), identity(3).data);
+    expect(r.data[1][0]).toBe(0);
+    expect(r.data[2]).toEqual([0, 0]);
+  });
+});
+
+describe('eigenvalues', () => {
+  it('finds real eigenvalues of a non-symmetric matrix', () => {
+    const values = eigenvalues(createMatrix([[4, 1, 2], [0, 3, 1], [1, 0, 2]]));
+    const product = values.reduce((p, v) => p * v.re, 1);
+    expect(values.every(v => v.im === 0)).toBe(true);
+    expect(product).toBeCloseTo(determinant(createMatrix([[4, 1, 2], [0, 3, 1], [1, 0, 2]])));
+    expect(values.reduce((s, v) => s + v.re, 0)).toBeCloseTo(9);
+  });
+
+  it('returns complex conjugate pairs for rotations', () => {
+    const values = eigenvalues(ROTATION);
+    expect(values).toHaveLength(2);
+    expect(values[0].re).toBeCloseTo(0);
+    expect(Math.abs(values[0].im)).toBeCloseTo(1);
+    expect(values[0].im).toBeCloseTo(-values[1].im);
+  });
+
+  it('handles a complex pair alongside a real eigenvalue', () => {
+    const values = eigenvalues(createMatrix([[1, -2, 0.5], [2, 1, 0.3], [0.2, 0.1, 3]]));
+    expect(values.filter(v => v.im !== 0)).toHaveLength(2);
+    expect(values.reduce((s, v) => s + v.re, 0)).toBeCloseTo(5);
+  });
+
+  it.each([
+    [[[-3, -1, -1], [-5, 1, 3], [3, -4, -2]]],
+    [[[2.9, 1.4, 1.8], [3.1, 3.5, 0.4], [-5, -1.6, 4.6]]],
+  ])('converges for a complex pair that single shifts stall on: %j', data => {
+    const m = createMatrix(data);
+    const values = eigenvalues(m);
+    const [re, im] = values.reduce(([pr, pi], v) => [pr * v.re - pi * v.im, pr * v.im + pi * v.re], [1, 0]);
+    expect(values.filter(v => v.im !== 0)).toHaveLength(2);
+    expect(values.reduce((s, v) => s + v.re, 0)).toBeCloseTo(data[0][0] + data[1][1] + data[2][2]);
+    expect(re).toBeCloseTo(determinant(m));
+    expect(im).toBeCloseTo(0);
+  });
+});
+
+describe('eigenDecompose', () => {
+  it('gives an orthonormal eigenbasis for a symmetric matrix', () => {
+    const { pairs } = eigenDecompose(A);
+    expect(pairs).toHaveLength(3);
+    for (const { value, vector } of pairs) {
+      multiplyVector(A, vector).forEach((x, i) => expect(x).toBeCloseTo(value * vector[i]));
+    }
+    expect(pairs[0].vector.reduce((s, x, i) => s + x * pairs[1].vector[i], 0)).toBeCloseTo(0);
+  });
+
+  it('satisfies Av = λv for a non-symmetric matrix', () => {
+    const m = createMatrix([[2, 1], [0, 3]]);
+    const { pairs } = eigenDecompose(m);
+    expect(pairs.map(p => p.value)).toEqual([expect.closeTo(3), expect.closeTo(2)]);
+    for (const { value, vector } of pairs) {
+      multiplyVector(m, vector).forEach((x, i) => expect(x).toBeCloseTo(value * vector[i]));
+    }
+  });
+
+  it('finds a single eigenvector for a shear', () => {
+    const { values, pairs } = eigenDecompose(SHEAR);
+    expect(values.map(v => v.re)).toEqual([1, 1]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].vector[0]).toBeCloseTo(1);
+    expect(pairs[0].vector[1]).toBeCloseTo(0, 5);
+  });
+
+  it('keeps a whole eigenspace for a repeated eigenvalue', () => {
+    expect(eigenDecompose(createMatrix([[2, 0], [0, 2]])).pairs).toHaveLength(2);
+  });
+
+  it('has no real eigenvectors for a rotation', () => {
+    expect(eigenDecompose(ROTATION).pairs).toEqual([]);
+  });
+});
+
+describe('powerIteration', () => {
+  it('converges to the dominant eigenpair', () => {
+    const result = powerIteration(A, { iterations: 500 });
+    const [dominant] = eigenDecompose(A).pairs;
+    expect(result.converged).toBe(true);
+    expect(result.value).toBeCloseTo(dominant.value);
+    result.vector.forEach((x, i) => expect(x).toBeCloseTo(dominant.vector[i]));
+  });
+
+  it('does not converge without a dominant eigenvalue', () => {
+    expect(powerIteration(ROTATION, { iterations: 20 }).converged).toBe(false);
+  });
+});
+
+describe('svd', () => {
+  it.each([
+    ['square', [[3, 1], [1, -2]]],
+    ['non-symmetric 3×3', [[1, 2, 0], [0, 1, 3], [2, 0, 1]]],
+    ['wide', [[1, 0, 2], [0, 3, 0]]],
+    ['tall', [[1, 2], [3, 4], [5, 6]]],
+  ])('reconstructs a %s matrix', (_, data) => {
+    const m = createMatrix(data);
+    const { u, s, v } = svd(m);
+    const sigma = createMatrix(s.map((_, i) => s.map((x, j) => (i === j ? x : 0))));
+    expectMatrixClose(multiply(multiply(u, sigma), transpose(v)), data, 6);
+    expectMatrixClose(multiply(transpose(u), u), identity(s.length).data, 6);
+    expect([...s].sort((a, b) => b - a)).toEqual(s);
+  });
+
+  it('has singular values equal to |eigenvalues| for a symmetric matrix', () => {
+    const { s } = svd(createMatrix([[3, 1], [1, -2]]));
+    const magnitudes = eigenvalues(createMatrix([[3, 1], [1, -2]])).map(v => Math.abs(v.re));
+    s.forEach((x, i) => expect(x).toBeCloseTo(magnitudes[i]));
+  });
+
+  it('completes U for a singular matrix', () => {
+    const { u, s } = svd(createMatrix([[1, 2], [2, 4]]));
+    expect(s[0]).toBeCloseTo(5);
+    expect(s[1]).toBeCloseTo(0, 6);
+    expectMatrixClose(multiply(transpose(u), u), identity(2).data);
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * @fileoverview Dense linear algebra on small matrices.
+ *
+ * Works on the `Matrix` type from `src/types`, with `data` indexed
+ * [row][col], and plain `number[]` vectors. Covers products, transposes,
+ * determinants, inverses and rank (by row reduction), QR, eigenvalues
+ * (Francis double-shift QR on the Hessenberg form, with Jacobi rotations
+ * for symmetric matrices), power iteration and the singular value
+ * decomposition.
+ *
+ * The routines are written for the 2×2 and 3×3 matrices of the lessons
+ * and favour clarity over speed; nothing here is blocked or cached.
+ */
+
+import type { Matrix } from '../src/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+/** A real eigenvalue with one unit eigenvector */
+export interface Eigenpair {
+  value: number;
+  vector: number[];
+}
+
+export interface EigenDecomposition {
+  /** Every eigenvalue with multiplicity, largest magnitude first; complex ones come in conjugate pairs */
+  values: Complex[];
+  /** Real eigenvalues, one entry per dimension of each eigenspace */
+  pairs: Eigenpair[];
+}
+
+/** A = QR with Q orthogonal and R upper triangular */
+export interface QRDecomposition {
+  q: Matrix;
+  r: Matrix;
+}
+
+/** A = U·diag(s)·Vᵀ, with the columns of U and V orthonormal and s descending */
+export interface SingularValueDecomposition {
+  u: Matrix;
+  s: number[];
+  v: Matrix;
+}
+
+export interface PowerIterationResult {
+  /** Rayleigh quotient of the final vector */
+  value: number;
+  vector: number[];
+  /** Eigenvalue estimate after each iteration */
+  estimates: number[];
+  converged: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Relative size below which a pivot or off-diagonal entry counts as zero */
+export const LINALG_TOLERANCE = 1e-10;
+
+/**
+ * Relative tolerance for the null space of A - λI. Eigenvalues of
+ * defective matrices (a shear, say) are only accurate to about √ε, so
+ * this has to be much looser than LINALG_TOLERANCE.
+ */
+const EIGENSPACE_TOLERANCE = 1e-6;
+
+const MAX_QR_ITERATIONS = 1000;
+const MAX_JACOBI_SWEEPS = 100;
+
+/** QR iterations without a deflation before an exceptional shift */
+const EXCEPTIONAL_SHIFT_INTERVAL = 10;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const copyData = (data: number[][]) => data.map(row => [...row]);
+
+const fromData = (data: number[][]): Matrix => ({ rows: data.length, cols: data[0]?.length ?? 0, data });
+
+const fromColumns = (columns: number[][]): Matrix =>
+  fromData(columns[0].map((_, i) => columns.map(column => column[i])));
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const norm = (v: number[]) => Math.sqrt(dot(v, v));
+
+const scaleVector = (v: number[], factor: number) => v.map(x => x * factor);
+
+/** Largest absolute entry, at least 1, for scaling tolerances */
+const magnitudeOf = (data: number[][]) => Math.max(1, ...data.flat().map(Math.abs));
+
+/** Flips a vector so its largest component is positive, making results deterministic */
+const canonicalSign = (v: number[]) => {
+  const largest = v.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+  return largest < 0 ? scaleVector(v, -1) : v;
+};
+
+const assertSquare = (a: Matrix, operation: string) => {
+  if (a.rows !== a.cols) throw new Error(`${operation} needs a square matrix, got ${a.rows}×${a.cols}`);
+};
+
+/**
+ * Reduced row echelon form by Gauss-Jordan elimination with partial
+ * pivoting. Columns whose best pivot is within `tolerance` of zero are
+ * treated as zero columns.
+ */
+const reduceRows = (data: number[][], tolerance: number) => {
+  const m = copyData(data);
+  const rows = m.length;
+  const cols = m[0].length;
+  const pivotColumns: number[] = [];
+  let r = 0;
+  for (let c = 0; c < cols && r < rows; c++) {
+    let p = r;
+    for (let i = r + 1; i < rows; i++) if (Math.abs(m[i][c]) > Math.abs(m[p][c])) p = i;
+    if (Math.abs(m[p][c]) <= tolerance) {
+      for (let i = r; i < rows; i++) m[i][c] = 0;
+      continue;
+    }
+    [m[r], m[p]] = [m[p], m[r]];
+    const pivot = m[r][c];
+    for (let j = 0; j < cols; j++) m[r][j] /= pivot;
+    for (let i = 0; i < rows; i++) {
+      const factor = m[i][c];
+      if (i === r || factor === 0) continue;
+      for (let j = 0; j < cols; j++) m[i][j] -= factor * m[r][j];
+    }
+    pivotColumns.push(c);
+    r++;
+  }
+  return { reduced: m, pivotColumns };
+};
+
+/** Eigenvalues of [[a, b], [c, d]], from the characteristic quadratic */
+const eigenvaluesOf2x2 = (a: number, b: number, c: number, d: number): [Complex, Complex] => {
+  const half = (a + d) / 2;
+  let discriminant = half * half - (a * d - b * c);
+  // A repeated real root can come out a rounding error below zero
+  if (Math.abs(discriminant) <= LINALG_TOLERANCE * Math.max(1, half * half)) discriminant = 0;
+  if (discriminant >= 0) {
+    const root = Math.sqrt(discriminant);
+    return [{ re: half + root, im: 0 }, { re: half - root, im: 0 }];
+  }
+  const root = Math.sqrt(-discriminant);
+  return [{ re: half, im: root }, { re: half, im: -root }];
+};
+
+/**
+ * Jacobi eigenvalue algorithm: rotates away off-diagonal entries until the
+ * matrix is diagonal. Only valid for symmetric input, where it gives
+ * orthonormal eigenvectors even for repeated eigenvalues.
+ */
+const jacobiEigen = (data: number[][]): Eigenpair[] => {
+  const n = data.length;
+  const a = copyData(data);
+  const v = identity(n).data;
+  const threshold = (LINALG_TOLERANCE * magnitudeOf(data)) ** 2;
+
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] ** 2;
+    if (off <= threshold) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const [akp, akq] = [a[k][p], a[k][q]];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const [apk, aqk] = [a[p][k], a[q][k]];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const [vkp, vkq] = [v[k][p], v[k][q]];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return a
+    .map((row, i) => ({ value: row[i], vector: canonicalSign(v.map(r => r[i])) }))
+    .sort((x, y) => y.value - x.value);
+};
+
+/** Largest magnitude first, then by real part, then by imaginary part */
+const compareEigenvalues = (a: Complex, b: Complex) =>
+  Math.hypot(b.re, b.im) - Math.hypot(a.re, a.im) || b.re - a.re || b.im - a.im;
+
+// =============================================================================
+// CONSTRUCTION
+// =============================================================================
+
+/**
+ * Wraps rows of numbers as a matrix, copying them.
+ *
+ * @throws Error if there are no entries or the rows differ in length
+ */
+export const createMatrix = (data: number[][], label?: string): Matrix => {
+  if (!data.length || !data[0].length) throw new Error('A matrix needs at least one row and one column');
+  const cols = data[0].length;
+  data.forEach((row, i) => {
+    if (row.length !== cols) throw new Error(`Row ${i + 1} has ${row.length} entries; expected ${cols}`);
+  });
+  return { rows: data.length, cols, data: copyData(data), label };
+};
+
+export const identity = (n: number): Matrix =>
+  fromData(Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))));
+
+export const getColumn = (a: Matrix, j: number): number[] => a.data.map(row => row[j]);
+
+// =============================================================================
+// ARITHMETIC
+// =============================================================================
+
+export const transpose = (a: Matrix): Matrix => fromData(a.data[0].map((_, j) => getColumn(a, j)));
+
+/**
+ * @throws Error if the inner dimensions differ
+ */
+export const multiply = (a: Matrix, b: Matrix): Matrix => {
+  if (a.cols !== b.rows) {
+    throw new Error(`Cannot multiply a ${a.rows}×${a.cols} matrix by a ${b.rows}×${b.cols} matrix`);
+  }
+  return fromData(a.data.map(row => b.data[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b.data[k][j], 0))));
+};
+
+/**
+ * @throws Error if the vector length differs from the column count
+ */
+export const multiplyVector = (a: Matrix, v: number[]): number[] => {
+  if (a.cols !== v.length) throw new Error(`Cannot multiply a ${a.rows}×${a.cols} matrix by a vector of length ${v.length}`);
+  return a.data.map(row => dot(row, v));
+};
+
+export const isSymmetric = (a: Matrix, tolerance = LINALG_TOLERANCE): boolean =>
+  a.rows === a.cols &&
+  a.data.every((row, i) => row.every((v, j) => Math.abs(v - a.data[j][i]) <= tolerance * magnitudeOf(a.data)));
+
+// =============================================================================
+// ELIMINATION
+// =============================================================================
+
+/**
+ * Determinant by LU elimination with partial pivoting: the product of the
+ * pivots, negated once per row swap.
+ *
+ * @throws Error if the matrix is not square
+ */
+export const determinant = (a: Matrix): number => {
+  assertSquare(a, 'The determinant');
+  const m = copyData(a.data);
+  const n = a.rows;
+  let det = 1;
+  for (let k = 0; k < n; k++) {
+    let p = k;
+    for (let i = k + 1; i < n; i++) if (Math.abs(m[i][k]) > Math.abs(m[p][k])) p = i;
+    if (m[p][k] === 0) return 0;
+    if (p !== k) {
+      [m[k], m[p]] = [m[p], m[k]];
+      det = -det;
+    }
+    det *= m[k][k];
+    for (let i = k + 1; i < n; i++) {
+      const factor = m[i][k] / m[k][k];
+      for (let j = k; j < n; j++) m[i][j] -= factor * m[k][j];
+    }
+  }
+  return det;
+};
+
+/**
+ * Number of linearly independent rows, counting pivots within
+ * LINALG_TOLERANCE (relative to the largest entry) as zero.
+ */
+export const rank = (a: Matrix): number =>
+  reduceRows(a.data, LINALG_TOLERANCE * magnitudeOf(a.data)).pivotColumns.length;
+
+/**
+ * Inverse by Gauss-Jordan elimination on [A | I].
+ *
+ * @throws Error if the matrix is not square or is singular
+ */
+export const inverse = (a: Matrix): Matrix => {
+  assertSquare(a, 'The inverse');
+  const n = a.rows;
+  const augmented = a.data.map((row, i) => [...row, ...identity(n).data[i]]);
+  const { reduced, pivotColumns } = reduceRows(augmented, LINALG_TOLERANCE * magnitudeOf(a.data));
+  if (pivotColumns.length < n || pivotColumns[n - 1] !== n - 1) {
+    throw new Error('The matrix is singular, so it has no inverse');
+  }
+  return fromData(reduced.map(row => row.slice(n)));
+};
+
+/**
+ * Unit vectors spanning {x : Ax = 0}, one per free column of the reduced
+ * row echelon form.
+ *
+ * @param tolerance - Pivots at or below this size count as zero
+ */
+export const nullSpace = (a: Matrix, tolerance = LINALG_TOLERANCE * magnitudeOf(a.data)): number[][] => {
+  const { reduced, pivotColumns } = reduceRows(a.data, tolerance);
+  const free = Array.from({ length: a.cols }, (_, j) => j).filter(j => !pivotColumns.includes(j));
+  return free.map(f => {
+    const v = new Array<number>(a.cols).fill(0);
+    v[f] = 1;
+    pivotColumns.forEach((column, row) => {
+      v[column] = -reduced[row][f];
+    });
+    return canonicalSign(scaleVector(v, 1 / norm(v)));
+  });
+};
+
+// =============================================================================
+// DECOMPOSITIONS
+// =============================================================================
+
+/**
+ * QR decomposition by Householder reflections. Q is rows×rows and R is
+ * rows×cols.
+ */
+export const qrDecompose = (a: Matrix): QRDecomposition => {
+  const m = a.rows;
+  const n = a.cols;
+  const r = copyData(a.data);
+  const q = identity(m).data;
+
+  for (let k = 0; k < Math.min(m - 1, n); k++) {
+    const x = r.slice(k).map(row => row[k]);
+    const length = norm(x);
+    if (length === 0) continue;
+    const v = [...x];
+    v[0] -= x[0] > 0 ? -length : length;
+    const vLength = norm(v);
+    if (vLength === 0) continue;
+    const u = scaleVector(v, 1 / vLength);
+
+    // R ← HR and Q ← QH with H = I - 2uuᵀ acting on rows k..m
+    for (let j = 0; j < n; j++) {
+      const s = u.reduce((sum, ui, i) => sum + ui * r[k + i][j], 0);
+      u.forEach((ui, i) => { r[k + i][j] -= 2 * ui * s; });
+    }
+    for (let i = 0; i < m; i++) {
+      const s = u.reduce((sum, ul, l) => sum + q[i][k + l] * ul, 0);
+      u.forEach((ul, l) => { q[i][k + l] -= 2 * s * ul; });
+    }
+  }
+
+  for (let i = 1; i < m; i++) for (let j = 0; j < Math.min(i, n); j++) r[i][j] = 0;
+  return { q: fromData(q), r: fromData(r) };
+};
+
+/**
+ * Householder reduction to upper Hessenberg form (zero below the first
+ * subdiagonal), a similarity transform that keeps the eigenvalues. On a
+ * Hessenberg matrix a converged block shows up as one negligible
+ * subdiagonal entry.
+ */
+const toHessenberg = (data: number[][]): number[][] => {
+  const h = copyData(data);
+  const n = h.length;
+  for (let k = 0; k < n - 2; k++) {
+    const x = h.slice(k + 1).map(row => row[k]);
+    const length = norm(x);
+    if (length === 0) continue;
+    const v = [...x];
+    v[0] -= x[0] > 0 ? -length : length;
+    const vLength = norm(v);
+    if (vLength === 0) continue;
+    const u = scaleVector(v, 1 / vLength);
+
+    // H ← PHP with P = I - 2uuᵀ acting on rows and columns k+1..n
+    for (let j = 0; j < n; j++) {
+      const s = u.reduce((sum, ui, i) => sum + ui * h[k + 1 + i][j], 0);
+      u.forEach((ui, i) => { h[k + 1 + i][j] -= 2 * ui * s; });
+    }
+    for (let i = 0; i < n; i++) {
+      const s = u.reduce((sum, ul, l) => sum + h[i][k + 1 + l] * ul, 0);
+      u.forEach((ul, l) => { h[i][k + 1 + l] -= 2 * s * ul; });
+    }
+    for (let i = k + 2; i < n; i++) h[i][k] = 0;
+  }
+  return h;
+};
+
+/**
+ * Eigenvalues by the Francis double-shift QR algorithm. The matrix is
+ * first reduced to Hessenberg form; each step then takes
+ * H ← QᵀHQ with QR = H² - sH + tI, where s and t are the trace and
+ * determinant of the trailing 2×2 block. The two shifts are its
+ * eigenvalues, so a complex pair is handled in real arithmetic. Once a
+ * subdiagonal entry is negligible the block below it splits off: a 1×1
+ * block is a real eigenvalue and a 2×2 block a real or complex pair.
+ *
+ * @throws Error if the matrix is not square or the iteration does not converge
+ */
+export const eigenvalues = (a: Matrix): Complex[] => {
+  assertSquare(a, 'Eigenvalues');
+  const h = toHessenberg(a.data);
+  const scale = magnitudeOf(a.data);
+  const values: Complex[] = [];
+  /** Whether h[i][i-1] is negligible next to its diagonal neighbours */
+  const splitsAbove = (i: number) =>
+    Math.abs(h[i][i - 1]) <= LINALG_TOLERANCE * (Math.abs(h[i][i]) + Math.abs(h[i - 1][i - 1]) || scale);
+
+  let hi = a.rows - 1;
+  let iterations = 0;
+  let sinceDeflation = 0;
+  while (hi >= 0) {
+    // Top of the unreduced block that ends at row hi
+    let lo = hi;
+    while (lo > 0 && !splitsAbove(lo)) lo--;
+    if (lo > 0) h[lo][lo - 1] = 0;
+
+    if (lo === hi) {
+      values.push({ re: h[hi][hi], im: 0 });
+      hi -= 1;
+      sinceDeflation = 0;
+      continue;
+    }
+    if (lo === hi - 1) {
+      values.push(...eigenvaluesOf2x2(h[lo][lo], h[lo][hi], h[hi][lo], h[hi][hi]));
+      hi -= 2;
+      sinceDeflation = 0;
+      continue;
+    }
+    if (++iterations > MAX_QR_ITERATIONS) throw new Error('Eigenvalues did not converge');
+
+    let s = h[hi - 1][hi - 1] + h[hi][hi];
+    let t = h[hi - 1][hi - 1] * h[hi][hi] - h[hi - 1][hi] * h[hi][hi - 1];
+    if (++sinceDeflation % EXCEPTIONAL_SHIFT_INTERVAL === 0) {
+      // Exceptional shifts break the rare cycles the standard shifts fall into
+      const x = Math.abs(h[hi][hi - 1]) + Math.abs(h[hi - 1][hi - 2]);
+      s = 1.5 * x;
+      t = x * x;
+    }
+
+    const block = fromData(h.slice(lo, hi + 1).map(row => row.slice(lo, hi + 1)));
+    const squared = multiply(block, block).data;
+    const shifted = squared.map((row, i) => row.map((v, j) => v - s * block.data[i][j] + (i === j ? t : 0)));
+    const { q } = qrDecompose(fromData(shifted));
+    const next = multiply(multiply(transpose(q), block), q).data;
+    next.forEach((row, i) => row.forEach((v, j) => { h[lo + i][lo + j] = v; }));
+  }
+
+  return values.sort(compareEigenvalues);
+};
+
+/**
+ * Eigenvalues together with eigenvectors for the real ones. Symmetric
+ * matrices use Jacobi rotations, which give an orthonormal eigenbasis;
+ * otherwise each distinct real eigenvalue λ gets a basis of the null
+ * space of A - λI. A defective matrix has fewer pairs than its size.
+ *
+ * @throws Error if the matrix is not square
+ */
+export const eigenDecompose = (a: Matrix): EigenDecomposition => {
+  assertSquare(a, 'The eigendecomposition');
+  if (isSymmetric(a)) {
+    const pairs = jacobiEigen(a.data).sort((x, y) => compareEigenvalues({ re: x.value, im: 0 }, { re: y.value, im: 0 }));
+    return { values: pairs.map(p => ({ re: p.value, im: 0 })), pairs };
+  }
+
+  const values = eigenvalues(a);
+  const scale = magnitudeOf(a.data);
+  const distinct: number[] = [];
+  for (const { re, im } of values) {
+    if (im === 0 && !distinct.some(d => Math.abs(d - re) <= EIGENSPACE_TOLERANCE * scale)) distinct.push(re);
+  }
+  const pairs = distinct.flatMap(value => {
+    const shifted = fromData(a.data.map((row, i) => row.map((v, j) => (i === j ? v - value : v))));
+    return nullSpace(shifted, EIGENSPACE_TOLERANCE * scale).map(vector => ({ value, vector }));
+  });
+  return { values, pairs };
+};
+
+/**
+ * Repeatedly applies A to a vector and renormalises. The vector turns
+ * towards the eigenvector of the largest-magnitude eigenvalue, at a rate
+ * set by the ratio of the two largest magnitudes.
+ *
+ * @param start - Initial vector; defaults to all ones
+ */
+export const powerIteration = (
+  a: Matrix,
+  { iterations = 100, start }: { iterations?: number; start?: number[] } = {}
+): PowerIterationResult => {
+  assertSquare(a, 'Power iteration');
+  let vector = start ?? new Array<number>(a.rows).fill(1);
+  vector = scaleVector(vector, 1 / norm(vector));
+  const estimates: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const next = multiplyVector(a, vector);
+    const length = norm(next);
+    if (length === 0) return { value: 0, vector, estimates: [...estimates, 0], converged: true };
+    const unit = scaleVector(next, 1 / length);
+    estimates.push(dot(unit, multiplyVector(a, unit)));
+    // A negative eigenvalue flips the vector each step, so compare up to sign
+    const change = Math.min(norm(unit.map((x, k) => x - vector[k])), norm(unit.map((x, k) => x + vector[k])));
+    vector = unit;
+    if (change <= LINALG_TOLERANCE) {
+      return { value: estimates[estimates.length - 1], vector: canonicalSign(vector), estimates, converged: true };
+    }
+  }
+  return { value: estimates[estimates.length - 1] ?? 0, vector: canonicalSign(vector), estimates, converged: false };
+};
+
+/**
+ * Thin singular value decomposition from the eigenvectors of AᵀA: V holds
+ * them, s their square roots, and U the normalised images Av/σ. Columns of
+ * U for zero singular values are completed to an orthonormal set.
+ *
+ * Squaring A halves the precision of small singular values (a singular
+ * matrix shows σ ≈ 1e-8 rather than 0), which is fine for display.
+ */
+export const svd = (a: Matrix): SingularValueDecomposition => {
+  const k = Math.min(a.rows, a.cols);
+  const pairs = jacobiEigen(multiply(transpose(a), a).data).slice(0, k);
+  const s = pairs.map(p => Math.sqrt(Math.max(0, p.value)));
+  const cutoff = LINALG_TOLERANCE * Math.max(1, s[0]);
+
+  const uColumns: number[][] = [];
+  pairs.forEach((pair, i) => {
+    if (s[i] > cutoff) uColumns.push(scaleVector(multiplyVector(a, pair.vector), 1 / s[i]));
+  });
+  // Gram-Schmidt the standard basis against what we have until U is full
+  for (let e = 0; uColumns.length < k && e < a.rows; e++) {
+    let candidate: number[] = Array.from({ length: a.rows }, (_, i) => (i === e ? 1 : 0));
+    for (const column of uColumns) {
+      const projection = dot(candidate, column);
+      candidate = candidate.map((x, i) => x - projection * column[i]);
+    }
+    const length = norm(candidate);
+    if (length > 1e-6) uColumns.push(scaleVector(candidate, 1 / length));
+  }
+
+  return { u: fromColumns(uColumns), s, v: fromColumns(pairs.map(p => p.vector)) };
+};
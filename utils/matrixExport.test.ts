@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Byte-level tests for the matrix exporters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matrixToTensor,
+  encodeNpy,
+  encodeJsonTensor,
+  encodePnm,
+  encodePng,
+  encodeCsv,
+  encodeNpz,
+  exportMatrix,
+  exportMatrixBundle,
+  crc32,
+  toFileSlug,
+} from './matrixExport';
+import { createPixel } from './imageOps';
+
+// 2 rows × 3 columns
+const MATRIX = [
+  [createPixel(255, 0, 0), createPixel(0, 255, 0), createPixel(0, 0, 255)],
+  [createPixel(10, 20, 30), createPixel(40, 50, 60), createPixel(70, 80, 90)],
+];
+
+const text = (bytes: Uint8Array, start = 0, end = bytes.length) =>
+  new TextDecoder().decode(bytes.subarray(start, end));
+
+const u32 = (bytes: Uint8Array, offset: number, littleEndian = false) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, littleEndian);
+
+describe('matrixToTensor', () => {
+  it('flattens rgb in HWC order', () => {
+    const { shape, data } = matrixToTensor(MATRIX, 'rgb');
+    expect(shape).toEqual([2, 3, 3]);
+    expect(Array.from(data.subarray(0, 6))).toEqual([255, 0, 0, 0, 255, 0]);
+    expect(data[data.length - 1]).toBe(90);
+  });
+
+  it('keeps one value per pixel for gray', () => {
+    const { shape, data } = matrixToTensor(MATRIX, 'gray');
+    expect(shape).toEqual([2, 3]);
+    expect(Array.from(data)).toEqual(MATRIX.flat().map(p => p.gray));
+  });
+
+  it('rejects empty and ragged matrices', () => {
+    expect(() => matrixToTensor([], 'rgb')).toThrow(/empty/);
+    expect(() => matrixToTensor([MATRIX[0], MATRIX[1].slice(1)], 'rgb')).toThrow(/same length/);
+  });
+});
+
+describe('encodeNpy', () => {
+  it('writes a 64-byte aligned v1.0 header', () => {
+    const bytes = encodeNpy(matrixToTensor(MATRIX, 'rgb'));
+    expect(bytes[0]).toBe(0x93);
+    expect(text(bytes, 1, 6)).toBe('NUMPY');
+    expect([bytes[6], bytes[7]]).toEqual([1, 0]);
+
+    const headerLength = bytes[8] | (bytes[9] << 8);
+    expect((10 + headerLength) % 64).toBe(0);
+
+    const header = text(bytes, 10, 10 + headerLength);
+    expect(header).toMatch(/^\{'descr': '\|u1', 'fortran_order': False, 'shape': \(2, 3, 3\), \} *\n$/);
+    expect(bytes.length).toBe(10 + headerLength + 18);
+    expect(bytes[10 + headerLength]).toBe(255);
+  });
+
+  it('writes 2D shapes for gray', () => {
+    const bytes = encodeNpy(matrixToTensor(MATRIX, 'gray'));
+    expect(text(bytes, 10, 80)).toContain("'shape': (2, 3)");
+  });
+});
+
+describe('encodeJsonTensor', () => {
+  it('nests rows and records shape and dtype', () => {
+    const doc = JSON.parse(encodeJsonTensor(matrixToTensor(MATRIX, 'rgb')));
+    expect(doc).toMatchObject({ shape: [2, 3, 3], dtype: 'uint8', channels: 'rgb' });
+    expect(doc.data[1][2]).toEqual([70, 80, 90]);
+  });
+
+  it('uses plain numbers for gray', () => {
+    const doc = JSON.parse(encodeJsonTensor(matrixToTensor(MATRIX, 'gray')));
+    expect(doc.channels).toBe('gray');
+    expect(doc.data[0]).toEqual(MATRIX[0].map(p => p.gray));
+  });
+});
+
+describe('encodePnm', () => {
+  it('writes P6 for rgb and P5 for gray', () => {
+    const ppm = encodePnm(matrixToTensor(MATRIX, 'rgb'));
+    expect(text(ppm, 0, 11)).toBe('P6\n3 2\n255\n');
+    expect(ppm.length).toBe(11 + 18);
+
+    const pgm = encodePnm(matrixToTensor(MATRIX, 'gray'));
+    expect(text(pgm, 0, 11)).toBe('P5\n3 2\n255\n');
+    expect(pgm.length).toBe(11 + 6);
+  });
+});
+
+describe('encodePng', () => {
+  /** Splits a PNG into chunks, checking each CRC */
+  const readChunks = (png: Uint8Array) => {
+    const chunks: { type: string; body: Uint8Array }[] = [];
+    let offset = 8;
+    while (offset < png.length) {
+      const length = u32(png, offset);
+      const type = text(png, offset + 4, offset + 8);
+      const body = png.subarray(offset + 8, offset + 8 + length);
+      expect(u32(png, offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+      chunks.push({ type, body });
+      offset += 12 + length;
+    }
+    return chunks;
+  };
+
+  it('writes a valid RGB image', () => {
+    const png = encodePng(matrixToTensor(MATRIX, 'rgb'));
+    expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const chunks = readChunks(png);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+
+    const ihdr = chunks[0].body;
+    expect([u32(ihdr, 0), u32(ihdr, 4), ihdr[8], ihdr[9]]).toEqual([3, 2, 8, 2]);
+
+    // zlib header, one final stored block, then filter byte + scanline
+    const idat = chunks[1].body;
+    expect([idat[0], idat[1], idat[2]]).toEqual([0x78, 0x01, 1]);
+    const scanlines = idat.subarray(7, idat.length - 4);
+    expect(scanlines.length).toBe(2 * (1 + 9));
+    expect(Array.from(scanlines.subarray(0, 4))).toEqual([0, 255, 0, 0]);
+    expect(Array.from(scanlines.subarray(10, 14))).toEqual([0, 10, 20, 30]);
+  });
+
+  it('splits large images into several stored blocks', () => {
+    const row = Array.from({ length: 300 }, (_, i) => createPixel(i % 256, 0, 0));
+    const big = Array.from({ length: 100 }, () => row);
+    const png = encodePng(matrixToTensor(big, 'rgb'));
+    const idat = readChunks(png)[1].body;
+    expect(idat[2]).toBe(0); // first block is not final
+  });
+
+  it('uses color type 0 for gray', () => {
+    const ihdr = readChunks(encodePng(matrixToTensor(MATRIX, 'gray')))[0].body;
+    expect(ihdr[9]).toBe(0);
+  });
+});
+
+describe('encodeCsv', () => {
+  it('writes cells in the display mode', () => {
+    expect(encodeCsv(MATRIX, 'hex').split('\n')[0]).toBe('#FF0000,#00FF00,#0000FF');
+    expect(encodeCsv(MATRIX, 'rgb').split('\n')[1]).toBe('"10,20,30","40,50,60","70,80,90"');
+  });
+});
+
+describe('encodeNpz', () => {
+  it('stores each array as a zip entry', () => {
+    const tensor = matrixToTensor(MATRIX, 'gray');
+    const zip = encodeNpz({ original: tensor, filtered: tensor });
+    const npy = encodeNpy(tensor);
+
+    expect(u32(zip, 0, true)).toBe(0x04034b50);
+    expect(u32(zip, 14, true)).toBe(crc32(npy));
+    expect(text(zip, 30, 42)).toBe('original.npy');
+
+    // End of central directory lists both entries
+    const end = zip.length - 22;
+    expect(u32(zip, end, true)).toBe(0x06054b50);
+    expect(zip[end + 10]).toBe(2);
+  });
+});
+
+describe('exportMatrix', () => {
+  it('picks the extension from format and mode', () => {
+    expect(exportMatrix(MATRIX, 'pnm', 'gray').extension).toBe('pgm');
+    expect(exportMatrix(MATRIX, 'pnm', 'hex').extension).toBe('ppm');
+    expect(exportMatrix(MATRIX, 'npy', 'rgb').extension).toBe('npy');
+    expect(exportMatrixBundle(MATRIX, MATRIX, 'rgb').extension).toBe('npz');
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('toFileSlug', () => {
+  it('replaces every run of symbols', () => {
+    expect(toFileSlug('Gaussian Blur 5×5')).toBe('gaussian_blur_5_5');
+    expect(toFileSlug('***')).toBe('matrix');
+  });
+});
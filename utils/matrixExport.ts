@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Matrix exporters for notebooks and image tools.
+ *
+ * Every binary format is built from a `MatrixTensor`: a flat uint8 array
+ * in row-major HWC order plus its shape, which is exactly the layout NumPy
+ * expects. Encoders return bytes or text and never touch the DOM; only
+ * `downloadFile` does.
+ *
+ * Formats:
+ * - npy: NumPy array, `np.load('matrix.npy')`
+ * - npz: original and filtered arrays together, `np.load('bundle.npz')`
+ * - json: `{ shape, dtype, channels, data }` with nested arrays
+ * - png: lossless 8-bit grayscale or RGB
+ * - pnm: binary PGM (gray) or PPM (rgb)
+ * - csv: one row per image row, as shown in the matrix view
+ */
+
+import type { PixelData, MatrixMode } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Channel layout of an exported tensor */
+export type ExportChannels = 'rgb' | 'gray';
+
+/** Single-matrix export formats */
+export type ExportFormat = 'npy' | 'json' | 'png' | 'pnm' | 'csv';
+
+/**
+ * Row-major uint8 tensor. Shape is [H, W] for gray and [H, W, 3] for rgb.
+ */
+export interface MatrixTensor {
+  shape: number[];
+  data: Uint8Array;
+}
+
+/**
+ * JSON tensor document written by `encodeJsonTensor`.
+ */
+export interface JsonTensor {
+  shape: number[];
+  dtype: 'uint8';
+  channels: ExportChannels;
+  data: number[][] | number[][][];
+}
+
+/**
+ * Encoded file ready to download.
+ */
+export interface ExportFile {
+  data: Uint8Array | string;
+  mimeType: string;
+  extension: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Labels and short descriptions for the export picker */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string }> = {
+  npy: { label: 'NumPy', description: 'uint8 array for np.load' },
+  json: { label: 'JSON', description: 'Nested arrays with shape and dtype' },
+  png: { label: 'PNG', description: 'Lossless image' },
+  pnm: { label: 'PGM/PPM', description: 'Netpbm image' },
+  csv: { label: 'CSV', description: 'Values as displayed' },
+};
+
+/** Largest payload of a stored (uncompressed) deflate block */
+const MAX_STORED_BLOCK = 0xffff;
+
+const textEncoder = new TextEncoder();
+
+// =============================================================================
+// TENSOR
+// =============================================================================
+
+/**
+ * Channel layout matching a display mode: gray stays single-channel,
+ * rgb and hex both export the three color channels.
+ */
+export const getExportChannels = (mode: MatrixMode): ExportChannels =>
+  mode === 'gray' ? 'gray' : 'rgb';
+
+/**
+ * Flattens a pixel matrix into a uint8 tensor.
+ *
+ * @throws Error if the matrix is empty or ragged
+ */
+export const matrixToTensor = (matrix: PixelData[][], channels: ExportChannels): MatrixTensor => {
+  const height = matrix.length;
+  const width = matrix[0]?.length ?? 0;
+  if (!height || !width) throw new Error('Cannot export an empty matrix');
+  if (matrix.some(row => row.length !== width)) throw new Error('Matrix rows must all have the same length');
+
+  const depth = channels === 'rgb' ? 3 : 1;
+  const data = new Uint8Array(height * width * depth);
+  let i = 0;
+  for (const row of matrix) {
+    for (const p of row) {
+      if (depth === 3) {
+        data[i++] = p.r;
+        data[i++] = p.g;
+        data[i++] = p.b;
+      } else {
+        data[i++] = p.gray;
+      }
+    }
+  }
+
+  return { shape: depth === 3 ? [height, width, 3] : [height, width], data };
+};
+
+// =============================================================================
+// ENCODERS
+// =============================================================================
+
+/**
+ * Encodes a tensor as a version 1.0 `.npy` file.
+ * The header is padded so the data starts on a 64-byte boundary.
+ */
+export const encodeNpy = ({ shape, data }: MatrixTensor): Uint8Array => {
+  const dims = shape.length === 1 ? `${shape[0]},` : shape.join(', ');
+  const dict = `{'descr': '|u1', 'fortran_order': False, 'shape': (${dims}), }`;
+  // magic (6) + version (2) + header length (2) + dict + padding + '\n'
+  const unpadded = 10 + dict.length + 1;
+  const header = dict + ' '.repeat((64 - (unpadded % 64)) % 64) + '\n';
+
+  const bytes = new Uint8Array(10 + header.length + data.length);
+  bytes.set([0x93, ...textEncoder.encode('NUMPY'), 1, 0]);
+  new DataView(bytes.buffer).setUint16(8, header.length, true);
+  bytes.set(textEncoder.encode(header), 10);
+  bytes.set(data, 10 + header.length);
+  return bytes;
+};
+
+/**
+ * Encodes a tensor as JSON with nested rows, so
+ * `np.array(doc['data'], dtype=doc['dtype'])` restores it.
+ */
+export const encodeJsonTensor = (tensor: MatrixTensor): string => {
+  const [height, width, depth = 1] = tensor.shape;
+  const rows: (number[] | number[][])[] = [];
+  for (let y = 0; y < height; y++) {
+    const row: (number | number[])[] = [];
+    for (let x = 0; x < width; x++) {
+      const start = (y * width + x) * depth;
+      row.push(depth === 1 ? tensor.data[start] : Array.from(tensor.data.subarray(start, start + depth)));
+    }
+    rows.push(row as number[] | number[][]);
+  }
+
+  const doc: JsonTensor = {
+    shape: tensor.shape,
+    dtype: 'uint8',
+    channels: depth === 1 ? 'gray' : 'rgb',
+    data: rows as JsonTensor['data'],
+  };
+  return JSON.stringify(doc);
+};
+
+/**
+ * Encodes a tensor as binary PGM (P5) or PPM (P6).
+ */
+export const encodePnm = ({ shape, data }: MatrixTensor): Uint8Array => {
+  const [height, width, depth = 1] = shape;
+  const header = textEncoder.encode(`${depth === 1 ? 'P5' : 'P6'}\n${width} ${height}\n255\n`);
+  const bytes = new Uint8Array(header.length + data.length);
+  bytes.set(header);
+  bytes.set(data, header.length);
+  return bytes;
+};
+
+/**
+ * Encodes a tensor as an 8-bit grayscale or RGB PNG.
+ * Pixel data is stored uncompressed, which keeps the encoder small and
+ * the output lossless; the matrices here are at most a few hundred pixels.
+ */
+export const encodePng = ({ shape, data }: MatrixTensor): Uint8Array => {
+  const [height, width, depth = 1] = shape;
+  const stride = width * depth;
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = 8;                      // bit depth
+  ihdr[9] = depth === 1 ? 0 : 2;    // color type: grayscale or truecolor
+
+  return concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+/**
+ * Writes the matrix as CSV using the display mode: hex strings in hex
+ * mode, single values in gray mode and `"r,g,b"` cells otherwise, so
+ * color-space views still export the RGB pixels they were computed from.
+ */
+export const encodeCsv = (matrix: PixelData[][], mode: MatrixMode): string =>
+  matrix.map(row => row.map(p => {
+    if (mode === 'hex') return p.hex;
+    if (mode === 'gray') return p.gray;
+    return `"${p.r},${p.g},${p.b}"`;
+  }).join(',')).join('\n');
+
+/**
+ * Packs named tensors into an uncompressed `.npz` archive.
+ */
+export const encodeNpz = (arrays: Record<string, MatrixTensor>): Uint8Array =>
+  zipStore(Object.entries(arrays).map(([name, tensor]) => ({ name: `${name}.npy`, data: encodeNpy(tensor) })));
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Encodes a matrix in the chosen format. `mode` selects the channels
+ * (see `getExportChannels`) and, for CSV, how each cell is written.
+ */
+export const exportMatrix = (matrix: PixelData[][], format: ExportFormat, mode: MatrixMode): ExportFile => {
+  if (format === 'csv') {
+    return { data: encodeCsv(matrix, mode), mimeType: 'text/csv', extension: 'csv' };
+  }
+
+  const tensor = matrixToTensor(matrix, getExportChannels(mode));
+  switch (format) {
+    case 'npy':
+      return { data: encodeNpy(tensor), mimeType: 'application/octet-stream', extension: 'npy' };
+    case 'json':
+      return { data: encodeJsonTensor(tensor), mimeType: 'application/json', extension: 'json' };
+    case 'png':
+      return { data: encodePng(tensor), mimeType: 'image/png', extension: 'png' };
+    case 'pnm':
+      return tensor.shape.length === 2
+        ? { data: encodePnm(tensor), mimeType: 'image/x-portable-graymap', extension: 'pgm' }
+        : { data: encodePnm(tensor), mimeType: 'image/x-portable-pixmap', extension: 'ppm' };
+  }
+};
+
+/**
+ * Bundles the original and filtered matrices into one `.npz` file with
+ * `original` and `filtered` arrays. Both use the same channel layout.
+ */
+export const exportMatrixBundle = (
+  original: PixelData[][],
+  filtered: PixelData[][],
+  mode: MatrixMode
+): ExportFile => {
+  const channels = getExportChannels(mode);
+  return {
+    data: encodeNpz({
+      original: matrixToTensor(original, channels),
+      filtered: matrixToTensor(filtered, channels),
+    }),
+    mimeType: 'application/zip',
+    extension: 'npz',
+  };
+};
+
+/**
+ * Turns a label such as "Gaussian Blur 5×5" into a file-name friendly slug.
+ */
+export const toFileSlug = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'matrix';
+
+/**
+ * Saves an encoded file through a temporary download link.
+ */
+export const downloadFile = (file: ExportFile, baseName: string): void => {
+  const blob = new Blob([file.data], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${file.extension}`;
+  link.click();
+  // Let the browser start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// =============================================================================
+// CONTAINER HELPERS
+// =============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 as used by PNG and ZIP.
+ */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Wraps bytes in a zlib stream of stored deflate blocks.
+ */
+const zlibStore = (raw: Uint8Array): Uint8Array => {
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + blockCount * 5 + raw.length + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = raw.subarray(i * MAX_STORED_BLOCK, (i + 1) * MAX_STORED_BLOCK);
+    out[offset] = i === blockCount - 1 ? 1 : 0; // BFINAL, BTYPE=00
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    out.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  view.setUint32(offset, adler32(raw));
+  return out;
+};
+
+const pngChunk = (type: string, body: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  chunk.set(textEncoder.encode(type), 4);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+  return chunk;
+};
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed.
+ */
+const zipStore = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { name, data } of files) {
+    const nameBytes = textEncoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);              // version needed
+    lv.setUint16(12, 0x21, true);           // date: 1980-01-01
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);              // version made by
+    cv.setUint16(6, 20, true);              // version needed
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local, data);
+    centrals.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return concatBytes([...locals, ...centrals, end]);
+};
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Tests for matrix importers, mostly as round trips through
+ * the exporters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsvMatrix,
+  parseNpyMatrix,
+  parseJsonMatrix,
+  detectImportFormat,
+  importMatrix,
+  MAX_IMPORT_SIZE,
+} from './matrixImport';
+import { exportMatrix, encodeNpy } from './matrixExport';
+import { createPixel } from './imageOps';
+import type { MatrixMode } from '../types';
+
+const MATRIX = [
+  [createPixel(255, 0, 0), createPixel(0, 255, 0), createPixel(0, 0, 255)],
+  [createPixel(10, 20, 30), createPixel(40, 50, 60), createPixel(70, 80, 90)],
+];
+
+const GRAY = MATRIX.map(row => row.map(p => createPixel(p.gray, p.gray, p.gray)));
+
+const encoder = new TextEncoder();
+const bytesOf = (data: Uint8Array | string) => (typeof data === 'string' ? encoder.encode(data) : data);
+
+/** Builds a .npy file for any little-endian dtype */
+const npy = (descr: string, shape: number[], body: ArrayBufferView) => {
+  const header = `{'descr': '${descr}', 'fortran_order': False, 'shape': (${shape.join(', ')}), }\n`;
+  const bytes = new Uint8Array(10 + header.length + body.byteLength);
+  bytes.set([0x93, ...encoder.encode('NUMPY'), 1, 0]);
+  bytes[8] = header.length;
+  bytes.set(encoder.encode(header), 10);
+  bytes.set(new Uint8Array(body.buffer, body.byteOffset, body.byteLength), 10 + header.length);
+  return bytes;
+};
+
+describe('round trips', () => {
+  it.each<[string, 'csv' | 'npy' | 'json', MatrixMode]>([
+    ['csv rgb', 'csv', 'rgb'],
+    ['csv hex', 'csv', 'hex'],
+    ['npy rgb', 'npy', 'rgb'],
+    ['json rgb', 'json', 'rgb'],
+  ])('%s', (_, format, mode) => {
+    const file = exportMatrix(MATRIX, format, mode);
+    expect(importMatrix(`m.${file.extension}`, bytesOf(file.data))).toEqual(MATRIX);
+  });
+
+  it.each<'csv' | 'npy' | 'json'>(['csv', 'npy', 'json'])('%s gray', (format) => {
+    const file = exportMatrix(MATRIX, format, 'gray');
+    expect(importMatrix(`m.${file.extension}`, bytesOf(file.data))).toEqual(GRAY);
+  });
+});
+
+describe('parseCsvMatrix', () => {
+  it('rounds fractional values and ignores blank lines', () => {
+    expect(parseCsvMatrix('0.4,254.6\r\n\r\n1,2\n')[0].map(p => p.r)).toEqual([0, 255]);
+  });
+
+  it.each([
+    ['1,2\n3', /Row 2 has 1 cells, expected 2/],
+    ['1,abc', /Expected a number at row 1, column 2/],
+    ['1,256', /outside 0-255/],
+    ['-1,0', /outside 0-255/],
+    ['#FF0000,12', /#RRGGBB/],
+    ['"1,2,3","1,2"', /"r,g,b"/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseCsvMatrix(text)).toThrow(message);
+  });
+});
+
+describe('parseNpyMatrix', () => {
+  it('reads float64 notebook arrays', () => {
+    const matrix = parseNpyMatrix(npy('<f8', [1, 2], new Float64Array([12.2, 200.7])));
+    expect(matrix[0].map(p => p.g)).toEqual([12, 201]);
+  });
+
+  it('reads int64 and keeps RGBA alpha', () => {
+    const matrix = parseNpyMatrix(npy('<i8', [1, 1, 4], new BigInt64Array([1n, 2n, 3n, 128n])));
+    expect(matrix[0][0]).toMatchObject({ r: 1, g: 2, b: 3, a: 128 });
+  });
+
+  it('reads H×W×1 as gray', () => {
+    const matrix = parseNpyMatrix(encodeNpy({ shape: [1, 2, 1], data: new Uint8Array([5, 6]) }));
+    expect(matrix[0][1]).toMatchObject({ r: 6, g: 6, b: 6 });
+  });
+
+  it.each([
+    [new Uint8Array([1, 2, 3]), /Not a \.npy/],
+    [npy('<c16', [1, 1], new Float64Array(2)), /Unsupported dtype/],
+    [npy('>f8', [1, 1], new Float64Array(1)), /Unsupported dtype/],
+    [npy('|u1', [2, 2], new Uint8Array(3)), /truncated/],
+    [npy('|u1', [4], new Uint8Array(4)), /2D or 3D/],
+    [npy('|u1', [1, 1, 2], new Uint8Array(2)), /1, 3 or 4 channels/],
+    [npy('|u1', [MAX_IMPORT_SIZE + 1, 1], new Uint8Array(0)), /largest supported size/],
+    [npy('<f4', [1, 1], new Float32Array([NaN])), /outside 0-255/],
+  ])('rejects invalid files (%#)', (bytes, message) => {
+    expect(() => parseNpyMatrix(bytes)).toThrow(message);
+  });
+
+  it('accepts a matrix at the largest lab resolution', () => {
+    const size = MAX_IMPORT_SIZE;
+    expect(size).toBe(256);
+    const matrix = parseNpyMatrix(npy('|u1', [size, size], new Uint8Array(size * size)));
+    expect([matrix.length, matrix[0].length]).toEqual([size, size]);
+  });
+
+  it('rejects Fortran order', () => {
+    const bytes = npy('|u1', [1, 1], new Uint8Array(1));
+    const text = new TextDecoder().decode(bytes).replace('False', 'True ');
+    expect(() => parseNpyMatrix(new Uint8Array([...bytes.subarray(0, 10), ...encoder.encode(text.slice(10))])))
+      .toThrow(/Fortran/);
+  });
+});
+
+describe('parseJsonMatrix', () => {
+  it('accepts bare nested arrays', () => {
+    expect(parseJsonMatrix('[[[1,2,3],[4,5,6]]]')[0][1]).toMatchObject({ r: 4, g: 5, b: 6 });
+  });
+
+  it.each([
+    ['{', /not valid JSON/],
+    ['{"rows": []}', /"data" array/],
+    ['[[1,2],[3]]', /Ragged data at data\[1\]/],
+    ['[[1,"2"]]', /Expected a number at data\[0\]\[1\]/],
+    ['{"shape":[2,2],"data":[[1,2]]}', /Declared shape 2×2/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parseJsonMatrix(text)).toThrow(message);
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('uses the extension, then the content', () => {
+    expect(detectImportFormat('data.CSV', new Uint8Array())).toBe('csv');
+    expect(detectImportFormat('blob', encodeNpy({ shape: [1, 1], data: new Uint8Array(1) }))).toBe('npy');
+    expect(detectImportFormat('blob', encoder.encode('  {"data": []}'))).toBe('json');
+    expect(detectImportFormat('blob', encoder.encode('1,2,3'))).toBe('csv');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Matrix importers, the reverse of `matrixExport`.
+ *
+ * Reads CSV, `.npy` and JSON matrices - from a notebook or an earlier
+ * export - into `PixelData[][]`. Every format is first reduced to a shape
+ * plus a flat list of values so shape and range checks live in one place.
+ *
+ * Accepted layouts are H×W (gray), H×W×1, H×W×3 (RGB) and H×W×4 (RGBA,
+ * alpha kept). Values must lie in 0-255; fractional values are rounded.
+ */
+
+import type { PixelData } from '../types';
+import { createPixel } from './imageOps';
+import { hexToRgb } from './colorConversion';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Supported import formats */
+export type MatrixImportFormat = 'csv' | 'npy' | 'json';
+
+/**
+ * Shape plus row-major values, before range checks.
+ */
+interface RawTensor {
+  shape: number[];
+  values: ArrayLike<number>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Largest accepted side, which is also the largest resolution the lab
+ * offers; the canvas matrix view pans and zooms at that size.
+ */
+export const MAX_IMPORT_SIZE = 256;
+
+/** File picker filter for matrix files */
+export const MATRIX_IMPORT_ACCEPT = '.csv,.npy,.json,text/csv,application/json';
+
+/** Bytes per element for the little-endian NumPy dtypes we read */
+const NPY_DTYPES: Record<string, { size: number; read: (view: DataView, offset: number) => number }> = {
+  u1: { size: 1, read: (v, o) => v.getUint8(o) },
+  i1: { size: 1, read: (v, o) => v.getInt8(o) },
+  b1: { size: 1, read: (v, o) => v.getUint8(o) },
+  u2: { size: 2, read: (v, o) => v.getUint16(o, true) },
+  i2: { size: 2, read: (v, o) => v.getInt16(o, true) },
+  u4: { size: 4, read: (v, o) => v.getUint32(o, true) },
+  i4: { size: 4, read: (v, o) => v.getInt32(o, true) },
+  i8: { size: 8, read: (v, o) => Number(v.getBigInt64(o, true)) },
+  u8: { size: 8, read: (v, o) => Number(v.getBigUint64(o, true)) },
+  f4: { size: 4, read: (v, o) => v.getFloat32(o, true) },
+  f8: { size: 8, read: (v, o) => v.getFloat64(o, true) },
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * @throws Error if the shape is not an importable image size and layout
+ */
+const assertValidShape = (shape: number[]): void => {
+  if (shape.length < 2 || shape.length > 3) {
+    throw new Error(`Expected a 2D or 3D matrix, got ${shape.length}D`);
+  }
+  const [height, width, depth = 1] = shape;
+  if (!height || !width) throw new Error('Matrix is empty');
+  if (height > MAX_IMPORT_SIZE || width > MAX_IMPORT_SIZE) {
+    throw new Error(`Matrix is ${width}×${height}; the largest supported size is ${MAX_IMPORT_SIZE}×${MAX_IMPORT_SIZE}`);
+  }
+  if (![1, 3, 4].includes(depth)) {
+    throw new Error(`Expected 1, 3 or 4 channels, got ${depth}`);
+  }
+};
+
+/**
+ * Checks shape and values and builds the pixel matrix.
+ *
+ * @throws Error describing the first problem found
+ */
+const tensorToMatrix = ({ shape, values }: RawTensor): PixelData[][] => {
+  assertValidShape(shape);
+  const [height, width, depth = 1] = shape;
+  if (values.length !== height * width * depth) {
+    throw new Error(`Shape ${shape.join('×')} needs ${height * width * depth} values, got ${values.length}`);
+  }
+
+  const matrix: PixelData[][] = [];
+  for (let y = 0; y < height; y++) {
+    const row: PixelData[] = [];
+    for (let x = 0; x < width; x++) {
+      const start = (y * width + x) * depth;
+      const channel = (c: number) => {
+        const value = values[start + c];
+        if (!Number.isFinite(value) || value < 0 || value > 255) {
+          throw new Error(`Value ${value} at row ${y + 1}, column ${x + 1} is outside 0-255`);
+        }
+        return Math.round(value);
+      };
+
+      row.push(depth === 1
+        ? createPixel(channel(0), channel(0), channel(0))
+        : createPixel(channel(0), channel(1), channel(2), depth === 4 ? channel(3) : 255));
+    }
+    matrix.push(row);
+  }
+  return matrix;
+};
+
+/**
+ * Flattens nested arrays, requiring every row to have the same shape.
+ */
+const flattenNested = (data: unknown): RawTensor => {
+  const shape: number[] = [];
+  for (let level: unknown = data; Array.isArray(level); level = level[0]) {
+    shape.push(level.length);
+  }
+
+  const values: number[] = [];
+  const walk = (node: unknown, depth: number, path: string) => {
+    if (depth === shape.length) {
+      if (typeof node !== 'number') throw new Error(`Expected a number at ${path}, got ${JSON.stringify(node)}`);
+      values.push(node);
+      return;
+    }
+    if (!Array.isArray(node) || node.length !== shape[depth]) {
+      throw new Error(`Ragged data at ${path}: every entry must have length ${shape[depth]}`);
+    }
+    node.forEach((child, i) => walk(child, depth + 1, `${path}[${i}]`));
+  };
+  walk(data, 0, 'data');
+
+  return { shape, values };
+};
+
+// =============================================================================
+// PARSERS
+// =============================================================================
+
+/**
+ * Parses a CSV matrix. Cells may be single values, quoted `"r,g,b"`
+ * triples or `#RRGGBB` hex colors - the three layouts the CSV export
+ * writes - but every cell must use the same layout.
+ *
+ * @throws Error if the CSV is ragged, mixed or out of range
+ */
+export const parseCsvMatrix = (text: string): PixelData[][] => {
+  const lines = text.trim().split(/\r?\n/).filter(line => line.trim() !== '');
+  // Quoted cells may contain commas, so split on commas outside quotes
+  const rows = lines.map(line => (line.match(/"[^"]*"|[^,]+/g) ?? []).map(cell => cell.trim()));
+  const width = rows[0]?.length ?? 0;
+
+  const layout = rows[0]?.[0]?.startsWith('#') ? 'hex' : rows[0]?.[0]?.startsWith('"') ? 'rgb' : 'gray';
+  const depth = layout === 'gray' ? 1 : 3;
+  const values: number[] = [];
+
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      throw new Error(`Row ${y + 1} has ${row.length} cells, expected ${width}`);
+    }
+    row.forEach((cell, x) => {
+      const where = `row ${y + 1}, column ${x + 1}`;
+      if (layout === 'hex') {
+        if (!/^#[0-9a-f]{6}$/i.test(cell)) throw new Error(`Expected a #RRGGBB color at ${where}, got ${cell}`);
+        const { r, g, b } = hexToRgb(cell);
+        values.push(r, g, b);
+      } else if (layout === 'rgb') {
+        const parts = cell.replace(/^"|"$/g, '').split(',').map(Number);
+        if (!cell.startsWith('"') || parts.length !== 3 || parts.some(Number.isNaN)) {
+          throw new Error(`Expected an "r,g,b" cell at ${where}, got ${cell}`);
+        }
+        values.push(...parts);
+      } else {
+        const value = cell === '' ? NaN : Number(cell);
+        if (Number.isNaN(value)) throw new Error(`Expected a number at ${where}, got ${cell}`);
+        values.push(value);
+      }
+    });
+  });
+
+  return tensorToMatrix({ shape: depth === 1 ? [rows.length, width] : [rows.length, width, 3], values });
+};
+
+/**
+ * Parses a NumPy `.npy` file (format versions 1-3) holding a C-ordered
+ * little-endian integer, float or bool array.
+ *
+ * @throws Error if the file is not a supported `.npy` array
+ */
+export const parseNpyMatrix = (bytes: Uint8Array): PixelData[][] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = String.fromCharCode(...bytes.subarray(1, 6));
+  if (bytes.length < 10 || bytes[0] !== 0x93 || magic !== 'NUMPY') {
+    throw new Error('Not a .npy file');
+  }
+
+  const major = bytes[6];
+  const headerStart = major === 1 ? 10 : 12;
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const header = new TextDecoder().decode(bytes.subarray(headerStart, headerStart + headerLength));
+
+  const descr = header.match(/'descr':\s*'([^']+)'/)?.[1];
+  const fortran = header.match(/'fortran_order':\s*(True|False)/)?.[1];
+  const shapeText = header.match(/'shape':\s*\(([^)]*)\)/)?.[1];
+  if (!descr || !fortran || shapeText === undefined) throw new Error('Unreadable .npy header');
+  if (fortran === 'True') throw new Error('Fortran-ordered arrays are not supported; save with np.ascontiguousarray');
+
+  const [, order, kind] = descr.match(/^([<|=>])(\w+)$/) ?? [];
+  const dtype = NPY_DTYPES[kind];
+  if (!dtype || (order === '>' && dtype.size > 1)) {
+    throw new Error(`Unsupported dtype ${descr}; use uint8, int or float`);
+  }
+
+  const shape = shapeText.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  // Check the shape before reading, so huge arrays fail fast
+  assertValidShape(shape);
+  const count = shape.reduce((n, d) => n * d, 1);
+  const dataStart = headerStart + headerLength;
+  if (bytes.length - dataStart < count * dtype.size) throw new Error('.npy file is truncated');
+
+  return tensorToMatrix({
+    shape,
+    values: Array.from({ length: count }, (_, i) => dtype.read(view, dataStart + i * dtype.size)),
+  });
+};
+
+/**
+ * Parses JSON holding either the `{ shape, data }` document written by
+ * the JSON export or a bare nested array.
+ *
+ * @throws Error if the JSON is invalid or disagrees with its shape
+ */
+export const parseJsonMatrix = (text: string): PixelData[][] => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const data = Array.isArray(doc) ? doc : (doc as { data?: unknown } | null)?.data;
+  if (!Array.isArray(data)) throw new Error('Expected a nested array or an object with a "data" array');
+
+  const tensor = flattenNested(data);
+  const declared = (doc as { shape?: unknown }).shape;
+  if (Array.isArray(declared) && declared.join('×') !== tensor.shape.join('×')) {
+    throw new Error(`Declared shape ${declared.join('×')} does not match data shape ${tensor.shape.join('×')}`);
+  }
+  return tensorToMatrix(tensor);
+};
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Picks the format from the file extension, falling back to the `.npy`
+ * magic bytes and then to JSON if the text starts with a bracket.
+ */
+export const detectImportFormat = (fileName: string, bytes: Uint8Array): MatrixImportFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'npy' || extension === 'json') return extension;
+  if (bytes[0] === 0x93) return 'npy';
+  const first = new TextDecoder().decode(bytes.subarray(0, 64)).trimStart()[0];
+  return first === '[' || first === '{' ? 'json' : 'csv';
+};
+
+/**
+ * Parses a matrix file of any supported format.
+ *
+ * @throws Error describing why the file was rejected
+ */
+export const importMatrix = (fileName: string, bytes: Uint8Array): PixelData[][] => {
+  const format = detectImportFormat(fileName, bytes);
+  if (format === 'npy') return parseNpyMatrix(bytes);
+  const text = new TextDecoder().decode(bytes);
+  return format === 'json' ? parseJsonMatrix(text) : parseCsvMatrix(text);
+};
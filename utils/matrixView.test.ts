@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for matrix view geometry and cell rendering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clampViewport,
+  zoomViewport,
+  centerViewportOn,
+  getFitScale,
+  screenToCell,
+  getVisibleCells,
+  heatmapColor,
+  getCellColors,
+  getCellLabel,
+  MAX_CELL_SCALE,
+} from './matrixView';
+import { createRgbaMatrix } from './rgbaMatrix';
+
+// 2×1: orange, blue
+const MATRIX = createRgbaMatrix(2, 1, new Uint8ClampedArray([255, 128, 0, 255, 0, 0, 200, 255]));
+
+describe('viewport', () => {
+  it('keeps a zoom anchor fixed on screen', () => {
+    const view = zoomViewport({ scale: 10, offsetX: 0, offsetY: 0 }, 2, 55, 25);
+    expect(view).toEqual({ scale: 20, offsetX: -55, offsetY: -25 });
+    // Cell 5, 2 stays under the anchor
+    expect(screenToCell(view, 55, 25, 100, 100)).toEqual({ x: 5, y: 2 });
+  });
+
+  it('limits the scale', () => {
+    expect(zoomViewport({ scale: 40, offsetX: 0, offsetY: 0 }, 4, 0, 0).scale).toBe(MAX_CELL_SCALE);
+    expect(getFitScale(256, 128, 512, 500)).toBe(2);
+  });
+
+  it('pins small content and stops large content at its edges', () => {
+    expect(clampViewport({ scale: 4, offsetX: 30, offsetY: -30 }, 10, 10, 100, 100))
+      .toEqual({ scale: 4, offsetX: 0, offsetY: 0 });
+    expect(clampViewport({ scale: 10, offsetX: -500, offsetY: 20 }, 64, 64, 200, 100))
+      .toEqual({ scale: 10, offsetX: -440, offsetY: 0 });
+  });
+
+  it('centers on a cell and reports the visible range', () => {
+    const view = centerViewportOn({ scale: 10, offsetX: 0, offsetY: 0 }, 50, 20, 200, 100);
+    expect(view).toEqual({ scale: 10, offsetX: -400, offsetY: -150 });
+    expect(getVisibleCells(view, 64, 64, 200, 100)).toEqual({ x0: 40, y0: 15, x1: 60, y1: 25 });
+    expect(screenToCell(view, -1, 0, 64, 64)).toEqual({ x: 39, y: 15 });
+    expect(screenToCell({ scale: 10, offsetX: 0, offsetY: 0 }, 640, 0, 64, 64)).toBeNull();
+  });
+});
+
+describe('heatmap', () => {
+  it('runs from the first stop to the last', () => {
+    expect(heatmapColor(0)).toEqual([0, 0, 4]);
+    expect(heatmapColor(255)).toEqual([252, 255, 164]);
+    expect(heatmapColor(-20)).toEqual(heatmapColor(0));
+  });
+
+  it('colors the chosen channel and leaves other modes untouched', () => {
+    const colors = getCellColors(MATRIX, 'heatmap', 'b');
+    expect(Array.from(colors.slice(0, 4))).toEqual([...heatmapColor(0), 255]);
+    expect(Array.from(colors.slice(4))).toEqual([...heatmapColor(200), 255]);
+    expect(getCellColors(MATRIX, 'rgb', 'b')).toBe(MATRIX.data);
+  });
+});
+
+describe('getCellLabel', () => {
+  it('labels only cells that are large enough', () => {
+    expect(getCellLabel(MATRIX, 0, 0, 'gray', 'gray', 8)).toEqual([]);
+    expect(getCellLabel(MATRIX, 0, 0, 'gray', 'gray', 16)).toEqual(['151']);
+  });
+
+  it('formats each mode', () => {
+    expect(getCellLabel(MATRIX, 0, 0, 'rgb', 'gray', 32)).toEqual(['255', '128', '0']);
+    expect(getCellLabel(MATRIX, 0, 0, 'rgb', 'gray', 64)).toEqual(['255,128,0']);
+    expect(getCellLabel(MATRIX, 0, 0, 'hex', 'gray', 24)).toEqual(['FF8']);
+    expect(getCellLabel(MATRIX, 0, 0, 'hex', 'gray', 40)).toEqual(['#FF8000']);
+    expect(getCellLabel(MATRIX, 1, 0, 'heatmap', 'b', 16)).toEqual(['200']);
+    expect(getCellLabel(MATRIX, 0, 0, 'hsv', 'gray', 28)).toEqual(['30°', '100%', '100%']);
+  });
+});
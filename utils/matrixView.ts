@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Viewport math and cell rendering for the matrix view.
+ *
+ * The matrix visualizer draws to a canvas, so zooming, panning, hit
+ * testing and the colors and labels of each cell are plain functions of
+ * the matrix and a viewport. Keeping them here leaves the component with
+ * only event handling and drawing calls.
+ */
+
+import type { MatrixMode } from '../types';
+import { rgbToHsv, rgbToHsl, rgbToYCbCr, rgbToLab } from './colorConversion';
+import { getGrayView, getHexAt, pixelOffset } from './rgbaMatrix';
+import type { RgbaMatrix } from './rgbaMatrix';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Placement of the matrix on the canvas: cell (x, y) covers the square
+ * starting at (offsetX + x * scale, offsetY + y * scale).
+ */
+export interface MatrixViewport {
+  /** Screen pixels per cell */
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/** Channel shown by the heatmap mode */
+export type HeatmapChannel = 'r' | 'g' | 'b' | 'gray';
+
+/** Range of cells on screen; `x1` and `y1` are exclusive */
+export interface CellRange {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const MIN_CELL_SCALE = 1;
+export const MAX_CELL_SCALE = 64;
+
+export const HEATMAP_CHANNELS: HeatmapChannel[] = ['r', 'g', 'b', 'gray'];
+
+/** Smallest cell size, in screen pixels, at which each mode is labelled */
+export const LABEL_MIN_SCALE: Record<MatrixMode, number> = {
+  gray: 16,
+  heatmap: 16,
+  hex: 24,
+  rgb: 28,
+  hsv: 28,
+  hsl: 28,
+  ycbcr: 28,
+  lab: 28,
+};
+
+/** Heatmap color stops from 0 to 255 (an inferno-like ramp) */
+const HEATMAP_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [87, 16, 110],
+  [188, 55, 84],
+  [249, 142, 9],
+  [252, 255, 164],
+];
+
+const CHANNEL_OFFSET: Record<Exclude<HeatmapChannel, 'gray'>, number> = { r: 0, g: 1, b: 2 };
+
+// =============================================================================
+// VIEWPORT
+// =============================================================================
+
+const clampScale = (scale: number) => Math.min(MAX_CELL_SCALE, Math.max(MIN_CELL_SCALE, scale));
+
+/**
+ * Largest scale at which the whole matrix fits, within the scale limits.
+ */
+export const getFitScale = (cols: number, rows: number, viewWidth: number, viewHeight: number): number =>
+  clampScale(Math.floor(Math.min(viewWidth / Math.max(cols, 1), viewHeight / Math.max(rows, 1))));
+
+/**
+ * Keeps the matrix on screen. Along an axis where it fits it is pinned
+ * to the top-left; otherwise it may not be dragged past its edges.
+ */
+export const clampViewport = (
+  view: MatrixViewport,
+  cols: number,
+  rows: number,
+  viewWidth: number,
+  viewHeight: number
+): MatrixViewport => {
+  const scale = clampScale(view.scale);
+  const clampAxis = (offset: number, content: number, viewport: number) =>
+    content <= viewport ? 0 : Math.min(0, Math.max(viewport - content, offset));
+
+  return {
+    scale,
+    offsetX: clampAxis(view.offsetX, cols * scale, viewWidth),
+    offsetY: clampAxis(view.offsetY, rows * scale, viewHeight),
+  };
+};
+
+/**
+ * Zooms by `factor` while keeping the point under (anchorX, anchorY)
+ * fixed on screen. The result is not clamped.
+ */
+export const zoomViewport = (
+  view: MatrixViewport,
+  factor: number,
+  anchorX: number,
+  anchorY: number
+): MatrixViewport => {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    offsetX: anchorX - (anchorX - view.offsetX) * ratio,
+    offsetY: anchorY - (anchorY - view.offsetY) * ratio,
+  };
+};
+
+/**
+ * Moves the viewport so the cell at (cellX, cellY) is in its center.
+ * The result is not clamped.
+ */
+export const centerViewportOn = (
+  view: MatrixViewport,
+  cellX: number,
+  cellY: number,
+  viewWidth: number,
+  viewHeight: number
+): MatrixViewport => ({
+  scale: view.scale,
+  offsetX: viewWidth / 2 - cellX * view.scale,
+  offsetY: viewHeight / 2 - cellY * view.scale,
+});
+
+/**
+ * Cell under a canvas position, or null outside the matrix.
+ */
+export const screenToCell = (
+  view: MatrixViewport,
+  px: number,
+  py: number,
+  cols: number,
+  rows: number
+): { x: number; y: number } | null => {
+  const x = Math.floor((px - view.offsetX) / view.scale);
+  const y = Math.floor((py - view.offsetY) / view.scale);
+  return x >= 0 && y >= 0 && x < cols && y < rows ? { x, y } : null;
+};
+
+/**
+ * Cells at least partly visible, so drawing can skip the rest.
+ */
+export const getVisibleCells = (
+  view: MatrixViewport,
+  cols: number,
+  rows: number,
+  viewWidth: number,
+  viewHeight: number
+): CellRange => ({
+  x0: Math.max(0, Math.floor(-view.offsetX / view.scale)),
+  y0: Math.max(0, Math.floor(-view.offsetY / view.scale)),
+  x1: Math.min(cols, Math.ceil((viewWidth - view.offsetX) / view.scale)),
+  y1: Math.min(rows, Math.ceil((viewHeight - view.offsetY) / view.scale)),
+});
+
+// =============================================================================
+// CELL CONTENT
+// =============================================================================
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+/**
+ * A pixel's channels in a color-space mode, in their natural units.
+ */
+const formatColorSpace = (r: number, g: number, b: number, mode: 'hsv' | 'hsl' | 'ycbcr' | 'lab'): string[] => {
+  switch (mode) {
+    case 'hsv': {
+      const { h, s, v } = rgbToHsv(r, g, b);
+      return [`${Math.round(h)}°`, percent(s), percent(v)];
+    }
+    case 'hsl': {
+      const { h, s, l } = rgbToHsl(r, g, b);
+      return [`${Math.round(h)}°`, percent(s), percent(l)];
+    }
+    case 'ycbcr': {
+      const { y, cb, cr } = rgbToYCbCr(r, g, b);
+      return [y, cb, cr].map(c => String(Math.round(c)));
+    }
+    case 'lab': {
+      const lab = rgbToLab(r, g, b);
+      return [lab.l, lab.a, lab.b].map(c => String(Math.round(c)));
+    }
+  }
+};
+
+/**
+ * Value of one channel at (x, y).
+ */
+export const getChannelValue = (matrix: RgbaMatrix, x: number, y: number, channel: HeatmapChannel): number =>
+  channel === 'gray'
+    ? getGrayView(matrix)[y * matrix.width + x]
+    : matrix.data[pixelOffset(matrix, x, y) + CHANNEL_OFFSET[channel]];
+
+/**
+ * Heatmap color for a 0-255 value, interpolated between the stops.
+ */
+export const heatmapColor = (value: number): [number, number, number] => {
+  const t = (Math.min(255, Math.max(0, value)) / 255) * (HEATMAP_STOPS.length - 1);
+  const i = Math.min(HEATMAP_STOPS.length - 2, Math.floor(t));
+  const f = t - i;
+  const [a, b] = [HEATMAP_STOPS[i], HEATMAP_STOPS[i + 1]];
+  return [0, 1, 2].map(c => Math.round(a[c] + (b[c] - a[c]) * f)) as [number, number, number];
+};
+
+/** CSS gradient matching `heatmapColor`, for legends */
+export const HEATMAP_GRADIENT = `linear-gradient(to right, ${HEATMAP_STOPS.map(([r, g, b]) => `rgb(${r},${g},${b})`).join(', ')})`;
+
+/**
+ * RGBA bytes with one pixel per cell, as the mode colors them: the
+ * pixel itself, or the heatmap color of the chosen channel.
+ */
+export const getCellColors = (matrix: RgbaMatrix, mode: MatrixMode, channel: HeatmapChannel): Uint8ClampedArray => {
+  if (mode !== 'heatmap') return matrix.data;
+
+  const out = new Uint8ClampedArray(matrix.data.length);
+  for (let y = 0; y < matrix.height; y++) {
+    for (let x = 0; x < matrix.width; x++) {
+      const [r, g, b] = heatmapColor(getChannelValue(matrix, x, y, channel));
+      const i = pixelOffset(matrix, x, y);
+      out[i] = r;
+      out[i + 1] = g;
+      out[i + 2] = b;
+      out[i + 3] = 255;
+    }
+  }
+  return out;
+};
+
+/**
+ * Label lines for a cell at the given scale; empty when it is too small.
+ */
+export const getCellLabel = (
+  matrix: RgbaMatrix,
+  x: number,
+  y: number,
+  mode: MatrixMode,
+  channel: HeatmapChannel,
+  scale: number
+): string[] => {
+  if (scale < LABEL_MIN_SCALE[mode]) return [];
+
+  switch (mode) {
+    case 'hex': {
+      // Short form (no #) until the full code fits
+      const hex = getHexAt(matrix, x, y);
+      return [scale >= 40 ? hex : hex.slice(1, 4)];
+    }
+    case 'gray':
+      return [String(getGrayView(matrix)[y * matrix.width + x])];
+    case 'heatmap':
+      return [String(getChannelValue(matrix, x, y, channel))];
+    case 'hsv':
+    case 'hsl':
+    case 'ycbcr':
+    case 'lab': {
+      const i = pixelOffset(matrix, x, y);
+      return formatColorSpace(matrix.data[i], matrix.data[i + 1], matrix.data[i + 2], mode);
+    }
+    case 'rgb':
+    default: {
+      const i = pixelOffset(matrix, x, y);
+      const values = [matrix.data[i], matrix.data[i + 1], matrix.data[i + 2]].map(String);
+      // One value per line until a whole triplet fits
+      return scale >= 56 ? [values.join(',')] : values;
+    }
+  }
+};
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tests for the optimizers and loss surfaces.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LOSS_SURFACES,
+  OPTIMIZER_TYPES,
+  DEFAULT_OPTIMIZER_CONFIGS,
+  createLossSurface,
+  getLossSurface,
+  getSurfaceConfigs,
+  createOptimizerState,
+  stepOptimizer,
+  runOptimizer,
+  sampleSurface,
+  getContourBand,
+} from './optimizers';
+import type { Vec2 } from './optimizers';
+
+/** ∇ of f = x² + y² */
+const bowlGradient = (x: number, y: number): Vec2 => [2 * x, 2 * y];
+
+describe('createLossSurface', () => {
+  it('compiles the loss and its exact gradient', () => {
+    const rosenbrock = getLossSurface('rosenbrock');
+    expect(rosenbrock.loss(1, 1)).toBe(0);
+    expect(rosenbrock.loss(0, 0)).toBe(1);
+    // ∂f/∂x = -2(1 - x) - 400x(y - x²), ∂f/∂y = 200(y - x²)
+    expect(rosenbrock.gradient(-1.5, 2)).toEqual([-155, -50]);
+  });
+
+  it.each(LOSS_SURFACES.map(s => [s.id, s] as const))('%s has zero gradient at its minima', (_, definition) => {
+    const surface = createLossSurface(definition);
+    for (const [x, y] of definition.minima) {
+      const [gx, gy] = surface.gradient(x, y);
+      expect(Math.hypot(gx, gy)).toBeLessThan(1e-4);
+    }
+  });
+});
+
+describe('stepOptimizer', () => {
+  const start = createOptimizerState([1, 2]);
+
+  it('takes a plain gradient step with SGD', () => {
+    const next = stepOptimizer({ ...DEFAULT_OPTIMIZER_CONFIGS.sgd, learningRate: 0.1 }, start, bowlGradient);
+    expect(next.position[0]).toBeCloseTo(0.8);
+    expect(next.position[1]).toBeCloseTo(1.6);
+    expect(next.step).toBe(1);
+  });
+
+  it('keeps velocity between momentum steps', () => {
+    const config = { ...DEFAULT_OPTIMIZER_CONFIGS.momentum, learningRate: 0.1, momentum: 0.5 };
+    const first = stepOptimizer(config, start, () => [1, 0]);
+    const second = stepOptimizer(config, first, () => [1, 0]);
+    expect(first.velocity[0]).toBeCloseTo(-0.1);
+    expect(second.velocity[0]).toBeCloseTo(-0.15);
+    expect(second.position[0]).toBeCloseTo(0.75);
+  });
+
+  it('evaluates the Nesterov gradient at the look-ahead point', () => {
+    const seen: Vec2[] = [];
+    const state = { ...start, velocity: [1, -1] as Vec2 };
+    stepOptimizer({ ...DEFAULT_OPTIMIZER_CONFIGS.nesterov, momentum: 0.5 }, state, (x, y) => {
+      seen.push([x, y]);
+      return [0, 0];
+    });
+    expect(seen).toEqual([[1.5, 1.5]]);
+  });
+
+  it('moves Adam by about the learning rate on its first step, whatever the gradient scale', () => {
+    const config = { ...DEFAULT_OPTIMIZER_CONFIGS.adam, learningRate: 0.05 };
+    for (const scale of [0.001, 1000]) {
+      const next = stepOptimizer(config, start, () => [scale, -scale]);
+      expect(next.position[0]).toBeCloseTo(0.95, 6);
+      expect(next.position[1]).toBeCloseTo(2.05, 6);
+    }
+  });
+
+  it('scales RMSProp steps by the running RMS of the gradient', () => {
+    const config = { ...DEFAULT_OPTIMIZER_CONFIGS.rmsprop, learningRate: 0.1, decay: 0.9 };
+    const next = stepOptimizer(config, start, () => [4, 0]);
+    expect(next.squareAverage[0]).toBeCloseTo(1.6);
+    expect(next.position[0]).toBeCloseTo(1 - 0.4 / Math.sqrt(1.6));
+  });
+
+  it('does not modify the previous state', () => {
+    stepOptimizer(DEFAULT_OPTIMIZER_CONFIGS.adam, start, bowlGradient);
+    expect(start).toEqual(createOptimizerState([1, 2]));
+  });
+});
+
+describe('runOptimizer', () => {
+  it.each(LOSS_SURFACES.map(s => [s.id, s] as const))('every optimizer stays stable on %s with its defaults', (_, definition) => {
+    const surface = createLossSurface(definition);
+    const configs = getSurfaceConfigs(definition);
+    for (const type of OPTIMIZER_TYPES) {
+      const run = runOptimizer(surface, configs[type], definition.start, 300);
+      expect(run.divergedAt).toBeNull();
+      expect(run.points).toHaveLength(301);
+      expect(run.points[300].loss).toBeLessThan(run.points[0].loss);
+    }
+  });
+
+  it('records convergence on the ill-conditioned bowl', () => {
+    const surface = getLossSurface('ill-conditioned');
+    const run = runOptimizer(surface, getSurfaceConfigs(surface).sgd, surface.start, 300);
+    expect(run.convergedAt).not.toBeNull();
+    expect(run.points[run.convergedAt!].gradientNorm).toBeLessThan(1e-3);
+  });
+
+  it('stops at the step where a run diverges', () => {
+    const surface = getLossSurface('ill-conditioned');
+    const run = runOptimizer(surface, { ...DEFAULT_OPTIMIZER_CONFIGS.sgd, learningRate: 0.2 }, surface.start, 300);
+    expect(run.divergedAt).not.toBeNull();
+    expect(run.points).toHaveLength(run.divergedAt! + 1);
+  });
+});
+
+describe('contours', () => {
+  it('samples the loss from the top row down', () => {
+    const surface = getLossSurface('ill-conditioned');
+    const values = sampleSurface(surface, 4, 2);
+    expect(values).toHaveLength(8);
+    // Cell centres at x = ±1, ±3 and y = ±1
+    expect(values[0]).toBeCloseTo(4.5 + 10);
+    expect(values[5]).toBeCloseTo(0.5 + 10);
+  });
+
+  it('spreads bands logarithmically between min and max', () => {
+    expect(getContourBand(0, 0, 1000, 10)).toBe(0);
+    expect(getContourBand(1000, 0, 1000, 10)).toBe(9);
+    expect(getContourBand(30, 0, 1000, 10)).toBe(4);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * @fileoverview Gradient-descent optimizers racing on 2D loss surfaces.
+ *
+ * Each surface is written as an expression of x and y and differentiated
+ * with `derivative.ts`, so its gradient is exact. The optimizers follow
+ * the update rules found in deep-learning frameworks: plain SGD, heavy-ball
+ * momentum, Nesterov momentum, RMSProp and Adam.
+ */
+
+import { parseExpression, compileExpression } from './expression';
+import type { Expr } from './expression';
+import { differentiate } from './derivative';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Vec2 = [number, number];
+
+export type LossSurfaceId = 'rosenbrock' | 'himmelblau' | 'saddle' | 'ill-conditioned';
+
+export type OptimizerType = 'sgd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adam';
+
+export interface SurfaceBounds {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface LossSurfaceDefinition {
+  id: LossSurfaceId;
+  name: string;
+  /** f(x, y) in the syntax of `parseExpression` */
+  formula: string;
+  description: string;
+  /** Region shown in the plot */
+  bounds: SurfaceBounds;
+  /** Default starting point */
+  start: Vec2;
+  /** Global minima, drawn as targets */
+  minima: Vec2[];
+  /** Learning rate for each optimizer that works from `start` */
+  learningRates: Record<OptimizerType, number>;
+}
+
+export interface LossSurface extends LossSurfaceDefinition {
+  expr: Expr;
+  loss: (x: number, y: number) => number;
+  gradient: (x: number, y: number) => Vec2;
+}
+
+/**
+ * Hyperparameters. `momentum` and `decay` are the two moving-average
+ * rates; what they mean depends on the optimizer (see `OPTIMIZER_INFO`).
+ */
+export interface OptimizerConfig {
+  type: OptimizerType;
+  learningRate: number;
+  /** μ for momentum and Nesterov, β1 for Adam */
+  momentum: number;
+  /** ρ for RMSProp, β2 for Adam */
+  decay: number;
+  /** Added to the denominator of adaptive updates */
+  epsilon: number;
+}
+
+export interface OptimizerState {
+  position: Vec2;
+  /** Velocity for momentum and Nesterov; first moment for Adam */
+  velocity: Vec2;
+  /** Running average of squared gradients for RMSProp and Adam */
+  squareAverage: Vec2;
+  /** Number of updates taken */
+  step: number;
+}
+
+/** One entry of an optimizer's log */
+export interface TrajectoryPoint {
+  step: number;
+  position: Vec2;
+  loss: number;
+  gradient: Vec2;
+  gradientNorm: number;
+}
+
+export interface OptimizerRun {
+  config: OptimizerConfig;
+  points: TrajectoryPoint[];
+  /** Step at which the run blew up, or null */
+  divergedAt: number | null;
+  /** First step at which the gradient norm fell below `CONVERGENCE_TOLERANCE`, or null */
+  convergedAt: number | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const OPTIMIZER_TYPES: OptimizerType[] = ['sgd', 'momentum', 'nesterov', 'rmsprop', 'adam'];
+
+/** Names, colors and which hyperparameters each optimizer uses, with their symbols */
+export const OPTIMIZER_INFO: Record<OptimizerType, {
+  name: string;
+  color: string;
+  momentum?: string;
+  decay?: string;
+  rule: string;
+}> = {
+  sgd: { name: 'SGD', color: '#a3a3a3', rule: 'θ ← θ − α∇f' },
+  momentum: { name: 'Momentum', color: '#60a5fa', momentum: 'μ', rule: 'v ← μv − α∇f, θ ← θ + v' },
+  nesterov: { name: 'Nesterov', color: '#4ade80', momentum: 'μ', rule: 'v ← μv − α∇f(θ + μv), θ ← θ + v' },
+  rmsprop: { name: 'RMSProp', color: '#f97316', decay: 'ρ', rule: 's ← ρs + (1−ρ)∇f², θ ← θ − α∇f/√s' },
+  adam: { name: 'Adam', color: '#a78bfa', momentum: 'β1', decay: 'β2', rule: 'm, s averaged and bias-corrected, θ ← θ − αm̂/√ŝ' },
+};
+
+export const DEFAULT_OPTIMIZER_CONFIGS: Record<OptimizerType, OptimizerConfig> = {
+  sgd: { type: 'sgd', learningRate: 0.01, momentum: 0, decay: 0, epsilon: 1e-8 },
+  momentum: { type: 'momentum', learningRate: 0.01, momentum: 0.9, decay: 0, epsilon: 1e-8 },
+  nesterov: { type: 'nesterov', learningRate: 0.01, momentum: 0.9, decay: 0, epsilon: 1e-8 },
+  rmsprop: { type: 'rmsprop', learningRate: 0.01, momentum: 0, decay: 0.9, epsilon: 1e-8 },
+  adam: { type: 'adam', learningRate: 0.01, momentum: 0.9, decay: 0.999, epsilon: 1e-8 },
+};
+
+export const LOSS_SURFACES: LossSurfaceDefinition[] = [
+  {
+    id: 'rosenbrock',
+    name: 'Rosenbrock',
+    formula: '(1 - x)^2 + 100(y - x^2)^2',
+    description: 'A long, curved, flat-bottomed valley. Finding the valley is easy; following it to (1, 1) is not.',
+    bounds: { xMin: -2, xMax: 2, yMin: -1, yMax: 3 },
+    start: [-1.5, 2],
+    minima: [[1, 1]],
+    learningRates: { sgd: 0.0015, momentum: 0.001, nesterov: 0.001, rmsprop: 0.01, adam: 0.1 },
+  },
+  {
+    id: 'himmelblau',
+    name: 'Himmelblau',
+    formula: '(x^2 + y - 11)^2 + (x + y^2 - 7)^2',
+    description: 'Four equally deep minima. Where an optimizer ends up depends on where it starts and how it moves.',
+    bounds: { xMin: -5, xMax: 5, yMin: -5, yMax: 5 },
+    start: [-0.5, 0.5],
+    minima: [[3, 2], [-2.805118, 3.131312], [-3.77931, -3.283186], [3.584428, -1.848126]],
+    learningRates: { sgd: 0.01, momentum: 0.01, nesterov: 0.01, rmsprop: 0.01, adam: 0.1 },
+  },
+  {
+    id: 'saddle',
+    name: 'Saddle',
+    formula: 'x^2 + y^4/4 - y^2',
+    description: 'A saddle point at the origin between two valleys. The gradient vanishes near it, so plain SGD lingers before escaping.',
+    bounds: { xMin: -2.5, xMax: 2.5, yMin: -2.5, yMax: 2.5 },
+    start: [-2, 0.01],
+    minima: [[0, Math.SQRT2], [0, -Math.SQRT2]],
+    learningRates: { sgd: 0.05, momentum: 0.05, nesterov: 0.05, rmsprop: 0.05, adam: 0.05 },
+  },
+  {
+    id: 'ill-conditioned',
+    name: 'Ill-conditioned bowl',
+    formula: 'x^2/2 + 10y^2',
+    description: 'Twenty times steeper across than along. Plain SGD zig-zags; momentum and adaptive steps even it out.',
+    bounds: { xMin: -4, xMax: 4, yMin: -2, yMax: 2 },
+    start: [-3.5, 1.5],
+    minima: [[0, 0]],
+    learningRates: { sgd: 0.09, momentum: 0.04, nesterov: 0.04, rmsprop: 0.05, adam: 0.1 },
+  },
+];
+
+/** Gradient norm below which a run counts as having arrived */
+export const CONVERGENCE_TOLERANCE = 1e-3;
+
+/**
+ * A run has diverged once it is this many plot-widths outside the plot,
+ * or once its loss stops being a finite number.
+ */
+const DIVERGENCE_MARGIN = 2;
+
+// =============================================================================
+// SURFACES
+// =============================================================================
+
+/**
+ * Parses a surface's formula and compiles it with its exact gradient.
+ */
+export const createLossSurface = (definition: LossSurfaceDefinition): LossSurface => {
+  const expr = parseExpression(definition.formula, ['x', 'y']);
+  const dx = compileExpression(differentiate(expr, 'x'), ['x', 'y']);
+  const dy = compileExpression(differentiate(expr, 'y'), ['x', 'y']);
+  return {
+    ...definition,
+    expr,
+    loss: compileExpression(expr, ['x', 'y']),
+    gradient: (x, y) => [dx(x, y), dy(x, y)],
+  };
+};
+
+/**
+ * Looks up and compiles a built-in surface.
+ *
+ * @throws Error for an unknown id
+ */
+export const getLossSurface = (id: LossSurfaceId): LossSurface => {
+  const definition = LOSS_SURFACES.find(s => s.id === id);
+  if (!definition) throw new Error(`Unknown loss surface: ${id}`);
+  return createLossSurface(definition);
+};
+
+/**
+ * Default hyperparameters for every optimizer, with the surface's
+ * learning rates.
+ */
+export const getSurfaceConfigs = ({ learningRates }: LossSurfaceDefinition): Record<OptimizerType, OptimizerConfig> => {
+  const configs = { ...DEFAULT_OPTIMIZER_CONFIGS };
+  for (const type of OPTIMIZER_TYPES) {
+    configs[type] = { ...configs[type], learningRate: learningRates[type] };
+  }
+  return configs;
+};
+
+/**
+ * Loss sampled on a grid covering the surface's bounds, row by row from
+ * the top (largest y), for drawing contours.
+ */
+export const sampleSurface = (surface: LossSurface, cols: number, rows: number): Float64Array => {
+  const { xMin, xMax, yMin, yMax } = surface.bounds;
+  const values = new Float64Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    const y = yMax - ((r + 0.5) / rows) * (yMax - yMin);
+    for (let c = 0; c < cols; c++) {
+      values[r * cols + c] = surface.loss(xMin + ((c + 0.5) / cols) * (xMax - xMin), y);
+    }
+  }
+  return values;
+};
+
+/**
+ * Contour band of a loss value. Bands are evenly spaced in log(1 + loss -
+ * min), so narrow valleys and steep walls both get visible lines.
+ */
+export const getContourBand = (value: number, min: number, max: number, bands: number): number => {
+  const t = Math.log1p(Math.max(0, value - min)) / Math.log1p(Math.max(max - min, 1e-12));
+  return Math.min(bands - 1, Math.floor(t * bands));
+};
+
+// =============================================================================
+// OPTIMIZERS
+// =============================================================================
+
+export const createOptimizerState = (position: Vec2): OptimizerState => ({
+  position,
+  velocity: [0, 0],
+  squareAverage: [0, 0],
+  step: 0,
+});
+
+/**
+ * One update. Returns a new state; `state` is left unchanged.
+ *
+ * @param gradient - ∇f at any point; Nesterov evaluates it at the look-ahead position
+ */
+export const stepOptimizer = (
+  config: OptimizerConfig,
+  state: OptimizerState,
+  gradient: (x: number, y: number) => Vec2
+): OptimizerState => {
+  const { learningRate: lr, momentum, decay, epsilon } = config;
+  const [x, y] = state.position;
+  const step = state.step + 1;
+  const map = (fn: (i: 0 | 1) => number): Vec2 => [fn(0), fn(1)];
+
+  switch (config.type) {
+    case 'sgd': {
+      const g = gradient(x, y);
+      return { ...state, step, position: map(i => state.position[i] - lr * g[i]) };
+    }
+    case 'momentum':
+    case 'nesterov': {
+      const v0 = state.velocity;
+      const g = config.type === 'nesterov' ? gradient(x + momentum * v0[0], y + momentum * v0[1]) : gradient(x, y);
+      const velocity = map(i => momentum * v0[i] - lr * g[i]);
+      return { ...state, step, velocity, position: map(i => state.position[i] + velocity[i]) };
+    }
+    case 'rmsprop': {
+      const g = gradient(x, y);
+      const squareAverage = map(i => decay * state.squareAverage[i] + (1 - decay) * g[i] ** 2);
+      return {
+        ...state,
+        step,
+        squareAverage,
+        position: map(i => state.position[i] - (lr * g[i]) / (Math.sqrt(squareAverage[i]) + epsilon)),
+      };
+    }
+    case 'adam': {
+      const g = gradient(x, y);
+      const velocity = map(i => momentum * state.velocity[i] + (1 - momentum) * g[i]);
+      const squareAverage = map(i => decay * state.squareAverage[i] + (1 - decay) * g[i] ** 2);
+      // Both averages start at zero, so early steps are scaled back up
+      const m = map(i => velocity[i] / (1 - momentum ** step));
+      const s = map(i => squareAverage[i] / (1 - decay ** step));
+      return {
+        step,
+        velocity,
+        squareAverage,
+        position: map(i => state.position[i] - (lr * m[i]) / (Math.sqrt(s[i]) + epsilon)),
+      };
+    }
+  }
+};
+
+const toTrajectoryPoint = (surface: LossSurface, state: OptimizerState): TrajectoryPoint => {
+  const [x, y] = state.position;
+  const gradient = surface.gradient(x, y);
+  return {
+    step: state.step,
+    position: state.position,
+    loss: surface.loss(x, y),
+    gradient,
+    gradientNorm: Math.hypot(gradient[0], gradient[1]),
+  };
+};
+
+/**
+ * Whether a point has left any reasonable neighbourhood of the plot.
+ */
+export const hasDiverged = (surface: LossSurfaceDefinition, point: TrajectoryPoint): boolean => {
+  const { xMin, xMax, yMin, yMax } = surface.bounds;
+  const [x, y] = point.position;
+  const marginX = (xMax - xMin) * DIVERGENCE_MARGIN;
+  const marginY = (yMax - yMin) * DIVERGENCE_MARGIN;
+  return !Number.isFinite(point.loss) ||
+    x < xMin - marginX || x > xMax + marginX ||
+    y < yMin - marginY || y > yMax + marginY;
+};
+
+/**
+ * Runs an optimizer for a fixed number of steps, stopping early if it
+ * diverges.
+ *
+ * @returns The starting point followed by one log entry per step
+ */
+export const runOptimizer = (
+  surface: LossSurface,
+  config: OptimizerConfig,
+  start: Vec2,
+  steps: number
+): OptimizerRun => {
+  let state = createOptimizerState(start);
+  const points = [toTrajectoryPoint(surface, state)];
+  let divergedAt: number | null = null;
+  let convergedAt: number | null = points[0].gradientNorm < CONVERGENCE_TOLERANCE ? 0 : null;
+
+  while (state.step < steps) {
+    state = stepOptimizer(config, state, surface.gradient);
+    const point = toTrajectoryPoint(surface, state);
+    points.push(point);
+    if (hasDiverged(surface, point)) {
+      divergedAt = state.step;
+      break;
+    }
+    if (convergedAt === null && point.gradientNorm < CONVERGENCE_TOLERANCE) convergedAt = state.step;
+  }
+  return { config, points, divergedAt, convergedAt };
+};
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Tests for histograms and point operations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeHistograms,
+  cumulativeDistribution,
+  getHistogramStats,
+  otsuThreshold,
+  buildPointLut,
+  applyPointOperation,
+} from './pointOps';
+import type { ImageBuffer } from './imageOps';
+
+/** A one-row image of gray pixels */
+const grayRow = (values: number[]): ImageBuffer => ({
+  data: new Uint8ClampedArray(values.flatMap(v => [v, v, v, 255])),
+  width: values.length,
+  height: 1,
+});
+
+/** Histogram with `count` pixels at each listed value */
+const histogramOf = (entries: [number, number][]) => {
+  const histogram = new Uint32Array(256);
+  for (const [value, count] of entries) histogram[value] = count;
+  return histogram;
+};
+
+describe('histograms', () => {
+  it('counts each channel and luminance', () => {
+    const image: ImageBuffer = { data: new Uint8ClampedArray([255, 0, 0, 255, 255, 0, 0, 255]), width: 2, height: 1 };
+    const { r, g, gray } = computeHistograms(image);
+    expect(r[255]).toBe(2);
+    expect(g[0]).toBe(2);
+    expect(gray[76]).toBe(2);
+  });
+
+  it('accumulates to one', () => {
+    const cdf = cumulativeDistribution(histogramOf([[10, 1], [20, 3]]));
+    expect(cdf[9]).toBe(0);
+    expect(cdf[10]).toBe(0.25);
+    expect(cdf[255]).toBe(1);
+    expect(cumulativeDistribution(new Uint32Array(256))[255]).toBe(0);
+  });
+
+  it('summarizes', () => {
+    expect(getHistogramStats(histogramOf([[10, 1], [30, 1]]))).toEqual({ count: 2, mean: 20, stdDev: 10, min: 10, max: 30 });
+    expect(getHistogramStats(new Uint32Array(256)).count).toBe(0);
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('splits two clusters between them', () => {
+    const level = otsuThreshold(histogramOf([[40, 50], [45, 50], [200, 30], [210, 30]]));
+    expect(level).toBeGreaterThan(45);
+    expect(level).toBeLessThanOrEqual(200);
+  });
+
+  it('falls back to 128 for a flat image', () => {
+    expect(otsuThreshold(histogramOf([[90, 10]]))).toBe(128);
+  });
+});
+
+describe('buildPointLut', () => {
+  const empty = new Uint32Array(256);
+
+  it('applies brightness and contrast around mid-gray', () => {
+    const lut = buildPointLut({ type: 'linear', brightness: 10, contrast: 2 }, empty);
+    expect([lut[0], lut[128], lut[150], lut[255]]).toEqual([0, 138, 182, 255]);
+  });
+
+  it('applies gamma', () => {
+    const lut = buildPointLut({ type: 'gamma', gamma: 0.5 }, empty);
+    expect([lut[0], lut[64], lut[255]]).toEqual([0, 128, 255]);
+  });
+
+  it('thresholds at a fixed level', () => {
+    const lut = buildPointLut({ type: 'threshold', level: 100 }, empty);
+    expect([lut[99], lut[100]]).toEqual([0, 255]);
+  });
+
+  it('equalizes a narrow range onto the full range', () => {
+    const lut = buildPointLut({ type: 'equalize' }, histogramOf([[100, 1], [101, 1], [102, 1], [103, 1]]));
+    expect([lut[100], lut[101], lut[102], lut[103]]).toEqual([0, 85, 170, 255]);
+  });
+});
+
+describe('applyPointOperation', () => {
+  it('binarizes luminance with Otsu', () => {
+    const result = applyPointOperation(grayRow([20, 30, 220, 230]), { type: 'threshold', level: 'otsu' });
+    expect(Array.from(result.data.filter((_, i) => i % 4 === 0))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('equalizes luma without changing gray to a color', () => {
+    const result = applyPointOperation(grayRow([100, 101, 102, 103]), { type: 'equalize' });
+    expect(Array.from(result.data.slice(4, 8))).toEqual([85, 85, 85, 255]);
+    expect(Array.from(result.data.slice(12, 16))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('keeps alpha', () => {
+    const image: ImageBuffer = { data: new Uint8ClampedArray([50, 60, 70, 90]), width: 1, height: 1 };
+    expect(applyPointOperation(image, { type: 'gamma', gamma: 2 }).data[3]).toBe(90);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview Histograms and point operations on RGBA images.
+ *
+ * A point operation maps every value through the same curve, regardless
+ * of its neighbours, so each one is built as a 256-entry lookup table.
+ * Thresholding with Otsu's method and histogram equalization derive
+ * their table from the image's own histogram.
+ */
+
+import { toGray, clampPixelValue, rgbToYCbCr, yCbCrToRgb } from './colorConversion';
+import type { ImageBuffer } from './imageOps';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Channels a histogram is computed for */
+export type HistogramChannel = 'r' | 'g' | 'b' | 'gray';
+
+/** 256-bin counts for each channel */
+export type ChannelHistograms = Record<HistogramChannel, Uint32Array>;
+
+/**
+ * Summary of one histogram.
+ */
+export interface HistogramStats {
+  /** Number of pixels counted */
+  count: number;
+  mean: number;
+  stdDev: number;
+  /** Lowest and highest value present (0 and 0 when empty) */
+  min: number;
+  max: number;
+}
+
+/**
+ * A point operation.
+ * - 'linear': `(v - 128) * contrast + 128 + brightness` on R, G and B
+ * - 'gamma': `255 * (v / 255) ^ gamma` on R, G and B; below 1 brightens
+ * - 'threshold': white where luminance reaches `level`, black elsewhere;
+ *   'otsu' picks the level that best separates the two classes
+ * - 'equalize': spreads luminance so its cumulative distribution is a
+ *   straight line, leaving hue and saturation alone
+ */
+export type PointOperation =
+  | { type: 'linear'; brightness: number; contrast: number }
+  | { type: 'gamma'; gamma: number }
+  | { type: 'threshold'; level: number | 'otsu' }
+  | { type: 'equalize' };
+
+export type PointOperationType = PointOperation['type'];
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const HISTOGRAM_CHANNELS: HistogramChannel[] = ['r', 'g', 'b', 'gray'];
+
+/** Settings each operation starts from when selected */
+export const DEFAULT_POINT_OPERATIONS: Record<PointOperationType, PointOperation> = {
+  linear: { type: 'linear', brightness: 0, contrast: 1 },
+  gamma: { type: 'gamma', gamma: 1 },
+  threshold: { type: 'threshold', level: 'otsu' },
+  equalize: { type: 'equalize' },
+};
+
+const BINS = 256;
+
+// =============================================================================
+// HISTOGRAMS
+// =============================================================================
+
+/**
+ * Counts the R, G, B and luminance values of every pixel.
+ */
+export const computeHistograms = ({ data }: ImageBuffer): ChannelHistograms => {
+  const histograms: ChannelHistograms = {
+    r: new Uint32Array(BINS),
+    g: new Uint32Array(BINS),
+    b: new Uint32Array(BINS),
+    gray: new Uint32Array(BINS),
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    histograms.r[data[i]]++;
+    histograms.g[data[i + 1]]++;
+    histograms.b[data[i + 2]]++;
+    histograms.gray[toGray(data[i], data[i + 1], data[i + 2])]++;
+  }
+  return histograms;
+};
+
+/**
+ * Cumulative distribution: the fraction of pixels at or below each value.
+ * All zeros for an empty histogram.
+ */
+export const cumulativeDistribution = (histogram: Uint32Array): Float64Array => {
+  const cdf = new Float64Array(histogram.length);
+  let total = 0;
+  for (let v = 0; v < histogram.length; v++) {
+    total += histogram[v];
+    cdf[v] = total;
+  }
+  if (total > 0) {
+    for (let v = 0; v < cdf.length; v++) cdf[v] /= total;
+  }
+  return cdf;
+};
+
+/**
+ * Mean, standard deviation and range of a histogram.
+ */
+export const getHistogramStats = (histogram: Uint32Array): HistogramStats => {
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  let min = -1;
+  let max = 0;
+
+  for (let v = 0; v < histogram.length; v++) {
+    const n = histogram[v];
+    if (!n) continue;
+    if (min < 0) min = v;
+    max = v;
+    count += n;
+    sum += n * v;
+    sumSquares += n * v * v;
+  }
+
+  if (!count) return { count: 0, mean: 0, stdDev: 0, min: 0, max: 0 };
+  const mean = sum / count;
+  return { count, mean, stdDev: Math.sqrt(Math.max(0, sumSquares / count - mean * mean)), min, max };
+};
+
+/**
+ * Otsu's threshold: the level that maximizes the variance between the
+ * pixels below it and those at or above it. Returns 128 for an image
+ * with a single value, where every level separates equally badly.
+ */
+export const otsuThreshold = (histogram: Uint32Array): number => {
+  let total = 0;
+  let sumAll = 0;
+  for (let v = 0; v < histogram.length; v++) {
+    total += histogram[v];
+    sumAll += v * histogram[v];
+  }
+
+  let best = -1;
+  let bestLevel = 128;
+  let countBelow = 0;
+  let sumBelow = 0;
+
+  // Level t puts values 0..t-1 in the dark class
+  for (let t = 1; t < histogram.length; t++) {
+    countBelow += histogram[t - 1];
+    sumBelow += (t - 1) * histogram[t - 1];
+    const countAbove = total - countBelow;
+    if (!countBelow || !countAbove) continue;
+
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      bestLevel = t;
+    }
+  }
+  return bestLevel;
+};
+
+// =============================================================================
+// POINT OPERATIONS
+// =============================================================================
+
+/**
+ * Threshold level an operation resolves to for an image's luminance
+ * histogram.
+ */
+export const resolveThreshold = (level: number | 'otsu', grayHistogram: Uint32Array): number =>
+  level === 'otsu' ? otsuThreshold(grayHistogram) : level;
+
+/**
+ * The operation's curve as a lookup table from input to output value.
+ *
+ * @param operation - Point operation
+ * @param grayHistogram - Luminance histogram, used by Otsu thresholding
+ *   and equalization
+ */
+export const buildPointLut = (operation: PointOperation, grayHistogram: Uint32Array): Uint8Array => {
+  const lut = new Uint8Array(BINS);
+
+  switch (operation.type) {
+    case 'linear':
+      for (let v = 0; v < BINS; v++) {
+        lut[v] = clampPixelValue((v - 128) * operation.contrast + 128 + operation.brightness);
+      }
+      break;
+    case 'gamma':
+      for (let v = 0; v < BINS; v++) {
+        lut[v] = clampPixelValue(255 * (v / 255) ** operation.gamma);
+      }
+      break;
+    case 'threshold': {
+      const level = resolveThreshold(operation.level, grayHistogram);
+      for (let v = 0; v < BINS; v++) lut[v] = v >= level ? 255 : 0;
+      break;
+    }
+    case 'equalize': {
+      // Stretch the CDF so the darkest present value maps to 0
+      const cdf = cumulativeDistribution(grayHistogram);
+      const first = cdf.find(c => c > 0) ?? 0;
+      for (let v = 0; v < BINS; v++) {
+        lut[v] = first >= 1 ? v : clampPixelValue(((cdf[v] - first) / (1 - first)) * 255);
+      }
+      break;
+    }
+  }
+  return lut;
+};
+
+/**
+ * Applies a point operation and returns a new image; alpha is kept.
+ */
+export const applyPointOperation = (image: ImageBuffer, operation: PointOperation): ImageBuffer => {
+  const { data, width, height } = image;
+  const needsHistogram = operation.type === 'equalize' || (operation.type === 'threshold' && operation.level === 'otsu');
+  const lut = buildPointLut(operation, needsHistogram ? computeHistograms(image).gray : new Uint32Array(BINS));
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    if (operation.type === 'threshold') {
+      out[i] = out[i + 1] = out[i + 2] = lut[toGray(r, g, b)];
+    } else if (operation.type === 'equalize') {
+      // Remap luma only; the chroma channels carry the color
+      const { y, cb, cr } = rgbToYCbCr(r, g, b);
+      const mapped = yCbCrToRgb(lut[clampPixelValue(y)], cb, cr);
+      out[i] = mapped.r;
+      out[i + 1] = mapped.g;
+      out[i + 2] = mapped.b;
+    } else {
+      out[i] = lut[r];
+      out[i + 1] = lut[g];
+      out[i + 2] = lut[b];
+    }
+    out[i + 3] = data[i + 3];
+  }
+
+  return { data: out, width, height };
+};
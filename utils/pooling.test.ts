@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Golden-value tests for pooling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPoolingOutputSize,
+  validatePoolingOptions,
+  getPoolingWindow,
+  poolPlane,
+  poolPixelMatrix,
+} from './pooling';
+import type { PoolingOptions } from './pooling';
+import { createPixel } from './imageOps';
+
+const PLANE = [
+  [1, 3, 2, 4],
+  [5, 6, 1, 0],
+  [7, 2, 9, 8],
+  [0, 4, 3, 1],
+];
+
+const opts = (overrides: Partial<PoolingOptions> = {}): PoolingOptions => ({
+  mode: 'max',
+  window: 2,
+  stride: 2,
+  padding: 0,
+  ...overrides,
+});
+
+describe('getPoolingOutputSize', () => {
+  it.each([
+    [32, 2, 2, 0, 16],
+    [7, 3, 2, 1, 4],
+    [5, 3, 1, 0, 3],
+    [2, 3, 1, 0, 0],
+  ])('n=%i k=%i s=%i p=%i gives %i', (n, k, s, p, expected) => {
+    expect(getPoolingOutputSize(n, k, s, p)).toBe(expected);
+  });
+});
+
+describe('validatePoolingOptions', () => {
+  it('accepts usable options', () => {
+    expect(validatePoolingOptions(opts())).toBeNull();
+    expect(validatePoolingOptions(opts({ mode: 'global-average', window: 0 }))).toBeNull();
+  });
+
+  it('rejects bad windows, strides and padding', () => {
+    expect(validatePoolingOptions(opts({ window: 0 }))).toMatch(/Window/);
+    expect(validatePoolingOptions(opts({ stride: 1.5 }))).toMatch(/Stride/);
+    expect(validatePoolingOptions(opts({ padding: 2 }))).toMatch(/half/);
+    expect(() => poolPlane(PLANE, opts({ padding: -1 }))).toThrow(/Padding/);
+  });
+});
+
+describe('poolPlane', () => {
+  it('max-pools 2x2 windows and records winners', () => {
+    const { output, winners } = poolPlane(PLANE, opts());
+    expect(output).toEqual([[6, 4], [7, 9]]);
+    expect(winners).toEqual([
+      [{ row: 1, col: 1 }, { row: 0, col: 3 }],
+      [{ row: 2, col: 0 }, { row: 2, col: 2 }],
+    ]);
+  });
+
+  it('average-pools 2x2 windows', () => {
+    const { output, winners } = poolPlane(PLANE, opts({ mode: 'average' }));
+    expect(output).toEqual([[3.75, 1.75], [3.25, 5.25]]);
+    expect(winners).toEqual([]);
+  });
+
+  it('ignores padded cells', () => {
+    const max = poolPlane(PLANE, opts({ window: 3, stride: 2, padding: 1 }));
+    expect(max.output).toEqual([[6, 6], [7, 9]]);
+
+    // Top-left window covers only the real cells 1, 3, 5, 6
+    const avg = poolPlane(PLANE, opts({ mode: 'average', window: 3, stride: 2, padding: 1 }));
+    expect(avg.output[0][0]).toBe(3.75);
+  });
+
+  it('supports overlapping windows', () => {
+    const { output } = poolPlane(PLANE, opts({ window: 3, stride: 1 }));
+    expect(output).toEqual([[9, 9], [9, 9]]);
+  });
+
+  it('breaks ties in reading order', () => {
+    const { winners } = poolPlane([[5, 5], [5, 5]], opts());
+    expect(winners[0][0]).toEqual({ row: 0, col: 0 });
+  });
+
+  it('global-averages to a single value', () => {
+    expect(poolPlane(PLANE, opts({ mode: 'global-average' })).output).toEqual([[3.5]]);
+  });
+});
+
+describe('getPoolingWindow', () => {
+  it('clips windows to the input', () => {
+    expect(getPoolingWindow(0, 0, opts({ window: 3, padding: 1 }), 4, 4)).toEqual({
+      top: 0, left: 0, bottom: 1, right: 1,
+    });
+  });
+});
+
+describe('poolPixelMatrix', () => {
+  it('pools channels independently', () => {
+    const matrix = [
+      [createPixel(255, 0, 0), createPixel(0, 255, 0)],
+      [createPixel(0, 0, 255), createPixel(10, 10, 10)],
+    ];
+    const max = poolPixelMatrix(matrix, opts());
+    expect(max.output[0][0]).toMatchObject({ r: 255, g: 255, b: 255 });
+    expect(max.winners.g[0][0]).toEqual({ row: 0, col: 1 });
+
+    const avg = poolPixelMatrix(matrix, opts({ mode: 'average' }));
+    expect(avg.output[0][0]).toMatchObject({ r: 66, g: 66, b: 66, hex: '#424242' });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Pooling operations for the CNN lab.
+ *
+ * Pooling works on single-channel planes (`number[][]`) so the same code
+ * serves image channels and feature maps. `poolPixelMatrix` runs it over
+ * the R, G and B planes of a `PixelData[][]` matrix.
+ */
+
+import type { PixelData } from '../types';
+import { createPixel } from './imageOps';
+import { clampPixelValue } from './colorConversion';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * - 'max': largest value in each window
+ * - 'average': mean of each window
+ * - 'global-average': mean of the whole plane, giving a 1x1 output
+ */
+export type PoolingMode = 'max' | 'average' | 'global-average';
+
+/**
+ * Window configuration. Ignored in global-average mode.
+ */
+export interface PoolingOptions {
+  mode: PoolingMode;
+  /** Side length of the square window */
+  window: number;
+  /** Step between windows */
+  stride: number;
+  /** Cells added on each side; padded cells never win and are not averaged */
+  padding: number;
+}
+
+/** Row/column of an input cell */
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Pooled plane plus where each output value came from.
+ */
+export interface PlanePoolingResult {
+  output: number[][];
+  /** For max pooling, the input cell that won each window; empty otherwise */
+  winners: CellPosition[][];
+}
+
+/**
+ * Pooled matrix with per-channel winners.
+ */
+export interface PixelPoolingResult {
+  output: PixelData[][];
+  winners: Record<'r' | 'g' | 'b', CellPosition[][]>;
+}
+
+// =============================================================================
+// SHAPE
+// =============================================================================
+
+/**
+ * Output length along one axis: floor((n + 2p - k) / s) + 1.
+ * Returns 0 if the window does not fit even once.
+ *
+ * @example
+ * getPoolingOutputSize(32, 2, 2, 0) // 16
+ * getPoolingOutputSize(7, 3, 2, 1)  // 4
+ */
+export const getPoolingOutputSize = (
+  size: number,
+  window: number,
+  stride: number,
+  padding: number
+): number => {
+  const span = size + 2 * padding - window;
+  return span < 0 ? 0 : Math.floor(span / stride) + 1;
+};
+
+/**
+ * Checks window, stride and padding, returning a message for the first
+ * problem or null if the options are usable.
+ */
+export const validatePoolingOptions = ({ mode, window, stride, padding }: PoolingOptions): string | null => {
+  if (mode === 'global-average') return null;
+  if (!Number.isInteger(window) || window < 1) return 'Window must be a positive integer';
+  if (!Number.isInteger(stride) || stride < 1) return 'Stride must be a positive integer';
+  if (!Number.isInteger(padding) || padding < 0) return 'Padding must be a non-negative integer';
+  // Larger padding would create windows made only of padding
+  if (padding > Math.floor(window / 2)) return 'Padding can be at most half the window';
+  return null;
+};
+
+/**
+ * Input cells covered by an output cell's window, clipped to the input.
+ */
+export const getPoolingWindow = (
+  outRow: number,
+  outCol: number,
+  { window, stride, padding }: PoolingOptions,
+  rows: number,
+  cols: number
+): { top: number; left: number; bottom: number; right: number } => {
+  const top = outRow * stride - padding;
+  const left = outCol * stride - padding;
+  return {
+    top: Math.max(0, top),
+    left: Math.max(0, left),
+    bottom: Math.min(rows, top + window) - 1,
+    right: Math.min(cols, left + window) - 1,
+  };
+};
+
+// =============================================================================
+// POOLING
+// =============================================================================
+
+/**
+ * Pools one plane.
+ *
+ * @throws Error if the options are invalid
+ */
+export const poolPlane = (plane: number[][], options: PoolingOptions): PlanePoolingResult => {
+  const problem = validatePoolingOptions(options);
+  if (problem) throw new Error(problem);
+
+  const rows = plane.length;
+  const cols = plane[0]?.length ?? 0;
+
+  if (options.mode === 'global-average') {
+    const count = rows * cols;
+    const sum = plane.reduce((acc, row) => acc + row.reduce((a, b) => a + b, 0), 0);
+    return { output: count ? [[sum / count]] : [], winners: [] };
+  }
+
+  const outRows = getPoolingOutputSize(rows, options.window, options.stride, options.padding);
+  const outCols = getPoolingOutputSize(cols, options.window, options.stride, options.padding);
+  const isMax = options.mode === 'max';
+  const output: number[][] = [];
+  const winners: CellPosition[][] = [];
+
+  for (let oy = 0; oy < outRows; oy++) {
+    const outRow: number[] = [];
+    const winnerRow: CellPosition[] = [];
+
+    for (let ox = 0; ox < outCols; ox++) {
+      const { top, left, bottom, right } = getPoolingWindow(oy, ox, options, rows, cols);
+      let best = -Infinity;
+      let winner: CellPosition = { row: top, col: left };
+      let sum = 0;
+
+      for (let y = top; y <= bottom; y++) {
+        for (let x = left; x <= right; x++) {
+          const v = plane[y][x];
+          sum += v;
+          // Strict comparison: ties go to the first cell in reading order
+          if (v > best) {
+            best = v;
+            winner = { row: y, col: x };
+          }
+        }
+      }
+
+      if (isMax) {
+        outRow.push(best);
+        winnerRow.push(winner);
+      } else {
+        outRow.push(sum / ((bottom - top + 1) * (right - left + 1)));
+      }
+    }
+
+    output.push(outRow);
+    if (isMax) winners.push(winnerRow);
+  }
+
+  return { output, winners };
+};
+
+/**
+ * Pools each color channel of a pixel matrix independently.
+ * Averages are rounded back to whole 0-255 values.
+ */
+export const poolPixelMatrix = (matrix: PixelData[][], options: PoolingOptions): PixelPoolingResult => {
+  const channel = (key: 'r' | 'g' | 'b') => poolPlane(matrix.map(row => row.map(p => p[key])), options);
+  const r = channel('r');
+  const g = channel('g');
+  const b = channel('b');
+
+  const output = r.output.map((row, y) =>
+    row.map((_, x) => createPixel(
+      clampPixelValue(r.output[y][x]),
+      clampPixelValue(g.output[y][x]),
+      clampPixelValue(b.output[y][x])
+    ))
+  );
+
+  return { output, winners: { r: r.winners, g: g.winners, b: b.winners } };
+};
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Tests for the orbit camera and 3D projection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CAMERA,
+  PITCH_LIMIT,
+  MAX_CAMERA_DISTANCE,
+  getCameraPosition,
+  orbitCamera,
+  zoomCamera,
+  projectPoint,
+  interpolateFromIdentity,
+  transformPoint,
+  fibonacciSphere,
+} from './projection3d';
+import type { OrbitCamera } from './projection3d';
+import { createMatrix } from './linearAlgebra';
+
+/** Looking along -x from +x, level with the xy plane */
+const FRONT: OrbitCamera = { yaw: 0, pitch: 0, distance: 10, fov: Math.PI / 2 };
+
+describe('projectPoint', () => {
+  it('puts the origin at the centre, one camera distance away', () => {
+    const p = projectPoint([0, 0, 0], FRONT, 200, 100)!;
+    expect(p.x).toBeCloseTo(100);
+    expect(p.y).toBeCloseTo(50);
+    expect(p.depth).toBeCloseTo(10);
+  });
+
+  it('keeps z up the screen and +y to the right when looking from +x', () => {
+    const up = projectPoint([0, 0, 1], FRONT, 200, 100)!;
+    const right = projectPoint([0, 1, 0], FRONT, 200, 100)!;
+    // A 90° view on a 100px-high canvas has a 50px focal length: 5px per unit at depth 10
+    expect(up.y).toBeCloseTo(45);
+    expect(right.x).toBeCloseTo(105);
+  });
+
+  it('draws nearer points larger', () => {
+    const near = projectPoint([2, 0, 0], FRONT, 100, 100)!;
+    const far = projectPoint([-2, 0, 0], FRONT, 100, 100)!;
+    expect(near.scale).toBeGreaterThan(far.scale);
+    expect(near.depth).toBeLessThan(far.depth);
+  });
+
+  it('drops points behind the camera', () => {
+    expect(projectPoint([20, 0, 0], FRONT, 100, 100)).toBeNull();
+  });
+});
+
+describe('orbit controls', () => {
+  it('keeps the camera on its sphere', () => {
+    const [x, y, z] = getCameraPosition(orbitCamera(DEFAULT_CAMERA, 1.3, 0.4));
+    expect(Math.hypot(x, y, z)).toBeCloseTo(DEFAULT_CAMERA.distance);
+  });
+
+  it('clamps pitch short of the poles and distance to its range', () => {
+    expect(orbitCamera(DEFAULT_CAMERA, 0, 10).pitch).toBe(PITCH_LIMIT);
+    expect(zoomCamera(DEFAULT_CAMERA, 100).distance).toBe(MAX_CAMERA_DISTANCE);
+  });
+});
+
+describe('interpolateFromIdentity', () => {
+  const shear = createMatrix([[1, 2, 0], [0, 1, 0], [0, 0, 3]]);
+
+  it('runs from the identity to the matrix', () => {
+    expect(interpolateFromIdentity(shear, 0).data).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+    expect(interpolateFromIdentity(shear, 1).data).toEqual(shear.data);
+    expect(interpolateFromIdentity(shear, 0.5).data).toEqual([[1, 1, 0], [0, 1, 0], [0, 0, 2]]);
+  });
+
+  it('moves points in a straight line', () => {
+    const start = transformPoint(interpolateFromIdentity(shear, 0), [1, 1, 1]);
+    const middle = transformPoint(interpolateFromIdentity(shear, 0.5), [1, 1, 1]);
+    const end = transformPoint(interpolateFromIdentity(shear, 1), [1, 1, 1]);
+    middle.forEach((v, i) => expect(v).toBeCloseTo((start[i] + end[i]) / 2));
+  });
+});
+
+describe('fibonacciSphere', () => {
+  it('places every point on the sphere', () => {
+    const points = fibonacciSphere(50, 2);
+    expect(points).toHaveLength(50);
+    for (const p of points) expect(Math.hypot(...p)).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Software 3D projection for canvas drawings.
+ *
+ * World space is right-handed with z up. An orbit camera sits on a sphere
+ * around the origin, described by yaw (around z), pitch (above the xy
+ * plane) and distance, and always looks at the origin. Points are mapped
+ * into the camera's frame and divided by depth for perspective; there is
+ * no z-buffer, so callers draw far-to-near using the returned depth.
+ */
+
+import { identity, multiplyVector } from './linearAlgebra';
+import type { Matrix } from '../src/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Vec3 = [number, number, number];
+
+export interface OrbitCamera {
+  /** Angle around the z axis, in radians; 0 looks from +x */
+  yaw: number;
+  /** Angle above the xy plane, in radians */
+  pitch: number;
+  /** Distance from the origin */
+  distance: number;
+  /** Vertical field of view, in radians */
+  fov: number;
+}
+
+export interface ProjectedPoint {
+  /** Canvas coordinates, y down */
+  x: number;
+  y: number;
+  /** Distance in front of the camera, for sorting */
+  depth: number;
+  /** Pixels per world unit at this depth, for sizing markers */
+  scale: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_CAMERA: OrbitCamera = {
+  yaw: -Math.PI / 5,
+  pitch: Math.PI / 7,
+  distance: 9,
+  fov: Math.PI / 4,
+};
+
+/** Pitch stops short of the poles, where the camera's "right" is undefined */
+export const PITCH_LIMIT = Math.PI / 2 - 0.05;
+
+export const MIN_CAMERA_DISTANCE = 3;
+export const MAX_CAMERA_DISTANCE = 30;
+
+/** Points closer to the camera than this are not drawn */
+const NEAR_PLANE = 0.1;
+
+const WORLD_UP: Vec3 = [0, 0, 1];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.sqrt(dot(v, v));
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// =============================================================================
+// CAMERA
+// =============================================================================
+
+/**
+ * Position of the camera in world space.
+ */
+export const getCameraPosition = ({ yaw, pitch, distance }: OrbitCamera): Vec3 => [
+  distance * Math.cos(pitch) * Math.cos(yaw),
+  distance * Math.cos(pitch) * Math.sin(yaw),
+  distance * Math.sin(pitch),
+];
+
+/**
+ * Turns the camera around the origin, keeping pitch inside ±PITCH_LIMIT.
+ */
+export const orbitCamera = (camera: OrbitCamera, deltaYaw: number, deltaPitch: number): OrbitCamera => ({
+  ...camera,
+  yaw: camera.yaw + deltaYaw,
+  pitch: Math.max(-PITCH_LIMIT, Math.min(PITCH_LIMIT, camera.pitch + deltaPitch)),
+});
+
+/**
+ * Moves the camera towards (factor < 1) or away from (factor > 1) the
+ * origin, within MIN_CAMERA_DISTANCE and MAX_CAMERA_DISTANCE.
+ */
+export const zoomCamera = (camera: OrbitCamera, factor: number): OrbitCamera => ({
+  ...camera,
+  distance: Math.max(MIN_CAMERA_DISTANCE, Math.min(MAX_CAMERA_DISTANCE, camera.distance * factor)),
+});
+
+/**
+ * Coordinates of a world point in the camera's frame: x to the right,
+ * y up the screen, z straight ahead.
+ */
+export const toViewSpace = (point: Vec3, camera: OrbitCamera): Vec3 => {
+  const eye = getCameraPosition(camera);
+  const forward = normalize([-eye[0], -eye[1], -eye[2]]);
+  const right = normalize(cross(forward, WORLD_UP));
+  const up = cross(right, forward);
+  const offset: Vec3 = [point[0] - eye[0], point[1] - eye[1], point[2] - eye[2]];
+  return [dot(offset, right), dot(offset, up), dot(offset, forward)];
+};
+
+/**
+ * Perspective projection onto a canvas of the given size, with the
+ * origin at the centre. Returns null for points behind the near plane.
+ */
+export const projectPoint = (
+  point: Vec3,
+  camera: OrbitCamera,
+  width: number,
+  height: number
+): ProjectedPoint | null => {
+  const [x, y, z] = toViewSpace(point, camera);
+  if (z < NEAR_PLANE) return null;
+  const focal = height / 2 / Math.tan(camera.fov / 2);
+  const scale = focal / z;
+  return { x: width / 2 + x * scale, y: height / 2 - y * scale, depth: z, scale };
+};
+
+// =============================================================================
+// TRANSFORMS
+// =============================================================================
+
+/**
+ * Applies a 3×3 matrix to a point.
+ */
+export const transformPoint = (m: Matrix, point: Vec3): Vec3 => multiplyVector(m, point) as Vec3;
+
+/**
+ * The straight-line blend (1 - t)·I + t·M, so t = 0 is the identity and
+ * t = 1 is M. Every point moves along a straight line from p to Mp.
+ */
+export const interpolateFromIdentity = (m: Matrix, t: number): Matrix => {
+  const { data } = identity(m.rows);
+  return { rows: m.rows, cols: m.cols, data: m.data.map((row, i) => row.map((v, j) => (1 - t) * data[i][j] + t * v)) };
+};
+
+/** Smoothstep easing for animations: slow at both ends */
+export const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Evenly spread points on a sphere, placed along a Fibonacci spiral so
+ * the result is the same every time.
+ */
+export const fibonacciSphere = (count: number, radius = 1): Vec3[] => {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, i) => {
+    const z = count === 1 ? 0 : 1 - (2 * i) / (count - 1);
+    const ring = Math.sqrt(1 - z * z);
+    const theta = golden * i;
+    return [radius * ring * Math.cos(theta), radius * ring * Math.sin(theta), radius * z];
+  });
+};
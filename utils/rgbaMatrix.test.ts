@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Tests for typed-array pixel matrices.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createRgbaMatrix,
+  extractRgbaMatrix,
+  toRgbaMatrix,
+  rgbaMatrixToPixels,
+  getGrayView,
+  getGrayAt,
+  getHexAt,
+  getPixelAt,
+} from './rgbaMatrix';
+import { createPixel } from './imageOps';
+
+// 2×2: red, green / blue, white
+const MATRIX = createRgbaMatrix(2, 2, new Uint8ClampedArray([
+  255, 0, 0, 255,    0, 255, 0, 255,
+  0, 0, 255, 255,    255, 255, 255, 128,
+]));
+
+describe('createRgbaMatrix', () => {
+  it('zero-fills by default and checks the data length', () => {
+    expect(createRgbaMatrix(3, 2).data).toEqual(new Uint8ClampedArray(24));
+    expect(() => createRgbaMatrix(2, 2, new Uint8ClampedArray(12))).toThrow('Expected 16 bytes');
+  });
+});
+
+describe('accessors', () => {
+  it('match the PixelData fields', () => {
+    expect(getPixelAt(MATRIX, 1, 1)).toEqual(createPixel(255, 255, 255, 128));
+    expect(getHexAt(MATRIX, 0, 0)).toBe('#FF0000');
+    expect(getHexAt(MATRIX, 1, 0)).toBe(createPixel(0, 255, 0).hex);
+    expect(getGrayAt(MATRIX, 0, 1)).toBe(createPixel(0, 0, 255).gray);
+  });
+
+  it('computes the gray view once per matrix', () => {
+    const view = getGrayView(MATRIX);
+    expect(Array.from(view)).toEqual([76, 150, 29, 255]);
+    expect(getGrayView(MATRIX)).toBe(view);
+  });
+});
+
+describe('adapters', () => {
+  it('round-trips through PixelData[][]', () => {
+    const pixels = rgbaMatrixToPixels(MATRIX);
+    expect(pixels).toHaveLength(2);
+    expect(pixels[0][1]).toEqual(createPixel(0, 255, 0));
+    expect(toRgbaMatrix(pixels)).toEqual(MATRIX);
+    expect(toRgbaMatrix(MATRIX)).toBe(MATRIX);
+  });
+
+  it('reads a canvas region in one call', () => {
+    const getImageData = vi.fn((_x: number, _y: number, w: number, h: number) => ({
+      data: new Uint8ClampedArray(w * h * 4),
+    }) as ImageData);
+
+    const matrix = extractRgbaMatrix({ getImageData }, 4, 5, 256);
+    expect(getImageData).toHaveBeenCalledTimes(1);
+    expect(getImageData).toHaveBeenCalledWith(4, 5, 256, 256);
+    expect(matrix.width).toBe(256);
+    expect(matrix.data).toHaveLength(256 * 256 * 4);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Compact pixel matrices backed by a single typed array.
+ *
+ * `PixelData[][]` keeps six fields and a hex string per pixel, which is
+ * fine for a 12×12 grid but turns every live frame at 256×256 into 65k
+ * allocations. An `RgbaMatrix` stores the same pixels as interleaved RGBA
+ * bytes - the layout of `ImageData` and of the convolution engine - and
+ * derives gray and hex values only when something asks for them.
+ */
+
+import type { PixelData } from '../types';
+import { toGray } from './colorConversion';
+import { createPixel, pixelMatrixToBuffer, bufferToPixelMatrix } from './imageOps';
+import type { ImageBuffer } from './imageOps';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A row-major matrix of RGBA pixels. Any `ImageBuffer`, including
+ * `ImageData`, can be used as one without copying.
+ */
+export type RgbaMatrix = ImageBuffer;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Uppercase two-digit hex for every byte value */
+const HEX_BYTES = Array.from({ length: 256 }, (_, i) => i.toString(16).toUpperCase().padStart(2, '0'));
+
+// Derived views, computed on first use and released with their matrix
+const grayViews = new WeakMap<RgbaMatrix, Uint8Array>();
+const hexViews = new WeakMap<RgbaMatrix, (string | undefined)[]>();
+
+// =============================================================================
+// CONSTRUCTION
+// =============================================================================
+
+/**
+ * Creates a matrix, zero-filled unless `data` is given.
+ *
+ * @throws Error if `data` does not hold `width * height` RGBA pixels
+ */
+export const createRgbaMatrix = (width: number, height: number, data?: Uint8ClampedArray): RgbaMatrix => {
+  const length = width * height * 4;
+  if (data && data.length !== length) {
+    throw new Error(`Expected ${length} bytes for a ${width}×${height} matrix, got ${data.length}`);
+  }
+  return { data: data ?? new Uint8ClampedArray(length), width, height };
+};
+
+/** A 0×0 matrix, used before any image is loaded */
+export const EMPTY_RGBA_MATRIX: RgbaMatrix = createRgbaMatrix(0, 0);
+
+/**
+ * Reads a canvas region with a single `getImageData` call.
+ *
+ * @param ctx - Canvas to read from
+ * @param x - Left edge of the region
+ * @param y - Top edge of the region
+ * @param width - Region width in pixels
+ * @param height - Region height in pixels (default: `width`)
+ */
+export const extractRgbaMatrix = (
+  ctx: Pick<CanvasRenderingContext2D, 'getImageData'>,
+  x: number,
+  y: number,
+  width: number,
+  height = width
+): RgbaMatrix => {
+  const { data } = ctx.getImageData(x, y, width, height);
+  return { data, width, height };
+};
+
+/**
+ * Accepts either representation and returns an `RgbaMatrix`.
+ */
+export const toRgbaMatrix = (matrix: RgbaMatrix | PixelData[][]): RgbaMatrix =>
+  Array.isArray(matrix) ? pixelMatrixToBuffer(matrix) : matrix;
+
+/**
+ * Expands a matrix into `PixelData[][]` for code that still needs
+ * per-pixel objects. Prefer the accessors below in per-frame code.
+ */
+export const rgbaMatrixToPixels = (matrix: RgbaMatrix): PixelData[][] => bufferToPixelMatrix(matrix);
+
+// =============================================================================
+// ACCESSORS
+// =============================================================================
+
+/**
+ * Byte offset of the pixel at (x, y); R, G, B and A follow in order.
+ */
+export const pixelOffset = (matrix: RgbaMatrix, x: number, y: number): number => (y * matrix.width + x) * 4;
+
+/**
+ * Luminance of every pixel, computed once per matrix.
+ */
+export const getGrayView = (matrix: RgbaMatrix): Uint8Array => {
+  let view = grayViews.get(matrix);
+  if (!view) {
+    const { data } = matrix;
+    view = new Uint8Array(matrix.width * matrix.height);
+    for (let i = 0, p = 0; p < view.length; i += 4, p++) {
+      view[p] = toGray(data[i], data[i + 1], data[i + 2]);
+    }
+    grayViews.set(matrix, view);
+  }
+  return view;
+};
+
+/**
+ * Luminance of the pixel at (x, y).
+ */
+export const getGrayAt = (matrix: RgbaMatrix, x: number, y: number): number =>
+  getGrayView(matrix)[y * matrix.width + x];
+
+/**
+ * `#RRGGBB` of the pixel at (x, y). Strings are built the first time
+ * each pixel is asked for, so only visible labels pay for them.
+ */
+export const getHexAt = (matrix: RgbaMatrix, x: number, y: number): string => {
+  let view = hexViews.get(matrix);
+  if (!view) {
+    view = new Array(matrix.width * matrix.height);
+    hexViews.set(matrix, view);
+  }
+  const index = y * matrix.width + x;
+  let hex = view[index];
+  if (hex === undefined) {
+    const i = index * 4;
+    hex = `#${HEX_BYTES[matrix.data[i]]}${HEX_BYTES[matrix.data[i + 1]]}${HEX_BYTES[matrix.data[i + 2]]}`;
+    view[index] = hex;
+  }
+  return hex;
+};
+
+/**
+ * The pixel at (x, y) as a `PixelData`, e.g. for a tooltip.
+ */
+export const getPixelAt = (matrix: RgbaMatrix, x: number, y: number): PixelData => {
+  const i = pixelOffset(matrix, x, y);
+  const { data } = matrix;
+  return createPixel(data[i], data[i + 1], data[i + 2], data[i + 3]);
+};
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Worker that filters camera frames off the main thread.
+ *
+ * Receives either an `ImageBitmap` to scale with a reused OffscreenCanvas
+ * or raw RGBA bytes, runs `applyFrameFilter` and posts both the source and
+ * filtered pixels back as transferred buffers.
+ */
+
+import { applyFrameFilter } from '../utils/frameFilter';
+import type { ImageBuffer } from '../utils/imageOps';
+import type { FrameRequest, FrameResponse } from './frameProtocol';
+
+let canvas: OffscreenCanvas | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+
+/**
+ * Scales a bitmap to the requested size and reads its pixels. The canvas
+ * is only recreated when the size changes.
+ */
+const readBitmap = (bitmap: ImageBitmap, width: number, height: number): ImageBuffer => {
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height);
+    context = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!context) throw new Error('OffscreenCanvas 2D context unavailable');
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return context.getImageData(0, 0, width, height);
+};
+
+const respond = (response: FrameResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.addEventListener('message', (event: MessageEvent<FrameRequest>) => {
+  const { id, width, height, bitmap, pixels } = event.data;
+  const start = performance.now();
+
+  try {
+    const source: ImageBuffer = bitmap
+      ? readBitmap(bitmap, width, height)
+      : { data: new Uint8ClampedArray(pixels!), width, height };
+    const filtered = applyFrameFilter(source, event.data);
+
+    respond({
+      type: 'frame',
+      id,
+      width: filtered.width,
+      height: filtered.height,
+      source: source.data.buffer as ArrayBuffer,
+      filtered: filtered.data.buffer as ArrayBuffer,
+      processMs: performance.now() - start,
+    }, [source.data.buffer as ArrayBuffer, filtered.data.buffer as ArrayBuffer]);
+  } catch (error) {
+    bitmap?.close();
+    respond({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Messages exchanged with the frame processing worker.
+ *
+ * Pixel data always travels as transferable buffers, so posting a frame
+ * moves it between threads instead of copying it.
+ */
+
+import type { FrameFilterSettings } from '../utils/frameFilter';
+
+/**
+ * A frame to filter. Exactly one of `bitmap` and `pixels` is set.
+ */
+export interface FrameRequest extends FrameFilterSettings {
+  id: number;
+  /** Size to process at; a bitmap is scaled to it in the worker */
+  width: number;
+  height: number;
+  /** Full-size video frame, drawn into an OffscreenCanvas by the worker */
+  bitmap?: ImageBitmap;
+  /** RGBA bytes already read on the main thread, `width * height * 4` long */
+  pixels?: ArrayBuffer;
+}
+
+/**
+ * A filtered frame, or why it could not be filtered.
+ */
+export type FrameResponse =
+  | {
+      type: 'frame';
+      id: number;
+      width: number;
+      height: number;
+      /** Unfiltered RGBA bytes at the processed size */
+      source: ArrayBuffer;
+      /** Filtered RGBA bytes, same size as `source` */
+      filtered: ArrayBuffer;
+      /** Time spent inside the worker */
+      processMs: number;
+    }
+  | { type: 'error'; id: number; message: string };